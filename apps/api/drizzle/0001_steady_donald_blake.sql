@@ -0,0 +1,2 @@
+ALTER TABLE "filter_presets" ADD COLUMN "sort_expression" text;--> statement-breakpoint
+ALTER TABLE "filter_presets" ADD COLUMN "columns" jsonb;
\ No newline at end of file
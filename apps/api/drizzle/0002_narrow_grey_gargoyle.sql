@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS "score_models" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"rank_within" text DEFAULT 'universe' NOT NULL,
+	"groups" jsonb NOT NULL,
+	"is_public" boolean DEFAULT false,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "filter_presets" ADD COLUMN "score_model" jsonb;--> statement-breakpoint
+ALTER TABLE "filter_presets" ADD COLUMN "min_score" real;
\ No newline at end of file
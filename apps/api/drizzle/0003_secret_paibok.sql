@@ -0,0 +1,4 @@
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "piotroski_score" integer;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "altman_z_score" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "beneish_m_score" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "graham_number" real;
\ No newline at end of file
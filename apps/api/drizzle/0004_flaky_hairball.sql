@@ -0,0 +1,32 @@
+ALTER TABLE "daily_indicators" ADD COLUMN IF NOT EXISTS "bb_upper" real;--> statement-breakpoint
+ALTER TABLE "daily_indicators" ADD COLUMN IF NOT EXISTS "bb_middle" real;--> statement-breakpoint
+ALTER TABLE "daily_indicators" ADD COLUMN IF NOT EXISTS "bb_lower" real;--> statement-breakpoint
+ALTER TABLE "daily_indicators" ADD COLUMN IF NOT EXISTS "bb_percent_b" real;--> statement-breakpoint
+ALTER TABLE "daily_indicators" ADD COLUMN IF NOT EXISTS "bb_bandwidth" real;--> statement-breakpoint
+ALTER TABLE "daily_indicators" ADD COLUMN IF NOT EXISTS "atr14" real;--> statement-breakpoint
+ALTER TABLE "daily_indicators" ADD COLUMN IF NOT EXISTS "atr_percent" real;--> statement-breakpoint
+ALTER TABLE "daily_indicators" ADD COLUMN IF NOT EXISTS "stoch_k" real;--> statement-breakpoint
+ALTER TABLE "daily_indicators" ADD COLUMN IF NOT EXISTS "stoch_d" real;--> statement-breakpoint
+ALTER TABLE "daily_indicators" ADD COLUMN IF NOT EXISTS "adx14" real;--> statement-breakpoint
+ALTER TABLE "daily_indicators" ADD COLUMN IF NOT EXISTS "plus_di" real;--> statement-breakpoint
+ALTER TABLE "daily_indicators" ADD COLUMN IF NOT EXISTS "minus_di" real;--> statement-breakpoint
+ALTER TABLE "daily_indicators" ADD COLUMN IF NOT EXISTS "obv" real;--> statement-breakpoint
+ALTER TABLE "daily_indicators" ADD COLUMN IF NOT EXISTS "mfi14" real;--> statement-breakpoint
+ALTER TABLE "daily_indicators" ADD COLUMN IF NOT EXISTS "cci20" real;--> statement-breakpoint
+ALTER TABLE "daily_indicators" ADD COLUMN IF NOT EXISTS "williams_r" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "bb_upper" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "bb_middle" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "bb_lower" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "bb_percent_b" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "bb_bandwidth" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "atr14" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "atr_percent" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "stoch_k" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "stoch_d" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "adx14" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "plus_di" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "minus_di" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "obv" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "mfi14" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "cci20" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "williams_r" real;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "indicator_cache" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"key" text NOT NULL,
+	"symbol" text NOT NULL,
+	"date" date NOT NULL,
+	"value" real,
+	"computed_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "indicator_cache" ADD CONSTRAINT "indicator_cache_symbol_tickers_symbol_fk" FOREIGN KEY ("symbol") REFERENCES "public"."tickers"("symbol") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "indicator_cache_key_symbol_date_idx" ON "indicator_cache" ("key","symbol","date");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "indicator_cache_key_date_idx" ON "indicator_cache" ("key","date");
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TABLE IF NOT EXISTS "candle_patterns" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"symbol" text NOT NULL,
+	"date" date NOT NULL,
+	"pattern" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "doji_age" integer;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "hammer_age" integer;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "shooting_star_age" integer;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "bullish_engulfing_age" integer;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "bearish_engulfing_age" integer;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "morning_star_age" integer;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "evening_star_age" integer;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "three_white_soldiers_age" integer;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "inside_bar_age" integer;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "candle_patterns" ADD CONSTRAINT "candle_patterns_symbol_tickers_symbol_fk" FOREIGN KEY ("symbol") REFERENCES "public"."tickers"("symbol") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "candle_patterns_symbol_date_pattern_idx" ON "candle_patterns" ("symbol","date","pattern");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "candle_patterns_pattern_date_idx" ON "candle_patterns" ("pattern","date");
\ No newline at end of file
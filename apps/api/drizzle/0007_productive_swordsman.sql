@@ -0,0 +1,9 @@
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "volatility_20" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "volatility_60" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "volatility_252" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "max_drawdown" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "downside_deviation" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "sharpe_ratio" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "sortino_ratio" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "benchmark_beta" real;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "benchmark_correlation" real;
\ No newline at end of file
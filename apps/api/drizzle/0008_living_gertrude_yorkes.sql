@@ -0,0 +1,3 @@
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "rs_rating" integer;--> statement-breakpoint
+ALTER TABLE "latest_snapshot" ADD COLUMN IF NOT EXISTS "rs_vs_benchmark" real;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "latest_snapshot_rs_rating_idx" ON "latest_snapshot" ("rs_rating");
\ No newline at end of file
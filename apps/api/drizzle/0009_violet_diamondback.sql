@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS "market_breadth" (
+	"date" date PRIMARY KEY NOT NULL,
+	"advances" integer NOT NULL,
+	"declines" integer NOT NULL,
+	"unchanged" integer NOT NULL,
+	"advance_decline_line" real,
+	"new_highs" integer NOT NULL,
+	"new_lows" integer NOT NULL,
+	"percent_above_sma50" real,
+	"percent_above_sma200" real,
+	"mcclellan_oscillator" real,
+	"computed_at" timestamp DEFAULT now()
+);
@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS "jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"type" text NOT NULL,
+	"payload" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 5 NOT NULL,
+	"dedupe_key" text,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"last_error" text,
+	"result" jsonb,
+	"created_at" timestamp DEFAULT now(),
+	"started_at" timestamp,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "jobs_claim_idx" ON "jobs" ("status","run_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "jobs_type_idx" ON "jobs" ("type");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "jobs_dedupe_idx" ON "jobs" ("dedupe_key") WHERE status IN ('queued', 'running');
\ No newline at end of file
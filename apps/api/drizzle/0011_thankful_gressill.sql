@@ -0,0 +1 @@
+ALTER TABLE "filter_presets" ADD COLUMN "edit_token_hash" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "score_models" ADD COLUMN "edit_token_hash" text;
\ No newline at end of file
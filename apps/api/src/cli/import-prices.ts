@@ -0,0 +1,104 @@
+import fs from 'fs';
+import path from 'path';
+import { checkDbConnection } from '../db';
+import { dataSyncService } from '../services/data-sync';
+import type { PriceImportSource } from '../services/price-import';
+
+// ============================================
+// Bulk price import CLI
+// ============================================
+// Usage: bun run import:prices <file|directory>... [--symbol SYM] [--no-recompute]
+//
+// Imports .csv and .csv.gz files (directories are scanned, not recursively).
+// Files without a symbol column take --symbol, or else their file name
+// (AAPL.csv -> AAPL).
+
+const USAGE = 'Usage: bun run import:prices <file|directory>... [--symbol SYM] [--no-recompute]';
+
+const isCsv = (file: string) => /\.csv(\.gz)?$/i.test(file);
+
+function parseArgs(args: string[]): { paths: string[]; symbol?: string; recompute: boolean } {
+  const paths: string[] = [];
+  let symbol: string | undefined;
+  let recompute = true;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--symbol') symbol = args[++i];
+    else if (args[i] === '--no-recompute') recompute = false;
+    else if (args[i].startsWith('--')) throw new Error(`Unknown option ${args[i]}`);
+    else paths.push(args[i]);
+  }
+
+  if (paths.length === 0) throw new Error('No files given');
+  return { paths, symbol, recompute };
+}
+
+// CSV files named directly or inside the given directories
+function collectFiles(paths: string[]): string[] {
+  return paths.flatMap(target => {
+    if (!fs.existsSync(target)) throw new Error(`${target} does not exist`);
+    if (!fs.statSync(target).isDirectory()) return [target];
+
+    return fs.readdirSync(target)
+      .filter(isCsv)
+      .sort()
+      .map(file => path.join(target, file));
+  });
+}
+
+function toSource(file: string, symbol?: string): PriceImportSource {
+  const stream = Bun.file(file).stream();
+  return {
+    name: path.basename(file),
+    stream: file.toLowerCase().endsWith('.gz') ? stream.pipeThrough(new DecompressionStream('gzip')) : stream,
+    symbol: symbol ?? path.basename(file).replace(/\.csv(\.gz)?$/i, ''),
+  };
+}
+
+async function main(): Promise<number> {
+  let options: ReturnType<typeof parseArgs>;
+  let files: string[];
+  try {
+    options = parseArgs(process.argv.slice(2));
+    files = collectFiles(options.paths);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(USAGE);
+    return 1;
+  }
+
+  if (files.length === 0) {
+    console.error('No .csv files found');
+    return 1;
+  }
+
+  if (!await checkDbConnection()) {
+    console.error('Database not available (is DATABASE_URL set?)');
+    return 1;
+  }
+
+  const result = await dataSyncService.importPrices(
+    files.map(file => toSource(file, options.symbol)),
+    { recompute: options.recompute }
+  );
+
+  if (result.status !== 'completed') {
+    console.error(`Import ${result.status}: ${result.reason}`);
+    return 1;
+  }
+
+  console.log(`Imported ${result.processed} rows for ${result.symbols?.length ?? 0} symbols from ${files.length} files`);
+  if (result.createdTickers?.length) {
+    console.log(`Created ${result.createdTickers.length} tickers: ${result.createdTickers.slice(0, 20).join(', ')}${result.createdTickers.length > 20 ? ', ...' : ''}`);
+  }
+  if (result.failed) {
+    console.log(`Rejected ${result.failed} lines${result.failed > (result.rejects?.length ?? 0) ? ` (first ${result.rejects?.length} shown)` : ''}:`);
+    for (const reject of result.rejects ?? []) {
+      console.log(`  ${reject.source}:${reject.line} ${reject.reason}`);
+    }
+  }
+
+  return 0;
+}
+
+process.exit(await main());
@@ -1,6 +1,8 @@
 import { broadcastStockUpdate } from '../routes/websocket';
 import { redis, REDIS_KEYS, REDIS_TTL } from '../lib/redis';
 import type { StockIndicators } from '@screener/shared';
+import { marketData, SimulatedProvider } from '../providers';
+import { SimulatedAggregateSocket } from './simulated-websocket';
 
 const WS_URL_DELAYED = 'wss://delayed.polygon.io/stocks';
 const WS_URL_REALTIME = 'wss://socket.polygon.io/stocks';
@@ -22,6 +24,8 @@ interface WSMessage {
 
 type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'authenticated';
 
+type SocketFactory = (url: string) => WebSocket;
+
 export class MassiveWebSocketClient {
   private ws: WebSocket | null = null;
   private apiKey: string;
@@ -33,7 +37,7 @@ export class MassiveWebSocketClient {
   private reconnectDelay = 1000;
   private indicatorCache: Map<string, Partial<StockIndicators>> = new Map();
 
-  constructor(useRealtime: boolean = false) {
+  constructor(useRealtime: boolean = false, private createSocket?: SocketFactory) {
     this.apiKey = process.env.MASSIVE_API_KEY || '';
     this.useRealtime = useRealtime;
   }
@@ -44,7 +48,7 @@ export class MassiveWebSocketClient {
       return;
     }
 
-    if (!this.apiKey) {
+    if (!this.apiKey && !this.createSocket) {
       console.error('MASSIVE_API_KEY not set. WebSocket connection will fail.');
       return;
     }
@@ -53,10 +57,10 @@ export class MassiveWebSocketClient {
     const url = this.useRealtime ? WS_URL_REALTIME : WS_URL_DELAYED;
 
     try {
-      this.ws = new WebSocket(url);
+      this.ws = this.createSocket ? this.createSocket(url) : new WebSocket(url);
 
       this.ws.onopen = () => {
-        console.log('WebSocket connected to Massive');
+        console.log(this.createSocket ? 'WebSocket connected to simulated feed' : 'WebSocket connected to Massive');
         this.authenticate();
       };
 
@@ -259,9 +263,16 @@ export class MassiveWebSocketClient {
 // Singleton instance
 let wsClient: MassiveWebSocketClient | null = null;
 
+// With the simulated provider the aggregate stream comes from its market
 export function getMassiveWSClient(useRealtime: boolean = false): MassiveWebSocketClient {
   if (!wsClient) {
-    wsClient = new MassiveWebSocketClient(useRealtime);
+    if (marketData instanceof SimulatedProvider) {
+      const { market } = marketData;
+      // Same protocol and handler properties as the real socket
+      wsClient = new MassiveWebSocketClient(useRealtime, () => new SimulatedAggregateSocket(market) as unknown as WebSocket);
+    } else {
+      wsClient = new MassiveWebSocketClient(useRealtime);
+    }
   }
   return wsClient;
 }
@@ -15,6 +15,16 @@ import type {
   NewsPublisher,
   ChartBar,
 } from '@screener/shared';
+import type {
+  MarketDataProvider,
+  TickerListParams,
+  AggregatesParams,
+  TickerDetailsSummary,
+  StatementParams,
+  DividendParams,
+  SplitParams,
+  NewsParams,
+} from '../providers/types';
 
 const BASE_URL = 'https://api.polygon.io';
 
@@ -191,7 +201,8 @@ interface NewsAPIResponse {
 // ============================================
 // MassiveClient with Resilience Patterns
 // ============================================
-export class MassiveClient {
+export class MassiveClient implements MarketDataProvider {
+  readonly name = 'massive' as const;
   private apiKey: string;
   private baseUrl: string;
 
@@ -338,13 +349,7 @@ export class MassiveClient {
   // Reference Data
   // ============================================
 
-  async getTickers(params: {
-    market?: string;
-    type?: string;
-    active?: boolean;
-    limit?: number;
-    search?: string;
-  } = {}): Promise<Ticker[]> {
+  async getTickers(params: TickerListParams = {}): Promise<Ticker[]> {
     const response = await this.requestWithRetry<MassiveAPIResponse<Ticker[]>>('/v3/reference/tickers', {
       market: params.market || 'stocks',
       active: params.active !== false ? 'true' : 'false',
@@ -404,16 +409,7 @@ export class MassiveClient {
   // Aggregates (OHLCV)
   // ============================================
 
-  async getAggregates(params: {
-    symbol: string;
-    multiplier: number;
-    timespan: 'minute' | 'hour' | 'day' | 'week' | 'month';
-    from: string;
-    to: string;
-    adjusted?: boolean;
-    sort?: 'asc' | 'desc';
-    limit?: number;
-  }): Promise<ChartBar[]> {
+  async getAggregates(params: AggregatesParams): Promise<ChartBar[]> {
     const response = await this.requestWithRetry<MassiveAPIResponse<ChartBar[]>>(
       `/v2/aggs/ticker/${params.symbol}/range/${params.multiplier}/${params.timespan}/${params.from}/${params.to}`,
       {
@@ -512,14 +508,7 @@ export class MassiveClient {
   // Ticker Details (Basic)
   // ============================================
 
-  async getTickerDetails(symbol: string): Promise<{
-    name: string;
-    market_cap?: number;
-    branding?: {
-      logo_url?: string;
-      icon_url?: string;
-    };
-  } | null> {
+  async getTickerDetails(symbol: string): Promise<TickerDetailsSummary | null> {
     const response = await this.requestWithRetry<TickerDetailsResponse>(
       `/v3/reference/tickers/${symbol}`
     );
@@ -581,11 +570,7 @@ export class MassiveClient {
   // Financial Statements
   // ============================================
 
-  async getIncomeStatements(symbol: string, params?: {
-    timeframe?: 'quarterly' | 'annual' | 'ttm';
-    limit?: number;
-    filing_date_gte?: string;
-  }): Promise<PolygonIncomeStatement[]> {
+  async getIncomeStatements(symbol: string, params?: StatementParams): Promise<PolygonIncomeStatement[]> {
     const response = await this.requestWithRetry<FinancialsAPIResponse<PolygonIncomeStatement>>(
       '/stocks/financials/v1/income-statements',
       {
@@ -599,10 +584,7 @@ export class MassiveClient {
     return response?.results || [];
   }
 
-  async getBalanceSheets(symbol: string, params?: {
-    timeframe?: 'quarterly' | 'annual' | 'ttm';
-    limit?: number;
-  }): Promise<PolygonBalanceSheet[]> {
+  async getBalanceSheets(symbol: string, params?: StatementParams): Promise<PolygonBalanceSheet[]> {
     const response = await this.requestWithRetry<FinancialsAPIResponse<PolygonBalanceSheet>>(
       '/stocks/financials/v1/balance-sheets',
       {
@@ -615,10 +597,7 @@ export class MassiveClient {
     return response?.results || [];
   }
 
-  async getCashFlowStatements(symbol: string, params?: {
-    timeframe?: 'quarterly' | 'annual' | 'ttm';
-    limit?: number;
-  }): Promise<PolygonCashFlowStatement[]> {
+  async getCashFlowStatements(symbol: string, params?: StatementParams): Promise<PolygonCashFlowStatement[]> {
     const response = await this.requestWithRetry<FinancialsAPIResponse<PolygonCashFlowStatement>>(
       '/stocks/financials/v1/cash-flow-statements',
       {
@@ -668,10 +647,7 @@ export class MassiveClient {
   // Dividends
   // ============================================
 
-  async getDividends(symbol: string, params?: {
-    limit?: number;
-    ex_dividend_date_gte?: string;
-  }): Promise<Dividend[]> {
+  async getDividends(symbol: string, params?: DividendParams): Promise<Dividend[]> {
     const response = await this.requestWithRetry<DividendsAPIResponse>(
       '/stocks/v1/dividends',
       {
@@ -697,10 +673,7 @@ export class MassiveClient {
   // Stock Splits
   // ============================================
 
-  async getStockSplits(symbol: string, params?: {
-    limit?: number;
-    execution_date_gte?: string;
-  }): Promise<StockSplit[]> {
+  async getStockSplits(symbol: string, params?: SplitParams): Promise<StockSplit[]> {
     const response = await this.requestWithRetry<SplitsAPIResponse>(
       '/stocks/v1/splits',
       {
@@ -722,12 +695,7 @@ export class MassiveClient {
   // News
   // ============================================
 
-  async getNews(params?: {
-    ticker?: string;
-    limit?: number;
-    published_utc_gte?: string;
-    order?: 'asc' | 'desc';
-  }): Promise<NewsArticle[]> {
+  async getNews(params?: NewsParams): Promise<NewsArticle[]> {
     const response = await this.requestWithRetry<NewsAPIResponse>(
       '/v2/reference/news',
       {
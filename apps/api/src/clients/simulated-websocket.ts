@@ -0,0 +1,128 @@
+import { SESSION_MINUTES, type SimulatedMarket, type SimulatedBar } from '../lib/simulated-market';
+
+// Milliseconds between simulated minute bars
+export const SIMULATED_STREAM_INTERVAL_MS = parseInt(process.env.SIMULATED_STREAM_INTERVAL_MS || '1000');
+
+/**
+ * A stand-in for the Polygon stocks socket that speaks its protocol (auth,
+ * subscribe/unsubscribe, status and AM messages) from the simulated market.
+ * Each tick emits the next minute bar of the latest session for every
+ * subscribed symbol, looping back to the open after the close, so a seed
+ * always streams the same sequence.
+ */
+export class SimulatedAggregateSocket {
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  private authenticated = false;
+  private subscribeAll = false;
+  private symbols = new Set<string>();
+  private sessions = new Map<string, SimulatedBar[]>();
+  private minute = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private closed = false;
+
+  constructor(
+    private market: SimulatedMarket,
+    private intervalMs: number = SIMULATED_STREAM_INTERVAL_MS
+  ) {
+    queueMicrotask(() => this.onopen?.());
+  }
+
+  send(data: string): void {
+    if (this.closed) return;
+
+    const message = JSON.parse(data) as { action: string; params: string };
+    switch (message.action) {
+      case 'auth':
+        this.authenticated = true;
+        this.emit([{ ev: 'status', status: 'auth_success', message: 'authenticated' }]);
+        break;
+      case 'subscribe':
+        if (!this.authenticated) return;
+        for (const symbol of this.parseChannels(message.params)) {
+          if (symbol === '*') this.subscribeAll = true;
+          else this.symbols.add(symbol);
+        }
+        this.emit([{ ev: 'status', status: 'success', message: `subscribed to: ${message.params}` }]);
+        this.start();
+        break;
+      case 'unsubscribe':
+        for (const symbol of this.parseChannels(message.params)) {
+          if (symbol === '*') this.subscribeAll = false;
+          else this.symbols.delete(symbol);
+        }
+        this.emit([{ ev: 'status', status: 'success', message: `unsubscribed from: ${message.params}` }]);
+        break;
+    }
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    queueMicrotask(() => this.onclose?.());
+  }
+
+  // Symbols from "AM.AAPL,AM.MSFT" channel lists
+  private parseChannels(params: string): string[] {
+    return params.split(',')
+      .map(channel => channel.trim())
+      .filter(channel => channel.startsWith('AM.'))
+      .map(channel => channel.slice(3).toUpperCase());
+  }
+
+  private start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+  }
+
+  private tick(): void {
+    const symbols = this.subscribeAll ? this.market.tickers.map(ticker => ticker.symbol) : [...this.symbols];
+    const messages: Record<string, unknown>[] = [];
+
+    for (const symbol of symbols) {
+      const bars = this.session(symbol);
+      const bar = bars[this.minute];
+      if (!bar) continue;
+
+      const accumulated = bars.slice(0, this.minute + 1).reduce((total, b) => total + b.v, 0);
+      messages.push({
+        ev: 'AM',
+        sym: symbol,
+        v: bar.v,
+        av: accumulated,
+        o: bar.o,
+        c: bar.c,
+        h: bar.h,
+        l: bar.l,
+        a: bar.vw,
+        s: bar.t,
+        e: bar.t + 60000,
+        n: Math.max(1, Math.round(bar.v / 100)),
+      });
+    }
+
+    this.minute = (this.minute + 1) % SESSION_MINUTES;
+    if (messages.length > 0) this.emit(messages);
+  }
+
+  // Minute bars of the latest session, regenerated when the session moves
+  private session(symbol: string): SimulatedBar[] {
+    const days = this.market.history(symbol)?.bars ?? [];
+    const date = days[days.length - 1]?.date;
+    const cached = this.sessions.get(symbol);
+    if (cached && cached[0]?.date === date) return cached;
+
+    const bars = date ? this.market.minuteBars(symbol, date) : [];
+    this.sessions.set(symbol, bars);
+    return bars;
+  }
+
+  private emit(messages: unknown[]): void {
+    this.onmessage?.({ data: JSON.stringify(messages) });
+  }
+}
@@ -1,5 +1,6 @@
 import YahooFinance from 'yahoo-finance2';
 import { redis, REDIS_KEYS, REDIS_TTL } from '../lib/redis';
+import type { ChartBar } from '@screener/shared';
 
 // Create Yahoo Finance instance (required in v3+)
 const yahooFinance = new YahooFinance();
@@ -818,6 +819,40 @@ export class YahooClient {
     return { income, balance, cashFlow };
   }
 
+  // ============================================
+  // Price History
+  // ============================================
+
+  /**
+   * Get OHLCV bars between two dates (inclusive), oldest first
+   */
+  async getPriceHistory(symbol: string, from: string, to: string, interval: '5m' | '1h' | '1d' | '1wk' | '1mo' = '1d'): Promise<ChartBar[]> {
+    try {
+      const period2 = new Date(`${to}T00:00:00Z`);
+      period2.setUTCDate(period2.getUTCDate() + 1);
+      
+      const chart = await yahooFinance.chart(symbol, {
+        period1: from,
+        period2,
+        interval,
+      });
+      
+      return chart.quotes
+        .filter(q => q.open !== null && q.high !== null && q.low !== null && q.close !== null)
+        .map(q => ({
+          t: q.date.getTime(),
+          o: q.open!,
+          h: q.high!,
+          l: q.low!,
+          c: q.close!,
+          v: q.volume ?? 0,
+        }));
+    } catch (error) {
+      console.error(`Yahoo price history failed for ${symbol}:`, error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
   // ============================================
   // Dividends
   // ============================================
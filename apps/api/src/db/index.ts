@@ -56,4 +56,25 @@ export const checkDbConnection = async (): Promise<boolean> => {
   }
 };
 
+// Error codes meaning the database itself is unreachable rather than a query
+// failing: socket errors, postgres.js connection states and server SQLSTATEs
+// (class 08 connection exceptions and 28 authorization are matched by prefix)
+const CONNECTION_ERROR_CODES = new Set([
+  'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN',
+  'CONNECT_TIMEOUT', 'CONNECTION_CLOSED', 'CONNECTION_ENDED', 'CONNECTION_DESTROYED',
+  '57P01', '57P02', '57P03', '53300', '3D000',
+]);
+
+export const isConnectionError = (error: unknown): boolean => {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string'
+    && (CONNECTION_ERROR_CODES.has(code) || code.startsWith('08') || code.startsWith('28'));
+};
+
+// SQLSTATE class 22: the query ran but a value was invalid (e.g. numeric overflow)
+export const isDataError = (error: unknown): boolean => {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && code.startsWith('22');
+};
+
 export { schema };
@@ -1,4 +1,5 @@
 import { pgTable, text, timestamp, boolean, real, integer, jsonb, uuid, date, serial, index, uniqueIndex, primaryKey } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
 
 // ============================================
 // Tickers - Stock metadata
@@ -60,6 +61,23 @@ export const dailyIndicators = pgTable('daily_indicators', {
   macdValue: real('macd_value'),
   macdSignal: real('macd_signal'),
   macdHistogram: real('macd_histogram'),
+  // Volatility, trend and oscillators
+  bbUpper: real('bb_upper'),
+  bbMiddle: real('bb_middle'),
+  bbLower: real('bb_lower'),
+  bbPercentB: real('bb_percent_b'),
+  bbBandwidth: real('bb_bandwidth'),
+  atr14: real('atr14'),
+  atrPercent: real('atr_percent'),
+  stochK: real('stoch_k'),
+  stochD: real('stoch_d'),
+  adx14: real('adx14'),
+  plusDi: real('plus_di'),
+  minusDi: real('minus_di'),
+  obv: real('obv'),
+  mfi14: real('mfi14'),
+  cci20: real('cci20'),
+  williamsR: real('williams_r'),
   createdAt: timestamp('created_at').defaultNow(),
 }, (table) => ({
   symbolDateIdx: uniqueIndex('daily_indicators_symbol_date_idx').on(table.symbol, table.date),
@@ -67,6 +85,56 @@ export const dailyIndicators = pgTable('daily_indicators', {
   symbolIdx: index('daily_indicators_symbol_idx').on(table.symbol),
 }));
 
+// ============================================
+// Candle Patterns - Detected candlestick patterns
+// One row per symbol, session and pattern (dated by the pattern's last bar)
+// ============================================
+export const candlePatterns = pgTable('candle_patterns', {
+  id: serial('id').primaryKey(),
+  symbol: text('symbol').notNull().references(() => tickers.symbol, { onDelete: 'cascade' }),
+  date: date('date').notNull(),
+  pattern: text('pattern').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  symbolDatePatternIdx: uniqueIndex('candle_patterns_symbol_date_pattern_idx').on(table.symbol, table.date, table.pattern),
+  patternDateIdx: index('candle_patterns_pattern_date_idx').on(table.pattern, table.date),
+}));
+
+// ============================================
+// Indicator Cache - Parameterised indicators computed on demand
+// One row per indicator key (e.g. 'sma:10'), symbol and session
+// ============================================
+export const indicatorCache = pgTable('indicator_cache', {
+  id: serial('id').primaryKey(),
+  key: text('key').notNull(),
+  symbol: text('symbol').notNull().references(() => tickers.symbol, { onDelete: 'cascade' }),
+  date: date('date').notNull(),
+  value: real('value'),
+  computedAt: timestamp('computed_at').defaultNow(),
+}, (table) => ({
+  keySymbolDateIdx: uniqueIndex('indicator_cache_key_symbol_date_idx').on(table.key, table.symbol, table.date),
+  keyDateIdx: index('indicator_cache_key_date_idx').on(table.key, table.date),
+}));
+
+// ============================================
+// Market Breadth - Daily breadth across all stored symbols
+// Counts come from daily_prices / daily_indicators; the A/D line and
+// McClellan oscillator are running values over the stored sessions
+// ============================================
+export const marketBreadth = pgTable('market_breadth', {
+  date: date('date').primaryKey(),
+  advances: integer('advances').notNull(),
+  declines: integer('declines').notNull(),
+  unchanged: integer('unchanged').notNull(),
+  advanceDeclineLine: real('advance_decline_line'), // Cumulative advances - declines
+  newHighs: integer('new_highs').notNull(), // 52-week (252-session) highs
+  newLows: integer('new_lows').notNull(),
+  percentAboveSma50: real('percent_above_sma50'),
+  percentAboveSma200: real('percent_above_sma200'),
+  mcclellanOscillator: real('mcclellan_oscillator'), // EMA19 - EMA39 of ratio-adjusted net advances
+  computedAt: timestamp('computed_at').defaultNow(),
+});
+
 // ============================================
 // Latest Snapshot - Denormalized current data
 // Fast screener queries without joins
@@ -101,6 +169,46 @@ export const latestSnapshot = pgTable('latest_snapshot', {
   macdValue: real('macd_value'),
   macdSignal: real('macd_signal'),
   macdHistogram: real('macd_histogram'),
+  // Volatility, trend and oscillators
+  bbUpper: real('bb_upper'),
+  bbMiddle: real('bb_middle'),
+  bbLower: real('bb_lower'),
+  bbPercentB: real('bb_percent_b'),
+  bbBandwidth: real('bb_bandwidth'),
+  atr14: real('atr14'),
+  atrPercent: real('atr_percent'),
+  stochK: real('stoch_k'),
+  stochD: real('stoch_d'),
+  adx14: real('adx14'),
+  plusDi: real('plus_di'),
+  minusDi: real('minus_di'),
+  obv: real('obv'),
+  mfi14: real('mfi14'),
+  cci20: real('cci20'),
+  williamsR: real('williams_r'),
+  // Candlestick patterns: sessions since each last formed (null when older than the lookback)
+  dojiAge: integer('doji_age'),
+  hammerAge: integer('hammer_age'),
+  shootingStarAge: integer('shooting_star_age'),
+  bullishEngulfingAge: integer('bullish_engulfing_age'),
+  bearishEngulfingAge: integer('bearish_engulfing_age'),
+  morningStarAge: integer('morning_star_age'),
+  eveningStarAge: integer('evening_star_age'),
+  threeWhiteSoldiersAge: integer('three_white_soldiers_age'),
+  insideBarAge: integer('inside_bar_age'),
+  // Risk & return from split-adjusted daily closes (percent values annualised)
+  volatility20: real('volatility_20'),
+  volatility60: real('volatility_60'),
+  volatility252: real('volatility_252'),
+  maxDrawdown: real('max_drawdown'),
+  downsideDeviation: real('downside_deviation'),
+  sharpeRatio: real('sharpe_ratio'),
+  sortinoRatio: real('sortino_ratio'),
+  benchmarkBeta: real('benchmark_beta'),
+  benchmarkCorrelation: real('benchmark_correlation'),
+  // Relative strength, ranked across the universe each night
+  rsRating: integer('rs_rating'), // 1-99 percentile of weighted 3/6/9/12-month returns
+  rsVsBenchmark: real('rs_vs_benchmark'), // 12-month growth relative to the benchmark
   // Valuation (denormalized for screener queries)
   marketCap: real('market_cap'),
   peRatio: real('pe_ratio'),
@@ -140,6 +248,11 @@ export const latestSnapshot = pgTable('latest_snapshot', {
   // Ownership
   insidersPercentHeld: real('insiders_percent_held'),
   institutionsPercentHeld: real('institutions_percent_held'),
+  // Fundamental scores (computed from financial_statements)
+  piotroskiScore: integer('piotroski_score'),
+  altmanZScore: real('altman_z_score'),
+  beneishMScore: real('beneish_m_score'),
+  grahamNumber: real('graham_number'),
   // Data freshness tracking
   financialsLastSync: timestamp('financials_last_sync'),
   ratiosLastSync: timestamp('ratios_last_sync'),
@@ -164,6 +277,7 @@ export const latestSnapshot = pgTable('latest_snapshot', {
   betaIdx: index('latest_snapshot_beta_idx').on(table.beta),
   analystIdx: index('latest_snapshot_analyst_idx').on(table.recommendationMean),
   shortIdx: index('latest_snapshot_short_idx').on(table.shortPercentOfFloat),
+  rsRatingIdx: index('latest_snapshot_rs_rating_idx').on(table.rsRating),
 }));
 
 // ============================================
@@ -193,8 +307,28 @@ export const filterPresets = pgTable('filter_presets', {
   description: text('description'),
   conditions: jsonb('conditions').notNull(),
   sortBy: text('sort_by'),
+  sortExpression: text('sort_expression'),
   sortOrder: text('sort_order'),
+  columns: jsonb('columns'),
+  scoreModel: jsonb('score_model'),
+  minScore: real('min_score'),
+  isPublic: boolean('is_public').default(false),
+  editTokenHash: text('edit_token_hash'), // SHA-256 of the token returned on create
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// ============================================
+// Score Models - Saved composite scoring models
+// ============================================
+export const scoreModels = pgTable('score_models', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  name: text('name').notNull(),
+  description: text('description'),
+  rankWithin: text('rank_within').notNull().default('universe'),
+  groups: jsonb('groups').notNull(),
   isPublic: boolean('is_public').default(false),
+  editTokenHash: text('edit_token_hash'), // SHA-256 of the token returned on create
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
@@ -552,6 +686,32 @@ export const syncCheckpoints = pgTable('sync_checkpoints', {
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// ============================================
+// Jobs - Durable background job queue
+// A running job's lease is the sync_locks row 'job:<id>'; its progress is the
+// sync_checkpoints row for its type
+// ============================================
+export const jobs = pgTable('jobs', {
+  id: serial('id').primaryKey(),
+  type: text('type').notNull(), // 'snapshot' | 'daily' | 'financials' | ... (JobType)
+  payload: jsonb('payload').notNull().default({}),
+  status: text('status').notNull().default('queued'), // 'queued' | 'running' | 'completed' | 'dead' | 'cancelled'
+  priority: integer('priority').notNull().default(0), // Higher runs first
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull().default(5),
+  dedupeKey: text('dedupe_key'), // At most one queued or running job per key
+  runAt: timestamp('run_at').notNull().defaultNow(), // Not claimed before this
+  lastError: text('last_error'),
+  result: jsonb('result'),
+  createdAt: timestamp('created_at').defaultNow(),
+  startedAt: timestamp('started_at'),
+  completedAt: timestamp('completed_at'),
+}, (table) => ({
+  claimIdx: index('jobs_claim_idx').on(table.status, table.runAt),
+  typeIdx: index('jobs_type_idx').on(table.type),
+  dedupeIdx: uniqueIndex('jobs_dedupe_idx').on(table.dedupeKey).where(sql`status IN ('queued', 'running')`),
+}));
+
 // ============================================
 // Type exports for TypeScript
 // ============================================
@@ -564,6 +724,15 @@ export type DailyPrice = typeof dailyPrices.$inferSelect;
 export type NewDailyIndicator = typeof dailyIndicators.$inferInsert;
 export type DailyIndicator = typeof dailyIndicators.$inferSelect;
 
+export type NewCandlePattern = typeof candlePatterns.$inferInsert;
+export type CandlePatternRecord = typeof candlePatterns.$inferSelect;
+
+export type NewIndicatorCacheEntry = typeof indicatorCache.$inferInsert;
+export type IndicatorCacheEntry = typeof indicatorCache.$inferSelect;
+
+export type NewMarketBreadth = typeof marketBreadth.$inferInsert;
+export type MarketBreadthRecord = typeof marketBreadth.$inferSelect;
+
 export type NewLatestSnapshot = typeof latestSnapshot.$inferInsert;
 export type LatestSnapshot = typeof latestSnapshot.$inferSelect;
 
@@ -603,6 +772,9 @@ export type SyncLock = typeof syncLocks.$inferSelect;
 export type NewSyncCheckpoint = typeof syncCheckpoints.$inferInsert;
 export type SyncCheckpoint = typeof syncCheckpoints.$inferSelect;
 
+export type NewJob = typeof jobs.$inferInsert;
+export type Job = typeof jobs.$inferSelect;
+
 export type NewEarningsHistory = typeof earningsHistory.$inferInsert;
 export type EarningsHistoryRecord = typeof earningsHistory.$inferSelect;
 
@@ -10,9 +10,12 @@ import { screenerRouter } from './routes/screener';
 import { indicatorsRouter } from './routes/indicators';
 import { syncRouter } from './routes/sync';
 import { tickerDetailRouter } from './routes/ticker-detail';
+import { marketRouter } from './routes/market';
 import { createWSHandler, type WSData } from './routes/websocket';
 import { scheduler } from './services/scheduler';
 import { startupService } from './services/startup';
+import { jobQueue } from './services/job-queue';
+import { isDbConnected } from './db';
 
 const app = new Hono();
 const isProduction = process.env.NODE_ENV === 'production';
@@ -43,11 +46,10 @@ app.get('/health', (c) => {
 app.get('/api/health', async (c) => {
   try {
     const { dataSyncService } = await import('./services/data-sync');
-    const { MassiveClient } = await import('./clients/massive');
+    const { marketData } = await import('./providers');
     
     const lastSyncTime = hasDatabase ? await dataSyncService.getLastSyncTime() : null;
     const snapshotCount = hasDatabase ? await dataSyncService.getSnapshotCount() : 0;
-    const massiveClient = new MassiveClient();
     
     const isHealthy = !hasDatabase || (lastSyncTime && 
       (Date.now() - lastSyncTime.getTime()) < 2 * 60 * 60 * 1000); // 2h threshold
@@ -59,7 +61,8 @@ app.get('/api/health', async (c) => {
       database: hasDatabase ? 'connected' : 'not configured',
       lastSync: lastSyncTime?.toISOString() || null,
       snapshotCount,
-      circuitBreaker: massiveClient.getCircuitState(),
+      provider: marketData.name,
+      circuitBreaker: marketData.getCircuitState?.() ?? 'closed',
     }, isHealthy ? 200 : 503);
   } catch (error) {
     return c.json({
@@ -76,6 +79,7 @@ app.route('/api/screener', screenerRouter);
 app.route('/api/indicators', indicatorsRouter);
 app.route('/api/sync', syncRouter);
 app.route('/api/ticker', tickerDetailRouter);
+app.route('/api/market', marketRouter);
 
 // Serve static files in production
 if (isProduction) {
@@ -186,6 +190,11 @@ console.log(`Server running at http://localhost:${server.port}`);
 // Run startup initialization (auto-creates tables, syncs initial data)
 if (hasDatabase) {
   startupService.initialize().then(() => {
+    // Run queued jobs, including any initial sync enqueued during initialization
+    if (isDbConnected()) {
+      jobQueue.start();
+    }
+    
     // Start scheduler after initialization
     if (isProduction) {
       scheduler.start();
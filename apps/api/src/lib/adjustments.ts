@@ -0,0 +1,95 @@
+// ============================================
+// Corporate Action Adjustments
+// ============================================
+// Back-adjusts raw daily bars (ordered oldest first) for splits and, for total
+// return, cash dividends. Bars are put on the share basis of a reference
+// session (by default the last bar): each action scales every bar before its
+// date, and actions after the reference session are ignored so a history cut
+// at a past session matches what was known then.
+
+import type { PriceAdjustment } from '@screener/shared';
+
+export interface AdjustableBar {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface SplitAction {
+  date: string; // Execution date (first session on the new basis)
+  splitFrom: number;
+  splitTo: number;
+}
+
+export interface DividendAction {
+  date: string; // Ex-dividend date
+  amount: number; // Cash per share, on the raw price basis of its date
+}
+
+export interface CorporateActions {
+  splits: SplitAction[];
+  dividends: DividendAction[];
+}
+
+type Action =
+  | { date: string; type: 'split'; splitFrom: number; splitTo: number }
+  | { date: string; type: 'dividend'; amount: number };
+
+// Adjusted copies of the bars; raw bars are returned unchanged for 'none'.
+// `basis` is the reference session (YYYY-MM-DD), defaulting to the last bar.
+export function adjustBars<T extends AdjustableBar>(
+  bars: T[],
+  actions: CorporateActions,
+  mode: PriceAdjustment,
+  basis?: string
+): T[] {
+  if (mode === 'none' || bars.length === 0) return bars;
+
+  const basisDate = basis ?? bars[bars.length - 1].date;
+  const events: Action[] = [
+    ...actions.splits
+      .filter(split => split.splitFrom > 0 && split.splitTo > 0)
+      .map(split => ({ type: 'split' as const, ...split })),
+    ...(mode === 'total' ? actions.dividends.filter(dividend => dividend.amount > 0) : [])
+      .map(dividend => ({ type: 'dividend' as const, ...dividend })),
+  ]
+    .filter(event => event.date <= basisDate)
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  if (events.length === 0) return bars;
+
+  const adjusted = new Array<T>(bars.length);
+  let priceFactor = 1;
+  let volumeFactor = 1;
+  let next = 0;
+
+  // Walk back from the latest bar, folding in each action once its date is passed
+  for (let i = bars.length - 1; i >= 0; i--) {
+    const bar = bars[i];
+
+    while (next < events.length && events[next].date > bar.date) {
+      const event = events[next++];
+      if (event.type === 'split') {
+        priceFactor *= event.splitFrom / event.splitTo;
+        volumeFactor *= event.splitTo / event.splitFrom;
+      } else if (bar.close > event.amount) {
+        // Dividend: scale by the drop it causes against the prior close
+        priceFactor *= 1 - event.amount / bar.close;
+      }
+    }
+
+    adjusted[i] = priceFactor === 1 && volumeFactor === 1 ? bar : {
+      ...bar,
+      open: bar.open * priceFactor,
+      high: bar.high * priceFactor,
+      low: bar.low * priceFactor,
+      close: bar.close * priceFactor,
+      volume: bar.volume * volumeFactor,
+    };
+  }
+
+  return adjusted;
+}
@@ -0,0 +1,73 @@
+// ============================================
+// CSV
+// ============================================
+// Minimal comma-separated parsing for data files: a header row, optional
+// double-quoted fields and one record per line.
+
+export type CsvRow = Record<string, string | undefined>;
+
+// Split one CSV line, honouring double-quoted fields
+export function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields.map(value => value.trim());
+}
+
+// Rows keyed by header name; empty fields are undefined
+export function parseCsv(text: string): CsvRow[] {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) return [];
+
+  const header = parseCsvLine(lines[0]);
+  return lines.slice(1).map(line => {
+    const values = parseCsvLine(line);
+    return Object.fromEntries(header.map((name, i) => [name, values[i] === '' ? undefined : values[i]]));
+  });
+}
+
+// Lines of a byte stream as they arrive, without the trailing newline, so
+// large files never have to fit in memory
+export async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop()!;
+      for (const line of lines) yield line.replace(/\r$/, '');
+
+      if (done) break;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
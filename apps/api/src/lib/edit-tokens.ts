@@ -0,0 +1,27 @@
+// ============================================
+// Edit Tokens
+// ============================================
+// There are no user accounts, so saved screens and score models are owned by
+// whoever holds the random token returned when they were created. Changing or
+// deleting one requires that token in the X-Edit-Token header. Only its
+// SHA-256 hash is stored.
+
+import { createHash, randomBytes } from 'crypto';
+
+export const EDIT_TOKEN_HEADER = 'X-Edit-Token';
+
+export class EditTokenError extends Error {
+  constructor(message: string = `Missing or invalid ${EDIT_TOKEN_HEADER} header`) {
+    super(message);
+    this.name = 'EditTokenError';
+  }
+}
+
+export function hashEditToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function createEditToken(): { token: string; hash: string } {
+  const token = randomBytes(24).toString('base64url');
+  return { token, hash: hashEditToken(token) };
+}
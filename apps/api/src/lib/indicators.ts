@@ -0,0 +1,324 @@
+// ============================================
+// Technical Indicator Library
+// ============================================
+// Pure functions over a price series ordered oldest first. Every function
+// returns a series aligned with its input, with null until the indicator has
+// enough history (the warm-up period).
+
+export type Series = Array<number | null>;
+
+// Simple moving average
+export function sma(values: number[], period: number): Series {
+  const result: Series = new Array(values.length).fill(null);
+  let sum = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) result[i] = sum / period;
+  }
+
+  return result;
+}
+
+// Exponential moving average, seeded with the SMA of the first `period` values.
+// Leading nulls in the input (e.g. an upstream warm-up) are skipped.
+export function ema(values: Series, period: number): Series {
+  const result: Series = new Array(values.length).fill(null);
+  const k = 2 / (period + 1);
+  let previous: number | null = null;
+  let seedSum = 0;
+  let seedCount = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value === null) continue;
+
+    if (previous === null) {
+      seedSum += value;
+      seedCount++;
+      if (seedCount === period) {
+        previous = seedSum / period;
+        result[i] = previous;
+      }
+      continue;
+    }
+
+    previous = value * k + previous * (1 - k);
+    result[i] = previous;
+  }
+
+  return result;
+}
+
+// Relative Strength Index with Wilder smoothing
+export function rsi(closes: number[], period: number = 14): Series {
+  const result: Series = new Array(closes.length).fill(null);
+  if (closes.length <= period) return result;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    if (change > 0) avgGain += change;
+    else avgLoss -= change;
+  }
+  avgGain /= period;
+  avgLoss /= period;
+  result[period] = toRsi(avgGain, avgLoss);
+
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRsi(avgGain, avgLoss);
+  }
+
+  return result;
+}
+
+function toRsi(avgGain: number, avgLoss: number): number {
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+export interface MacdSeries {
+  value: Series;
+  signal: Series;
+  histogram: Series;
+}
+
+// MACD line (fast EMA - slow EMA), its signal EMA and the histogram
+export function macd(
+  closes: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): MacdSeries {
+  const fast = ema(closes, fastPeriod);
+  const slow = ema(closes, slowPeriod);
+  const value: Series = closes.map((_, i) =>
+    fast[i] !== null && slow[i] !== null ? fast[i]! - slow[i]! : null
+  );
+  const signal = ema(value, signalPeriod);
+  const histogram: Series = value.map((v, i) =>
+    v !== null && signal[i] !== null ? v - signal[i]! : null
+  );
+
+  return { value, signal, histogram };
+}
+
+// Rolling window helpers over a plain series
+function rollingMax(values: number[], period: number, i: number): number {
+  let max = -Infinity;
+  for (let j = i - period + 1; j <= i; j++) max = Math.max(max, values[j]);
+  return max;
+}
+
+function rollingMin(values: number[], period: number, i: number): number {
+  let min = Infinity;
+  for (let j = i - period + 1; j <= i; j++) min = Math.min(min, values[j]);
+  return min;
+}
+
+// Wilder smoothing: seeded with the sum of the first `period` values (from
+// index `start`), then smoothed = previous - previous / period + value.
+// Returned as an average (sum / period).
+function wilder(values: number[], period: number, start: number = 0): Series {
+  const result: Series = new Array(values.length).fill(null);
+  if (values.length < start + period) return result;
+
+  let sum = 0;
+  for (let i = start; i < start + period; i++) sum += values[i];
+  result[start + period - 1] = sum / period;
+
+  for (let i = start + period; i < values.length; i++) {
+    sum = sum - sum / period + values[i];
+    result[i] = sum / period;
+  }
+
+  return result;
+}
+
+export interface BollingerSeries {
+  upper: Series;
+  middle: Series;
+  lower: Series;
+  percentB: Series; // Position within the bands: 0 = lower, 1 = upper
+  bandwidth: Series; // Band width as a percentage of the middle band
+}
+
+// Bollinger Bands: SMA +/- `multiplier` population standard deviations
+export function bollinger(closes: number[], period: number = 20, multiplier: number = 2): BollingerSeries {
+  const middle = sma(closes, period);
+  const upper: Series = new Array(closes.length).fill(null);
+  const lower: Series = new Array(closes.length).fill(null);
+  const percentB: Series = new Array(closes.length).fill(null);
+  const bandwidth: Series = new Array(closes.length).fill(null);
+
+  for (let i = period - 1; i < closes.length; i++) {
+    const mean = middle[i]!;
+    let variance = 0;
+    for (let j = i - period + 1; j <= i; j++) variance += (closes[j] - mean) ** 2;
+    const deviation = Math.sqrt(variance / period) * multiplier;
+
+    upper[i] = mean + deviation;
+    lower[i] = mean - deviation;
+    percentB[i] = deviation === 0 ? 0.5 : (closes[i] - lower[i]!) / (upper[i]! - lower[i]!);
+    bandwidth[i] = mean === 0 ? null : ((upper[i]! - lower[i]!) / mean) * 100;
+  }
+
+  return { upper, middle, lower, percentB, bandwidth };
+}
+
+function trueRanges(highs: number[], lows: number[], closes: number[]): number[] {
+  return highs.map((high, i) => i === 0
+    ? high - lows[i]
+    : Math.max(high - lows[i], Math.abs(high - closes[i - 1]), Math.abs(lows[i] - closes[i - 1]))
+  );
+}
+
+// Average True Range with Wilder smoothing (first bar has no previous close)
+export function atr(highs: number[], lows: number[], closes: number[], period: number = 14): Series {
+  return wilder(trueRanges(highs, lows, closes), period, 1);
+}
+
+export interface StochasticSeries {
+  k: Series;
+  d: Series;
+}
+
+// Stochastic oscillator: %K over `period` bars, %D = SMA of %K
+export function stochastic(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  period: number = 14,
+  signalPeriod: number = 3
+): StochasticSeries {
+  const k: Series = new Array(closes.length).fill(null);
+
+  for (let i = period - 1; i < closes.length; i++) {
+    const high = rollingMax(highs, period, i);
+    const low = rollingMin(lows, period, i);
+    k[i] = high === low ? 50 : ((closes[i] - low) / (high - low)) * 100;
+  }
+
+  const d: Series = new Array(closes.length).fill(null);
+  for (let i = period + signalPeriod - 2; i < closes.length; i++) {
+    let sum = 0;
+    for (let j = i - signalPeriod + 1; j <= i; j++) sum += k[j]!;
+    d[i] = sum / signalPeriod;
+  }
+
+  return { k, d };
+}
+
+export interface AdxSeries {
+  adx: Series;
+  plusDi: Series;
+  minusDi: Series;
+}
+
+// Average Directional Index with the +DI / -DI lines (Wilder)
+export function adx(highs: number[], lows: number[], closes: number[], period: number = 14): AdxSeries {
+  const plusDm = highs.map((high, i) => {
+    if (i === 0) return 0;
+    const up = high - highs[i - 1];
+    const down = lows[i - 1] - lows[i];
+    return up > down && up > 0 ? up : 0;
+  });
+  const minusDm = lows.map((low, i) => {
+    if (i === 0) return 0;
+    const up = highs[i] - highs[i - 1];
+    const down = lows[i - 1] - low;
+    return down > up && down > 0 ? down : 0;
+  });
+
+  const tr = wilder(trueRanges(highs, lows, closes), period, 1);
+  const plus = wilder(plusDm, period, 1);
+  const minus = wilder(minusDm, period, 1);
+
+  const plusDi: Series = tr.map((range, i) => range ? (plus[i]! / range) * 100 : null);
+  const minusDi: Series = tr.map((range, i) => range ? (minus[i]! / range) * 100 : null);
+  const dx = plusDi.map((p, i) => {
+    const m = minusDi[i];
+    if (p === null || m === null) return null;
+    return p + m === 0 ? 0 : (Math.abs(p - m) / (p + m)) * 100;
+  });
+
+  // ADX is the Wilder average of DX, starting where DX is first defined
+  const firstDx = dx.findIndex(value => value !== null);
+  const adxSeries: Series = firstDx >= 0
+    ? wilder(dx.map(value => value ?? 0), period, firstDx)
+    : new Array(closes.length).fill(null);
+
+  return { adx: adxSeries, plusDi, minusDi };
+}
+
+// On-Balance Volume, cumulative from the first bar
+export function obv(closes: number[], volumes: number[]): Series {
+  let total = 0;
+  return closes.map((close, i) => {
+    if (i > 0) {
+      if (close > closes[i - 1]) total += volumes[i];
+      else if (close < closes[i - 1]) total -= volumes[i];
+    }
+    return total;
+  });
+}
+
+// Money Flow Index: volume-weighted RSI of the typical price
+export function mfi(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  volumes: number[],
+  period: number = 14
+): Series {
+  const typical = closes.map((close, i) => (highs[i] + lows[i] + close) / 3);
+  const result: Series = new Array(closes.length).fill(null);
+
+  for (let i = period; i < closes.length; i++) {
+    let positive = 0;
+    let negative = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      const flow = typical[j] * volumes[j];
+      if (typical[j] > typical[j - 1]) positive += flow;
+      else if (typical[j] < typical[j - 1]) negative += flow;
+    }
+    result[i] = negative === 0 ? (positive === 0 ? 50 : 100) : 100 - 100 / (1 + positive / negative);
+  }
+
+  return result;
+}
+
+// Commodity Channel Index over the typical price
+export function cci(highs: number[], lows: number[], closes: number[], period: number = 20): Series {
+  const typical = closes.map((close, i) => (highs[i] + lows[i] + close) / 3);
+  const mean = sma(typical, period);
+
+  return typical.map((value, i) => {
+    if (mean[i] === null) return null;
+    let deviation = 0;
+    for (let j = i - period + 1; j <= i; j++) deviation += Math.abs(typical[j] - mean[i]!);
+    deviation /= period;
+    return deviation === 0 ? 0 : (value - mean[i]!) / (0.015 * deviation);
+  });
+}
+
+// Williams %R: 0 at the period high, -100 at the period low
+export function williamsR(highs: number[], lows: number[], closes: number[], period: number = 14): Series {
+  return closes.map((close, i) => {
+    if (i < period - 1) return null;
+    const high = rollingMax(highs, period, i);
+    const low = rollingMin(lows, period, i);
+    return high === low ? -50 : ((high - close) / (high - low)) * -100;
+  });
+}
+
+// Last value of a series (null while still warming up)
+export function last(series: Series): number | null {
+  return series.length > 0 ? series[series.length - 1] : null;
+}
@@ -0,0 +1,383 @@
+// ============================================
+// Market Calendar
+// ============================================
+// Trading sessions per exchange: regular hours, holidays and early closes
+// derived from each exchange's rules for any year, plus one-off closures
+// (national days of mourning, weather). Dates are YYYY-MM-DD in the
+// exchange's own time zone.
+
+import type { MarketCalendarDay, MarketCalendarYear } from '@screener/shared';
+
+export const MARKET_EXCHANGES = ['XNYS', 'XNAS', 'XASE', 'ARCX', 'BATS', 'XLON'] as const;
+export type MarketExchange = typeof MARKET_EXCHANGES[number];
+
+export interface MarketSession {
+  date: string;
+  open: Date;
+  close: Date;
+  earlyClose: boolean;
+}
+
+interface ExchangeRules {
+  name: string;
+  timeZone: string;
+  open: string; // HH:MM local
+  close: string;
+  earlyClose: string;
+  holidays: (year: number) => MarketCalendarDay[];
+  // Half days, given the year's full trading days
+  earlyCloses: (year: number, isTradingDay: (date: string) => boolean) => MarketCalendarDay[];
+}
+
+// ============================================
+// Date Helpers
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDate(ms: number): string {
+  return new Date(ms).toISOString().split('T')[0];
+}
+
+function ymd(year: number, month: number, day: number): string {
+  return toDate(Date.UTC(year, month - 1, day));
+}
+
+function addDays(date: string, days: number): string {
+  return toDate(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS);
+}
+
+// 0 = Sunday ... 6 = Saturday
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+const isWeekend = (date: string) => weekday(date) === 0 || weekday(date) === 6;
+
+// The nth given weekday of a month; n = -1 is the last
+function nthWeekday(year: number, month: number, day: number, n: number): string {
+  if (n < 0) {
+    const last = ymd(year, month + 1, 0);
+    return addDays(last, -((weekday(last) - day + 7) % 7));
+  }
+  const first = ymd(year, month, 1);
+  return addDays(first, (day - weekday(first) + 7) % 7 + (n - 1) * 7);
+}
+
+// Gregorian Easter Sunday (anonymous algorithm)
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return ymd(year, month, day);
+}
+
+// Saturday holidays move to Friday, Sunday holidays to Monday
+function observedNearest(date: string): string {
+  const day = weekday(date);
+  return day === 6 ? addDays(date, -1) : day === 0 ? addDays(date, 1) : date;
+}
+
+// Weekend holidays move to the following Monday
+function observedMonday(date: string): string {
+  const day = weekday(date);
+  return day === 6 ? addDays(date, 2) : day === 0 ? addDays(date, 1) : date;
+}
+
+// Local calendar date and minutes past midnight of an instant in a time zone
+function localParts(at: Date, timeZone: string): { date: string; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(at).map(part => [part.type, part.value])
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+// The instant a local wall-clock time occurs on a date (DST aware)
+function zonedTime(date: string, time: string, timeZone: string): Date {
+  const wall = Date.parse(`${date}T${time}:00Z`);
+  const local = localParts(new Date(wall), timeZone);
+  const offset = Date.parse(`${local.date}T00:00:00Z`) + local.minutes * 60000 - wall;
+  return new Date(wall - offset);
+}
+
+// ============================================
+// Exchange Rules
+// ============================================
+
+// NYSE closures outside the holiday rules
+const US_SPECIAL_CLOSURES: MarketCalendarDay[] = [
+  { date: '2001-09-11', name: 'September 11 attacks' },
+  { date: '2001-09-12', name: 'September 11 attacks' },
+  { date: '2001-09-13', name: 'September 11 attacks' },
+  { date: '2001-09-14', name: 'September 11 attacks' },
+  { date: '2004-06-11', name: 'National Day of Mourning (Ronald Reagan)' },
+  { date: '2007-01-02', name: 'National Day of Mourning (Gerald Ford)' },
+  { date: '2012-10-29', name: 'Hurricane Sandy' },
+  { date: '2012-10-30', name: 'Hurricane Sandy' },
+  { date: '2018-12-05', name: 'National Day of Mourning (George H. W. Bush)' },
+  { date: '2025-01-09', name: 'National Day of Mourning (Jimmy Carter)' },
+];
+
+// NYSE rules, shared by the other US equity exchanges
+const US_EQUITIES: Omit<ExchangeRules, 'name'> = {
+  timeZone: 'America/New_York',
+  open: '09:30',
+  close: '16:00',
+  earlyClose: '13:00',
+  holidays: (year) => {
+    const newYear = ymd(year, 1, 1);
+    const days: MarketCalendarDay[] = [
+      // A Saturday New Year's Day is not observed on the Friday before
+      ...(weekday(newYear) === 6 ? [] : [{ date: observedMonday(newYear), name: "New Year's Day" }]),
+      ...(year >= 1998 ? [{ date: nthWeekday(year, 1, 1, 3), name: 'Martin Luther King Jr. Day' }] : []),
+      { date: nthWeekday(year, 2, 1, 3), name: "Washington's Birthday" },
+      { date: addDays(easterSunday(year), -2), name: 'Good Friday' },
+      { date: nthWeekday(year, 5, 1, -1), name: 'Memorial Day' },
+      ...(year >= 2022 ? [{ date: observedNearest(ymd(year, 6, 19)), name: 'Juneteenth' }] : []),
+      { date: observedNearest(ymd(year, 7, 4)), name: 'Independence Day' },
+      { date: nthWeekday(year, 9, 1, 1), name: 'Labor Day' },
+      { date: nthWeekday(year, 11, 4, 4), name: 'Thanksgiving Day' },
+      { date: observedNearest(ymd(year, 12, 25)), name: 'Christmas Day' },
+    ];
+    return [...days, ...US_SPECIAL_CLOSURES.filter(day => day.date.startsWith(`${year}-`))];
+  },
+  earlyCloses: (year, isTradingDay) => [
+    { date: ymd(year, 7, 3), name: 'Independence Day eve' },
+    { date: addDays(nthWeekday(year, 11, 4, 4), 1), name: 'Day after Thanksgiving' },
+    { date: ymd(year, 12, 24), name: 'Christmas Eve' },
+  ].filter(day => isTradingDay(day.date)),
+};
+
+// Bank holidays moved by proclamation (usual date -> actual date)
+const UK_MOVED_HOLIDAYS: Record<string, string> = {
+  '1995-05-01': '1995-05-08',
+  '2002-05-27': '2002-06-04',
+  '2012-05-28': '2012-06-04',
+  '2020-05-04': '2020-05-08',
+  '2022-05-30': '2022-06-02',
+};
+
+const UK_SPECIAL_CLOSURES: MarketCalendarDay[] = [
+  { date: '1999-12-31', name: 'Millennium' },
+  { date: '2002-06-03', name: 'Golden Jubilee' },
+  { date: '2011-04-29', name: 'Royal Wedding' },
+  { date: '2012-06-05', name: 'Diamond Jubilee' },
+  { date: '2022-06-03', name: 'Platinum Jubilee' },
+  { date: '2022-09-19', name: 'State Funeral of Queen Elizabeth II' },
+  { date: '2023-05-08', name: 'Coronation of King Charles III' },
+];
+
+const LONDON: ExchangeRules = {
+  name: 'London Stock Exchange',
+  timeZone: 'Europe/London',
+  open: '08:00',
+  close: '16:30',
+  earlyClose: '12:30',
+  holidays: (year) => {
+    const moved = (date: string) => UK_MOVED_HOLIDAYS[date] ?? date;
+    const easter = easterSunday(year);
+
+    // Christmas and Boxing Day both move past a weekend
+    const christmas = ymd(year, 12, 25);
+    const [christmasDay, boxingDay] = weekday(christmas) === 6 ? [ymd(year, 12, 27), ymd(year, 12, 28)]
+      : weekday(christmas) === 0 ? [ymd(year, 12, 27), ymd(year, 12, 26)]
+      : [christmas, observedMonday(ymd(year, 12, 26))];
+
+    return [
+      { date: observedMonday(ymd(year, 1, 1)), name: "New Year's Day" },
+      { date: addDays(easter, -2), name: 'Good Friday' },
+      { date: addDays(easter, 1), name: 'Easter Monday' },
+      { date: moved(nthWeekday(year, 5, 1, 1)), name: 'Early May Bank Holiday' },
+      { date: moved(nthWeekday(year, 5, 1, -1)), name: 'Spring Bank Holiday' },
+      { date: nthWeekday(year, 8, 1, -1), name: 'Summer Bank Holiday' },
+      { date: christmasDay, name: 'Christmas Day' },
+      { date: boxingDay, name: 'Boxing Day' },
+      ...UK_SPECIAL_CLOSURES.filter(day => day.date.startsWith(`${year}-`)),
+    ];
+  },
+  // The last sessions before Christmas and before the new year
+  earlyCloses: (year, isTradingDay) => {
+    const lastSessionBefore = (date: string) => {
+      let day = addDays(date, -1);
+      while (!isTradingDay(day)) day = addDays(day, -1);
+      return day;
+    };
+    return [
+      { date: lastSessionBefore(ymd(year, 12, 25)), name: 'Christmas Eve' },
+      { date: lastSessionBefore(ymd(year + 1, 1, 1)), name: "New Year's Eve" },
+    ];
+  },
+};
+
+const EXCHANGE_RULES: Record<MarketExchange, ExchangeRules> = {
+  XNYS: { ...US_EQUITIES, name: 'New York Stock Exchange' },
+  XNAS: { ...US_EQUITIES, name: 'Nasdaq' },
+  XASE: { ...US_EQUITIES, name: 'NYSE American' },
+  ARCX: { ...US_EQUITIES, name: 'NYSE Arca' },
+  BATS: { ...US_EQUITIES, name: 'Cboe BZX' },
+  XLON: LONDON,
+};
+
+// ============================================
+// Calendar
+// ============================================
+
+/**
+ * Sessions of one exchange. Holidays and early closes are derived per year
+ * on first use and cached.
+ */
+export class MarketCalendar {
+  private years = new Map<number, { holidays: Map<string, string>; earlyCloses: Map<string, string> }>();
+
+  constructor(readonly exchange: MarketExchange, private rules: ExchangeRules) {}
+
+  get timeZone(): string {
+    return this.rules.timeZone;
+  }
+
+  holidays(year: number): MarketCalendarDay[] {
+    return [...this.year(year).holidays].map(([date, name]) => ({ date, name }));
+  }
+
+  earlyCloses(year: number): MarketCalendarDay[] {
+    return [...this.year(year).earlyCloses].map(([date, name]) => ({ date, name, close: this.rules.earlyClose }));
+  }
+
+  isHoliday(date: string): boolean {
+    return this.year(Number(date.slice(0, 4))).holidays.has(date);
+  }
+
+  isTradingDay(date: string): boolean {
+    return !isWeekend(date) && !this.isHoliday(date);
+  }
+
+  // Open and close of a date's session, or null when the market is closed
+  session(date: string): MarketSession | null {
+    if (!this.isTradingDay(date)) return null;
+
+    const earlyClose = this.year(Number(date.slice(0, 4))).earlyCloses.has(date);
+    return {
+      date,
+      open: zonedTime(date, this.rules.open, this.rules.timeZone),
+      close: zonedTime(date, earlyClose ? this.rules.earlyClose : this.rules.close, this.rules.timeZone),
+      earlyClose,
+    };
+  }
+
+  // The exchange's calendar date at an instant
+  localDate(at: Date = new Date()): string {
+    return localParts(at, this.rules.timeZone).date;
+  }
+
+  // Within regular hours, close included
+  isOpen(at: Date = new Date()): boolean {
+    const session = this.session(this.localDate(at));
+    return !!session && at >= session.open && at <= session.close;
+  }
+
+  nextTradingDay(date: string): string {
+    let day = addDays(date, 1);
+    while (!this.isTradingDay(day)) day = addDays(day, 1);
+    return day;
+  }
+
+  previousTradingDay(date: string): string {
+    let day = addDays(date, -1);
+    while (!this.isTradingDay(day)) day = addDays(day, -1);
+    return day;
+  }
+
+  // Move a number of sessions from a trading day (negative goes back)
+  addTradingDays(date: string, sessions: number): string {
+    let day = date;
+    for (let i = 0; i < Math.abs(sessions); i++) {
+      day = sessions > 0 ? this.nextTradingDay(day) : this.previousTradingDay(day);
+    }
+    return day;
+  }
+
+  // The latest session that has opened by an instant
+  lastSession(at: Date = new Date()): string {
+    const today = this.localDate(at);
+    const session = this.session(today);
+    return session && at >= session.open ? today : this.previousTradingDay(today);
+  }
+
+  toYear(year: number): MarketCalendarYear {
+    return {
+      exchange: this.exchange,
+      name: this.rules.name,
+      timeZone: this.rules.timeZone,
+      year,
+      open: this.rules.open,
+      close: this.rules.close,
+      holidays: this.holidays(year),
+      earlyCloses: this.earlyCloses(year),
+    };
+  }
+
+  private year(year: number) {
+    let cached = this.years.get(year);
+    if (!cached) {
+      const holidays = new Map(
+        this.rules.holidays(year)
+          .filter(day => !isWeekend(day.date))
+          .sort((a, b) => a.date.localeCompare(b.date))
+          .map(day => [day.date, day.name])
+      );
+      const isTradingDay = (date: string) => !isWeekend(date) && !(date.startsWith(`${year}-`)
+        ? holidays.has(date)
+        : this.isHoliday(date));
+      const earlyCloses = new Map(
+        this.rules.earlyCloses(year, isTradingDay)
+          .filter(day => day.date.startsWith(`${year}-`))
+          .map(day => [day.date, day.name])
+      );
+      cached = { holidays, earlyCloses };
+      this.years.set(year, cached);
+    }
+    return cached;
+  }
+}
+
+const calendars = new Map<MarketExchange, MarketCalendar>();
+
+export function isMarketExchange(value: string): value is MarketExchange {
+  return (MARKET_EXCHANGES as readonly string[]).includes(value);
+}
+
+// Calendar for an exchange MIC; unknown codes get the NYSE calendar
+export function getMarketCalendar(exchange: string = 'XNYS'): MarketCalendar {
+  const code = isMarketExchange(exchange) ? exchange : 'XNYS';
+  let calendar = calendars.get(code);
+  if (!calendar) {
+    calendar = new MarketCalendar(code, EXCHANGE_RULES[code]);
+    calendars.set(code, calendar);
+  }
+  return calendar;
+}
+
+// US equities calendar used by the scheduler and syncs
+export const marketCalendar = getMarketCalendar('XNYS');
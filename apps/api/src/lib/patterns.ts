@@ -0,0 +1,140 @@
+// ============================================
+// Candlestick Pattern Detection
+// ============================================
+// Pure functions over OHLC bars ordered oldest first. detectPatterns() returns
+// the patterns completed on each bar, aligned with its input; multi-bar
+// patterns are reported on their last bar.
+
+import type { CandlePattern } from '@screener/shared';
+
+export interface Candle {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+// Bars before the pattern used to judge the prior trend (hammer, shooting star, stars)
+const TREND_BARS = 5;
+
+const body = (bar: Candle) => Math.abs(bar.close - bar.open);
+const range = (bar: Candle) => bar.high - bar.low;
+const upperShadow = (bar: Candle) => bar.high - Math.max(bar.open, bar.close);
+const lowerShadow = (bar: Candle) => Math.min(bar.open, bar.close) - bar.low;
+const isBullish = (bar: Candle) => bar.close > bar.open;
+const isBearish = (bar: Candle) => bar.close < bar.open;
+// Body at least half the bar's range
+const isLong = (bar: Candle) => range(bar) > 0 && body(bar) >= range(bar) * 0.5;
+
+// Closes falling / rising into bar i (compared with TREND_BARS bars earlier)
+function isDowntrend(bars: Candle[], i: number): boolean {
+  return i >= TREND_BARS && bars[i - 1].close < bars[i - TREND_BARS].close;
+}
+
+function isUptrend(bars: Candle[], i: number): boolean {
+  return i >= TREND_BARS && bars[i - 1].close > bars[i - TREND_BARS].close;
+}
+
+// Open and close nearly equal: body within 10% of the range
+export function isDoji(bar: Candle): boolean {
+  return range(bar) > 0 && body(bar) <= range(bar) * 0.1;
+}
+
+// Small body at the top, long lower shadow, after a decline
+export function isHammer(bars: Candle[], i: number): boolean {
+  const bar = bars[i];
+  return !isDoji(bar)
+    && lowerShadow(bar) >= body(bar) * 2
+    && upperShadow(bar) <= body(bar) * 0.5
+    && isDowntrend(bars, i);
+}
+
+// Small body at the bottom, long upper shadow, after an advance
+export function isShootingStar(bars: Candle[], i: number): boolean {
+  const bar = bars[i];
+  return !isDoji(bar)
+    && upperShadow(bar) >= body(bar) * 2
+    && lowerShadow(bar) <= body(bar) * 0.5
+    && isUptrend(bars, i);
+}
+
+// Bullish body that covers the previous bearish body
+export function isBullishEngulfing(bars: Candle[], i: number): boolean {
+  if (i < 1) return false;
+  const [prev, bar] = [bars[i - 1], bars[i]];
+  return isBearish(prev) && isBullish(bar)
+    && bar.open <= prev.close && bar.close >= prev.open
+    && body(bar) > body(prev);
+}
+
+// Bearish body that covers the previous bullish body
+export function isBearishEngulfing(bars: Candle[], i: number): boolean {
+  if (i < 1) return false;
+  const [prev, bar] = [bars[i - 1], bars[i]];
+  return isBullish(prev) && isBearish(bar)
+    && bar.open >= prev.close && bar.close <= prev.open
+    && body(bar) > body(prev);
+}
+
+// Long bearish bar, small-bodied bar, then a bullish close above the first bar's midpoint
+export function isMorningStar(bars: Candle[], i: number): boolean {
+  if (i < 2) return false;
+  const [first, middle, last] = [bars[i - 2], bars[i - 1], bars[i]];
+  return isBearish(first) && isLong(first)
+    && body(middle) <= body(first) * 0.3
+    && Math.max(middle.open, middle.close) < first.close + body(first) * 0.5
+    && isBullish(last)
+    && last.close > (first.open + first.close) / 2
+    && isDowntrend(bars, i - 2);
+}
+
+// Long bullish bar, small-bodied bar, then a bearish close below the first bar's midpoint
+export function isEveningStar(bars: Candle[], i: number): boolean {
+  if (i < 2) return false;
+  const [first, middle, last] = [bars[i - 2], bars[i - 1], bars[i]];
+  return isBullish(first) && isLong(first)
+    && body(middle) <= body(first) * 0.3
+    && Math.min(middle.open, middle.close) > first.close - body(first) * 0.5
+    && isBearish(last)
+    && last.close < (first.open + first.close) / 2
+    && isUptrend(bars, i - 2);
+}
+
+// Three long bullish bars, each opening within the previous body and closing higher
+export function isThreeWhiteSoldiers(bars: Candle[], i: number): boolean {
+  if (i < 2) return false;
+  const soldiers = [bars[i - 2], bars[i - 1], bars[i]];
+  if (!soldiers.every(bar => isBullish(bar) && isLong(bar) && upperShadow(bar) <= body(bar) * 0.3)) {
+    return false;
+  }
+  return [1, 2].every(k => {
+    const [prev, bar] = [soldiers[k - 1], soldiers[k]];
+    return bar.close > prev.close && bar.open >= prev.open && bar.open <= prev.close;
+  });
+}
+
+// High and low both inside the previous bar's range
+export function isInsideBar(bars: Candle[], i: number): boolean {
+  if (i < 1) return false;
+  return bars[i].high < bars[i - 1].high && bars[i].low > bars[i - 1].low;
+}
+
+const DETECTORS: Record<CandlePattern, (bars: Candle[], i: number) => boolean> = {
+  doji: (bars, i) => isDoji(bars[i]),
+  hammer: isHammer,
+  shootingStar: isShootingStar,
+  bullishEngulfing: isBullishEngulfing,
+  bearishEngulfing: isBearishEngulfing,
+  morningStar: isMorningStar,
+  eveningStar: isEveningStar,
+  threeWhiteSoldiers: isThreeWhiteSoldiers,
+  insideBar: isInsideBar,
+};
+
+// Patterns completed on each bar; `from` skips detection on earlier bars
+export function detectPatterns(bars: Candle[], from: number = 0): CandlePattern[][] {
+  return bars.map((_, i) => i < from
+    ? []
+    : (Object.keys(DETECTORS) as CandlePattern[]).filter(pattern => DETECTORS[pattern](bars, i))
+  );
+}
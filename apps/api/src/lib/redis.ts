@@ -96,6 +96,7 @@ export const redis = {
 export const REDIS_KEYS = {
   TICKER_INDICATORS: 'indicators:', // indicators:{symbol}
   SCREENER_RESULTS: 'screener:', // screener:{filterId}
+  CATEGORY_VALUES: 'categories:', // categories:{field}
   TICKER_SNAPSHOT: 'snapshot:', // snapshot:{symbol}
   RATE_LIMIT: 'ratelimit:', // ratelimit:{ip}
   // Yahoo Finance specific
@@ -113,6 +114,7 @@ export const REDIS_TTL = {
   INDICATORS: 300, // 5 minutes
   SNAPSHOT: 60, // 1 minute
   SCREENER_RESULTS: 30, // 30 seconds
+  CATEGORY_VALUES: 3600, // 1 hour - sectors/exchanges rarely change
   // Yahoo Finance TTLs
   YAHOO_QUOTE: 60, // 1 minute - real-time price data
   YAHOO_PROFILE: 86400, // 24 hours - company info rarely changes
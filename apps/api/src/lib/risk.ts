@@ -0,0 +1,100 @@
+// ============================================
+// Risk & Return Statistics
+// ============================================
+// Pure functions over daily closes / returns ordered oldest first. Each one
+// describes the trailing window ending at the latest value and returns null
+// when there is not enough history. Percent results are annualised over
+// TRADING_DAYS sessions and expressed in percentage points.
+
+export const TRADING_DAYS = 252;
+
+// Simple returns between consecutive closes (one fewer than the closes)
+export function dailyReturns(closes: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    if (closes[i - 1] > 0) returns.push(closes[i] / closes[i - 1] - 1);
+  }
+  return returns;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Sample standard deviation
+function stdev(values: number[]): number {
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (values.length - 1));
+}
+
+// Annualised volatility of the last `period` returns, in percent
+export function volatility(returns: number[], period: number): number | null {
+  if (period < 2 || returns.length < period) return null;
+  return stdev(returns.slice(-period)) * Math.sqrt(TRADING_DAYS) * 100;
+}
+
+// Largest peak-to-trough decline over the last `period` sessions, as a negative percent
+export function maxDrawdown(closes: number[], period: number): number | null {
+  if (closes.length < period + 1) return null;
+
+  let peak = -Infinity;
+  let worst = 0;
+  for (const close of closes.slice(-(period + 1))) {
+    peak = Math.max(peak, close);
+    if (peak > 0) worst = Math.min(worst, close / peak - 1);
+  }
+  return worst * 100;
+}
+
+// Annualised deviation of returns below the daily risk-free rate, in percent
+export function downsideDeviation(returns: number[], period: number, riskFreeDaily: number = 0): number | null {
+  if (returns.length < period) return null;
+  const window = returns.slice(-period);
+  const squares = window.map(value => Math.min(0, value - riskFreeDaily) ** 2);
+  return Math.sqrt(mean(squares)) * Math.sqrt(TRADING_DAYS) * 100;
+}
+
+// Annualised excess return per unit of volatility
+export function sharpeRatio(returns: number[], period: number, riskFreeDaily: number = 0): number | null {
+  if (period < 2 || returns.length < period) return null;
+  const excess = returns.slice(-period).map(value => value - riskFreeDaily);
+  const deviation = stdev(excess);
+  return deviation > 0 ? (mean(excess) / deviation) * Math.sqrt(TRADING_DAYS) : null;
+}
+
+// Annualised excess return per unit of downside deviation
+export function sortinoRatio(returns: number[], period: number, riskFreeDaily: number = 0): number | null {
+  const downside = downsideDeviation(returns, period, riskFreeDaily);
+  if (downside === null || downside === 0) return null;
+  const excess = mean(returns.slice(-period)) - riskFreeDaily;
+  return (excess * TRADING_DAYS) / (downside / 100);
+}
+
+// Beta and correlation of paired returns (same sessions) over the last `period`
+export function betaAndCorrelation(
+  returns: number[],
+  benchmarkReturns: number[],
+  period: number
+): { beta: number | null; correlation: number | null } {
+  const length = Math.min(returns.length, benchmarkReturns.length);
+  if (period < 2 || length < period) return { beta: null, correlation: null };
+
+  const a = returns.slice(-period);
+  const b = benchmarkReturns.slice(-period);
+  const meanA = mean(a);
+  const meanB = mean(b);
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < period; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  }
+
+  return {
+    beta: varianceB > 0 ? covariance / varianceB : null,
+    correlation: varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : null,
+  };
+}
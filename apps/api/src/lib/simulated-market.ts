@@ -0,0 +1,546 @@
+// ============================================
+// Simulated Market
+// ============================================
+// A seeded synthetic universe for development, demos and integration tests.
+// Every series is generated forward from a fixed start date with its own
+// seeded stream, so a seed always yields the same prices, corporate actions,
+// earnings and news for a given day, no matter when or how often it runs.
+//
+// Daily returns follow a one-factor model with sector shocks:
+//   r = drift + beta * market + sector + volatility * noise
+// plus an earnings jump on report days. Splits happen when a price runs past
+// the ticker's split threshold and dividends drop the price on the ex-date.
+
+import { marketCalendar } from './market-calendar';
+
+export type Random = () => number;
+
+// FNV-1a hash of the joined parts, as a 32-bit seed
+export function hashSeed(...parts: Array<string | number>): number {
+  let hash = 0x811c9dc5;
+  for (const char of parts.join(':')) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Mulberry32 stream in [0, 1)
+export function seededRandom(...parts: Array<string | number>): Random {
+  let state = hashSeed(...parts);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal draw (Box-Muller)
+function normal(random: Random): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+const between = (random: Random, min: number, max: number) => min + random() * (max - min);
+const pick = <T>(random: Random, items: readonly T[]): T => items[Math.floor(random() * items.length)];
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const SESSION_MINUTES = 390;
+const BENCHMARK_SYMBOL = 'SPY';
+const MARKET_VOLATILITY = 0.01;
+const MARKET_DRIFT = 0.0003;
+
+const SECTORS = [
+  { name: 'Technology', industries: ['Software', 'Semiconductors', 'IT Services'], volatility: 1.3, grossMargin: 0.6, netMargin: 0.18, growth: 0.14, payers: 0.3 },
+  { name: 'Healthcare', industries: ['Biotechnology', 'Medical Devices', 'Pharmaceuticals'], volatility: 1.2, grossMargin: 0.55, netMargin: 0.12, growth: 0.08, payers: 0.4 },
+  { name: 'Financial Services', industries: ['Banks', 'Insurance', 'Asset Management'], volatility: 1, grossMargin: 0.7, netMargin: 0.2, growth: 0.05, payers: 0.8 },
+  { name: 'Consumer Cyclical', industries: ['Retail', 'Restaurants', 'Auto Manufacturers'], volatility: 1.2, grossMargin: 0.35, netMargin: 0.07, growth: 0.07, payers: 0.5 },
+  { name: 'Consumer Defensive', industries: ['Packaged Foods', 'Beverages', 'Household Products'], volatility: 0.7, grossMargin: 0.4, netMargin: 0.09, growth: 0.03, payers: 0.9 },
+  { name: 'Industrials', industries: ['Aerospace & Defense', 'Machinery', 'Railroads'], volatility: 1, grossMargin: 0.3, netMargin: 0.09, growth: 0.05, payers: 0.7 },
+  { name: 'Energy', industries: ['Oil & Gas', 'Renewable Energy'], volatility: 1.4, grossMargin: 0.3, netMargin: 0.1, growth: 0.03, payers: 0.8 },
+  { name: 'Utilities', industries: ['Electric Utilities', 'Water Utilities'], volatility: 0.6, grossMargin: 0.45, netMargin: 0.12, growth: 0.02, payers: 1 },
+  { name: 'Real Estate', industries: ['REITs', 'Real Estate Services'], volatility: 0.9, grossMargin: 0.6, netMargin: 0.25, growth: 0.03, payers: 0.9 },
+  { name: 'Communication Services', industries: ['Telecom', 'Media', 'Internet Content'], volatility: 1.1, grossMargin: 0.5, netMargin: 0.13, growth: 0.06, payers: 0.5 },
+  { name: 'Basic Materials', industries: ['Chemicals', 'Steel', 'Gold'], volatility: 1.3, grossMargin: 0.28, netMargin: 0.08, growth: 0.03, payers: 0.7 },
+] as const;
+
+const NAME_PREFIXES = [
+  'Apex', 'Bluewater', 'Cedar', 'Delta', 'Ember', 'Falcon', 'Granite', 'Harbor', 'Ironwood', 'Juniper',
+  'Keystone', 'Lumen', 'Meridian', 'Northgate', 'Orion', 'Pioneer', 'Quantum', 'Ridgeline', 'Summit',
+  'Titan', 'Unity', 'Vertex', 'Willow', 'Zenith', 'Atlas', 'Beacon', 'Crescent', 'Frontier', 'Horizon',
+];
+const NAME_STEMS = ['Systems', 'Holdings', 'Labs', 'Group', 'Industries', 'Partners', 'Networks', 'Dynamics', 'Brands', 'Resources'];
+const NAME_SUFFIXES = ['Inc.', 'Corp.', 'Co.', 'plc'];
+
+export interface SimulatedMarketOptions {
+  seed: string | number;
+  tickers: number; // Universe size, including the benchmark ETF
+  start: string; // First simulated session (YYYY-MM-DD)
+  asOf?: string; // Freeze the last session; defaults to today
+}
+
+export interface SimulatedTicker {
+  symbol: string;
+  name: string;
+  type: 'CS' | 'ETF';
+  primaryExchange: string;
+  sector: string;
+  industry: string;
+  beta: number;
+  volatility: number; // Daily idiosyncratic volatility
+  drift: number; // Daily drift
+  initialPrice: number;
+  baseVolume: number;
+  initialShares: number;
+  dividendYield: number; // Annual, 0 for non-payers
+  splitThreshold: number;
+  reportOffset: number; // Days after quarter end that earnings are reported
+  initialRevenue: number; // Quarterly
+  revenueGrowth: number; // Annual
+  grossMargin: number;
+  netMargin: number;
+  employees: number;
+  listDate: string;
+}
+
+export interface SimulatedBar {
+  date: string;
+  t: number;
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v: number;
+  vw: number;
+}
+
+export interface SimulatedSplit {
+  date: string;
+  from: number;
+  to: number;
+}
+
+export interface SimulatedDividend {
+  exDate: string;
+  declarationDate: string;
+  recordDate: string;
+  payDate: string;
+  amount: number;
+}
+
+// One reported fiscal quarter, with the fields the fundamental models read
+export interface SimulatedQuarter {
+  reportDate: string;
+  fiscalYear: number;
+  fiscalQuarter: number;
+  startDate: string;
+  endDate: string;
+  revenue: number;
+  costOfRevenue: number;
+  grossProfit: number;
+  sga: number;
+  depreciation: number;
+  operatingIncome: number;
+  netIncome: number;
+  shares: number;
+  eps: number;
+  surprise: number; // EPS surprise versus the expected figure, in percent
+  totalAssets: number;
+  currentAssets: number;
+  receivables: number;
+  fixedAssets: number;
+  totalLiabilities: number;
+  currentLiabilities: number;
+  longTermDebt: number;
+  equity: number;
+  retainedEarnings: number;
+  operatingCashFlow: number;
+  investingCashFlow: number;
+  financingCashFlow: number;
+}
+
+export interface SimulatedEvent {
+  date: string;
+  kind: 'earnings' | 'move' | 'split' | 'dividend';
+  change: number; // Close-to-close change that day, in percent
+  detail?: string;
+}
+
+export interface SimulatedHistory {
+  bars: SimulatedBar[]; // Oldest first, raw (unadjusted) prices
+  splits: SimulatedSplit[];
+  dividends: SimulatedDividend[];
+  quarters: SimulatedQuarter[];
+  events: SimulatedEvent[];
+  shares: number; // Shares outstanding after the last session
+}
+
+const toDate = (time: number) => new Date(time).toISOString().split('T')[0];
+const addDays = (date: string, days: number) => toDate(Date.parse(`${date}T00:00:00Z`) + days * 86400000);
+
+// NYSE sessions from start to end, inclusive
+function tradingDates(start: string, end: string): string[] {
+  const dates: string[] = [];
+  for (let time = Date.parse(`${start}T00:00:00Z`); time <= Date.parse(`${end}T00:00:00Z`); time += 86400000) {
+    if (marketCalendar.isTradingDay(toDate(time))) dates.push(toDate(time));
+  }
+  return dates;
+}
+
+// UTC timestamp of the 9:30 ET open on a date (DST aware)
+export function sessionOpen(date: string): number {
+  const noon = new Date(`${date}T12:00:00Z`);
+  const easternHour = Number(noon.toLocaleString('en-US', { timeZone: 'America/New_York', hour: 'numeric', hour12: false }));
+  return Date.parse(`${date}T09:30:00Z`) + (12 - easternHour) * 3600000;
+}
+
+// The last day of each calendar quarter after `date`, as YYYY-MM-DD
+function nextQuarterEnd(date: string): string {
+  const [year, month] = date.split('-').map(Number);
+  const quarterMonth = Math.ceil(month / 3) * 3;
+  return toDate(Date.UTC(year, quarterMonth, 0));
+}
+
+export class SimulatedMarket {
+  readonly seed: string;
+  readonly start: string;
+  readonly tickers: SimulatedTicker[];
+  private frozenAsOf?: string;
+  private cachedAsOf?: string;
+  private dates: string[] = [];
+  private marketReturns: number[] = [];
+  private sectorReturns = new Map<string, number[]>();
+  private histories = new Map<string, SimulatedHistory>();
+
+  constructor(options: SimulatedMarketOptions) {
+    this.seed = String(options.seed);
+    this.start = options.start;
+    this.frozenAsOf = options.asOf;
+    this.tickers = this.createUniverse(Math.max(1, options.tickers));
+  }
+
+  // ============================================
+  // Universe
+  // ============================================
+
+  private createUniverse(size: number): SimulatedTicker[] {
+    const random = seededRandom(this.seed, 'universe');
+    const used = new Set<string>([BENCHMARK_SYMBOL]);
+    const universe: SimulatedTicker[] = [{
+      symbol: BENCHMARK_SYMBOL,
+      name: 'Simulated Total Market ETF',
+      type: 'ETF',
+      primaryExchange: 'ARCX',
+      sector: 'Index',
+      industry: 'Exchange Traded Fund',
+      beta: 1,
+      volatility: 0.001,
+      drift: 0,
+      initialPrice: 300,
+      baseVolume: 60_000_000,
+      initialShares: 900_000_000,
+      dividendYield: 0.015,
+      splitThreshold: Infinity,
+      reportOffset: 0,
+      initialRevenue: 0,
+      revenueGrowth: 0,
+      grossMargin: 0,
+      netMargin: 0,
+      employees: 0,
+      listDate: this.start,
+    }];
+
+    while (universe.length < size) {
+      const sector = pick(random, SECTORS);
+      const length = random() < 0.6 ? 3 : 4;
+      let symbol = '';
+      for (let i = 0; i < length; i++) symbol += String.fromCharCode(65 + Math.floor(random() * 26));
+      if (used.has(symbol)) continue;
+      used.add(symbol);
+
+      const initialPrice = round2(Math.exp(between(random, Math.log(8), Math.log(400))));
+      const marketCap = Math.exp(between(random, Math.log(5e8), Math.log(4e11)));
+      const initialShares = Math.round(marketCap / initialPrice);
+
+      universe.push({
+        symbol,
+        name: `${pick(random, NAME_PREFIXES)} ${pick(random, NAME_STEMS)} ${pick(random, NAME_SUFFIXES)}`,
+        type: 'CS',
+        primaryExchange: random() < 0.55 ? 'XNAS' : 'XNYS',
+        sector: sector.name,
+        industry: pick(random, sector.industries),
+        beta: round2(between(random, 0.5, 1.6) * (sector.volatility > 1 ? 1.1 : 0.9)),
+        volatility: between(random, 0.008, 0.025) * sector.volatility,
+        drift: between(random, -0.0003, 0.0006),
+        initialPrice,
+        baseVolume: Math.round(Math.max(150_000, initialShares * between(random, 0.002, 0.01))),
+        initialShares,
+        dividendYield: random() < sector.payers ? Math.round(between(random, 0.005, 0.05) * 10000) / 10000 : 0,
+        splitThreshold: Math.round(between(random, 300, 900)),
+        reportOffset: Math.round(between(random, 18, 45)),
+        initialRevenue: marketCap / between(random, 2, 12) / 4,
+        revenueGrowth: sector.growth + between(random, -0.05, 0.1),
+        grossMargin: Math.min(0.9, sector.grossMargin * between(random, 0.7, 1.3)),
+        netMargin: sector.netMargin * between(random, 0.3, 1.5),
+        employees: Math.round(marketCap / between(random, 3e5, 3e6)),
+        listDate: addDays(this.start, -Math.round(between(random, 365, 365 * 40))),
+      });
+    }
+
+    return universe;
+  }
+
+  getTicker(symbol: string): SimulatedTicker | undefined {
+    return this.tickers.find(ticker => ticker.symbol === symbol.toUpperCase());
+  }
+
+  // ============================================
+  // Clock & Factors
+  // ============================================
+
+  // Last simulated session: the frozen as-of date, else today
+  asOf(): string {
+    return this.frozenAsOf ?? toDate(Date.now());
+  }
+
+  // Session dates up to the as-of day; regenerates factors when it moves
+  sessions(): string[] {
+    const asOf = this.asOf();
+    if (asOf === this.cachedAsOf) return this.dates;
+
+    this.cachedAsOf = asOf;
+    this.dates = tradingDates(this.start, asOf);
+    this.histories.clear();
+
+    const market = seededRandom(this.seed, 'market');
+    this.marketReturns = this.dates.map(() => MARKET_DRIFT + MARKET_VOLATILITY * normal(market));
+    for (const sector of SECTORS) {
+      const random = seededRandom(this.seed, 'sector', sector.name);
+      this.sectorReturns.set(sector.name, this.dates.map(() => 0.005 * sector.volatility * normal(random)));
+    }
+
+    return this.dates;
+  }
+
+  // ============================================
+  // Daily History
+  // ============================================
+
+  history(symbol: string): SimulatedHistory | null {
+    const ticker = this.getTicker(symbol);
+    if (!ticker) return null;
+
+    const dates = this.sessions();
+    const cached = this.histories.get(ticker.symbol);
+    if (cached) return cached;
+
+    const history = this.generate(ticker, dates);
+    this.histories.set(ticker.symbol, history);
+    return history;
+  }
+
+  private generate(ticker: SimulatedTicker, dates: string[]): SimulatedHistory {
+    const random = seededRandom(this.seed, 'ticker', ticker.symbol);
+    const sectorReturns = this.sectorReturns.get(ticker.sector);
+    const history: SimulatedHistory = { bars: [], splits: [], dividends: [], quarters: [], events: [], shares: ticker.initialShares };
+
+    let close = ticker.initialPrice;
+    let baseVolume = ticker.baseVolume;
+    let quarterEnd = nextQuarterEnd(this.start);
+    let revenue = ticker.initialRevenue;
+    let retainedEarnings = ticker.initialRevenue * 4 * between(random, 0.5, 3);
+    let nextDividend = ticker.dividendYield > 0 ? addDays(this.start, Math.round(between(random, 5, 90))) : null;
+
+    for (let i = 0; i < dates.length; i++) {
+      const date = dates[i];
+      const previousClose = close;
+      let volumeBoost = 1;
+      let event: SimulatedEvent | null = null;
+
+      // Split the day after the price runs past the threshold
+      if (close > ticker.splitThreshold) {
+        const ratio = close > ticker.splitThreshold * 2 ? 3 : 2;
+        close /= ratio;
+        baseVolume *= ratio;
+        history.shares *= ratio;
+        history.splits.push({ date, from: 1, to: ratio });
+        event = { date, kind: 'split', change: 0, detail: `${ratio}-for-1` };
+      }
+      const splitPreviousClose = close;
+
+      let dailyReturn = ticker.drift
+        + ticker.beta * this.marketReturns[i]
+        + (sectorReturns?.[i] ?? 0)
+        + ticker.volatility * normal(random);
+
+      // Report the last quarter once its reporting lag has passed
+      if (ticker.type === 'CS' && date >= addDays(quarterEnd, ticker.reportOffset)) {
+        const quarter = this.reportQuarter(ticker, random, quarterEnd, date, revenue, history.shares, close, retainedEarnings);
+        history.quarters.push(quarter);
+        revenue = quarter.revenue;
+        retainedEarnings = quarter.retainedEarnings;
+        quarterEnd = nextQuarterEnd(addDays(quarterEnd, 1));
+
+        dailyReturn += Math.max(-0.25, Math.min(0.25, quarter.surprise / 100 * 0.4));
+        volumeBoost = 3;
+        event = { date, kind: 'earnings', change: 0, detail: `Q${quarter.fiscalQuarter} ${quarter.fiscalYear}` };
+      }
+
+      close = Math.max(0.5, close * Math.exp(dailyReturn));
+
+      // Ex-dividend: the price drops by the payout
+      if (nextDividend && date >= nextDividend) {
+        const amount = round2(Math.max(0.01, previousClose * ticker.dividendYield / 4));
+        close = Math.max(0.5, close - amount);
+        history.dividends.push({
+          exDate: date,
+          declarationDate: addDays(date, -21),
+          recordDate: addDays(date, 1),
+          payDate: addDays(date, 14),
+          amount,
+        });
+        event ??= { date, kind: 'dividend', change: 0, detail: amount.toFixed(2) };
+        nextDividend = addDays(nextDividend, 91);
+      }
+
+      const range = Math.abs(normal(random)) * ticker.volatility * 0.6 + ticker.volatility * 0.2;
+      const open = splitPreviousClose * Math.exp(ticker.volatility * 0.3 * normal(random));
+      const high = Math.max(open, close) * (1 + range * random());
+      const low = Math.min(open, close) * (1 - range * random());
+      const volume = Math.round(baseVolume * Math.exp(0.35 * normal(random)) * (1 + 8 * Math.abs(dailyReturn)) * volumeBoost);
+
+      const bar: SimulatedBar = {
+        date,
+        t: Date.parse(`${date}T00:00:00Z`),
+        o: round2(open),
+        h: round2(high),
+        l: round2(low),
+        c: round2(close),
+        v: volume,
+        vw: round2((high + low + close) / 3),
+      };
+      history.bars.push(bar);
+
+      const change = (bar.c / splitPreviousClose - 1) * 100;
+      if (event) {
+        history.events.push({ ...event, change });
+      } else if (Math.abs(dailyReturn) > 3.5 * (ticker.volatility + ticker.beta * MARKET_VOLATILITY)) {
+        history.events.push({ date, kind: 'move', change });
+      }
+    }
+
+    return history;
+  }
+
+  // Statements for the quarter ending at `endDate`, reported on `reportDate`
+  private reportQuarter(
+    ticker: SimulatedTicker,
+    random: Random,
+    endDate: string,
+    reportDate: string,
+    previousRevenue: number,
+    shares: number,
+    price: number,
+    previousRetained: number
+  ): SimulatedQuarter {
+    const [year, month] = endDate.split('-').map(Number);
+    const revenue = previousRevenue * (1 + ticker.revenueGrowth / 4 + 0.03 * normal(random));
+    const grossProfit = revenue * Math.min(0.95, Math.max(0.05, ticker.grossMargin + 0.02 * normal(random)));
+    const netMargin = ticker.netMargin + 0.02 * normal(random);
+    const netIncome = revenue * netMargin;
+    const depreciation = revenue * 0.04;
+    const operatingIncome = netIncome / 0.78;
+    const expected = previousRevenue * (1 + ticker.revenueGrowth / 4) * ticker.netMargin;
+    const surprise = expected !== 0 ? ((netIncome - expected) / Math.abs(expected)) * 100 : 0;
+
+    const totalAssets = revenue * 4 * between(random, 1.2, 1.6);
+    const equity = Math.max(totalAssets * 0.15, price * shares * between(random, 0.15, 0.35));
+    const totalLiabilities = Math.max(0, totalAssets - equity);
+    const operatingCashFlow = netIncome * between(random, 0.9, 1.3) + depreciation;
+    const investingCashFlow = -depreciation * between(random, 0.8, 1.5);
+    const dividendsPaid = price * shares * ticker.dividendYield / 4;
+
+    return {
+      reportDate,
+      fiscalYear: year,
+      fiscalQuarter: Math.ceil(month / 3),
+      startDate: addDays(nextQuarterEnd(addDays(endDate, -100)), 1),
+      endDate,
+      revenue,
+      costOfRevenue: revenue - grossProfit,
+      grossProfit,
+      sga: Math.max(0, grossProfit - operatingIncome - depreciation),
+      depreciation,
+      operatingIncome,
+      netIncome,
+      shares,
+      eps: netIncome / shares,
+      surprise,
+      totalAssets,
+      currentAssets: totalAssets * 0.35,
+      receivables: revenue * 0.5,
+      fixedAssets: totalAssets * 0.4,
+      totalLiabilities,
+      currentLiabilities: totalLiabilities * 0.4,
+      longTermDebt: totalLiabilities * 0.45,
+      equity,
+      retainedEarnings: previousRetained + netIncome - dividendsPaid,
+      operatingCashFlow,
+      investingCashFlow,
+      financingCashFlow: -dividendsPaid,
+    };
+  }
+
+  // ============================================
+  // Intraday
+  // ============================================
+
+  // Minute bars for a session: a seeded bridge from the day's open to its
+  // close that touches the day's high and low
+  minuteBars(symbol: string, date: string): SimulatedBar[] {
+    const history = this.history(symbol);
+    const day = history?.bars.find(bar => bar.date === date);
+    if (!day) return [];
+
+    const random = seededRandom(this.seed, 'intraday', day.date, symbol.toUpperCase());
+    const walk = [0];
+    for (let i = 1; i <= SESSION_MINUTES; i++) walk.push(walk[i - 1] + normal(random));
+
+    // Pin both ends, then stretch the excursions to the day's range
+    const bridge = walk.map((value, i) => value - (i / SESSION_MINUTES) * walk[SESSION_MINUTES]);
+    const line = (i: number) => day.o + (day.c - day.o) * (i / SESSION_MINUTES);
+    const peak = Math.max(...bridge.map((value, i) => value > 0 ? value / Math.max(0.01, day.h - line(i)) : 0));
+    const trough = Math.max(...bridge.map((value, i) => value < 0 ? -value / Math.max(0.01, line(i) - day.l) : 0));
+    const path = bridge.map((value, i) => {
+      const scaled = line(i) + (value > 0 ? value / (peak || 1) : value / (trough || 1));
+      return Math.min(day.h, Math.max(day.l, scaled));
+    });
+
+    const open = sessionOpen(date);
+    const bars: SimulatedBar[] = [];
+    let total = 0;
+    for (let i = 0; i < SESSION_MINUTES; i++) {
+      // U-shaped volume profile across the session
+      const weight = 1 + 2 * ((i - SESSION_MINUTES / 2) / (SESSION_MINUTES / 2)) ** 2;
+      const o = path[i];
+      const c = path[i + 1];
+      const wiggle = Math.abs(c - o) * random() * 0.5;
+      bars.push({
+        date,
+        t: open + i * 60000,
+        o: round2(o),
+        h: round2(Math.min(day.h, Math.max(o, c) + wiggle)),
+        l: round2(Math.max(day.l, Math.min(o, c) - wiggle)),
+        c: round2(c),
+        v: weight,
+        vw: round2((o + c) / 2),
+      });
+      total += weight;
+    }
+
+    for (const bar of bars) bar.v = Math.round(day.v * bar.v / total);
+    return bars;
+  }
+}
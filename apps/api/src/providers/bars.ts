@@ -0,0 +1,61 @@
+import type { ChartBar, IndicatorValue, MACDValue } from '@screener/shared';
+import { macd, last } from '../lib/indicators';
+
+// ============================================
+// Bar Helpers
+// ============================================
+// Shared by the adapters that serve aggregates and indicators from their own
+// daily bars rather than a remote API.
+
+export interface DatedBar extends ChartBar {
+  date: string; // YYYY-MM-DD session
+}
+
+// Weekly (Monday) or monthly bars from daily ones, oldest first
+export function rollUpBars<T extends DatedBar>(daily: T[], timespan: 'week' | 'month'): T[] {
+  const periods = new Map<string, T>();
+
+  for (const bar of daily) {
+    const date = new Date(bar.t);
+    if (timespan === 'week') date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+    else date.setUTCDate(1);
+    const key = date.toISOString().split('T')[0];
+
+    const period = periods.get(key);
+    if (!period) {
+      periods.set(key, { ...bar, date: key, t: date.getTime(), vw: undefined });
+    } else {
+      period.h = Math.max(period.h, bar.h);
+      period.l = Math.min(period.l, bar.l);
+      period.c = bar.c;
+      period.v += bar.v;
+    }
+  }
+
+  return [...periods.values()];
+}
+
+// Latest RSI / SMA / EMA value over the closes of `bars` (oldest first)
+export function latestIndicator(
+  bars: ChartBar[],
+  compute: (closes: number[]) => Array<number | null>
+): IndicatorValue | null {
+  const value = last(compute(bars.map(bar => bar.c)));
+  return value === null ? null : { timestamp: bars[bars.length - 1].t, value };
+}
+
+export function latestMacd(
+  bars: ChartBar[],
+  shortWindow: number,
+  longWindow: number,
+  signalWindow: number
+): MACDValue | null {
+  const series = macd(bars.map(bar => bar.c), shortWindow, longWindow, signalWindow);
+  const value = last(series.value);
+  const signal = last(series.signal);
+  const histogram = last(series.histogram);
+
+  return value !== null && signal !== null && histogram !== null
+    ? { timestamp: bars[bars.length - 1].t, value, signal, histogram }
+    : null;
+}
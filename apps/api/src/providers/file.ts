@@ -0,0 +1,361 @@
+import fs from 'fs';
+import path from 'path';
+import type {
+  Ticker,
+  TickerSnapshot,
+  IndicatorValue,
+  MACDValue,
+  CompanyDetails,
+  PolygonIncomeStatement,
+  PolygonBalanceSheet,
+  PolygonCashFlowStatement,
+  FinancialRatios,
+  Dividend,
+  StockSplit,
+  NewsArticle,
+  ChartBar,
+} from '@screener/shared';
+import type {
+  MarketDataProvider,
+  TickerListParams,
+  AggregatesParams,
+  TickerDetailsSummary,
+  StatementParams,
+  DividendParams,
+  SplitParams,
+  NewsParams,
+} from './types';
+import { sma, ema, rsi } from '../lib/indicators';
+import { parseCsv } from '../lib/csv';
+import { rollUpBars, latestIndicator, latestMacd, type DatedBar } from './bars';
+
+// ============================================
+// File Provider
+// ============================================
+// Serves market data from a local directory so the app runs with no API key
+// or network. Per-symbol tables may be CSV (header row) or JSON arrays:
+//
+//   tickers.csv|json              symbol,name,type,primaryExchange (optional;
+//                                 defaults to every symbol under bars/)
+//   bars/<SYMBOL>.csv|json        date,open,high,low,close,volume[,vwap] (daily)
+//   dividends/<SYMBOL>.csv|json   exDividendDate,amount[,payDate,recordDate,
+//                                 declarationDate,frequency,dividendType]
+//   splits/<SYMBOL>.csv|json      executionDate,splitFrom,splitTo
+//   details/<SYMBOL>.json         CompanyDetails, plus optional name / logoUrl
+//   ratios/<SYMBOL>.json          FinancialRatios
+//   financials/<SYMBOL>.json      { income, balance, cashFlow } Polygon-style statements
+//   news.json                     NewsArticle[] (tickers lists the symbols)
+//
+// Snapshots are the latest two daily bars; weekly and monthly aggregates are
+// rolled up from the daily bars and intraday timespans are empty.
+
+export const MARKET_DATA_DIR = path.resolve(process.env.MARKET_DATA_DIR || './data');
+
+type Row = Record<string, unknown>;
+
+const toNumber = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const toText = (value: unknown): string | undefined =>
+  value === undefined || value === null || value === '' ? undefined : String(value);
+
+// YYYY-MM-DD of a date-like value
+const toDate = (value: unknown): string | undefined => toText(value)?.slice(0, 10);
+
+const symbolFile = (symbol: string) => symbol.toUpperCase().replace(/[^A-Z0-9.\-]/g, '_');
+
+/**
+ * Market data read from MARKET_DATA_DIR. Files are re-read when they change,
+ * so a directory can be updated while the server runs.
+ */
+export class FileProvider implements MarketDataProvider {
+  readonly name = 'file' as const;
+  private cache = new Map<string, { mtimeMs: number; value: unknown }>();
+
+  constructor(private dir: string = MARKET_DATA_DIR) {
+    if (!fs.existsSync(dir)) {
+      console.warn(`⚠️  Market data directory ${dir} does not exist; the file provider will return no data`);
+    }
+  }
+
+  // ============================================
+  // File Access
+  // ============================================
+
+  // Parsed file contents, cached until the file's mtime changes
+  private read<T>(file: string, parse: (text: string) => T): T | null {
+    const fullPath = path.join(this.dir, file);
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(fullPath).mtimeMs;
+    } catch {
+      return null;
+    }
+
+    const cached = this.cache.get(fullPath);
+    if (cached && cached.mtimeMs === mtimeMs) return cached.value as T;
+
+    try {
+      const value = parse(fs.readFileSync(fullPath, 'utf8'));
+      this.cache.set(fullPath, { mtimeMs, value });
+      return value;
+    } catch (error) {
+      console.error(`Failed to read ${fullPath}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  private readJson<T>(file: string): T | null {
+    return this.read(file, text => JSON.parse(text) as T);
+  }
+
+  // Rows of <base>.json or <base>.csv
+  private readTable(base: string): Row[] {
+    return this.readJson<Row[]>(`${base}.json`) ?? this.read(`${base}.csv`, parseCsv) ?? [];
+  }
+
+  private listSymbols(): string[] {
+    try {
+      return fs.readdirSync(path.join(this.dir, 'bars'))
+        .filter(file => file.endsWith('.csv') || file.endsWith('.json'))
+        .map(file => file.replace(/\.(csv|json)$/, '').toUpperCase())
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  // Daily bars, oldest first
+  private loadBars(symbol: string): DatedBar[] {
+    return this.readTable(`bars/${symbolFile(symbol)}`)
+      .map((row): DatedBar | null => {
+        const date = toDate(row.date);
+        const close = toNumber(row.close);
+        if (!date || close === undefined) return null;
+
+        return {
+          date,
+          t: Date.parse(`${date}T00:00:00Z`),
+          o: toNumber(row.open) ?? close,
+          h: toNumber(row.high) ?? close,
+          l: toNumber(row.low) ?? close,
+          c: close,
+          v: toNumber(row.volume) ?? 0,
+          vw: toNumber(row.vwap),
+        };
+      })
+      .filter((bar): bar is DatedBar => bar !== null)
+      .sort((a, b) => a.t - b.t);
+  }
+
+  // ============================================
+  // Reference Data
+  // ============================================
+
+  async getAllTickers(): Promise<Ticker[]> {
+    const rows = this.readTable('tickers');
+    const listed: Row[] = rows.length > 0 ? rows : this.listSymbols().map(symbol => ({ symbol }));
+
+    return listed
+      .filter(row => toText(row.symbol ?? row.ticker))
+      .map(row => ({
+        symbol: String(row.symbol ?? row.ticker).toUpperCase(),
+        name: toText(row.name) ?? String(row.symbol ?? row.ticker).toUpperCase(),
+        market: toText(row.market) ?? 'stocks',
+        locale: toText(row.locale) ?? 'us',
+        primaryExchange: toText(row.primaryExchange) ?? '',
+        type: toText(row.type) ?? 'CS',
+        active: row.active === undefined ? true : row.active === true || row.active === 'true',
+        currencyName: toText(row.currencyName) ?? 'usd',
+        cik: toText(row.cik),
+        compositeFigi: toText(row.compositeFigi),
+      }));
+  }
+
+  async getTickers(params: TickerListParams = {}): Promise<Ticker[]> {
+    const search = params.search?.toLowerCase();
+
+    return (await this.getAllTickers())
+      .filter(ticker => ticker.active === (params.active !== false))
+      .filter(ticker => !params.type || ticker.type === params.type)
+      .filter(ticker => !search || ticker.symbol.toLowerCase().includes(search) || ticker.name.toLowerCase().includes(search))
+      .slice(0, params.limit || 1000);
+  }
+
+  // ============================================
+  // Snapshots
+  // ============================================
+
+  async getMarketSnapshot(): Promise<TickerSnapshot[]> {
+    const snapshots: TickerSnapshot[] = [];
+    for (const symbol of this.listSymbols()) {
+      const snapshot = await this.getTickerSnapshot(symbol);
+      if (snapshot) snapshots.push(snapshot);
+    }
+    return snapshots;
+  }
+
+  async getTickerSnapshot(symbol: string): Promise<TickerSnapshot | null> {
+    const bars = this.loadBars(symbol);
+    if (bars.length === 0) return null;
+
+    const day = bars[bars.length - 1];
+    const prevDay = bars.length > 1 ? bars[bars.length - 2] : day;
+    const toOhlc = (bar: DatedBar) => ({ o: bar.o, h: bar.h, l: bar.l, c: bar.c, v: bar.v, vw: bar.vw ?? bar.c });
+
+    return {
+      ticker: symbol.toUpperCase(),
+      day: toOhlc(day),
+      prevDay: toOhlc(prevDay),
+      todaysChange: day.c - prevDay.c,
+      todaysChangePerc: prevDay.c > 0 ? ((day.c - prevDay.c) / prevDay.c) * 100 : 0,
+      updated: day.t,
+    };
+  }
+
+  // ============================================
+  // Aggregates (OHLCV)
+  // ============================================
+
+  async getAggregates(params: AggregatesParams): Promise<ChartBar[]> {
+    if (params.timespan === 'minute' || params.timespan === 'hour') return [];
+
+    const daily = this.loadBars(params.symbol).filter(bar => bar.date >= params.from && bar.date <= params.to);
+    const bars = params.timespan === 'day' ? daily : rollUpBars(daily, params.timespan);
+    const sorted = params.sort === 'asc' ? bars : [...bars].reverse();
+
+    return sorted.slice(0, params.limit || 5000).map(({ date, ...bar }) => bar);
+  }
+
+  // ============================================
+  // Technical Indicators (computed from the daily bars)
+  // ============================================
+
+  async getRSI(symbol: string, window: number = 14): Promise<IndicatorValue | null> {
+    return latestIndicator(this.loadBars(symbol), closes => rsi(closes, window));
+  }
+
+  async getSMA(symbol: string, window: number): Promise<IndicatorValue | null> {
+    return latestIndicator(this.loadBars(symbol), closes => sma(closes, window));
+  }
+
+  async getEMA(symbol: string, window: number): Promise<IndicatorValue | null> {
+    return latestIndicator(this.loadBars(symbol), closes => ema(closes, window));
+  }
+
+  async getMACD(
+    symbol: string,
+    shortWindow: number = 12,
+    longWindow: number = 26,
+    signalWindow: number = 9
+  ): Promise<MACDValue | null> {
+    return latestMacd(this.loadBars(symbol), shortWindow, longWindow, signalWindow);
+  }
+
+  // ============================================
+  // Fundamentals
+  // ============================================
+
+  async getTickerDetails(symbol: string): Promise<TickerDetailsSummary | null> {
+    const details = this.readJson<CompanyDetails & { name?: string; logoUrl?: string }>(`details/${symbolFile(symbol)}.json`);
+    const ticker = (await this.getAllTickers()).find(t => t.symbol === symbol.toUpperCase());
+    if (!details && !ticker) return null;
+
+    return {
+      name: details?.name ?? ticker?.name ?? symbol.toUpperCase(),
+      market_cap: details?.marketCap,
+      branding: details?.logoUrl ? { logo_url: details.logoUrl } : undefined,
+    };
+  }
+
+  async getTickerDetailsExtended(symbol: string): Promise<CompanyDetails | null> {
+    const details = this.readJson<CompanyDetails>(`details/${symbolFile(symbol)}.json`);
+    return details ? { ...details, symbol: symbol.toUpperCase() } : null;
+  }
+
+  private loadStatements<T extends { timeframe: string; end_date: string }>(
+    symbol: string,
+    kind: 'income' | 'balance' | 'cashFlow',
+    params?: StatementParams
+  ): T[] {
+    const financials = this.readJson<Partial<Record<typeof kind, T[]>>>(`financials/${symbolFile(symbol)}.json`);
+    const timeframe = params?.timeframe || 'quarterly';
+
+    return (financials?.[kind] ?? [])
+      .filter(stmt => stmt.timeframe === timeframe)
+      .sort((a, b) => b.end_date.localeCompare(a.end_date))
+      .slice(0, params?.limit || 10);
+  }
+
+  async getIncomeStatements(symbol: string, params?: StatementParams): Promise<PolygonIncomeStatement[]> {
+    return this.loadStatements<PolygonIncomeStatement>(symbol, 'income', params);
+  }
+
+  async getBalanceSheets(symbol: string, params?: StatementParams): Promise<PolygonBalanceSheet[]> {
+    return this.loadStatements<PolygonBalanceSheet>(symbol, 'balance', params);
+  }
+
+  async getCashFlowStatements(symbol: string, params?: StatementParams): Promise<PolygonCashFlowStatement[]> {
+    return this.loadStatements<PolygonCashFlowStatement>(symbol, 'cashFlow', params);
+  }
+
+  async getFinancialRatios(symbol: string): Promise<FinancialRatios | null> {
+    const ratios = this.readJson<FinancialRatios>(`ratios/${symbolFile(symbol)}.json`);
+    return ratios ? { ...ratios, symbol: symbol.toUpperCase() } : null;
+  }
+
+  // ============================================
+  // Corporate Actions (newest first, like the APIs)
+  // ============================================
+
+  async getDividends(symbol: string, params?: DividendParams): Promise<Dividend[]> {
+    return this.readTable(`dividends/${symbolFile(symbol)}`)
+      .map(row => ({
+        symbol: symbol.toUpperCase(),
+        exDividendDate: toDate(row.exDividendDate) ?? '',
+        payDate: toDate(row.payDate),
+        recordDate: toDate(row.recordDate),
+        declarationDate: toDate(row.declarationDate),
+        amount: toNumber(row.amount) ?? 0,
+        frequency: toNumber(row.frequency),
+        dividendType: toText(row.dividendType),
+      }))
+      .filter(d => d.exDividendDate && d.amount > 0)
+      .filter(d => !params?.ex_dividend_date_gte || d.exDividendDate >= params.ex_dividend_date_gte)
+      .sort((a, b) => b.exDividendDate.localeCompare(a.exDividendDate))
+      .slice(0, params?.limit || 50);
+  }
+
+  async getStockSplits(symbol: string, params?: SplitParams): Promise<StockSplit[]> {
+    return this.readTable(`splits/${symbolFile(symbol)}`)
+      .map(row => ({
+        symbol: symbol.toUpperCase(),
+        executionDate: toDate(row.executionDate) ?? '',
+        splitFrom: toNumber(row.splitFrom) ?? 0,
+        splitTo: toNumber(row.splitTo) ?? 0,
+      }))
+      .filter(s => s.executionDate && s.splitFrom > 0 && s.splitTo > 0)
+      .filter(s => !params?.execution_date_gte || s.executionDate >= params.execution_date_gte)
+      .sort((a, b) => b.executionDate.localeCompare(a.executionDate))
+      .slice(0, params?.limit || 50);
+  }
+
+  // ============================================
+  // News
+  // ============================================
+
+  async getNews(params?: NewsParams): Promise<NewsArticle[]> {
+    const ticker = params?.ticker?.toUpperCase();
+    const since = params?.published_utc_gte;
+
+    const articles = (this.readJson<NewsArticle[]>('news.json') ?? [])
+      .filter(article => !ticker || article.tickers?.some(t => t.toUpperCase() === ticker))
+      .filter(article => !since || article.publishedAt >= since)
+      .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
+
+    return (params?.order === 'asc' ? articles.reverse() : articles).slice(0, params?.limit || 50);
+  }
+}
@@ -0,0 +1,44 @@
+import { MassiveClient } from '../clients/massive';
+import { YahooProvider } from './yahoo';
+import { FileProvider } from './file';
+import { SimulatedProvider } from './simulated';
+import type { MarketDataProvider, ProviderName } from './types';
+
+export type * from './types';
+export { YahooProvider } from './yahoo';
+export { FileProvider, MARKET_DATA_DIR } from './file';
+export { SimulatedProvider } from './simulated';
+
+const PROVIDER_NAMES: ProviderName[] = ['massive', 'yahoo', 'file', 'simulated'];
+
+// Upstream source for sync services and API fallbacks
+export const MARKET_DATA_PROVIDER: ProviderName = (() => {
+  const name = (process.env.MARKET_DATA_PROVIDER || 'massive').toLowerCase() as ProviderName;
+  if (PROVIDER_NAMES.includes(name)) return name;
+  console.warn(`⚠️  Unknown MARKET_DATA_PROVIDER "${name}", using massive`);
+  return 'massive';
+})();
+
+export function createMarketDataProvider(name: ProviderName = MARKET_DATA_PROVIDER): MarketDataProvider {
+  switch (name) {
+    case 'yahoo':
+      return new YahooProvider();
+    case 'file':
+      return new FileProvider();
+    case 'simulated':
+      return new SimulatedProvider();
+    default:
+      return new MassiveClient();
+  }
+}
+
+export const marketData = createMarketDataProvider();
+
+// Free, keyless source for ticker-page fallbacks when the DB has nothing.
+// Yahoo, unless the app runs offline from files or the simulator.
+export const fallbackMarketData: MarketDataProvider =
+  marketData.name === 'massive' ? new YahooProvider() : marketData;
+
+// The file and simulated providers run without network access, so Yahoo-only
+// enrichment (profiles, earnings, analysts, holders) is skipped with them
+export const isOfflineProvider = marketData.name === 'file' || marketData.name === 'simulated';
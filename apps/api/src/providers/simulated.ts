@@ -0,0 +1,472 @@
+import type {
+  Ticker,
+  TickerSnapshot,
+  IndicatorValue,
+  MACDValue,
+  CompanyDetails,
+  PolygonIncomeStatement,
+  PolygonBalanceSheet,
+  PolygonCashFlowStatement,
+  FinancialRatios,
+  Dividend,
+  StockSplit,
+  NewsArticle,
+  ChartBar,
+} from '@screener/shared';
+import type {
+  MarketDataProvider,
+  TickerListParams,
+  AggregatesParams,
+  TickerDetailsSummary,
+  StatementParams,
+  DividendParams,
+  SplitParams,
+  NewsParams,
+} from './types';
+import {
+  SimulatedMarket,
+  SESSION_MINUTES,
+  sessionOpen,
+  type SimulatedBar,
+  type SimulatedQuarter,
+  type SimulatedEvent,
+} from '../lib/simulated-market';
+import { sma, ema, rsi } from '../lib/indicators';
+import { rollUpBars, latestIndicator, latestMacd } from './bars';
+
+// ============================================
+// Simulated Provider
+// ============================================
+// Serves the seeded synthetic market from lib/simulated-market through the
+// normal sync pipeline. The same SIMULATED_MARKET_SEED (and a frozen
+// SIMULATED_MARKET_AS_OF) reproduces every price, statement and headline.
+
+export const SIMULATED_MARKET_SEED = process.env.SIMULATED_MARKET_SEED || 'open-screener';
+export const SIMULATED_MARKET_TICKERS = parseInt(process.env.SIMULATED_MARKET_TICKERS || '200');
+export const SIMULATED_MARKET_START = process.env.SIMULATED_MARKET_START || '2022-01-03';
+export const SIMULATED_MARKET_AS_OF = process.env.SIMULATED_MARKET_AS_OF || undefined;
+
+const PUBLISHER = { name: 'Simulated Wire', homepage_url: 'https://example.com' };
+
+// Polygon-style financial value
+const value = (amount: number) => ({ value: Math.round(amount) });
+const perShare = (amount: number) => ({ value: Math.round(amount * 100) / 100 });
+
+// Sum the flow fields of consecutive quarters; balances come from the last one
+function combineQuarters(quarters: SimulatedQuarter[]): SimulatedQuarter {
+  const latest = quarters[quarters.length - 1];
+  const sum = (pick: (quarter: SimulatedQuarter) => number) => quarters.reduce((total, quarter) => total + pick(quarter), 0);
+
+  return {
+    ...latest,
+    startDate: quarters[0].startDate,
+    revenue: sum(q => q.revenue),
+    costOfRevenue: sum(q => q.costOfRevenue),
+    grossProfit: sum(q => q.grossProfit),
+    sga: sum(q => q.sga),
+    depreciation: sum(q => q.depreciation),
+    operatingIncome: sum(q => q.operatingIncome),
+    netIncome: sum(q => q.netIncome),
+    eps: sum(q => q.eps),
+    operatingCashFlow: sum(q => q.operatingCashFlow),
+    investingCashFlow: sum(q => q.investingCashFlow),
+    financingCashFlow: sum(q => q.financingCashFlow),
+  };
+}
+
+function statementHeader(quarter: SimulatedQuarter, timeframe: string, period: string) {
+  return {
+    fiscal_year: quarter.fiscalYear,
+    fiscal_period: period,
+    start_date: quarter.startDate,
+    end_date: quarter.endDate,
+    filing_date: quarter.reportDate,
+    timeframe,
+  };
+}
+
+// Headline for a day's event
+function headline(name: string, event: SimulatedEvent): { title: string; description: string } {
+  const move = `${Math.abs(event.change).toFixed(1)}%`;
+  const direction = event.change >= 0 ? 'rise' : 'fall';
+
+  switch (event.kind) {
+    case 'earnings':
+      return {
+        title: `${name} reports ${event.detail} results; shares ${direction} ${move}`,
+        description: `${name} published quarterly results for ${event.detail}. The stock closed ${event.change >= 0 ? 'up' : 'down'} ${move}.`,
+      };
+    case 'split':
+      return {
+        title: `${name} begins trading on a ${event.detail} split-adjusted basis`,
+        description: `Shareholders received additional shares in a ${event.detail} stock split.`,
+      };
+    case 'dividend':
+      return {
+        title: `${name} goes ex-dividend at $${event.detail} per share`,
+        description: `${name} shares traded ex-dividend ahead of a quarterly payout of $${event.detail}.`,
+      };
+    default:
+      return {
+        title: `${name} shares ${direction} ${move} in heavy trading`,
+        description: `${name} moved ${move} on volume well above its average.`,
+      };
+  }
+}
+
+/**
+ * The simulated market behind the provider interface. Intraday aggregates
+ * are seeded minute paths inside each daily bar.
+ */
+export class SimulatedProvider implements MarketDataProvider {
+  readonly name = 'simulated' as const;
+
+  constructor(readonly market: SimulatedMarket = new SimulatedMarket({
+    seed: SIMULATED_MARKET_SEED,
+    tickers: SIMULATED_MARKET_TICKERS,
+    start: SIMULATED_MARKET_START,
+    asOf: SIMULATED_MARKET_AS_OF,
+  })) {}
+
+  // ============================================
+  // Reference Data
+  // ============================================
+
+  async getAllTickers(): Promise<Ticker[]> {
+    return this.market.tickers.map(ticker => ({
+      symbol: ticker.symbol,
+      name: ticker.name,
+      market: 'stocks',
+      locale: 'us',
+      primaryExchange: ticker.primaryExchange,
+      type: ticker.type,
+      active: true,
+      currencyName: 'usd',
+    }));
+  }
+
+  async getTickers(params: TickerListParams = {}): Promise<Ticker[]> {
+    const search = params.search?.toLowerCase();
+    if (params.active === false) return [];
+
+    return (await this.getAllTickers())
+      .filter(ticker => !params.type || ticker.type === params.type)
+      .filter(ticker => !search || ticker.symbol.toLowerCase().includes(search) || ticker.name.toLowerCase().includes(search))
+      .slice(0, params.limit || 1000);
+  }
+
+  // ============================================
+  // Snapshots
+  // ============================================
+
+  async getMarketSnapshot(): Promise<TickerSnapshot[]> {
+    const snapshots: TickerSnapshot[] = [];
+    for (const ticker of this.market.tickers) {
+      const snapshot = await this.getTickerSnapshot(ticker.symbol);
+      if (snapshot) snapshots.push(snapshot);
+    }
+    return snapshots;
+  }
+
+  async getTickerSnapshot(symbol: string): Promise<TickerSnapshot | null> {
+    const bars = this.market.history(symbol)?.bars ?? [];
+    if (bars.length === 0) return null;
+
+    const day = bars[bars.length - 1];
+    const prevDay = bars.length > 1 ? bars[bars.length - 2] : day;
+    const toOhlc = (bar: SimulatedBar) => ({ o: bar.o, h: bar.h, l: bar.l, c: bar.c, v: bar.v, vw: bar.vw });
+
+    return {
+      ticker: symbol.toUpperCase(),
+      day: toOhlc(day),
+      prevDay: toOhlc(prevDay),
+      todaysChange: day.c - prevDay.c,
+      todaysChangePerc: prevDay.c > 0 ? ((day.c - prevDay.c) / prevDay.c) * 100 : 0,
+      updated: sessionOpen(day.date) + SESSION_MINUTES * 60000,
+    };
+  }
+
+  // ============================================
+  // Aggregates (OHLCV)
+  // ============================================
+
+  async getAggregates(params: AggregatesParams): Promise<ChartBar[]> {
+    const daily = (this.market.history(params.symbol)?.bars ?? [])
+      .filter(bar => bar.date >= params.from && bar.date <= params.to);
+
+    let bars: SimulatedBar[];
+    if (params.timespan === 'day') {
+      bars = daily;
+    } else if (params.timespan === 'week' || params.timespan === 'month') {
+      bars = rollUpBars(daily, params.timespan);
+    } else {
+      // Intraday: group the minute path into multiplier-sized bars
+      const size = Math.max(1, params.multiplier) * (params.timespan === 'hour' ? 60 : 1);
+      bars = daily.flatMap(day => this.groupMinutes(this.market.minuteBars(params.symbol, day.date), size));
+    }
+
+    const sorted = params.sort === 'asc' ? bars : [...bars].reverse();
+    return sorted.slice(0, params.limit || 5000).map(({ date, ...bar }) => bar);
+  }
+
+  private groupMinutes(minutes: SimulatedBar[], size: number): SimulatedBar[] {
+    if (size === 1) return minutes;
+
+    const grouped: SimulatedBar[] = [];
+    for (let i = 0; i < minutes.length; i += size) {
+      const chunk = minutes.slice(i, i + size);
+      grouped.push({
+        ...chunk[0],
+        h: Math.max(...chunk.map(bar => bar.h)),
+        l: Math.min(...chunk.map(bar => bar.l)),
+        c: chunk[chunk.length - 1].c,
+        v: chunk.reduce((total, bar) => total + bar.v, 0),
+      });
+    }
+    return grouped;
+  }
+
+  // ============================================
+  // Technical Indicators (computed from the daily bars)
+  // ============================================
+
+  private dailyBars(symbol: string): SimulatedBar[] {
+    return this.market.history(symbol)?.bars ?? [];
+  }
+
+  async getRSI(symbol: string, window: number = 14): Promise<IndicatorValue | null> {
+    return latestIndicator(this.dailyBars(symbol), closes => rsi(closes, window));
+  }
+
+  async getSMA(symbol: string, window: number): Promise<IndicatorValue | null> {
+    return latestIndicator(this.dailyBars(symbol), closes => sma(closes, window));
+  }
+
+  async getEMA(symbol: string, window: number): Promise<IndicatorValue | null> {
+    return latestIndicator(this.dailyBars(symbol), closes => ema(closes, window));
+  }
+
+  async getMACD(
+    symbol: string,
+    shortWindow: number = 12,
+    longWindow: number = 26,
+    signalWindow: number = 9
+  ): Promise<MACDValue | null> {
+    return latestMacd(this.dailyBars(symbol), shortWindow, longWindow, signalWindow);
+  }
+
+  // ============================================
+  // Fundamentals
+  // ============================================
+
+  private marketCap(symbol: string): number | undefined {
+    const history = this.market.history(symbol);
+    const close = history?.bars[history.bars.length - 1]?.c;
+    return close !== undefined ? close * history!.shares : undefined;
+  }
+
+  async getTickerDetails(symbol: string): Promise<TickerDetailsSummary | null> {
+    const ticker = this.market.getTicker(symbol);
+    return ticker ? { name: ticker.name, market_cap: this.marketCap(symbol) } : null;
+  }
+
+  async getTickerDetailsExtended(symbol: string): Promise<CompanyDetails | null> {
+    const ticker = this.market.getTicker(symbol);
+    const history = this.market.history(symbol);
+    if (!ticker || !history) return null;
+
+    const domain = ticker.name.split(' ').slice(0, 2).join('').toLowerCase();
+
+    return {
+      symbol: ticker.symbol,
+      description: ticker.type === 'ETF'
+        ? `${ticker.name} tracks the simulated broad market.`
+        : `${ticker.name} is a simulated ${ticker.industry.toLowerCase()} company in the ${ticker.sector} sector.`,
+      homepageUrl: `https://www.${domain}.example`,
+      industry: ticker.industry,
+      sector: ticker.sector,
+      totalEmployees: ticker.employees || undefined,
+      listDate: ticker.listDate,
+      marketCap: this.marketCap(symbol),
+      sharesOutstanding: history.shares,
+    };
+  }
+
+  // Reported quarters (quarterly), fiscal years (annual) or the trailing
+  // four quarters (ttm), newest first
+  private periods(symbol: string, params?: StatementParams): Array<{ quarter: SimulatedQuarter; period: string }> {
+    const quarters = (this.market.history(symbol)?.quarters ?? [])
+      .filter(quarter => !params?.filing_date_gte || quarter.reportDate >= params.filing_date_gte);
+    const timeframe = params?.timeframe || 'quarterly';
+    const limit = params?.limit || 10;
+
+    if (timeframe === 'ttm') {
+      return quarters.length >= 4 ? [{ quarter: combineQuarters(quarters.slice(-4)), period: 'TTM' }] : [];
+    }
+
+    if (timeframe === 'annual') {
+      const years: Array<{ quarter: SimulatedQuarter; period: string }> = [];
+      for (let i = quarters.length - 1; i >= 3 && years.length < limit; i--) {
+        if (quarters[i].fiscalQuarter !== 4 || quarters[i - 3].fiscalQuarter !== 1) continue;
+        years.push({ quarter: combineQuarters(quarters.slice(i - 3, i + 1)), period: 'FY' });
+      }
+      return years;
+    }
+
+    return quarters.slice(-limit).reverse().map(quarter => ({ quarter, period: `Q${quarter.fiscalQuarter}` }));
+  }
+
+  async getIncomeStatements(symbol: string, params?: StatementParams): Promise<PolygonIncomeStatement[]> {
+    const timeframe = params?.timeframe || 'quarterly';
+
+    return this.periods(symbol, params).map(({ quarter, period }) => ({
+      ...statementHeader(quarter, timeframe, period),
+      revenues: value(quarter.revenue),
+      cost_of_revenue: value(quarter.costOfRevenue),
+      gross_profit: value(quarter.grossProfit),
+      selling_general_and_administrative_expenses: value(quarter.sga),
+      depreciation_and_amortization: value(quarter.depreciation),
+      operating_income_loss: value(quarter.operatingIncome),
+      net_income_loss: value(quarter.netIncome),
+      basic_average_shares: value(quarter.shares),
+      basic_earnings_per_share: perShare(quarter.eps),
+      diluted_earnings_per_share: perShare(quarter.eps),
+    }));
+  }
+
+  async getBalanceSheets(symbol: string, params?: StatementParams): Promise<PolygonBalanceSheet[]> {
+    const timeframe = params?.timeframe || 'quarterly';
+
+    return this.periods(symbol, params).map(({ quarter, period }) => ({
+      ...statementHeader(quarter, timeframe, period),
+      assets: value(quarter.totalAssets),
+      current_assets: value(quarter.currentAssets),
+      accounts_receivable: value(quarter.receivables),
+      fixed_assets: value(quarter.fixedAssets),
+      liabilities: value(quarter.totalLiabilities),
+      current_liabilities: value(quarter.currentLiabilities),
+      long_term_debt: value(quarter.longTermDebt),
+      equity: value(quarter.equity),
+      retained_earnings: value(quarter.retainedEarnings),
+      liabilities_and_equity: value(quarter.totalAssets),
+    }));
+  }
+
+  async getCashFlowStatements(symbol: string, params?: StatementParams): Promise<PolygonCashFlowStatement[]> {
+    const timeframe = params?.timeframe || 'quarterly';
+
+    return this.periods(symbol, params).map(({ quarter, period }) => ({
+      ...statementHeader(quarter, timeframe, period),
+      net_cash_flow_from_operating_activities: value(quarter.operatingCashFlow),
+      net_cash_flow_from_investing_activities: value(quarter.investingCashFlow),
+      net_cash_flow_from_financing_activities: value(quarter.financingCashFlow),
+      net_cash_flow: value(quarter.operatingCashFlow + quarter.investingCashFlow + quarter.financingCashFlow),
+    }));
+  }
+
+  // Ratios from the trailing four quarters and the latest close (percent
+  // fields in percentage points)
+  async getFinancialRatios(symbol: string): Promise<FinancialRatios | null> {
+    const quarters = this.market.history(symbol)?.quarters ?? [];
+    const marketCap = this.marketCap(symbol);
+    if (quarters.length < 8 || !marketCap) return null;
+
+    const ttm = combineQuarters(quarters.slice(-4));
+    const prior = combineQuarters(quarters.slice(-8, -4));
+    const ebitda = ttm.operatingIncome + ttm.depreciation;
+    const enterpriseValue = marketCap + ttm.longTermDebt;
+    const growth = (current: number, previous: number) => previous !== 0 ? ((current - previous) / Math.abs(previous)) * 100 : undefined;
+
+    return {
+      symbol: symbol.toUpperCase(),
+      peRatio: ttm.netIncome > 0 ? marketCap / ttm.netIncome : undefined,
+      pbRatio: ttm.equity > 0 ? marketCap / ttm.equity : undefined,
+      psRatio: marketCap / ttm.revenue,
+      evToEbitda: ebitda > 0 ? enterpriseValue / ebitda : undefined,
+      evToRevenue: enterpriseValue / ttm.revenue,
+      grossMargin: (ttm.grossProfit / ttm.revenue) * 100,
+      operatingMargin: (ttm.operatingIncome / ttm.revenue) * 100,
+      ebitdaMargin: (ebitda / ttm.revenue) * 100,
+      netMargin: (ttm.netIncome / ttm.revenue) * 100,
+      roe: (ttm.netIncome / ttm.equity) * 100,
+      roa: (ttm.netIncome / ttm.totalAssets) * 100,
+      currentRatio: ttm.currentAssets / ttm.currentLiabilities,
+      quickRatio: (ttm.currentAssets * 0.7) / ttm.currentLiabilities,
+      debtToEquity: ttm.longTermDebt / ttm.equity,
+      revenueGrowth: growth(ttm.revenue, prior.revenue),
+      earningsGrowth: growth(ttm.netIncome, prior.netIncome),
+      freeCashFlow: ttm.operatingCashFlow + ttm.investingCashFlow,
+      operatingCashFlow: ttm.operatingCashFlow,
+    };
+  }
+
+  // ============================================
+  // Corporate Actions (newest first, like the APIs)
+  // ============================================
+
+  async getDividends(symbol: string, params?: DividendParams): Promise<Dividend[]> {
+    return (this.market.history(symbol)?.dividends ?? [])
+      .filter(dividend => !params?.ex_dividend_date_gte || dividend.exDate >= params.ex_dividend_date_gte)
+      .reverse()
+      .slice(0, params?.limit || 50)
+      .map(dividend => ({
+        symbol: symbol.toUpperCase(),
+        exDividendDate: dividend.exDate,
+        payDate: dividend.payDate,
+        recordDate: dividend.recordDate,
+        declarationDate: dividend.declarationDate,
+        amount: dividend.amount,
+        frequency: 4,
+        dividendType: 'CD',
+      }));
+  }
+
+  async getStockSplits(symbol: string, params?: SplitParams): Promise<StockSplit[]> {
+    return (this.market.history(symbol)?.splits ?? [])
+      .filter(split => !params?.execution_date_gte || split.date >= params.execution_date_gte)
+      .reverse()
+      .slice(0, params?.limit || 50)
+      .map(split => ({
+        symbol: symbol.toUpperCase(),
+        executionDate: split.date,
+        splitFrom: split.from,
+        splitTo: split.to,
+      }));
+  }
+
+  // ============================================
+  // News (earnings, splits, dividends and outsized moves)
+  // ============================================
+
+  async getNews(params?: NewsParams): Promise<NewsArticle[]> {
+    const symbols = params?.ticker ? [params.ticker.toUpperCase()] : this.market.tickers.map(ticker => ticker.symbol);
+    const articles: NewsArticle[] = [];
+
+    for (const symbol of symbols) {
+      const ticker = this.market.getTicker(symbol);
+      const events = this.market.history(symbol)?.events ?? [];
+      if (!ticker) continue;
+
+      for (const event of events) {
+        // Published after the close, once the day's move is known
+        const publishedAt = new Date(sessionOpen(event.date) + (SESSION_MINUTES + 30) * 60000).toISOString();
+        if (params?.published_utc_gte && publishedAt < params.published_utc_gte) continue;
+
+        articles.push({
+          id: `sim-${ticker.symbol}-${event.date}-${event.kind}`,
+          publishedAt,
+          ...headline(ticker.name, event),
+          author: PUBLISHER.name,
+          keywords: [event.kind, ticker.sector.toLowerCase()],
+          publisher: PUBLISHER,
+          tickers: [ticker.symbol],
+        });
+      }
+    }
+
+    articles.sort((a, b) => params?.order === 'asc'
+      ? a.publishedAt.localeCompare(b.publishedAt)
+      : b.publishedAt.localeCompare(a.publishedAt));
+    return articles.slice(0, params?.limit || 50);
+  }
+}
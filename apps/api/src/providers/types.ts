@@ -0,0 +1,119 @@
+import type {
+  Ticker,
+  TickerSnapshot,
+  IndicatorValue,
+  MACDValue,
+  CompanyDetails,
+  PolygonIncomeStatement,
+  PolygonBalanceSheet,
+  PolygonCashFlowStatement,
+  FinancialRatios,
+  Dividend,
+  StockSplit,
+  NewsArticle,
+  ChartBar,
+} from '@screener/shared';
+
+// ============================================
+// Market Data Provider
+// ============================================
+// Everything the sync services and routes read from an upstream source.
+// Shapes follow the Massive (Polygon) API, which the rest of the app was
+// built against; other adapters map their data into them. Methods a source
+// cannot serve resolve to an empty result (null / []) rather than throwing.
+
+export type ProviderName = 'massive' | 'yahoo' | 'file' | 'simulated';
+
+export type AggregateTimespan = 'minute' | 'hour' | 'day' | 'week' | 'month';
+
+export interface TickerListParams {
+  market?: string;
+  type?: string;
+  active?: boolean;
+  limit?: number;
+  search?: string;
+}
+
+export interface AggregatesParams {
+  symbol: string;
+  multiplier: number;
+  timespan: AggregateTimespan;
+  from: string;
+  to: string;
+  adjusted?: boolean;
+  sort?: 'asc' | 'desc';
+  limit?: number;
+}
+
+// Name, market cap and logo for list views
+export interface TickerDetailsSummary {
+  name: string;
+  market_cap?: number;
+  branding?: {
+    logo_url?: string;
+    icon_url?: string;
+  };
+}
+
+export interface StatementParams {
+  timeframe?: 'quarterly' | 'annual' | 'ttm';
+  limit?: number;
+  filing_date_gte?: string;
+}
+
+export interface DividendParams {
+  limit?: number;
+  ex_dividend_date_gte?: string;
+}
+
+export interface SplitParams {
+  limit?: number;
+  execution_date_gte?: string;
+}
+
+export interface NewsParams {
+  ticker?: string;
+  limit?: number;
+  published_utc_gte?: string;
+  order?: 'asc' | 'desc';
+}
+
+export interface MarketDataProvider {
+  readonly name: ProviderName;
+
+  // Reference data
+  getTickers(params?: TickerListParams): Promise<Ticker[]>;
+  getAllTickers(): Promise<Ticker[]>;
+
+  // Snapshots
+  getMarketSnapshot(): Promise<TickerSnapshot[]>;
+  getTickerSnapshot(symbol: string): Promise<TickerSnapshot | null>;
+
+  // Aggregates (OHLCV)
+  getAggregates(params: AggregatesParams): Promise<ChartBar[]>;
+
+  // Latest indicator values computed by the source (cross-checks and
+  // fallbacks when daily_indicators is empty)
+  getRSI(symbol: string, window?: number): Promise<IndicatorValue | null>;
+  getSMA(symbol: string, window: number): Promise<IndicatorValue | null>;
+  getEMA(symbol: string, window: number): Promise<IndicatorValue | null>;
+  getMACD(symbol: string, shortWindow?: number, longWindow?: number, signalWindow?: number): Promise<MACDValue | null>;
+
+  // Fundamentals
+  getTickerDetails(symbol: string): Promise<TickerDetailsSummary | null>;
+  getTickerDetailsExtended(symbol: string): Promise<CompanyDetails | null>;
+  getIncomeStatements(symbol: string, params?: StatementParams): Promise<PolygonIncomeStatement[]>;
+  getBalanceSheets(symbol: string, params?: StatementParams): Promise<PolygonBalanceSheet[]>;
+  getCashFlowStatements(symbol: string, params?: StatementParams): Promise<PolygonCashFlowStatement[]>;
+  getFinancialRatios(symbol: string): Promise<FinancialRatios | null>;
+
+  // Corporate actions
+  getDividends(symbol: string, params?: DividendParams): Promise<Dividend[]>;
+  getStockSplits(symbol: string, params?: SplitParams): Promise<StockSplit[]>;
+
+  // News
+  getNews(params?: NewsParams): Promise<NewsArticle[]>;
+
+  // Circuit breaker state, for sources behind one
+  getCircuitState?(): 'closed' | 'open' | 'half-open';
+}
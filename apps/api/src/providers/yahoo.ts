@@ -0,0 +1,269 @@
+import { yahooClient, type YahooClient, type YahooFinancialStatement } from '../clients/yahoo';
+import type {
+  Ticker,
+  TickerSnapshot,
+  IndicatorValue,
+  MACDValue,
+  CompanyDetails,
+  PolygonIncomeStatement,
+  PolygonBalanceSheet,
+  PolygonCashFlowStatement,
+  FinancialRatios,
+  Dividend,
+  StockSplit,
+  NewsArticle,
+  ChartBar,
+} from '@screener/shared';
+import type {
+  MarketDataProvider,
+  AggregatesParams,
+  AggregateTimespan,
+  TickerDetailsSummary,
+  StatementParams,
+  DividendParams,
+  SplitParams,
+  NewsParams,
+} from './types';
+
+const YAHOO_INTERVALS: Record<AggregateTimespan, '5m' | '1h' | '1d' | '1wk' | '1mo'> = {
+  minute: '5m',
+  hour: '1h',
+  day: '1d',
+  week: '1wk',
+  month: '1mo',
+};
+
+// Yahoo statement fields as Polygon-style values
+const financialValue = (value: number | undefined) => value === undefined ? undefined : { value };
+
+// Common Polygon statement header for a Yahoo statement
+function statementHeader(stmt: YahooFinancialStatement) {
+  return {
+    fiscal_year: stmt.fiscalYear,
+    fiscal_period: stmt.fiscalQuarter ? `Q${stmt.fiscalQuarter}` : 'FY',
+    start_date: '',
+    end_date: stmt.periodEnd.split('T')[0],
+    timeframe: stmt.timeframe,
+  };
+}
+
+// Yahoo fractions as percentage points, like the Yahoo ratio sync
+const percent = (value: number | undefined) => value ? value * 100 : undefined;
+
+/**
+ * Yahoo Finance behind the provider interface. Free and keyless, but has no
+ * ticker listing, market-wide snapshot or remote indicator endpoints, so
+ * those resolve empty.
+ */
+export class YahooProvider implements MarketDataProvider {
+  readonly name = 'yahoo' as const;
+
+  constructor(private client: YahooClient = yahooClient) {}
+
+  // ============================================
+  // Reference Data & Snapshots
+  // ============================================
+
+  async getTickers(): Promise<Ticker[]> {
+    return [];
+  }
+
+  async getAllTickers(): Promise<Ticker[]> {
+    return [];
+  }
+
+  async getMarketSnapshot(): Promise<TickerSnapshot[]> {
+    return [];
+  }
+
+  async getTickerSnapshot(symbol: string): Promise<TickerSnapshot | null> {
+    const quote = await this.client.getQuote(symbol);
+    if (!quote?.regularMarketPrice) return null;
+
+    const close = quote.regularMarketPrice;
+    const previousClose = quote.regularMarketPreviousClose ?? close;
+
+    return {
+      ticker: symbol,
+      day: {
+        o: quote.regularMarketOpen ?? close,
+        h: quote.regularMarketDayHigh ?? close,
+        l: quote.regularMarketDayLow ?? close,
+        c: close,
+        v: quote.regularMarketVolume ?? 0,
+        vw: close,
+      },
+      prevDay: { o: previousClose, h: previousClose, l: previousClose, c: previousClose, v: 0, vw: previousClose },
+      todaysChange: quote.regularMarketChange ?? close - previousClose,
+      todaysChangePerc: quote.regularMarketChangePercent ?? 0,
+      updated: Date.now(),
+    };
+  }
+
+  // ============================================
+  // Aggregates (OHLCV)
+  // ============================================
+
+  async getAggregates(params: AggregatesParams): Promise<ChartBar[]> {
+    const bars = await this.client.getPriceHistory(params.symbol, params.from, params.to, YAHOO_INTERVALS[params.timespan]);
+    const sorted = params.sort === 'asc' ? bars : bars.reverse();
+    return sorted.slice(0, params.limit || 5000);
+  }
+
+  // ============================================
+  // Technical Indicators (not served by Yahoo)
+  // ============================================
+
+  async getRSI(): Promise<IndicatorValue | null> {
+    return null;
+  }
+
+  async getSMA(): Promise<IndicatorValue | null> {
+    return null;
+  }
+
+  async getEMA(): Promise<IndicatorValue | null> {
+    return null;
+  }
+
+  async getMACD(): Promise<MACDValue | null> {
+    return null;
+  }
+
+  // ============================================
+  // Fundamentals
+  // ============================================
+
+  async getTickerDetails(symbol: string): Promise<TickerDetailsSummary | null> {
+    const quote = await this.client.getQuote(symbol);
+    if (!quote) return null;
+
+    return {
+      name: quote.longName || quote.shortName || symbol,
+      market_cap: quote.marketCap,
+    };
+  }
+
+  async getTickerDetailsExtended(symbol: string): Promise<CompanyDetails | null> {
+    const profile = await this.client.getCompanyProfile(symbol);
+    if (!profile) return null;
+
+    return {
+      symbol,
+      description: profile.longBusinessSummary,
+      homepageUrl: profile.website,
+      phoneNumber: profile.phone,
+      address: profile.address1 ? {
+        address1: profile.address1,
+        city: profile.city,
+        state: profile.state,
+        postalCode: profile.zip,
+        country: profile.country,
+      } : undefined,
+      industry: profile.industry,
+      industryKey: profile.industryKey,
+      sector: profile.sector,
+      sectorKey: profile.sectorKey,
+      totalEmployees: profile.fullTimeEmployees,
+      companyOfficers: profile.companyOfficers,
+      auditRisk: profile.auditRisk,
+      boardRisk: profile.boardRisk,
+      compensationRisk: profile.compensationRisk,
+      shareHolderRightsRisk: profile.shareHolderRightsRisk,
+      overallRisk: profile.overallRisk,
+    };
+  }
+
+  async getIncomeStatements(symbol: string, params?: StatementParams): Promise<PolygonIncomeStatement[]> {
+    if (params?.timeframe === 'ttm') return [];
+    const statements = await this.client.getIncomeStatements(symbol, params?.timeframe, params?.limit);
+
+    return statements.map(stmt => ({
+      ...statementHeader(stmt),
+      revenues: financialValue(stmt.revenue),
+      net_income_loss: financialValue(stmt.netIncome),
+      basic_earnings_per_share: financialValue(stmt.eps),
+      diluted_earnings_per_share: financialValue(stmt.eps),
+    }));
+  }
+
+  async getBalanceSheets(symbol: string, params?: StatementParams): Promise<PolygonBalanceSheet[]> {
+    if (params?.timeframe === 'ttm') return [];
+    const statements = await this.client.getBalanceSheets(symbol, params?.timeframe, params?.limit);
+
+    return statements.map(stmt => ({
+      ...statementHeader(stmt),
+      assets: financialValue(stmt.totalAssets),
+      liabilities: financialValue(stmt.totalLiabilities),
+    }));
+  }
+
+  async getCashFlowStatements(symbol: string, params?: StatementParams): Promise<PolygonCashFlowStatement[]> {
+    if (params?.timeframe === 'ttm') return [];
+    const statements = await this.client.getCashFlowStatements(symbol, params?.timeframe, params?.limit);
+
+    return statements.map(stmt => ({
+      ...statementHeader(stmt),
+      net_cash_flow_from_operating_activities: financialValue(stmt.operatingCashFlow),
+    }));
+  }
+
+  async getFinancialRatios(symbol: string): Promise<FinancialRatios | null> {
+    const stats = await this.client.getKeyStats(symbol);
+    if (!stats) return null;
+
+    return {
+      symbol,
+      peRatio: stats.trailingPE,
+      forwardPE: stats.forwardPE,
+      pbRatio: stats.priceToBook,
+      psRatio: stats.priceToSalesTrailing12Months,
+      evToEbitda: stats.enterpriseToEbitda,
+      evToRevenue: stats.enterpriseToRevenue,
+      pegRatio: stats.pegRatio,
+      grossMargin: percent(stats.grossMargins),
+      operatingMargin: percent(stats.operatingMargins),
+      ebitdaMargin: percent(stats.ebitdaMargins),
+      netMargin: percent(stats.profitMargins),
+      roe: percent(stats.returnOnEquity),
+      roa: percent(stats.returnOnAssets),
+      currentRatio: stats.currentRatio,
+      quickRatio: stats.quickRatio,
+      debtToEquity: stats.debtToEquity,
+      revenueGrowth: percent(stats.revenueGrowth),
+      earningsGrowth: percent(stats.earningsGrowth),
+      freeCashFlow: stats.freeCashflow,
+      operatingCashFlow: stats.operatingCashflow,
+    };
+  }
+
+  // ============================================
+  // Corporate Actions
+  // ============================================
+
+  async getDividends(symbol: string, params?: DividendParams): Promise<Dividend[]> {
+    const dividends = await this.client.getDividends(symbol, params?.limit || 50);
+    const since = params?.ex_dividend_date_gte;
+    return since ? dividends.filter(d => d.exDividendDate >= since) : dividends;
+  }
+
+  async getStockSplits(symbol: string, params?: SplitParams): Promise<StockSplit[]> {
+    const splits = await this.client.getStockSplits(symbol, params?.limit || 50);
+    const since = params?.execution_date_gte;
+    return since ? splits.filter(s => s.executionDate >= since) : splits;
+  }
+
+  // ============================================
+  // News (per ticker only)
+  // ============================================
+
+  async getNews(params?: NewsParams): Promise<NewsArticle[]> {
+    if (!params?.ticker) return [];
+
+    const articles = await this.client.getNews(params.ticker, params.limit || 50);
+    const since = params.published_utc_gte;
+    const filtered = since ? articles.filter(a => a.publishedAt >= since) : articles;
+    return (params.order === 'asc' ? filtered.reverse() : filtered)
+      .map(article => ({ ...article, tickers: [params.ticker!] }));
+  }
+}
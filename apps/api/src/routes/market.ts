@@ -0,0 +1,113 @@
+import { Hono } from 'hono';
+import { db, isDbConnected } from '../db';
+import { marketBreadth } from '../db/schema';
+import { asc, gte } from 'drizzle-orm';
+import { BREADTH_RANGES } from '@screener/shared';
+import type { ApiResponse, BreadthRange, MarketBreadthData, MarketBreadthPoint, MarketCalendarYear } from '@screener/shared';
+import { getMarketCalendar, isMarketExchange, MARKET_EXCHANGES } from '../lib/market-calendar';
+
+export const marketRouter = new Hono();
+
+// Calendar days covered by each range
+const BREADTH_RANGE_DAYS: Record<BreadthRange, number> = {
+  '1M': 31,
+  '3M': 92,
+  '6M': 183,
+  '1Y': 366,
+  '5Y': 1827,
+};
+
+// Daily breadth series: advance/decline, 52-week highs/lows, % above SMA50/200, McClellan
+marketRouter.get('/breadth', async (c) => {
+  const range = (c.req.query('range') || '1Y') as BreadthRange;
+
+  if (!BREADTH_RANGES.includes(range)) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: `range must be one of ${BREADTH_RANGES.join(', ')}`,
+      timestamp: Date.now(),
+    };
+    return c.json(response, 400);
+  }
+
+  if (!isDbConnected()) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Database not available',
+      timestamp: Date.now(),
+    };
+    return c.json(response, 503);
+  }
+
+  try {
+    const start = new Date(Date.now() - BREADTH_RANGE_DAYS[range] * 24 * 60 * 60 * 1000)
+      .toISOString().split('T')[0];
+
+    const rows = await db.select().from(marketBreadth)
+      .where(gte(marketBreadth.date, start))
+      .orderBy(asc(marketBreadth.date));
+
+    const points: MarketBreadthPoint[] = rows.map(row => ({
+      date: row.date,
+      advances: row.advances,
+      declines: row.declines,
+      unchanged: row.unchanged,
+      advanceDeclineLine: row.advanceDeclineLine,
+      newHighs: row.newHighs,
+      newLows: row.newLows,
+      percentAboveSma50: row.percentAboveSma50,
+      percentAboveSma200: row.percentAboveSma200,
+      mcclellanOscillator: row.mcclellanOscillator,
+    }));
+
+    // Breadth only changes after the daily sync
+    c.header('Cache-Control', 'public, max-age=300, stale-while-revalidate=600');
+
+    const response: ApiResponse<MarketBreadthData> = {
+      success: true,
+      data: { range, points, latest: points[points.length - 1] ?? null },
+      timestamp: Date.now(),
+    };
+    return c.json(response);
+  } catch (error) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: Date.now(),
+    };
+    return c.json(response, 500);
+  }
+});
+
+// Holidays and early closes of an exchange for a year (?exchange=XNYS&year=2026)
+marketRouter.get('/calendar', (c) => {
+  const exchange = (c.req.query('exchange') || 'XNYS').toUpperCase();
+  const year = Number(c.req.query('year') || new Date().getUTCFullYear());
+
+  if (!isMarketExchange(exchange)) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: `exchange must be one of ${MARKET_EXCHANGES.join(', ')}`,
+      timestamp: Date.now(),
+    };
+    return c.json(response, 400);
+  }
+
+  if (!Number.isInteger(year) || year < 1990 || year > 2100) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'year must be between 1990 and 2100',
+      timestamp: Date.now(),
+    };
+    return c.json(response, 400);
+  }
+
+  c.header('Cache-Control', 'public, max-age=86400');
+
+  const response: ApiResponse<MarketCalendarYear> = {
+    success: true,
+    data: getMarketCalendar(exchange).toYear(year),
+    timestamp: Date.now(),
+  };
+  return c.json(response);
+});
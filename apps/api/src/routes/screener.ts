@@ -1,38 +1,206 @@
-import { Hono } from 'hono';
+import { Hono, type Context, type Next } from 'hono';
 import { zValidator } from '@hono/zod-validator';
 import { z } from 'zod';
-import { ScreenerService } from '../services/screener';
-import type { ApiResponse, ScreenerResult, ScreenerFilter, FilterCondition } from '@screener/shared';
-import { PRESET_FILTERS } from '@screener/shared';
+import { ScreenerService, WindowConditionError } from '../services/screener';
+import { BacktestService, BacktestError } from '../services/backtest';
+import { SavedScreenService, isSavedScreenId } from '../services/saved-screens';
+import { ScoreModelService, ScoreModelError } from '../services/score-models';
+import { IndicatorFieldError } from '../services/parametric-indicators';
+import { EDIT_TOKEN_HEADER, EditTokenError } from '../lib/edit-tokens';
+import { checkDbConnection } from '../db';
+import type {
+  ApiResponse,
+  ScreenerResult,
+  ScreenerFilter,
+  FilterNode,
+  CategoryValueCount,
+  BacktestResult,
+  SavedScreen,
+  SavedScoreModel,
+  ParametricField,
+} from '@screener/shared';
+import {
+  PRESET_FILTERS,
+  SCREENER_FIELDS,
+  CATEGORICAL_FIELDS,
+  HISTORY_FIELDS,
+  WINDOW_OPERATORS,
+  parseExpression,
+  isParametricField,
+  ExpressionError,
+} from '@screener/shared';
 
 export const screenerRouter = new Hono();
 
 const screenerService = new ScreenerService();
+const backtestService = new BacktestService(screenerService);
+const savedScreenService = new SavedScreenService();
+const scoreModelService = new ScoreModelService();
 
-// Filter condition schema - includes fundamental fields
+// Fields that can be filtered on, compared against or sorted by (from the shared registry)
+const filterFieldSchema = z.enum(SCREENER_FIELDS);
+
+// Condition fields also accept parameterised indicators, e.g. 'sma(10)' or 'rsi(7)'
+const conditionFieldSchema = z.union([
+  filterFieldSchema,
+  z.custom<ParametricField>(
+    (value) => typeof value === 'string' && isParametricField(value),
+    'Expected a screener field or an indicator such as sma(10), ema(9), rsi(7) or atr(10)'
+  ),
+]);
+
+// Filter condition schema - value is a number, a range, or another field (optionally scaled)
 const filterConditionSchema = z.object({
-  field: z.enum([
-    // Price & Volume
-    'price', 'volume', 'changePercent',
-    // Technical Indicators
-    'rsi14', 'sma20', 'sma50', 'sma200', 'ema12', 'ema26',
-    // Fundamental Fields
-    'marketCap', 'peRatio', 'pbRatio', 'dividendYield',
-    'grossMargin', 'debtToEquity', 'revenueGrowthYoy', 'epsGrowthYoy'
-  ]),
+  field: conditionFieldSchema,
   operator: z.enum(['gt', 'gte', 'lt', 'lte', 'eq', 'neq', 'between']),
-  value: z.union([z.number(), z.tuple([z.number(), z.number()])]),
+  value: z.union([
+    z.number(),
+    z.tuple([z.number(), z.number()]),
+    z.object({ field: conditionFieldSchema, multiplier: z.number().optional() }),
+  ]),
+});
+
+// Categorical condition, e.g. { field: 'sector', operator: 'in', value: ['Technology', 'Healthcare'] }
+const categoricalConditionSchema = z.object({
+  field: z.enum(CATEGORICAL_FIELDS),
+  operator: z.enum(['in', 'not_in', 'contains']),
+  value: z.array(z.string().min(1).max(200)).min(1).max(100),
+});
+
+// Time-window condition over daily history, e.g.
+// { field: 'ema12', operator: 'crossed_above', value: { field: 'ema26' }, days: 3 }
+const historyFieldSchema = z.enum(HISTORY_FIELDS);
+
+const windowConditionSchema = z.object({
+  field: historyFieldSchema,
+  operator: z.enum(WINDOW_OPERATORS),
+  days: z.number().int().min(1).max(252),
+  value: z.union([
+    z.number(),
+    z.object({ field: historyFieldSchema, multiplier: z.number().optional() }),
+  ]).optional(),
+}).refine(
+  (condition) => !condition.operator.startsWith('crossed_') || condition.value !== undefined,
+  { message: 'crossed_above and crossed_below require a value', path: ['value'] }
+);
+
+// Computed expression, validated by the shared parser
+const expressionSchema = z.string().max(500).superRefine((source, ctx) => {
+  try {
+    parseExpression(source);
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: error instanceof Error ? error.message : 'Invalid expression',
+    });
+  }
+});
+
+// Condition on a computed expression, e.g. { expression: 'volume / averageVolume', operator: 'gt', value: 2 }
+const expressionConditionSchema = filterConditionSchema.omit({ field: true }).extend({
+  expression: expressionSchema,
+});
+
+// Extra result column computed from an expression
+const computedColumnSchema = z.object({
+  key: z.string().min(1).max(40),
+  label: z.string().max(60).optional(),
+  expression: expressionSchema,
+});
+
+// Condition groups nest recursively: { combinator, negate?, conditions: [condition | group] }
+type FilterNodeInput =
+  | z.infer<typeof filterConditionSchema>
+  | z.infer<typeof expressionConditionSchema>
+  | z.infer<typeof categoricalConditionSchema>
+  | z.infer<typeof windowConditionSchema>
+  | { combinator: 'and' | 'or'; negate?: boolean; conditions: FilterNodeInput[] };
+
+const filterNodeSchema: z.ZodType<FilterNodeInput> = z.lazy(() =>
+  z.union([
+    filterConditionSchema,
+    expressionConditionSchema,
+    categoricalConditionSchema,
+    windowConditionSchema,
+    filterGroupSchema,
+  ])
+);
+
+const filterGroupSchema = z.object({
+  combinator: z.enum(['and', 'or']),
+  negate: z.boolean().optional(),
+  conditions: z.array(filterNodeSchema),
+});
+
+// Composite score model, e.g. 40% value / 30% quality / 30% momentum
+const scoreModelFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  rankWithin: z.enum(['universe', 'sector']).default('universe'),
+  groups: z.array(z.object({
+    name: z.string().trim().min(1).max(50),
+    weight: z.number().positive().max(1000),
+    factors: z.array(z.object({
+      field: filterFieldSchema,
+      higherIsBetter: z.boolean(),
+    })).min(1).max(10),
+  })).min(1).max(10),
 });
 
+// A filter references a built-in / saved model by id, or defines one inline
+const scoreModelRefSchema = z.union([
+  z.string().min(1).max(64),
+  scoreModelFieldsSchema.extend({ id: z.string().max(64).default('inline') }),
+]);
+
+// Sort by a registered field, or by the composite score
+const sortBySchema = z.union([filterFieldSchema, z.literal('score')]);
+
 // Screener request schema
 const screenerRequestSchema = z.object({
-  conditions: z.array(filterConditionSchema),
-  sortBy: z.string().optional(),
+  conditions: z.array(filterNodeSchema),
+  sortBy: sortBySchema.optional(),
+  sortExpression: expressionSchema.optional(),
   sortOrder: z.enum(['asc', 'desc']).optional(),
+  columns: z.array(computedColumnSchema).max(10).optional(),
+  scoreModel: scoreModelRefSchema.optional(),
+  minScore: z.number().min(0).max(100).optional(),
   page: z.number().min(1).default(1),
   pageSize: z.number().min(1).max(100).default(50),
 });
 
+// Saved screen schema - a custom filter plus its display settings
+const savedScreenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  conditions: z.array(filterNodeSchema).min(1),
+  sortBy: sortBySchema.optional(),
+  sortExpression: expressionSchema.optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+  columns: z.array(computedColumnSchema).max(10).optional(),
+  scoreModel: scoreModelRefSchema.optional(),
+  minScore: z.number().min(0).max(100).optional(),
+  isPublic: z.boolean().default(false),
+});
+
+// Saved score model schema
+const savedScoreModelSchema = scoreModelFieldsSchema.extend({
+  isPublic: z.boolean().default(false),
+});
+
+// Backtest request schema - dates are trading days (YYYY-MM-DD)
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+const backtestRequestSchema = z.object({
+  conditions: z.array(filterNodeSchema).min(1),
+  startDate: dateSchema,
+  endDate: dateSchema,
+  rebalance: z.enum(['daily', 'weekly', 'monthly']).default('weekly'),
+}).refine((body) => body.startDate <= body.endDate, {
+  message: 'startDate must not be after endDate',
+  path: ['endDate'],
+});
+
 // Run screener with custom filters
 screenerRouter.post(
   '/run',
@@ -44,9 +212,13 @@ screenerRouter.post(
       const filter: ScreenerFilter = {
         id: `custom-${Date.now()}`,
         name: 'Custom Filter',
-        conditions: body.conditions as FilterCondition[],
-        sortBy: body.sortBy as keyof import('@screener/shared').StockIndicators | undefined,
+        conditions: body.conditions as FilterNode[],
+        sortBy: body.sortBy,
+        sortExpression: body.sortExpression,
         sortOrder: body.sortOrder,
+        columns: body.columns,
+        scoreModel: body.scoreModel,
+        minScore: body.minScore,
       };
 
       const results = await screenerService.runScreener(
@@ -68,7 +240,45 @@ screenerRouter.post(
         error: error instanceof Error ? error.message : 'Unknown error',
         timestamp: Date.now(),
       };
-      return c.json(response, 500);
+      const isClientError = error instanceof ExpressionError
+        || error instanceof ScoreModelError
+        || error instanceof IndicatorFieldError
+        || error instanceof WindowConditionError;
+      return c.json(response, isClientError ? 400 : 500);
+    }
+  }
+);
+
+// Backtest a filter over a historical date range
+screenerRouter.post(
+  '/backtest',
+  zValidator('json', backtestRequestSchema),
+  async (c) => {
+    const body = c.req.valid('json');
+
+    try {
+      const result = await backtestService.runBacktest({
+        conditions: body.conditions as FilterNode[],
+        startDate: body.startDate,
+        endDate: body.endDate,
+        rebalance: body.rebalance,
+      });
+
+      const response: ApiResponse<BacktestResult> = {
+        success: true,
+        data: result,
+        timestamp: Date.now(),
+      };
+
+      return c.json(response);
+    } catch (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: Date.now(),
+      };
+      const isClientError = error instanceof BacktestError || error instanceof ExpressionError;
+      return c.json(response, isClientError ? 400 : 500);
     }
   }
 );
@@ -79,22 +289,23 @@ screenerRouter.get('/preset/:presetId', async (c) => {
   const page = Number(c.req.query('page')) || 1;
   const pageSize = Math.min(Number(c.req.query('pageSize')) || 50, 100);
 
-  const preset = PRESET_FILTERS[presetId];
-  
-  if (!preset) {
-    const response: ApiResponse<null> = {
-      success: false,
-      error: 'Preset not found',
-      timestamp: Date.now(),
-    };
-    return c.json(response, 404);
-  }
-
   try {
-    const filter: ScreenerFilter = {
-      id: presetId,
-      ...preset,
-    };
+    // Built-in presets first, then screens saved from the filter builder
+    const preset = PRESET_FILTERS[presetId];
+    const savedScreen = !preset && isSavedScreenId(presetId) && await checkDbConnection()
+      ? await savedScreenService.getScreen(presetId)
+      : null;
+
+    if (!preset && !savedScreen) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Preset not found',
+        timestamp: Date.now(),
+      };
+      return c.json(response, 404);
+    }
+
+    const filter: ScreenerFilter = preset ? { id: presetId, ...preset } : savedScreen!;
 
     const results = await screenerService.runScreener(filter, page, pageSize);
 
@@ -111,7 +322,12 @@ screenerRouter.get('/preset/:presetId', async (c) => {
       error: error instanceof Error ? error.message : 'Unknown error',
       timestamp: Date.now(),
     };
-    return c.json(response, 500);
+    // A saved screen may reference a score model that has since been deleted
+    const isClientError = error instanceof ScoreModelError
+      || error instanceof IndicatorFieldError
+      || error instanceof WindowConditionError
+      || error instanceof ExpressionError;
+    return c.json(response, isClientError ? 400 : 500);
   }
 });
 
@@ -124,7 +340,11 @@ screenerRouter.get('/presets', (c) => {
     category: preset.category,
     conditions: preset.conditions,
     sortBy: preset.sortBy,
+    sortExpression: preset.sortExpression,
     sortOrder: preset.sortOrder,
+    columns: preset.columns,
+    scoreModel: preset.scoreModel,
+    minScore: preset.minScore,
   }));
 
   const response: ApiResponse<typeof presets> = {
@@ -135,3 +355,369 @@ screenerRouter.get('/presets', (c) => {
 
   return c.json(response);
 });
+
+// Distinct values (with stock counts) for a categorical field, used to populate pickers
+screenerRouter.get('/categories/:field', async (c) => {
+  const field = c.req.param('field');
+  const categoricalField = CATEGORICAL_FIELDS.find((f) => f === field);
+
+  if (!categoricalField) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: `Unknown categorical field. Expected one of: ${CATEGORICAL_FIELDS.join(', ')}`,
+      timestamp: Date.now(),
+    };
+    return c.json(response, 400);
+  }
+
+  try {
+    const values = await screenerService.getCategoryValues(categoricalField);
+
+    const response: ApiResponse<CategoryValueCount[]> = {
+      success: true,
+      data: values,
+      timestamp: Date.now(),
+    };
+
+    return c.json(response);
+  } catch (error) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: Date.now(),
+    };
+    return c.json(response, 500);
+  }
+});
+
+// ============================================
+// Saved screens (filter_presets table)
+// ============================================
+
+// Saved screens and score models live in the database only
+const requireDatabase = async (c: Context, next: Next) => {
+  if (!(await checkDbConnection())) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Saved screens and score models require a database connection',
+      timestamp: Date.now(),
+    };
+    return c.json(response, 503);
+  }
+  await next();
+};
+
+screenerRouter.use('/screens', requireDatabase);
+screenerRouter.use('/screens/*', requireDatabase);
+screenerRouter.use('/models', requireDatabase);
+screenerRouter.use('/models/*', requireDatabase);
+
+// List public screens, plus unlisted ones requested via ?ids=a,b
+screenerRouter.get('/screens', async (c) => {
+  const ids = (c.req.query('ids') || '').split(',').map((id) => id.trim()).filter(Boolean);
+
+  try {
+    const screens = await savedScreenService.listScreens(ids);
+
+    const response: ApiResponse<SavedScreen[]> = {
+      success: true,
+      data: screens,
+      timestamp: Date.now(),
+    };
+
+    return c.json(response);
+  } catch (error) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: Date.now(),
+    };
+    return c.json(response, 500);
+  }
+});
+
+screenerRouter.get('/screens/:id', async (c) => {
+  try {
+    const screen = await savedScreenService.getScreen(c.req.param('id'));
+
+    if (!screen) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Screen not found',
+        timestamp: Date.now(),
+      };
+      return c.json(response, 404);
+    }
+
+    const response: ApiResponse<SavedScreen> = {
+      success: true,
+      data: screen,
+      timestamp: Date.now(),
+    };
+
+    return c.json(response);
+  } catch (error) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: Date.now(),
+    };
+    return c.json(response, 500);
+  }
+});
+
+// The response carries the screen's edit token, which PUT and DELETE require
+// in the X-Edit-Token header
+screenerRouter.post(
+  '/screens',
+  zValidator('json', savedScreenSchema),
+  async (c) => {
+    const body = c.req.valid('json');
+
+    try {
+      const screen = await savedScreenService.createScreen({
+        ...body,
+        conditions: body.conditions as FilterNode[],
+        sortBy: body.sortBy,
+      });
+
+      const response: ApiResponse<SavedScreen> = {
+        success: true,
+        data: screen,
+        timestamp: Date.now(),
+      };
+
+      return c.json(response, 201);
+    } catch (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: Date.now(),
+      };
+      return c.json(response, 500);
+    }
+  }
+);
+
+screenerRouter.put(
+  '/screens/:id',
+  zValidator('json', savedScreenSchema),
+  async (c) => {
+    const body = c.req.valid('json');
+
+    try {
+      const screen = await savedScreenService.updateScreen(c.req.param('id'), c.req.header(EDIT_TOKEN_HEADER), {
+        ...body,
+        conditions: body.conditions as FilterNode[],
+        sortBy: body.sortBy,
+      });
+
+      if (!screen) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Screen not found',
+          timestamp: Date.now(),
+        };
+        return c.json(response, 404);
+      }
+
+      const response: ApiResponse<SavedScreen> = {
+        success: true,
+        data: screen,
+        timestamp: Date.now(),
+      };
+
+      return c.json(response);
+    } catch (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: Date.now(),
+      };
+      return c.json(response, error instanceof EditTokenError ? 403 : 500);
+    }
+  }
+);
+
+screenerRouter.delete('/screens/:id', async (c) => {
+  try {
+    const deleted = await savedScreenService.deleteScreen(c.req.param('id'), c.req.header(EDIT_TOKEN_HEADER));
+
+    if (!deleted) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Screen not found',
+        timestamp: Date.now(),
+      };
+      return c.json(response, 404);
+    }
+
+    const response: ApiResponse<{ id: string }> = {
+      success: true,
+      data: { id: c.req.param('id') },
+      timestamp: Date.now(),
+    };
+
+    return c.json(response);
+  } catch (error) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: Date.now(),
+    };
+    return c.json(response, error instanceof EditTokenError ? 403 : 500);
+  }
+});
+
+// ============================================
+// Saved score models (score_models table)
+// ============================================
+
+// List public score models, plus unlisted ones requested via ?ids=a,b
+screenerRouter.get('/models', async (c) => {
+  const ids = (c.req.query('ids') || '').split(',').map((id) => id.trim()).filter(Boolean);
+
+  try {
+    const models = await scoreModelService.listModels(ids);
+
+    const response: ApiResponse<SavedScoreModel[]> = {
+      success: true,
+      data: models,
+      timestamp: Date.now(),
+    };
+
+    return c.json(response);
+  } catch (error) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: Date.now(),
+    };
+    return c.json(response, 500);
+  }
+});
+
+screenerRouter.get('/models/:id', async (c) => {
+  try {
+    const model = await scoreModelService.getModel(c.req.param('id'));
+
+    if (!model) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Score model not found',
+        timestamp: Date.now(),
+      };
+      return c.json(response, 404);
+    }
+
+    const response: ApiResponse<SavedScoreModel> = {
+      success: true,
+      data: model,
+      timestamp: Date.now(),
+    };
+
+    return c.json(response);
+  } catch (error) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: Date.now(),
+    };
+    return c.json(response, 500);
+  }
+});
+
+// As with screens, the response carries the model's edit token, which PUT and
+// DELETE require in the X-Edit-Token header
+screenerRouter.post(
+  '/models',
+  zValidator('json', savedScoreModelSchema),
+  async (c) => {
+    const body = c.req.valid('json');
+
+    try {
+      const model = await scoreModelService.createModel(body);
+
+      const response: ApiResponse<SavedScoreModel> = {
+        success: true,
+        data: model,
+        timestamp: Date.now(),
+      };
+
+      return c.json(response, 201);
+    } catch (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: Date.now(),
+      };
+      return c.json(response, 500);
+    }
+  }
+);
+
+screenerRouter.put(
+  '/models/:id',
+  zValidator('json', savedScoreModelSchema),
+  async (c) => {
+    const body = c.req.valid('json');
+
+    try {
+      const model = await scoreModelService.updateModel(c.req.param('id'), c.req.header(EDIT_TOKEN_HEADER), body);
+
+      if (!model) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Score model not found',
+          timestamp: Date.now(),
+        };
+        return c.json(response, 404);
+      }
+
+      const response: ApiResponse<SavedScoreModel> = {
+        success: true,
+        data: model,
+        timestamp: Date.now(),
+      };
+
+      return c.json(response);
+    } catch (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: Date.now(),
+      };
+      return c.json(response, error instanceof EditTokenError ? 403 : 500);
+    }
+  }
+);
+
+screenerRouter.delete('/models/:id', async (c) => {
+  try {
+    const deleted = await scoreModelService.deleteModel(c.req.param('id'), c.req.header(EDIT_TOKEN_HEADER));
+
+    if (!deleted) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Score model not found',
+        timestamp: Date.now(),
+      };
+      return c.json(response, 404);
+    }
+
+    const response: ApiResponse<{ id: string }> = {
+      success: true,
+      data: { id: c.req.param('id') },
+      timestamp: Date.now(),
+    };
+
+    return c.json(response);
+  } catch (error) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: Date.now(),
+    };
+    return c.json(response, error instanceof EditTokenError ? 403 : 500);
+  }
+});
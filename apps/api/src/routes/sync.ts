@@ -1,9 +1,34 @@
 import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
 import { dataSyncService } from '../services/data-sync';
-import type { ApiResponse } from '@screener/shared';
+import { jobQueue, JOB_TYPES, type JobPayloads } from '../services/job-queue';
+import { isDbConnected } from '../db';
+import type { ApiResponse, Job, JobStatus, JobType } from '@screener/shared';
 
 export const syncRouter = new Hono();
 
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'completed', 'dead', 'cancelled'];
+
+const symbolSchema = z.string().regex(/^[A-Za-z0-9.\-]{1,12}$/).transform(symbol => symbol.toUpperCase());
+
+// Payload fields each job type reads; yahoo-symbol needs a symbol
+const enqueueJobSchema = z.object({
+  type: z.enum(JOB_TYPES),
+  payload: z.object({
+    symbols: z.array(symbolSchema).min(1).max(5000).optional(),
+    symbol: symbolSchema.optional(),
+    force: z.boolean().optional(),
+    limit: z.number().int().min(1).max(10000).optional(),
+  }).strict().default({}),
+  priority: z.number().int().optional(),
+  runAt: z.string().datetime().optional(),
+  dedupeKey: z.string().min(1).max(200).optional(),
+}).refine(body => body.type !== 'yahoo-symbol' || body.payload.symbol, {
+  message: 'yahoo-symbol jobs need payload.symbol',
+  path: ['payload', 'symbol'],
+});
+
 // Trigger hourly snapshot sync
 syncRouter.post('/snapshot', async (c) => {
   try {
@@ -48,6 +73,54 @@ syncRouter.post('/daily', async (c) => {
   }
 });
 
+// Recompute indicators from stored daily prices (?history=true rewrites all days)
+syncRouter.post('/indicators', async (c) => {
+  try {
+    const result = await dataSyncService.syncIndicators({
+      history: c.req.query('history') === 'true',
+    });
+    
+    const response: ApiResponse<typeof result> = {
+      success: true,
+      data: result,
+      timestamp: Date.now(),
+    };
+    
+    return c.json(response);
+  } catch (error) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Sync failed',
+      timestamp: Date.now(),
+    };
+    return c.json(response, 500);
+  }
+});
+
+// Extend the market breadth series (?rebuild=true recomputes every session)
+syncRouter.post('/breadth', async (c) => {
+  try {
+    const result = await dataSyncService.syncBreadth({
+      rebuild: c.req.query('rebuild') === 'true',
+    });
+    
+    const response: ApiResponse<typeof result> = {
+      success: true,
+      data: result,
+      timestamp: Date.now(),
+    };
+    
+    return c.json(response);
+  } catch (error) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Sync failed',
+      timestamp: Date.now(),
+    };
+    return c.json(response, 500);
+  }
+});
+
 // Backfill a specific symbol
 syncRouter.post('/backfill/:symbol', async (c) => {
   const symbol = c.req.param('symbol').toUpperCase();
@@ -73,6 +146,53 @@ syncRouter.post('/backfill/:symbol', async (c) => {
   }
 });
 
+// Bulk-import daily OHLCV from a CSV request body. ?symbol= names the symbol
+// for files without a symbol column; ?recompute=false skips rebuilding the
+// indicators, RS ratings and breadth
+syncRouter.post('/import', async (c) => {
+  const body = c.req.raw.body;
+  
+  if (!isDbConnected()) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Database not available',
+      timestamp: Date.now(),
+    };
+    return c.json(response, 503);
+  }
+  
+  if (!body) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Request body must be a CSV file',
+      timestamp: Date.now(),
+    };
+    return c.json(response, 400);
+  }
+  
+  try {
+    const result = await dataSyncService.importPrices(
+      [{ name: 'upload', stream: body, symbol: c.req.query('symbol') }],
+      { recompute: c.req.query('recompute') !== 'false' }
+    );
+    
+    const response: ApiResponse<typeof result> = {
+      success: true,
+      data: result,
+      timestamp: Date.now(),
+    };
+    
+    return c.json(response);
+  } catch (error) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Import failed',
+      timestamp: Date.now(),
+    };
+    return c.json(response, 500);
+  }
+});
+
 // Sync missing logos
 syncRouter.post('/logos', async (c) => {
   const limit = Number(c.req.query('limit')) || 500;
@@ -127,3 +247,181 @@ syncRouter.get('/status', async (c) => {
     return c.json(response, 500);
   }
 });
+
+// ============================================
+// Jobs
+// ============================================
+
+// List jobs, newest first (?status=queued,dead&type=financials&limit=50)
+syncRouter.get('/jobs', async (c) => {
+  const status = c.req.query('status')?.split(',').filter((value): value is JobStatus => JOB_STATUSES.includes(value as JobStatus));
+  const type = JOB_TYPES.find(value => value === c.req.query('type'));
+  const limit = Number(c.req.query('limit')) || undefined;
+  
+  try {
+    const jobs = await jobQueue.listJobs({ status, type, limit });
+    
+    const response: ApiResponse<Job[]> = {
+      success: true,
+      data: jobs,
+      timestamp: Date.now(),
+    };
+    
+    return c.json(response);
+  } catch (error) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list jobs',
+      timestamp: Date.now(),
+    };
+    return c.json(response, 500);
+  }
+});
+
+syncRouter.get('/jobs/:id', async (c) => {
+  try {
+    const job = await jobQueue.getJob(Number(c.req.param('id')) || 0);
+    
+    if (!job) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Job not found',
+        timestamp: Date.now(),
+      };
+      return c.json(response, 404);
+    }
+    
+    const response: ApiResponse<Job> = {
+      success: true,
+      data: job,
+      timestamp: Date.now(),
+    };
+    
+    return c.json(response);
+  } catch (error) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load job',
+      timestamp: Date.now(),
+    };
+    return c.json(response, 500);
+  }
+});
+
+// Enqueue a job; data is null when one with the same dedupeKey is already queued or running
+syncRouter.post('/jobs', zValidator('json', enqueueJobSchema), async (c) => {
+  const body = c.req.valid('json');
+  
+  try {
+    const job = await jobQueue.enqueue(body.type, body.payload as JobPayloads[JobType], {
+      priority: body.priority,
+      runAt: body.runAt ? new Date(body.runAt) : undefined,
+      dedupeKey: body.dedupeKey,
+    });
+    
+    const response: ApiResponse<Job | null> = {
+      success: true,
+      data: job,
+      timestamp: Date.now(),
+    };
+    
+    return c.json(response, job ? 201 : 200);
+  } catch (error) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to enqueue job',
+      timestamp: Date.now(),
+    };
+    return c.json(response, 500);
+  }
+});
+
+// Requeue a dead or cancelled job with fresh attempts
+syncRouter.post('/jobs/:id/retry', async (c) => {
+  const id = Number(c.req.param('id')) || 0;
+  
+  try {
+    const existing = await jobQueue.getJob(id);
+    
+    if (!existing) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Job not found',
+        timestamp: Date.now(),
+      };
+      return c.json(response, 404);
+    }
+    
+    const job = await jobQueue.retryJob(id);
+    
+    if (!job) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: existing.status === 'dead' || existing.status === 'cancelled'
+          ? 'A job with the same dedupe key is already queued or running'
+          : `Job is ${existing.status}; only dead or cancelled jobs can be retried`,
+        timestamp: Date.now(),
+      };
+      return c.json(response, 409);
+    }
+    
+    const response: ApiResponse<Job> = {
+      success: true,
+      data: job,
+      timestamp: Date.now(),
+    };
+    
+    return c.json(response);
+  } catch (error) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to retry job',
+      timestamp: Date.now(),
+    };
+    return c.json(response, 500);
+  }
+});
+
+// Cancel a queued or running job (a running attempt finishes but is not recorded)
+syncRouter.post('/jobs/:id/cancel', async (c) => {
+  const id = Number(c.req.param('id')) || 0;
+  
+  try {
+    const existing = await jobQueue.getJob(id);
+    
+    if (!existing) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Job not found',
+        timestamp: Date.now(),
+      };
+      return c.json(response, 404);
+    }
+    
+    const job = await jobQueue.cancelJob(id);
+    
+    if (!job) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Job is ${existing.status}; only queued or running jobs can be cancelled`,
+        timestamp: Date.now(),
+      };
+      return c.json(response, 409);
+    }
+    
+    const response: ApiResponse<Job> = {
+      success: true,
+      data: job,
+      timestamp: Date.now(),
+    };
+    
+    return c.json(response);
+  } catch (error) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to cancel job',
+      timestamp: Date.now(),
+    };
+    return c.json(response, 500);
+  }
+});
@@ -11,6 +11,8 @@ import {
   newsArticles,
   newsTickers,
   dailyPrices,
+  dailyIndicators,
+  candlePatterns,
   earningsHistory,
   analystRecommendations,
   upgradeDowngrades,
@@ -18,10 +20,14 @@ import {
   institutionalHolders,
   insiderTransactions,
 } from '../db/schema';
-import { MassiveClient } from '../clients/massive';
 import { yahooClient } from '../clients/yahoo';
-import { yahooSyncService } from '../services/yahoo-sync';
+import { marketData, fallbackMarketData, isOfflineProvider } from '../providers';
+import { jobQueue } from '../services/job-queue';
+import { priceAdjustmentService } from '../services/price-adjustment';
+import { RISK_BENCHMARK_SYMBOL } from '../services/risk-stats';
+import { marketCalendar } from '../lib/market-calendar';
 import { eq, and, desc, sql, gte } from 'drizzle-orm';
+import { CHART_INDICATOR_FIELDS, PRICE_ADJUSTMENTS } from '@screener/shared';
 import type { 
   TickerDetailResponse, 
   FinancialsResponse,
@@ -29,8 +35,14 @@ import type {
   StatementType,
   Timeframe,
   DividendWithYield,
+  ChartBar,
   ChartData,
   ChartRange,
+  PriceAdjustment,
+  ChartIndicatorData,
+  ChartIndicatorField,
+  CandlePattern,
+  CandlePatternMarker,
   EarningsData,
   AnalystRecommendation,
   UpgradeDowngrade,
@@ -40,7 +52,6 @@ import type {
 } from '@screener/shared';
 
 const app = new Hono();
-const massiveClient = new MassiveClient();
 
 // Helper to check DB availability
 const requireDb = (c: any) => {
@@ -144,9 +155,9 @@ app.get('/:symbol', async (c) => {
       const isYahooDataStale = Date.now() - yahooSyncTime > yahooStaleThreshold;
       
       if (isYahooDataStale) {
-        // Trigger background Yahoo sync (don't await)
-        yahooSyncService.syncSymbol(symbol).catch(err => {
-          console.error(`Background Yahoo sync failed for ${symbol}:`, err);
+        // Queue a background Yahoo sync (don't await)
+        jobQueue.enqueue('yahoo-symbol', { symbol }, { dedupeKey: `yahoo-symbol:${symbol}` }).catch(err => {
+          console.error(`Failed to queue Yahoo sync for ${symbol}:`, err);
         });
       }
       
@@ -257,6 +268,20 @@ app.get('/:symbol', async (c) => {
             revenueGrowthYoy: snapshot.revenueGrowthYoy || undefined,
             epsGrowthYoy: snapshot.epsGrowthYoy || undefined,
             debtToEquity: snapshot.debtToEquity || undefined,
+            piotroskiScore: snapshot.piotroskiScore ?? undefined,
+            altmanZScore: snapshot.altmanZScore ?? undefined,
+            beneishMScore: snapshot.beneishMScore ?? undefined,
+            grahamNumber: snapshot.grahamNumber ?? undefined,
+            volatility20: snapshot.volatility20 ?? undefined,
+            volatility60: snapshot.volatility60 ?? undefined,
+            volatility252: snapshot.volatility252 ?? undefined,
+            maxDrawdown: snapshot.maxDrawdown ?? undefined,
+            downsideDeviation: snapshot.downsideDeviation ?? undefined,
+            sharpeRatio: snapshot.sharpeRatio ?? undefined,
+            sortinoRatio: snapshot.sortinoRatio ?? undefined,
+            benchmarkBeta: snapshot.benchmarkBeta ?? undefined,
+            benchmarkCorrelation: snapshot.benchmarkCorrelation ?? undefined,
+            riskBenchmark: RISK_BENCHMARK_SYMBOL,
             dataDate: snapshot.dataDate || undefined,
             financialsLastSync: snapshot.financialsLastSync?.toISOString(),
             ratiosLastSync: snapshot.ratiosLastSync?.toISOString(),
@@ -351,6 +376,13 @@ app.get('/:symbol', async (c) => {
   }
 });
 
+// Stand-in for Yahoo data when running from an offline provider
+const EMPTY_YAHOO_DATA: Awaited<ReturnType<typeof yahooClient.getTickerData>> = {
+  quote: null, profile: null, stats: null, earnings: null,
+  recommendations: null, upgradeDowngrades: null, holdersBreakdown: null,
+  insiderTransactions: null, institutionalHolders: null,
+};
+
 // API fallback for ticker details when DB is not available
 async function fetchTickerFromAPI(c: any, symbol: string) {
   try {
@@ -358,8 +390,8 @@ async function fetchTickerFromAPI(c: any, symbol: string) {
     // 1. Polygon market snapshot for price data (works with basic plan)
     // 2. Yahoo Finance for company details, ratios, earnings, analysts (free, no API key)
     const [allSnapshots, yahooData] = await Promise.all([
-      massiveClient.getMarketSnapshot().catch(() => []),
-      yahooClient.getTickerData(symbol),
+      marketData.getMarketSnapshot().catch(() => []),
+      isOfflineProvider ? Promise.resolve(EMPTY_YAHOO_DATA) : yahooClient.getTickerData(symbol),
     ]);
     
     // Find the ticker in Polygon's market snapshot
@@ -589,8 +621,8 @@ async function fetchTickerFromAPI(c: any, symbol: string) {
     // Trigger background DB sync if database is available
     // This will store the Yahoo data for future requests
     if (isDbConnected() && (yahooQuote || yahooProfile)) {
-      yahooSyncService.syncSymbol(symbol).catch(err => {
-        console.error(`Background DB sync failed for ${symbol}:`, err);
+      jobQueue.enqueue('yahoo-symbol', { symbol }, { dedupeKey: `yahoo-symbol:${symbol}` }).catch(err => {
+        console.error(`Failed to queue DB sync for ${symbol}:`, err);
       });
     }
     
@@ -608,7 +640,8 @@ async function fetchTickerFromAPI(c: any, symbol: string) {
 // ============================================
 // GET /api/ticker/:symbol/financials
 // Query params: timeframe=quarterly|annual, limit=8
-// Fetches from DB first, falls back to Yahoo Finance (free, no API key)
+// Fetches from DB first, falls back to the market data provider
+// (Yahoo Finance when the primary is Massive: free, no API key)
 // ============================================
 app.get('/:symbol/financials', async (c) => {
   const symbol = c.req.param('symbol').toUpperCase();
@@ -657,43 +690,45 @@ app.get('/:symbol/financials', async (c) => {
       }
     }
     
-    // Fallback to Yahoo Finance if DB is empty (free, no API key needed)
+    // Fallback to the provider if DB is empty
     if (grouped.income.length === 0 && grouped.balance.length === 0 && grouped.cashFlow.length === 0) {
-      const yahooData = await yahooClient.getAllFinancials(symbol, timeframe, limit);
+      const params = { timeframe, limit };
+      const [income, balance, cashFlow] = await Promise.all([
+        fallbackMarketData.getIncomeStatements(symbol, params),
+        fallbackMarketData.getBalanceSheets(symbol, params),
+        fallbackMarketData.getCashFlowStatements(symbol, params),
+      ]);
+      
+      // Common fields of a Polygon-style statement header
+      const header = (
+        s: { fiscal_year: number; fiscal_period: string; end_date: string },
+        statementType: StatementType,
+        idx: number,
+      ) => ({
+        id: idx,
+        symbol,
+        statementType,
+        timeframe,
+        fiscalYear: s.fiscal_year,
+        fiscalQuarter: s.fiscal_period.startsWith('Q') ? parseInt(s.fiscal_period.slice(1)) : undefined,
+        periodEnd: s.end_date,
+      });
       
       grouped = {
-        income: yahooData.income.map((s, idx) => ({
-          id: idx,
-          symbol: s.symbol,
-          statementType: s.statementType,
-          timeframe: s.timeframe,
-          fiscalYear: s.fiscalYear,
-          fiscalQuarter: s.fiscalQuarter,
-          periodEnd: s.periodEnd,
-          revenue: s.revenue,
-          netIncome: s.netIncome,
-          eps: s.eps,
+        income: income.map((s, idx) => ({
+          ...header(s, 'income', idx),
+          revenue: s.revenues?.value,
+          netIncome: s.net_income_loss?.value,
+          eps: s.basic_earnings_per_share?.value,
         })),
-        balance: yahooData.balance.map((s, idx) => ({
-          id: idx,
-          symbol: s.symbol,
-          statementType: s.statementType,
-          timeframe: s.timeframe,
-          fiscalYear: s.fiscalYear,
-          fiscalQuarter: s.fiscalQuarter,
-          periodEnd: s.periodEnd,
-          totalAssets: s.totalAssets,
-          totalLiabilities: s.totalLiabilities,
+        balance: balance.map((s, idx) => ({
+          ...header(s, 'balance', idx),
+          totalAssets: s.assets?.value,
+          totalLiabilities: s.liabilities?.value,
         })),
-        cashFlow: yahooData.cashFlow.map((s, idx) => ({
-          id: idx,
-          symbol: s.symbol,
-          statementType: s.statementType,
-          timeframe: s.timeframe,
-          fiscalYear: s.fiscalYear,
-          fiscalQuarter: s.fiscalQuarter,
-          periodEnd: s.periodEnd,
-          operatingCashFlow: s.operatingCashFlow,
+        cashFlow: cashFlow.map((s, idx) => ({
+          ...header(s, 'cashflow', idx),
+          operatingCashFlow: s.net_cash_flow_from_operating_activities?.value,
         })),
       };
     }
@@ -720,7 +755,8 @@ app.get('/:symbol/financials', async (c) => {
 
 // ============================================
 // GET /api/ticker/:symbol/dividends
-// Fetches from DB first, falls back to Yahoo Finance (free, no API key)
+// Fetches from DB first, falls back to the market data provider
+// (Yahoo Finance when the primary is Massive: free, no API key)
 // ============================================
 app.get('/:symbol/dividends', async (c) => {
   const symbol = c.req.param('symbol').toUpperCase();
@@ -760,11 +796,11 @@ app.get('/:symbol/dividends', async (c) => {
       currentPrice = snap?.price;
     }
     
-    // Fallback to Yahoo Finance if DB is empty (free, no API key needed)
+    // Fallback to the provider if DB is empty
     if (dividendList.length === 0) {
-      const yahooDivs = await yahooClient.getDividends(symbol, limit);
+      const providerDivs = await fallbackMarketData.getDividends(symbol, { limit });
       
-      dividendList = yahooDivs.map((d, idx) => ({
+      dividendList = providerDivs.map((d, idx) => ({
         id: idx,
         symbol: d.symbol,
         exDividendDate: d.exDividendDate,
@@ -773,10 +809,10 @@ app.get('/:symbol/dividends', async (c) => {
         frequency: d.frequency,
       }));
       
-      // Try to get current price from Yahoo for yield calculation
+      // Try to get current price from the provider for yield calculation
       if (!currentPrice && dividendList.length > 0) {
-        const quote = await yahooClient.getQuote(symbol);
-        currentPrice = quote?.regularMarketPrice;
+        const snapshot = await fallbackMarketData.getTickerSnapshot(symbol);
+        currentPrice = snapshot?.day.c;
       }
     }
     
@@ -817,7 +853,8 @@ app.get('/:symbol/dividends', async (c) => {
 
 // ============================================
 // GET /api/ticker/:symbol/splits
-// Fetches from DB first, falls back to Yahoo Finance (free, no API key)
+// Fetches from DB first, falls back to the market data provider
+// (Yahoo Finance when the primary is Massive: free, no API key)
 // ============================================
 app.get('/:symbol/splits', async (c) => {
   const symbol = c.req.param('symbol').toUpperCase();
@@ -845,11 +882,11 @@ app.get('/:symbol/splits', async (c) => {
       }
     }
     
-    // Fallback to Yahoo Finance if DB is empty (free, no API key needed)
+    // Fallback to the provider if DB is empty
     if (splitList.length === 0) {
-      const yahooSplits = await yahooClient.getStockSplits(symbol, limit);
+      const providerSplits = await fallbackMarketData.getStockSplits(symbol, { limit });
       
-      splitList = yahooSplits.map((s, idx) => ({
+      splitList = providerSplits.map((s, idx) => ({
         id: idx,
         symbol: s.symbol,
         executionDate: s.executionDate,
@@ -880,7 +917,8 @@ app.get('/:symbol/splits', async (c) => {
 
 // ============================================
 // GET /api/ticker/:symbol/news
-// Fetches from DB first, falls back to Yahoo Finance (free, no API key)
+// Fetches from DB first, falls back to the market data provider
+// (Yahoo Finance when the primary is Massive: free, no API key)
 // ============================================
 app.get('/:symbol/news', async (c) => {
   const symbol = c.req.param('symbol').toUpperCase();
@@ -921,11 +959,11 @@ app.get('/:symbol/news', async (c) => {
       }
     }
     
-    // Fallback to Yahoo Finance if DB is empty (free, no API key needed)
+    // Fallback to the provider if DB is empty
     if (articleList.length === 0) {
-      const yahooNews = await yahooClient.getNews(symbol, limit);
+      const providerNews = await fallbackMarketData.getNews({ ticker: symbol, limit });
       
-      articleList = yahooNews.map(a => ({
+      articleList = providerNews.map(a => ({
         id: a.id,
         title: a.title,
         publishedAt: a.publishedAt,
@@ -958,102 +996,262 @@ app.get('/:symbol/news', async (c) => {
 
 // ============================================
 // GET /api/ticker/:symbol/chart
-// Query params: range=1D|1W|1M|3M|1Y|5Y|MAX
+// Query params: range=1D|1W|1M|3M|1Y|5Y|MAX, adjusted=none|split|total (default: split)
 // ============================================
+// Intraday ranges span trading sessions, longer ranges calendar days
+const rangeConfig: Record<ChartRange, { days: number; sessions?: number; timespan: 'minute' | 'hour' | 'day' | 'week' | 'month'; multiplier: number; cacheTtl: number }> = {
+  '1D': { days: 1, sessions: 1, timespan: 'minute', multiplier: 5, cacheTtl: 60 },
+  '1W': { days: 7, sessions: 5, timespan: 'hour', multiplier: 1, cacheTtl: 300 },
+  '1M': { days: 30, timespan: 'day', multiplier: 1, cacheTtl: 3600 },
+  '3M': { days: 90, timespan: 'day', multiplier: 1, cacheTtl: 3600 },
+  '1Y': { days: 365, timespan: 'day', multiplier: 1, cacheTtl: 3600 },
+  '5Y': { days: 1825, timespan: 'week', multiplier: 1, cacheTtl: 3600 },
+  'MAX': { days: 7300, timespan: 'month', multiplier: 1, cacheTtl: 3600 },
+};
+
+// First date (YYYY-MM-DD) of a range. Session counts run back from the latest
+// session, so 1D after a weekend or holiday still shows the last trading day
+function getRangeStart(config: { days: number; sessions?: number }): string {
+  if (config.sessions) {
+    return marketCalendar.addTradingDays(marketCalendar.lastSession(), 1 - config.sessions);
+  }
+  return new Date(Date.now() - config.days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+}
+
+// Stored daily bars since a date, adjusted for corporate actions; weekly /
+// monthly ranges are aggregated after adjusting so splits don't distort them
+async function loadStoredBars(
+  symbol: string,
+  fromDate: string,
+  timespan: 'day' | 'week' | 'month',
+  adjusted: PriceAdjustment
+): Promise<ChartBar[]> {
+  const rows = await db.select().from(dailyPrices)
+    .where(and(eq(dailyPrices.symbol, symbol), gte(dailyPrices.date, fromDate)))
+    .orderBy(dailyPrices.date);
+  const history = await priceAdjustmentService.adjustHistory(new Map([[symbol, rows]]), adjusted);
+  const daily = history.get(symbol) ?? [];
+
+  if (timespan === 'day') {
+    return daily.map(b => ({
+      t: new Date(b.date).getTime(),
+      o: b.open,
+      h: b.high,
+      l: b.low,
+      c: b.close,
+      v: b.volume,
+      vw: adjusted === 'none' ? b.vwap || undefined : undefined,
+    }));
+  }
+
+  const bars: ChartBar[] = [];
+  let periodKey: string | null = null;
+  for (const b of daily) {
+    const key = getPeriodStart(b.date, timespan);
+    const bar = bars[bars.length - 1];
+    if (key !== periodKey) {
+      periodKey = key;
+      bars.push({ t: new Date(key).getTime(), o: b.open, h: b.high, l: b.low, c: b.close, v: b.volume });
+    } else {
+      bar.h = Math.max(bar.h, b.high);
+      bar.l = Math.min(bar.l, b.low);
+      bar.c = b.close;
+      bar.v += b.volume;
+    }
+  }
+  return bars;
+}
+
+// Monday of the date's week, or the first of its month (YYYY-MM-DD)
+function getPeriodStart(date: string, timespan: 'week' | 'month'): string {
+  if (timespan === 'month') return `${date.slice(0, 7)}-01`;
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+}
+
 app.get('/:symbol/chart', async (c) => {
   // Chart can partially work without DB (API fallback), but check anyway for DB routes
   const symbol = c.req.param('symbol').toUpperCase();
   const range = (c.req.query('range') || '1M') as ChartRange;
-  
-  const rangeConfig: Record<ChartRange, { days: number; timespan: 'minute' | 'hour' | 'day' | 'week' | 'month'; multiplier: number; cacheTtl: number }> = {
-    '1D': { days: 1, timespan: 'minute', multiplier: 5, cacheTtl: 60 },
-    '1W': { days: 7, timespan: 'hour', multiplier: 1, cacheTtl: 300 },
-    '1M': { days: 30, timespan: 'day', multiplier: 1, cacheTtl: 3600 },
-    '3M': { days: 90, timespan: 'day', multiplier: 1, cacheTtl: 3600 },
-    '1Y': { days: 365, timespan: 'day', multiplier: 1, cacheTtl: 3600 },
-    '5Y': { days: 1825, timespan: 'week', multiplier: 1, cacheTtl: 3600 },
-    'MAX': { days: 7300, timespan: 'month', multiplier: 1, cacheTtl: 3600 },
-  };
+  const adjusted = (c.req.query('adjusted') || 'split') as PriceAdjustment;
   
   const config = rangeConfig[range];
   if (!config) {
     return c.json({ success: false, error: 'Invalid range', timestamp: Date.now() }, 400);
   }
+  if (!PRICE_ADJUSTMENTS.includes(adjusted)) {
+    return c.json({ success: false, error: 'Invalid adjusted mode (none, split or total)', timestamp: Date.now() }, 400);
+  }
+
+  const sendBars = (bars: ChartBar[], source: ChartData['source'], applied: PriceAdjustment = adjusted) => {
+    setCacheHeaders(c, config.cacheTtl, config.cacheTtl * 2);
+    const response: { success: boolean; data: ChartData; timestamp: number } = {
+      success: true,
+      data: { bars, source, adjusted: applied },
+      timestamp: Date.now(),
+    };
+    return c.json(response);
+  };
+  const isIntraday = config.timespan === 'minute' || config.timespan === 'hour';
   
   try {
-    // Try DB first for daily+ data (only if DB is available)
-    if (config.timespan === 'day' && isDbConnected()) {
-      const fromDate = new Date(Date.now() - config.days * 24 * 60 * 60 * 1000)
-        .toISOString().split('T')[0];
-      
-      const bars = await db.select()
-        .from(dailyPrices)
-        .where(and(
-          eq(dailyPrices.symbol, symbol),
-          gte(dailyPrices.date, fromDate)
-        ))
-        .orderBy(dailyPrices.date);
+    // DB first for daily and longer ranges (only if DB is available)
+    if (!isIntraday && isDbConnected()) {
+      const fromDate = getRangeStart(config);
+      const bars = await loadStoredBars(symbol, fromDate, config.timespan as 'day' | 'week' | 'month', adjusted);
+      if (bars.length > 0) return sendBars(bars, 'db');
+    }
+    
+    // Intraday ranges, and symbols without stored history, come from the API
+    try {
+      const bars = await marketData.getAggregates({
+        symbol,
+        multiplier: config.multiplier,
+        timespan: config.timespan,
+        from: getRangeStart(config),
+        to: new Date().toISOString().split('T')[0],
+        adjusted: adjusted !== 'none',
+        sort: 'asc',
+      });
       
-      if (bars.length > 0) {
-        setCacheHeaders(c, config.cacheTtl, config.cacheTtl * 2);
-        
-        const response: { success: boolean; data: ChartData; timestamp: number } = {
-          success: true,
-          data: {
-            bars: bars.map(b => ({
-              t: new Date(b.date).getTime(),
-              o: b.open,
-              h: b.high,
-              l: b.low,
-              c: b.close,
-              v: b.volume,
-              vw: b.vwap || undefined,
-            })),
-            source: 'db',
-          },
-          timestamp: Date.now(),
-        };
-        
-        return c.json(response);
+      // The API only adjusts for splits
+      if (bars.length === 0 && isIntraday && isDbConnected()) {
+        throw new Error(`${marketData.name} provider has no intraday bars`);
       }
+      return sendBars(bars.map(b => ({
+        t: b.t,
+        o: b.o,
+        h: b.h,
+        l: b.l,
+        c: b.c,
+        v: b.v,
+        vw: b.vw,
+      })), 'api', adjusted === 'none' ? 'none' : 'split');
+    } catch (apiError) {
+      if (!isIntraday || !isDbConnected()) throw apiError;
+      console.warn(`Intraday chart unavailable for ${symbol}, using stored daily bars:`, apiError);
     }
     
-    // Fallback to API
-    const fromDate = new Date(Date.now() - config.days * 24 * 60 * 60 * 1000);
-    const bars = await massiveClient.getAggregates({
-      symbol,
-      multiplier: config.multiplier,
-      timespan: config.timespan,
-      from: fromDate.toISOString().split('T')[0],
-      to: new Date().toISOString().split('T')[0],
-      sort: 'asc',
-    });
-    
+    // API unreachable (e.g. offline): the last week of stored daily bars
+    return sendBars(await loadStoredBars(symbol, getRangeStart(rangeConfig['1W']), 'day', adjusted), 'db');
+  } catch (error) {
+    console.error('Error fetching chart data:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to fetch chart data',
+      timestamp: Date.now(),
+    }, 500);
+  }
+});
+
+// ============================================
+// GET /api/ticker/:symbol/indicators
+// Query params: range=1D|1W|1M|3M|1Y|5Y|MAX, fields=sma50,rsi14 (default: all)
+// Daily indicator series from daily_indicators, one point per session
+// ============================================
+app.get('/:symbol/indicators', async (c) => {
+  const dbError = requireDb(c);
+  if (dbError) return dbError;
+
+  const symbol = c.req.param('symbol').toUpperCase();
+  const range = (c.req.query('range') || '1Y') as ChartRange;
+  const config = rangeConfig[range];
+  if (!config) {
+    return c.json({ success: false, error: 'Invalid range', timestamp: Date.now() }, 400);
+  }
+
+  const requested = c.req.query('fields')?.split(',').map(field => field.trim()).filter(Boolean);
+  const unknown = requested?.filter(field => !(CHART_INDICATOR_FIELDS as readonly string[]).includes(field)) ?? [];
+  if (unknown.length > 0) {
+    return c.json({ success: false, error: `Unknown indicator: ${unknown.join(', ')}`, timestamp: Date.now() }, 400);
+  }
+  const fields = (requested?.length ? [...new Set(requested)] : [...CHART_INDICATOR_FIELDS]) as ChartIndicatorField[];
+
+  try {
+    const fromDate = getRangeStart(config);
+
+    const rows = await db.select({
+      date: dailyIndicators.date,
+      ...Object.fromEntries(fields.map(field => [field, dailyIndicators[field]])),
+    })
+      .from(dailyIndicators)
+      .where(and(
+        eq(dailyIndicators.symbol, symbol),
+        gte(dailyIndicators.date, fromDate)
+      ))
+      .orderBy(dailyIndicators.date) as Array<{ date: string } & Record<ChartIndicatorField, number | null>>;
+
     setCacheHeaders(c, config.cacheTtl, config.cacheTtl * 2);
-    
-    const response: { success: boolean; data: ChartData; timestamp: number } = {
+
+    const response: { success: boolean; data: ChartIndicatorData; timestamp: number } = {
       success: true,
       data: {
-        bars: bars.map(b => ({
-          t: b.t,
-          o: b.o,
-          h: b.h,
-          l: b.l,
-          c: b.c,
-          v: b.v,
-          vw: b.vw,
+        fields,
+        points: rows.map(row => ({
+          t: new Date(row.date).getTime(),
+          ...Object.fromEntries(fields.map(field => [field, row[field]])),
         })),
-        source: 'api',
+        source: 'db',
       },
       timestamp: Date.now(),
     };
-    
+
     return c.json(response);
   } catch (error) {
-    console.error('Error fetching chart data:', error);
+    console.error('Error fetching indicator series:', error);
     return c.json({
       success: false,
-      error: 'Failed to fetch chart data',
+      error: 'Failed to fetch indicator series',
+      timestamp: Date.now(),
+    }, 500);
+  }
+});
+
+// ============================================
+// GET /api/ticker/:symbol/patterns
+// Query params: range=1D|1W|1M|3M|1Y|5Y|MAX
+// Candlestick patterns from candle_patterns, dated by their last bar
+// ============================================
+app.get('/:symbol/patterns', async (c) => {
+  const dbError = requireDb(c);
+  if (dbError) return dbError;
+
+  const symbol = c.req.param('symbol').toUpperCase();
+  const range = (c.req.query('range') || '1Y') as ChartRange;
+  const config = rangeConfig[range];
+  if (!config) {
+    return c.json({ success: false, error: 'Invalid range', timestamp: Date.now() }, 400);
+  }
+
+  try {
+    const fromDate = getRangeStart(config);
+
+    const rows = await db.select({
+      date: candlePatterns.date,
+      pattern: candlePatterns.pattern,
+    })
+      .from(candlePatterns)
+      .where(and(
+        eq(candlePatterns.symbol, symbol),
+        gte(candlePatterns.date, fromDate)
+      ))
+      .orderBy(candlePatterns.date, candlePatterns.pattern);
+
+    setCacheHeaders(c, config.cacheTtl, config.cacheTtl * 2);
+
+    const response: { success: boolean; data: CandlePatternMarker[]; timestamp: number } = {
+      success: true,
+      data: rows.map(row => ({ date: row.date, pattern: row.pattern as CandlePattern })),
+      timestamp: Date.now(),
+    };
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Error fetching candle patterns:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to fetch candle patterns',
       timestamp: Date.now(),
     }, 500);
   }
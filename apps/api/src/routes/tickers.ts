@@ -2,13 +2,10 @@ import { Hono } from 'hono';
 import { db, schema, checkDbConnection } from '../db';
 import { eq, and, sql, desc } from 'drizzle-orm';
 import type { ApiResponse } from '@screener/shared';
-import { MassiveClient } from '../clients/massive';
+import { marketData } from '../providers';
 
 export const tickersRouter = new Hono();
 
-// Shared client instance for fallback searches
-const massiveClient = new MassiveClient();
-
 // Get all tickers with optional search
 tickersRouter.get('/', async (c) => {
   const search = c.req.query('search')?.trim().toUpperCase();
@@ -31,8 +28,8 @@ tickersRouter.get('/', async (c) => {
     }
 
     try {
-      // Use Polygon API as fallback for search
-      const tickers = await massiveClient.getTickers({ 
+      // Use the market data provider as fallback for search
+      const tickers = await marketData.getTickers({ 
         search, 
         limit: Math.min(limit, 20), // Limit API calls
         active: true,
@@ -0,0 +1,258 @@
+import { db } from '../db';
+import { dailyPrices, dailyIndicators, tickers, companyDetails } from '../db/schema';
+import { alias } from 'drizzle-orm/pg-core';
+import { and, eq, gt, gte, inArray, sql } from 'drizzle-orm';
+import { ScreenerService } from './screener';
+import { priceAdjustmentService } from './price-adjustment';
+import { BACKTEST_HORIZONS, CATEGORICAL_FIELDS, HISTORY_FIELDS } from '@screener/shared';
+import type {
+  BacktestRequest,
+  BacktestResult,
+  BacktestPeriod,
+  ForwardReturnStats,
+  FilterNode,
+  RebalanceFrequency,
+} from '@screener/shared';
+
+// Upper bound on rebalance sessions per run (one query each)
+const MAX_REBALANCES = 260;
+
+// Aggregated returns from a rebalance session to one end session, split by
+// whether the symbol matched the filter on the rebalance session
+interface ReturnGroup {
+  endDate: string;
+  matched: boolean;
+  count: number;
+  winners: number;
+  avgReturn: number | null;
+}
+
+export class BacktestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BacktestError';
+  }
+}
+
+export class BacktestService {
+  constructor(private screenerService: ScreenerService) {}
+
+  async runBacktest(request: BacktestRequest): Promise<BacktestResult> {
+    if (!process.env.DATABASE_URL) {
+      throw new BacktestError('Backtesting requires the database (DATABASE_URL is not set)');
+    }
+    this.validateFields(request.conditions);
+
+    // Sessions after endDate are still needed for forward returns
+    const sessions = await this.getSessions(request.startDate);
+    const sessionsInRange = sessions.filter(date => date <= request.endDate);
+    const rebalanceDates = this.getRebalanceDates(sessionsInRange, request.rebalance);
+
+    if (rebalanceDates.length === 0) {
+      throw new BacktestError('No price history in the requested date range');
+    }
+    if (rebalanceDates.length > MAX_REBALANCES) {
+      throw new BacktestError(
+        `Backtest spans ${rebalanceDates.length} rebalances (max ${MAX_REBALANCES}) - shorten the range or rebalance less often`
+      );
+    }
+
+    const lastSession = sessionsInRange[sessionsInRange.length - 1];
+    const sessionIndex = new Map(sessions.map((date, i) => [date, i]));
+
+    const periods: BacktestPeriod[] = [];
+    const horizons = BACKTEST_HORIZONS.map(horizon => ({
+      horizon,
+      basketReturns: [] as number[],
+      universeReturns: [] as number[],
+      picks: 0,
+      winners: 0,
+    }));
+
+    let equity = 1;
+    let benchmarkEquity = 1;
+    let picks = 0;
+    let winners = 0;
+
+    for (let i = 0; i < rebalanceDates.length; i++) {
+      const date = rebalanceDates[i];
+      const holdUntil = rebalanceDates[i + 1] ?? lastSession;
+      const index = sessionIndex.get(date)!;
+      const horizonDates = BACKTEST_HORIZONS.map(horizon => sessions[index + horizon]);
+
+      const endDates = [...new Set([date, holdUntil, ...horizonDates.filter(Boolean)])];
+      const groups = await this.getReturnGroups(request.conditions, date, endDates);
+      const find = (endDate: string, matched: boolean) =>
+        groups.find(group => group.endDate === endDate && group.matched === matched);
+
+      // Holding period to the next rebalance (the final rebalance may have none)
+      if (holdUntil > date) {
+        const basket = find(holdUntil, true);
+        const universeReturn = this.combineReturns(basket, find(holdUntil, false));
+        const basketReturn = basket?.avgReturn ?? null;
+
+        equity *= 1 + (basketReturn ?? 0);
+        benchmarkEquity *= 1 + (universeReturn ?? 0);
+        picks += basket?.count ?? 0;
+        winners += basket?.winners ?? 0;
+
+        periods.push({
+          date,
+          endDate: holdUntil,
+          matched: find(date, true)?.count ?? 0,
+          universe: (find(date, true)?.count ?? 0) + (find(date, false)?.count ?? 0),
+          basketReturn,
+          universeReturn,
+          equity,
+          benchmarkEquity,
+        });
+      }
+
+      // Fixed-horizon forward returns, only for sessions where something matched
+      horizonDates.forEach((horizonDate, h) => {
+        if (!horizonDate) return;
+        const basket = find(horizonDate, true);
+        if (!basket || basket.count === 0 || basket.avgReturn === null) return;
+
+        const universeReturn = this.combineReturns(basket, find(horizonDate, false));
+        horizons[h].basketReturns.push(basket.avgReturn);
+        if (universeReturn !== null) horizons[h].universeReturns.push(universeReturn);
+        horizons[h].picks += basket.count;
+        horizons[h].winners += basket.winners;
+      });
+    }
+
+    const forwardReturns: ForwardReturnStats[] = horizons.map(stats => {
+      const basketReturn = this.mean(stats.basketReturns);
+      const universeReturn = this.mean(stats.universeReturns);
+      return {
+        horizon: stats.horizon,
+        basketReturn,
+        universeReturn,
+        excessReturn: basketReturn !== null && universeReturn !== null ? basketReturn - universeReturn : null,
+        hitRate: stats.picks > 0 ? stats.winners / stats.picks : null,
+        observations: stats.basketReturns.length,
+      };
+    });
+
+    return {
+      startDate: request.startDate,
+      endDate: request.endDate,
+      rebalance: request.rebalance,
+      periods,
+      forwardReturns,
+      totalReturn: equity - 1,
+      benchmarkReturn: benchmarkEquity - 1,
+      hitRate: picks > 0 ? winners / picks : null,
+      maxDrawdown: this.getMaxDrawdown(periods.map(period => period.equity)),
+      timestamp: Date.now(),
+    };
+  }
+
+  // Only fields with daily history (plus static classification) can be evaluated in the past
+  private validateFields(conditions: FilterNode[]) {
+    const supported: readonly string[] = [...HISTORY_FIELDS, ...CATEGORICAL_FIELDS];
+    const unsupported = this.screenerService
+      .getFilterFields(conditions)
+      .filter(field => !supported.includes(field));
+
+    if (unsupported.length > 0) {
+      throw new BacktestError(
+        `Fields without daily history cannot be backtested: ${unsupported.join(', ')}`
+      );
+    }
+  }
+
+  // Trading sessions with price history, from startDate onward
+  private async getSessions(startDate: string): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ date: dailyPrices.date })
+      .from(dailyPrices)
+      .where(gte(dailyPrices.date, startDate))
+      .orderBy(dailyPrices.date);
+
+    return rows.map(row => row.date);
+  }
+
+  // First session of each day / week (Monday-based) / month
+  private getRebalanceDates(sessions: string[], rebalance: RebalanceFrequency): string[] {
+    if (rebalance === 'daily') return sessions;
+
+    const seen = new Set<string>();
+    return sessions.filter(date => {
+      const key = rebalance === 'monthly' ? date.slice(0, 7) : this.getWeekStart(date);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private getWeekStart(date: string): string {
+    const day = new Date(`${date}T00:00:00Z`);
+    day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+    return day.toISOString().slice(0, 10);
+  }
+
+  // Returns from `date` to each end session, grouped by filter match.
+  // The rebalance session itself is included so its row counts give the basket size.
+  private async getReturnGroups(conditions: FilterNode[], date: string, endDates: string[]): Promise<ReturnGroup[]> {
+    const forward = alias(dailyPrices, 'forward');
+    // Both closes on today's share basis, so splits inside the horizon don't count as returns
+    const entryClose = sql`(${dailyPrices.close} * ${priceAdjustmentService.splitFactor(dailyPrices.symbol, dailyPrices.date)})`;
+    const exitClose = sql`(${forward.close} * ${priceAdjustmentService.splitFactor(forward.symbol, forward.date)})`;
+    const filters = this.screenerService.buildAsOfConditions(conditions, date);
+    const matched = filters.length > 0
+      ? sql<boolean>`COALESCE(${and(...filters)}, FALSE)`
+      : sql<boolean>`TRUE`;
+
+    const rows = await db
+      .select({
+        endDate: forward.date,
+        matched,
+        count: sql<number>`count(*)`,
+        winners: sql<number>`count(*) FILTER (WHERE ${exitClose} > ${entryClose})`,
+        avgReturn: sql<number | null>`avg(${exitClose}::double precision / ${entryClose} - 1)`,
+      })
+      .from(dailyPrices)
+      .innerJoin(forward, and(eq(forward.symbol, dailyPrices.symbol), inArray(forward.date, endDates)))
+      .leftJoin(dailyIndicators, and(
+        eq(dailyIndicators.symbol, dailyPrices.symbol),
+        eq(dailyIndicators.date, dailyPrices.date)
+      ))
+      .leftJoin(tickers, eq(tickers.symbol, dailyPrices.symbol))
+      .leftJoin(companyDetails, eq(companyDetails.symbol, dailyPrices.symbol))
+      .where(and(eq(dailyPrices.date, date), gt(dailyPrices.close, 0)))
+      // Group by select-list position - the match expression is parameterised
+      .groupBy(forward.date, sql`2`);
+
+    return rows.map(row => ({
+      endDate: row.endDate,
+      matched: row.matched,
+      count: Number(row.count),
+      winners: Number(row.winners),
+      avgReturn: row.avgReturn === null ? null : Number(row.avgReturn),
+    }));
+  }
+
+  // Equal-weighted return across matched and unmatched groups
+  private combineReturns(a?: ReturnGroup, b?: ReturnGroup): number | null {
+    const groups = [a, b].filter((group): group is ReturnGroup => !!group && group.avgReturn !== null);
+    const count = groups.reduce((sum, group) => sum + group.count, 0);
+    if (count === 0) return null;
+    return groups.reduce((sum, group) => sum + group.avgReturn! * group.count, 0) / count;
+  }
+
+  private mean(values: number[]): number | null {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+  }
+
+  private getMaxDrawdown(equityCurve: number[]): number {
+    let peak = 1;
+    let maxDrawdown = 0;
+    for (const equity of equityCurve) {
+      peak = Math.max(peak, equity);
+      maxDrawdown = Math.min(maxDrawdown, equity / peak - 1);
+    }
+    return maxDrawdown;
+  }
+}
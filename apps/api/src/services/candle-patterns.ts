@@ -0,0 +1,114 @@
+import { db } from '../db';
+import { candlePatterns, latestSnapshot, type NewCandlePattern } from '../db/schema';
+import { sql, type SQL } from 'drizzle-orm';
+import { CANDLE_PATTERN_IDS, PATTERN_LOOKBACK, type CandlePattern } from '@screener/shared';
+import { indicatorEngine, type ComputeOptions, type HistoryWindow } from './indicator-engine';
+import { detectPatterns } from '../lib/patterns';
+
+// Symbols per history query
+const SYMBOL_CHUNK_SIZE = 200;
+// Rows per bulk insert / update statement
+const WRITE_CHUNK_SIZE = 500;
+
+type PatternAges = Record<CandlePattern, number | null>;
+
+const ageColumn = (pattern: CandlePattern) => latestSnapshot[`${pattern}Age`];
+
+/**
+ * Detects candlestick patterns from the daily_prices history, stores them in
+ * candle_patterns and writes each pattern's recency (sessions since it last
+ * formed) to latest_snapshot for the screener.
+ */
+export class CandlePatternService {
+  // Detect and store patterns; returns the number of symbols updated
+  async detectAndStore(symbols: string[], options: ComputeOptions = {}): Promise<number> {
+    let updated = 0;
+
+    for (let i = 0; i < symbols.length; i += SYMBOL_CHUNK_SIZE) {
+      const chunk = symbols.slice(i, i + SYMBOL_CHUNK_SIZE);
+      const windows: HistoryWindow[] = options.history
+        ? await indicatorEngine.historyWindows(chunk, options.asOf)
+        : [{ through: options.asOf }];
+      // Same share basis for every window, as in indicatorEngine.computeAndStore
+      const basis = windows[windows.length - 1]?.through;
+      let ages: Array<PatternAges & { symbol: string }> = [];
+
+      for (const { after, through } of windows) {
+        const history = await indicatorEngine.loadHistory(chunk, through, after, basis);
+        const rows: NewCandlePattern[] = [];
+        const scanStarts = new Map<string, string>();
+        ages = [];
+
+        for (const [symbol, bars] of history) {
+          if (bars.length === 0) continue;
+
+          // Backfills scan the days inside the window, daily runs only the
+          // recency window, which is always rescanned for the ages
+          const firstInWindow = after ? bars.findIndex(bar => bar.date > after) : -1;
+          const from = Math.min(
+            firstInWindow >= 0 ? firstInWindow : bars.length,
+            Math.max(0, bars.length - PATTERN_LOOKBACK),
+          );
+          const detected = detectPatterns(bars, from);
+          scanStarts.set(symbol, bars[from].date);
+
+          const symbolAges = Object.fromEntries(CANDLE_PATTERN_IDS.map(pattern => [pattern, null])) as PatternAges;
+          detected.forEach((patterns, index) => {
+            const age = bars.length - 1 - index;
+            for (const pattern of patterns) {
+              rows.push({ symbol, date: bars[index].date, pattern });
+              if (age < PATTERN_LOOKBACK) symbolAges[pattern] = age;
+            }
+          });
+
+          ages.push({ symbol, ...symbolAges });
+        }
+
+        await this.writePatterns(scanStarts, rows);
+      }
+
+      await this.writeLatestSnapshot(ages);
+      updated += ages.length;
+    }
+
+    return updated;
+  }
+
+  // Replace each symbol's stored patterns from where it was rescanned, so
+  // corrected bars drop stale detections and older history is kept
+  private async writePatterns(scanStarts: Map<string, string>, rows: NewCandlePattern[]): Promise<void> {
+    if (scanStarts.size === 0) return;
+
+    const starts = [...scanStarts].map(([symbol, start]) => sql`(${symbol}::text, ${start}::date)`);
+    await db.execute(sql`
+      DELETE FROM ${candlePatterns}
+      USING (VALUES ${sql.join(starts, sql`, `)}) AS v(symbol, start)
+      WHERE ${candlePatterns.symbol} = v.symbol AND ${candlePatterns.date} >= v.start
+    `);
+
+    for (let i = 0; i < rows.length; i += WRITE_CHUNK_SIZE) {
+      await db.insert(candlePatterns).values(rows.slice(i, i + WRITE_CHUNK_SIZE)).onConflictDoNothing();
+    }
+  }
+
+  private async writeLatestSnapshot(rows: Array<PatternAges & { symbol: string }>): Promise<void> {
+    const names = CANDLE_PATTERN_IDS.map(pattern => ageColumn(pattern).name);
+    const assignments = sql.raw(names.map(name => `${name} = v.${name}`).join(', '));
+    const valueColumns = sql.raw(['symbol', ...names].join(', '));
+
+    for (let i = 0; i < rows.length; i += WRITE_CHUNK_SIZE) {
+      const values: SQL[] = rows.slice(i, i + WRITE_CHUNK_SIZE).map(row => sql`(${sql.join([
+        sql`${row.symbol}`,
+        ...CANDLE_PATTERN_IDS.map(pattern => sql`${row[pattern]}::integer`),
+      ], sql`, `)})`);
+
+      await db.execute(sql`
+        UPDATE ${latestSnapshot} SET ${assignments}, updated_at = now()
+        FROM (VALUES ${sql.join(values, sql`, `)}) AS v(${valueColumns})
+        WHERE ${latestSnapshot.symbol} = v.symbol
+      `);
+    }
+  }
+}
+
+export const candlePatternService = new CandlePatternService();
@@ -2,7 +2,6 @@ import { db } from '../db';
 import { 
   tickers, 
   dailyPrices, 
-  dailyIndicators, 
   latestSnapshot, 
   syncLog,
   companyDetails,
@@ -16,9 +15,18 @@ import {
   syncLocks,
   syncCheckpoints,
 } from '../db/schema';
-import { MassiveClient } from '../clients/massive';
+import { marketData, type MarketDataProvider } from '../providers';
+import { fundamentalScoreService } from './fundamental-scores';
+import { indicatorEngine } from './indicator-engine';
+import { parametricIndicatorService } from './parametric-indicators';
+import { candlePatternService } from './candle-patterns';
+import { riskStatsService } from './risk-stats';
+import { relativeStrengthService } from './relative-strength';
+import { marketBreadthService } from './market-breadth';
+import { priceImportService, type PriceImportSource } from './price-import';
+import { marketCalendar } from '../lib/market-calendar';
 import { eq, and, desc, sql, lt, isNull, or } from 'drizzle-orm';
-import type { TickerSnapshot, SyncResult } from '@screener/shared';
+import type { TickerSnapshot, SyncResult, PriceImportResult } from '@screener/shared';
 
 // ============================================
 // Retry Configuration
@@ -30,6 +38,10 @@ const RETRY_DELAYS = [
   24 * 60 * 60 * 1000 // 24 hours (then give up)
 ];
 
+// Symbols compared against the remote indicator endpoints after each daily
+// sync (0 disables the cross-check)
+const INDICATOR_CROSS_CHECK_SAMPLE = Number(process.env.INDICATOR_CROSS_CHECK_SAMPLE) || 0;
+
 // ============================================
 // Distributed Lock Manager
 // ============================================
@@ -95,11 +107,11 @@ class SyncLockManager {
 // Data Sync Service
 // ============================================
 export class DataSyncService {
-  private massiveClient: MassiveClient;
+  private marketData: MarketDataProvider;
   private lockManager: SyncLockManager;
 
   constructor() {
-    this.massiveClient = new MassiveClient();
+    this.marketData = marketData;
     this.lockManager = new SyncLockManager();
   }
 
@@ -279,7 +291,7 @@ export class DataSyncService {
     try {
       console.log('Starting hourly snapshot sync...');
       
-      const snapshots = await this.massiveClient.getMarketSnapshot();
+      const snapshots = await this.marketData.getMarketSnapshot();
       
       if (!snapshots || snapshots.length === 0) {
         throw new Error('No snapshot data received from API');
@@ -337,15 +349,18 @@ export class DataSyncService {
     try {
       console.log('Starting daily data sync...');
       
-      const snapshots = await this.massiveClient.getMarketSnapshot();
+      const snapshots = await this.marketData.getMarketSnapshot();
       
       if (!snapshots || snapshots.length === 0) {
         throw new Error('No snapshot data received');
       }
 
-      const today = new Date().toISOString().split('T')[0];
+      // Snapshot day bars belong to the latest session, not the calendar date
+      // (a sync on a weekend, holiday or before the open)
+      const session = marketCalendar.lastSession();
       let processed = 0;
       let failed = 0;
+      const priced: string[] = [];
 
       const topStocks = snapshots
         .filter(s => s.day?.v && s.day.v > 100000)
@@ -360,12 +375,13 @@ export class DataSyncService {
         const batch = topStocks.slice(i, i + batchSize);
         
         const results = await Promise.allSettled(
-          batch.map(snapshot => this.processStockWithIndicators(snapshot, today))
+          batch.map(snapshot => this.processStockPrice(snapshot, session))
         );
 
         for (const result of results) {
           if (result.status === 'fulfilled') {
             processed++;
+            if (result.value) priced.push(result.value);
           } else {
             failed++;
           }
@@ -379,6 +395,22 @@ export class DataSyncService {
         }
       }
 
+      // Indicators are computed locally from daily_prices in bulk
+      const computed = await indicatorEngine.computeAndStore(priced, { asOf: session });
+      console.log(`Computed indicators for ${computed}/${priced.length} symbols`);
+      await candlePatternService.detectAndStore(priced, { asOf: session });
+      await riskStatsService.computeAndStore(priced, { asOf: session });
+      const rated = await relativeStrengthService.computeAndStore({ asOf: session });
+      console.log(`Ranked relative strength for ${rated} symbols`);
+      await marketBreadthService.computeAndStore();
+      // Parameterised indicators for the session are recomputed on the next screen
+      await parametricIndicatorService.invalidate(session);
+
+      if (INDICATOR_CROSS_CHECK_SAMPLE > 0) {
+        const check = await indicatorEngine.crossCheck(priced.slice(0, INDICATOR_CROSS_CHECK_SAMPLE));
+        console.log(`Indicator cross-check: ${check.mismatches}/${check.checked} values differ from remote`);
+      }
+
       await this.completeSyncLog(logId, processed, failed);
       console.log(`Daily sync complete: ${processed} processed, ${failed} failed`);
 
@@ -392,6 +424,133 @@ export class DataSyncService {
     }
   }
 
+  // ============================================
+  // Indicator Recompute
+  // ============================================
+
+  // Recompute indicators from stored prices for every snapshot symbol,
+  // optionally rewriting the full daily_indicators history
+  async syncIndicators(options?: { history?: boolean }): Promise<SyncResult> {
+    const lockName = 'sync:indicators';
+    
+    if (!await this.lockManager.acquireLock(lockName)) {
+      return { status: 'skipped', reason: 'Another instance is syncing' };
+    }
+
+    const logId = await this.startSyncLog('indicators');
+
+    try {
+      const rows = await db.select({ symbol: latestSnapshot.symbol }).from(latestSnapshot);
+      const symbols = rows.map(r => r.symbol);
+
+      console.log(`Computing indicators for ${symbols.length} symbols...`);
+      const processed = await indicatorEngine.computeAndStore(symbols, { history: options?.history });
+      await candlePatternService.detectAndStore(symbols, { history: options?.history });
+      await riskStatsService.computeAndStore(symbols);
+      await relativeStrengthService.computeAndStore();
+      
+      await this.completeSyncLog(logId, processed, symbols.length - processed);
+      return { status: 'completed', processed, failed: symbols.length - processed };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      await this.failSyncLog(logId, errorMsg);
+      return { status: 'failed', reason: errorMsg };
+    } finally {
+      await this.lockManager.releaseLock(lockName);
+    }
+  }
+
+  // ============================================
+  // Market Breadth
+  // ============================================
+
+  // Extend the breadth series from the latest stored session, or rebuild it
+  // from the first stored price
+  async syncBreadth(options?: { rebuild?: boolean }): Promise<SyncResult> {
+    const lockName = 'sync:breadth';
+    
+    if (!await this.lockManager.acquireLock(lockName)) {
+      return { status: 'skipped', reason: 'Another instance is syncing' };
+    }
+
+    const logId = await this.startSyncLog('breadth');
+
+    try {
+      const processed = await marketBreadthService.computeAndStore({ rebuild: options?.rebuild });
+      
+      await this.completeSyncLog(logId, processed, 0);
+      return { status: 'completed', processed, failed: 0 };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      await this.failSyncLog(logId, errorMsg);
+      return { status: 'failed', reason: errorMsg };
+    } finally {
+      await this.lockManager.releaseLock(lockName);
+    }
+  }
+
+  // ============================================
+  // Bulk Price Import
+  // ============================================
+
+  // Load daily OHLCV from CSV sources, then rebuild the indicator history of
+  // every symbol that received rows, RS ratings and breadth from the earliest
+  // imported session (unless recompute is false)
+  async importPrices(sources: PriceImportSource[], options?: { recompute?: boolean }): Promise<PriceImportResult> {
+    const lockName = 'sync:import';
+    
+    if (!await this.lockManager.acquireLock(lockName)) {
+      return { status: 'skipped', reason: 'Another instance is importing' };
+    }
+
+    const logId = await this.startSyncLog('import');
+
+    try {
+      console.log(`Importing daily prices from ${sources.map(source => source.name).join(', ')}...`);
+      
+      let logged = 0;
+      const report = await priceImportService.importCsv(sources, {
+        onBatch: async (rows) => {
+          if (rows - logged >= 50000) {
+            console.log(`Progress: ${rows} rows imported`);
+            logged = rows;
+          }
+          await this.lockManager.extendLock(lockName, 300000);
+        },
+      });
+      const symbols = [...report.symbols];
+
+      if (options?.recompute !== false && symbols.length > 0) {
+        await indicatorEngine.computeAndStore(symbols, { history: true });
+        await candlePatternService.detectAndStore(symbols, { history: true });
+        await riskStatsService.computeAndStore(symbols);
+        await relativeStrengthService.computeAndStore();
+        // Breadth only extends from its latest stored session by default, so
+        // recount every session the import touched
+        if (report.firstDate) await marketBreadthService.computeAndStore({ from: report.firstDate });
+        await parametricIndicatorService.invalidate();
+      }
+
+      await this.completeSyncLog(logId, report.rows, report.rejected);
+      console.log(`Price import complete: ${report.rows} rows for ${symbols.length} symbols, ${report.rejected} rejected`);
+
+      return {
+        status: 'completed',
+        processed: report.rows,
+        failed: report.rejected,
+        symbols,
+        createdTickers: report.createdTickers,
+        rejects: report.rejects,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      await this.failSyncLog(logId, errorMsg);
+      return { status: 'failed', reason: errorMsg };
+    } finally {
+      await this.lockManager.releaseLock(lockName);
+    }
+  }
+
   // ============================================
   // Financials Sync
   // ============================================
@@ -428,11 +587,13 @@ export class DataSyncService {
       
       let processed = 0;
       let failed = 0;
+      const synced: string[] = [];
       
       for (const symbol of symbols) {
         try {
           await this.syncSymbolFinancials(symbol);
           await this.updateSyncStatus(symbol, 'financials', 'success');
+          synced.push(symbol);
           processed++;
           
           if (processed % 10 === 0) {
@@ -450,6 +611,10 @@ export class DataSyncService {
         await this.sleep(200);
       }
       
+      // Recompute multi-period scores from the refreshed statements
+      const scored = await fundamentalScoreService.updateScores(synced);
+      console.log(`Updated fundamental scores for ${scored}/${synced.length} symbols`);
+      
       await this.completeSyncLog(logId, processed, failed);
       await this.clearCheckpoint('financials');
       
@@ -465,9 +630,9 @@ export class DataSyncService {
 
   private async syncSymbolFinancials(symbol: string): Promise<void> {
     const [income, balance, cashFlow] = await Promise.all([
-      this.massiveClient.getIncomeStatements(symbol, { timeframe: 'quarterly', limit: 8 }),
-      this.massiveClient.getBalanceSheets(symbol, { timeframe: 'quarterly', limit: 8 }),
-      this.massiveClient.getCashFlowStatements(symbol, { timeframe: 'quarterly', limit: 8 }),
+      this.marketData.getIncomeStatements(symbol, { timeframe: 'quarterly', limit: 8 }),
+      this.marketData.getBalanceSheets(symbol, { timeframe: 'quarterly', limit: 8 }),
+      this.marketData.getCashFlowStatements(symbol, { timeframe: 'quarterly', limit: 8 }),
     ]);
     
     // Store income statements
@@ -583,7 +748,7 @@ export class DataSyncService {
       
       for (const symbol of symbols) {
         try {
-          const ratios = await this.massiveClient.getFinancialRatios(symbol);
+          const ratios = await this.marketData.getFinancialRatios(symbol);
           
           if (ratios) {
             await db.insert(financialRatios)
@@ -694,7 +859,7 @@ export class DataSyncService {
       
       for (const symbol of symbols) {
         try {
-          const divs = await this.massiveClient.getDividends(symbol, { limit: 20 });
+          const divs = await this.marketData.getDividends(symbol, { limit: 20 });
           
           for (const div of divs) {
             await db.insert(dividends)
@@ -773,20 +938,25 @@ export class DataSyncService {
       
       let processed = 0;
       let failed = 0;
+      // Symbols with a newly stored split that has already taken effect
+      const adjusted = new Set<string>();
+      const today = new Date().toISOString().split('T')[0];
       
       for (const symbol of symbols) {
         try {
-          const splits = await this.massiveClient.getStockSplits(symbol, { limit: 20 });
+          const splits = await this.marketData.getStockSplits(symbol, { limit: 20 });
           
           for (const split of splits) {
-            await db.insert(stockSplits)
+            const inserted = await db.insert(stockSplits)
               .values({
                 symbol,
                 executionDate: split.executionDate,
                 splitFrom: split.splitFrom,
                 splitTo: split.splitTo,
               })
-              .onConflictDoNothing();
+              .onConflictDoNothing()
+              .returning({ id: stockSplits.id });
+            if (inserted.length > 0 && split.executionDate <= today) adjusted.add(symbol);
           }
           
           await this.updateSyncStatus(symbol, 'splits', 'success');
@@ -799,6 +969,17 @@ export class DataSyncService {
         
         await this.sleep(200);
       }
+
+      // Indicators and patterns read split-adjusted history, so rebuild every
+      // stored session on the new basis, not just the window holding the split
+      if (adjusted.size > 0) {
+        const symbolsToRebuild = [...adjusted];
+        console.log(`Recomputing indicators for ${symbolsToRebuild.length} symbols with new splits...`);
+        await indicatorEngine.computeAndStore(symbolsToRebuild, { history: true });
+        await candlePatternService.detectAndStore(symbolsToRebuild, { history: true });
+        await riskStatsService.computeAndStore(symbolsToRebuild);
+        await parametricIndicatorService.invalidate();
+      }
       
       await this.completeSyncLog(logId, processed, failed);
       return { status: 'completed', processed, failed };
@@ -827,7 +1008,7 @@ export class DataSyncService {
     try {
       // Get last hour of news
       const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
-      const articles = await this.massiveClient.getNews({ 
+      const articles = await this.marketData.getNews({ 
         limit: 100,
         published_utc_gte: oneHourAgo,
       });
@@ -909,7 +1090,7 @@ export class DataSyncService {
       
       for (const symbol of symbols) {
         try {
-          const details = await this.massiveClient.getTickerDetailsExtended(symbol);
+          const details = await this.marketData.getTickerDetailsExtended(symbol);
           
           if (details) {
             await db.insert(companyDetails)
@@ -1018,7 +1199,7 @@ export class DataSyncService {
     startDate.setDate(startDate.getDate() - days);
 
     try {
-      const bars = await this.massiveClient.getAggregates({
+      const bars = await this.marketData.getAggregates({
         symbol,
         multiplier: 1,
         timespan: 'day',
@@ -1058,6 +1239,12 @@ export class DataSyncService {
           });
       }
 
+      // Rebuild the indicator history over the backfilled bars
+      await indicatorEngine.computeAndStore([symbol], { history: true });
+      await candlePatternService.detectAndStore([symbol], { history: true });
+      await riskStatsService.computeAndStore([symbol]);
+      await parametricIndicatorService.invalidate();
+
       console.log(`Backfilled ${bars.length} days for ${symbol}`);
     } catch (error) {
       console.error(`Failed to backfill ${symbol}:`, error);
@@ -1065,14 +1252,15 @@ export class DataSyncService {
     }
   }
 
-  private async processStockWithIndicators(
+  // Store today's bar and refresh the snapshot row; returns the symbol when stored
+  private async processStockPrice(
     snapshot: TickerSnapshot,
     dateStr: string
-  ): Promise<void> {
+  ): Promise<string | null> {
     const symbol = snapshot.ticker;
     const dayData = snapshot.day || snapshot.prevDay;
     
-    if (!dayData) return;
+    if (!dayData) return null;
     
     // Check if ticker exists to avoid FK violations
     const [tickerExists] = await db
@@ -1083,7 +1271,7 @@ export class DataSyncService {
     
     if (!tickerExists) {
       console.warn(`Skipping ${symbol}: not in tickers table`);
-      return;
+      return null;
     }
 
     await db.insert(dailyPrices)
@@ -1111,39 +1299,7 @@ export class DataSyncService {
         },
       });
 
-    const [rsi, sma20, sma50, sma200, ema12, ema26] = await Promise.all([
-      this.massiveClient.getRSI(symbol, 14).catch(() => null),
-      this.massiveClient.getSMA(symbol, 20).catch(() => null),
-      this.massiveClient.getSMA(symbol, 50).catch(() => null),
-      this.massiveClient.getSMA(symbol, 200).catch(() => null),
-      this.massiveClient.getEMA(symbol, 12).catch(() => null),
-      this.massiveClient.getEMA(symbol, 26).catch(() => null),
-    ]);
-
-    await db.insert(dailyIndicators)
-      .values({
-        symbol,
-        date: dateStr,
-        rsi14: rsi?.value,
-        sma20: sma20?.value,
-        sma50: sma50?.value,
-        sma200: sma200?.value,
-        ema12: ema12?.value,
-        ema26: ema26?.value,
-      })
-      .onConflictDoUpdate({
-        target: [dailyIndicators.symbol, dailyIndicators.date],
-        set: {
-          rsi14: rsi?.value,
-          sma20: sma20?.value,
-          sma50: sma50?.value,
-          sma200: sma200?.value,
-          ema12: ema12?.value,
-          ema26: ema26?.value,
-        },
-      });
-
-    const details = await this.massiveClient.getTickerDetails(symbol).catch(() => null);
+    const details = await this.marketData.getTickerDetails(symbol).catch(() => null);
 
     await db.insert(latestSnapshot)
       .values({
@@ -1157,12 +1313,6 @@ export class DataSyncService {
         volume: dayData.v,
         vwap: dayData.vw,
         changePercent: snapshot.todaysChangePerc,
-        rsi14: rsi?.value,
-        sma20: sma20?.value,
-        sma50: sma50?.value,
-        sma200: sma200?.value,
-        ema12: ema12?.value,
-        ema26: ema26?.value,
         marketCap: details?.market_cap,
         dataDate: dateStr,
         updatedAt: new Date(),
@@ -1179,19 +1329,16 @@ export class DataSyncService {
           volume: dayData.v,
           vwap: dayData.vw,
           changePercent: snapshot.todaysChangePerc,
-          rsi14: rsi?.value,
-          sma20: sma20?.value,
-          sma50: sma50?.value,
-          sma200: sma200?.value,
-          ema12: ema12?.value,
-          ema26: ema26?.value,
           marketCap: details?.market_cap,
           dataDate: dateStr,
           updatedAt: new Date(),
         },
       });
+
+    return symbol;
   }
 
+
   private async upsertLatestSnapshots(snapshots: TickerSnapshot[]): Promise<void> {
     const today = new Date().toISOString().split('T')[0];
     
@@ -1273,7 +1420,7 @@ export class DataSyncService {
         
         const results = await Promise.allSettled(
           batch.map(async ({ symbol }) => {
-            const details = await this.massiveClient.getTickerDetails(symbol);
+            const details = await this.marketData.getTickerDetails(symbol);
             
             if (details) {
               await db.update(latestSnapshot)
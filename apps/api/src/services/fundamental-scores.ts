@@ -0,0 +1,281 @@
+import { db } from '../db';
+import { financialStatements, latestSnapshot } from '../db/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import type { FundamentalScores } from '@screener/shared';
+
+// ============================================
+// Statement Readers
+// ============================================
+
+// Raw statement keys for each input, in order of preference. Older Polygon
+// payloads wrap values as { value }, the v1 endpoints return plain numbers.
+const STATEMENT_KEYS = {
+  revenue: ['revenues', 'revenue'],
+  costOfRevenue: ['cost_of_revenue'],
+  grossProfit: ['gross_profit'],
+  operatingIncome: ['operating_income_loss', 'operating_income'],
+  netIncome: ['net_income_loss', 'net_income_loss_attributable_common_shareholders', 'consolidated_net_income_loss'],
+  eps: ['basic_earnings_per_share'],
+  shares: ['basic_average_shares', 'basic_shares_outstanding', 'weighted_average_shares_outstanding_basic'],
+  depreciation: ['depreciation_and_amortization', 'depreciation_depletion_and_amortization'],
+  sga: ['selling_general_and_administrative_expenses', 'selling_general_administrative'],
+  totalAssets: ['assets', 'total_assets'],
+  currentAssets: ['current_assets', 'total_current_assets'],
+  totalLiabilities: ['liabilities', 'total_liabilities'],
+  currentLiabilities: ['current_liabilities', 'total_current_liabilities'],
+  equity: ['equity_attributable_to_parent', 'equity', 'total_equity'],
+  longTermDebt: ['long_term_debt', 'long_term_debt_and_capital_lease_obligations'],
+  retainedEarnings: ['retained_earnings', 'retained_earnings_deficit'],
+  receivables: ['accounts_receivable', 'receivables'],
+  fixedAssets: ['fixed_assets', 'property_plant_equipment_net'],
+  operatingCashFlow: ['net_cash_flow_from_operating_activities', 'net_cash_from_operating_activities'],
+} as const;
+
+type StatementItem = keyof typeof STATEMENT_KEYS;
+
+// One year of figures: flows summed over four quarters, balances at year end
+type Period = Partial<Record<StatementItem, number>>;
+
+const FLOW_ITEMS: StatementItem[] = [
+  'revenue', 'costOfRevenue', 'grossProfit', 'operatingIncome', 'netIncome',
+  'eps', 'depreciation', 'sga', 'operatingCashFlow',
+];
+
+const BALANCE_ITEMS: StatementItem[] = [
+  'totalAssets', 'currentAssets', 'totalLiabilities', 'currentLiabilities', 'equity',
+  'longTermDebt', 'retainedEarnings', 'receivables', 'fixedAssets',
+];
+
+// Quarters of history needed for a current and a prior year
+const QUARTERS_NEEDED = 8;
+
+function readItem(raw: unknown, item: StatementItem): number | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+
+  for (const key of STATEMENT_KEYS[item]) {
+    const entry = (raw as Record<string, unknown>)[key];
+    const value = typeof entry === 'object' && entry !== null
+      ? (entry as { value?: unknown }).value
+      : entry;
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+  }
+  return undefined;
+}
+
+// Sum a flow item over four quarters; undefined unless every quarter reports it
+function sumQuarters(quarters: unknown[], item: StatementItem): number | undefined {
+  if (quarters.length < 4) return undefined;
+
+  let total = 0;
+  for (const raw of quarters.slice(0, 4)) {
+    const value = readItem(raw, item);
+    if (value === undefined) return undefined;
+    total += value;
+  }
+  return total;
+}
+
+function buildPeriod(income: unknown[], balance: unknown[], cashFlow: unknown[]): Period {
+  const period: Period = {};
+
+  for (const item of FLOW_ITEMS) {
+    period[item] = sumQuarters(item === 'operatingCashFlow' ? cashFlow : income, item);
+  }
+  for (const item of BALANCE_ITEMS) {
+    period[item] = readItem(balance[0], item);
+  }
+  // Share count is a balance-style figure: use the latest quarter's average
+  period.shares = readItem(income[0], 'shares');
+
+  // Derive gross profit when only cost of revenue is reported
+  if (period.grossProfit === undefined && period.revenue !== undefined && period.costOfRevenue !== undefined) {
+    period.grossProfit = period.revenue - period.costOfRevenue;
+  }
+
+  return period;
+}
+
+function ratio(numerator: number | undefined, denominator: number | undefined): number | undefined {
+  if (numerator === undefined || denominator === undefined || denominator === 0) return undefined;
+  return numerator / denominator;
+}
+
+// ============================================
+// Score Models
+// ============================================
+
+// Piotroski F-Score (0-9): one point per improving profitability, leverage,
+// liquidity and efficiency signal. Signals without data score no point.
+function piotroskiScore(current: Period, prior: Period): number | null {
+  if (current.netIncome === undefined || !current.totalAssets || !prior.totalAssets) return null;
+
+  const roa = ratio(current.netIncome, current.totalAssets);
+  const priorRoa = ratio(prior.netIncome, prior.totalAssets);
+  const leverage = ratio(current.longTermDebt ?? 0, current.totalAssets);
+  const priorLeverage = ratio(prior.longTermDebt ?? 0, prior.totalAssets);
+  const currentRatio = ratio(current.currentAssets, current.currentLiabilities);
+  const priorCurrentRatio = ratio(prior.currentAssets, prior.currentLiabilities);
+  const grossMargin = ratio(current.grossProfit, current.revenue);
+  const priorGrossMargin = ratio(prior.grossProfit, prior.revenue);
+  const turnover = ratio(current.revenue, current.totalAssets);
+  const priorTurnover = ratio(prior.revenue, prior.totalAssets);
+
+  const signals = [
+    // Profitability
+    roa !== undefined && roa > 0,
+    current.operatingCashFlow !== undefined && current.operatingCashFlow > 0,
+    roa !== undefined && priorRoa !== undefined && roa > priorRoa,
+    current.operatingCashFlow !== undefined && current.operatingCashFlow > current.netIncome,
+    // Leverage, liquidity and dilution
+    leverage !== undefined && priorLeverage !== undefined && leverage < priorLeverage,
+    currentRatio !== undefined && priorCurrentRatio !== undefined && currentRatio > priorCurrentRatio,
+    current.shares !== undefined && prior.shares !== undefined && current.shares <= prior.shares,
+    // Operating efficiency
+    grossMargin !== undefined && priorGrossMargin !== undefined && grossMargin > priorGrossMargin,
+    turnover !== undefined && priorTurnover !== undefined && turnover > priorTurnover,
+  ];
+
+  return signals.filter(Boolean).length;
+}
+
+// Altman Z-Score (original public-company model):
+// 1.2 WC/TA + 1.4 RE/TA + 3.3 EBIT/TA + 0.6 MVE/TL + 1.0 Sales/TA
+function altmanZScore(current: Period, marketCap: number | null): number | null {
+  const { totalAssets, totalLiabilities, currentAssets, currentLiabilities,
+    retainedEarnings, operatingIncome, revenue } = current;
+
+  if (!totalAssets || !totalLiabilities || !marketCap) return null;
+  if (currentAssets === undefined || currentLiabilities === undefined ||
+    retainedEarnings === undefined || operatingIncome === undefined || revenue === undefined) {
+    return null;
+  }
+
+  return 1.2 * ((currentAssets - currentLiabilities) / totalAssets) +
+    1.4 * (retainedEarnings / totalAssets) +
+    3.3 * (operatingIncome / totalAssets) +
+    0.6 * (marketCap / totalLiabilities) +
+    1.0 * (revenue / totalAssets);
+}
+
+// Beneish M-Score (8-variable model). Indices whose inputs are missing fall
+// back to 1, the "no change" value, so partial statements still score.
+function beneishMScore(current: Period, prior: Period): number | null {
+  if (!current.revenue || !prior.revenue || !current.totalAssets || !prior.totalAssets) return null;
+  if (current.netIncome === undefined || current.operatingCashFlow === undefined) return null;
+
+  const index = (value: number | undefined, priorValue: number | undefined) =>
+    ratio(value, priorValue) ?? 1;
+
+  const depreciationRate = (period: Period) =>
+    ratio(period.depreciation, (period.depreciation ?? 0) + (period.fixedAssets ?? 0));
+  const assetQuality = (period: Period) =>
+    period.currentAssets === undefined || period.fixedAssets === undefined
+      ? undefined
+      : 1 - (period.currentAssets + period.fixedAssets) / period.totalAssets!;
+  const leverage = (period: Period) =>
+    period.currentLiabilities === undefined
+      ? undefined
+      : (period.currentLiabilities + (period.longTermDebt ?? 0)) / period.totalAssets!;
+
+  const dsri = index(ratio(current.receivables, current.revenue), ratio(prior.receivables, prior.revenue));
+  const gmi = index(ratio(prior.grossProfit, prior.revenue), ratio(current.grossProfit, current.revenue));
+  const aqi = index(assetQuality(current), assetQuality(prior));
+  const sgi = current.revenue / prior.revenue;
+  const depi = index(depreciationRate(prior), depreciationRate(current));
+  const sgai = index(ratio(current.sga, current.revenue), ratio(prior.sga, prior.revenue));
+  const lvgi = index(leverage(current), leverage(prior));
+  const tata = (current.netIncome - current.operatingCashFlow) / current.totalAssets;
+
+  return -4.84 + 0.92 * dsri + 0.528 * gmi + 0.404 * aqi + 0.892 * sgi +
+    0.115 * depi - 0.172 * sgai + 4.679 * tata - 0.327 * lvgi;
+}
+
+// Graham Number: sqrt(22.5 x EPS x book value per share), only for positive
+// earnings and book value
+function grahamNumber(current: Period, marketCap: number | null, price: number | null): number | null {
+  const shares = marketCap && price ? marketCap / price : current.shares;
+  const bookValuePerShare = ratio(current.equity, shares);
+
+  if (!current.eps || current.eps <= 0 || !bookValuePerShare || bookValuePerShare <= 0) return null;
+  return Math.sqrt(22.5 * current.eps * bookValuePerShare);
+}
+
+const round = (value: number | null, digits: number) =>
+  value === null || !Number.isFinite(value) ? null : Number(value.toFixed(digits));
+
+// ============================================
+// Service
+// ============================================
+
+export class FundamentalScoreService {
+  // Recompute and store scores for each symbol; failures are logged per symbol
+  async updateScores(symbols: string[]): Promise<number> {
+    let updated = 0;
+
+    for (const symbol of symbols) {
+      try {
+        const scores = await this.computeScores(symbol);
+        if (!scores) continue;
+
+        await db.update(latestSnapshot)
+          .set({
+            piotroskiScore: scores.piotroskiScore ?? null,
+            altmanZScore: scores.altmanZScore ?? null,
+            beneishMScore: scores.beneishMScore ?? null,
+            grahamNumber: scores.grahamNumber ?? null,
+          })
+          .where(eq(latestSnapshot.symbol, symbol));
+        updated++;
+      } catch (error) {
+        console.error(`Failed to compute fundamental scores for ${symbol}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return updated;
+  }
+
+  // Scores from the stored quarterly statements, or null without a year of history
+  async computeScores(symbol: string): Promise<FundamentalScores | null> {
+    const [income, balance, cashFlow, snapshotResult] = await Promise.all([
+      this.getQuarters(symbol, 'income'),
+      this.getQuarters(symbol, 'balance'),
+      this.getQuarters(symbol, 'cashflow'),
+      db.select({ price: latestSnapshot.price, marketCap: latestSnapshot.marketCap })
+        .from(latestSnapshot)
+        .where(eq(latestSnapshot.symbol, symbol))
+        .limit(1),
+    ]);
+
+    if (income.length < 4 || balance.length === 0) return null;
+
+    const current = buildPeriod(income, balance, cashFlow);
+    const prior = buildPeriod(income.slice(4), balance.slice(4), cashFlow.slice(4));
+    const price = snapshotResult[0]?.price ?? null;
+    const marketCap = snapshotResult[0]?.marketCap ?? null;
+
+    return {
+      piotroskiScore: piotroskiScore(current, prior) ?? undefined,
+      altmanZScore: round(altmanZScore(current, marketCap), 2) ?? undefined,
+      beneishMScore: round(beneishMScore(current, prior), 2) ?? undefined,
+      grahamNumber: round(grahamNumber(current, marketCap, price), 2) ?? undefined,
+    };
+  }
+
+  // Raw quarterly statements, newest first
+  private async getQuarters(symbol: string, statementType: 'income' | 'balance' | 'cashflow'): Promise<unknown[]> {
+    const rows = await db
+      .select({ rawData: financialStatements.rawData })
+      .from(financialStatements)
+      .where(and(
+        eq(financialStatements.symbol, symbol),
+        eq(financialStatements.statementType, statementType),
+        eq(financialStatements.timeframe, 'quarterly')
+      ))
+      .orderBy(desc(financialStatements.periodEnd))
+      .limit(QUARTERS_NEEDED);
+
+    return rows.map(row => row.rawData);
+  }
+}
+
+export const fundamentalScoreService = new FundamentalScoreService();
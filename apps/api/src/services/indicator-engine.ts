@@ -0,0 +1,368 @@
+import { db } from '../db';
+import { dailyIndicators, dailyPrices, latestSnapshot } from '../db/schema';
+import { and, inArray, lte, sql, type SQL } from 'drizzle-orm';
+import { marketData, type MarketDataProvider } from '../providers';
+import { priceAdjustmentService } from './price-adjustment';
+import {
+  sma, ema, rsi, macd, bollinger, atr, stochastic, adx, obv, mfi, cci, williamsR,
+} from '../lib/indicators';
+
+// Trading days loaded per symbol: SMA 200 plus room for the EMAs to settle
+const HISTORY_DAYS = 300;
+// Calendar days written per window when rebuilding the full history
+const HISTORY_WINDOW_DAYS = 1500;
+// Symbols per history query
+const SYMBOL_CHUNK_SIZE = 200;
+// Rows per bulk insert / update statement
+const WRITE_CHUNK_SIZE = 500;
+// Relative difference tolerated by the remote cross-check
+const CROSS_CHECK_TOLERANCE = 0.01;
+
+export interface PriceBar {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// Computed columns shared by daily_indicators and latest_snapshot
+export const INDICATOR_COLUMNS = [
+  'rsi14', 'sma20', 'sma50', 'sma200', 'ema12', 'ema26',
+  'macdValue', 'macdSignal', 'macdHistogram',
+  'bbUpper', 'bbMiddle', 'bbLower', 'bbPercentB', 'bbBandwidth',
+  'atr14', 'atrPercent', 'stochK', 'stochD', 'adx14', 'plusDi', 'minusDi',
+  'obv', 'mfi14', 'cci20', 'williamsR',
+] as const;
+
+export type IndicatorColumn = typeof INDICATOR_COLUMNS[number];
+
+// One day of computed indicators, shaped like a daily_indicators row
+export type IndicatorPoint = { date: string } & Record<IndicatorColumn, number | null>;
+
+export interface ComputeOptions {
+  asOf?: string; // Ignore bars after this date (YYYY-MM-DD)
+  history?: boolean; // Write every computed day, not just the latest (backfills)
+}
+
+// A slice of a symbol's history: the bars after `after` up to `through`,
+// loaded with HISTORY_DAYS of warm-up bars before it
+export interface HistoryWindow {
+  after?: string;
+  through?: string;
+}
+
+const shiftDate = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+/**
+ * Computes technical indicators in-process from the daily_prices history
+ * (split-adjusted) and writes them to daily_indicators and latest_snapshot in bulk.
+ * The remote indicator endpoints are only used by crossCheck().
+ */
+export class IndicatorEngine {
+  private marketData: MarketDataProvider;
+
+  constructor() {
+    this.marketData = marketData;
+  }
+
+  // Indicator series for a bar history ordered oldest first
+  computeSeries(bars: PriceBar[]): IndicatorPoint[] {
+    const highs = bars.map(bar => bar.high);
+    const lows = bars.map(bar => bar.low);
+    const closes = bars.map(bar => bar.close);
+    const volumes = bars.map(bar => bar.volume);
+
+    const rsi14 = rsi(closes, 14);
+    const sma20 = sma(closes, 20);
+    const sma50 = sma(closes, 50);
+    const sma200 = sma(closes, 200);
+    const ema12 = ema(closes, 12);
+    const ema26 = ema(closes, 26);
+    const macdSeries = macd(closes, 12, 26, 9);
+    const bands = bollinger(closes, 20, 2);
+    const atr14 = atr(highs, lows, closes, 14);
+    const stoch = stochastic(highs, lows, closes, 14, 3);
+    const directional = adx(highs, lows, closes, 14);
+    const obvSeries = obv(closes, volumes);
+    const mfi14 = mfi(highs, lows, closes, volumes, 14);
+    const cci20 = cci(highs, lows, closes, 20);
+    const williams = williamsR(highs, lows, closes, 14);
+
+    return bars.map((bar, i) => ({
+      date: bar.date,
+      rsi14: rsi14[i],
+      sma20: sma20[i],
+      sma50: sma50[i],
+      sma200: sma200[i],
+      ema12: ema12[i],
+      ema26: ema26[i],
+      macdValue: macdSeries.value[i],
+      macdSignal: macdSeries.signal[i],
+      macdHistogram: macdSeries.histogram[i],
+      bbUpper: bands.upper[i],
+      bbMiddle: bands.middle[i],
+      bbLower: bands.lower[i],
+      bbPercentB: bands.percentB[i],
+      bbBandwidth: bands.bandwidth[i],
+      atr14: atr14[i],
+      atrPercent: atr14[i] !== null && bar.close > 0 ? (atr14[i]! / bar.close) * 100 : null,
+      stochK: stoch.k[i],
+      stochD: stoch.d[i],
+      adx14: directional.adx[i],
+      plusDi: directional.plusDi[i],
+      minusDi: directional.minusDi[i],
+      obv: obvSeries[i],
+      mfi14: mfi14[i],
+      cci20: cci20[i],
+      williamsR: williams[i],
+    }));
+  }
+
+  // Latest indicators per symbol without writing anything
+  async getLatest(symbols: string[], asOf?: string): Promise<Map<string, IndicatorPoint>> {
+    const latest = new Map<string, IndicatorPoint>();
+
+    for (let i = 0; i < symbols.length; i += SYMBOL_CHUNK_SIZE) {
+      const history = await this.loadHistory(symbols.slice(i, i + SYMBOL_CHUNK_SIZE), asOf);
+      const computed = new Map<string, { series: IndicatorPoint[]; before: string }>();
+
+      for (const [symbol, bars] of history) {
+        const series = this.computeSeries(bars);
+        if (series.length > 0) computed.set(symbol, { series, before: series[series.length - 1].date });
+      }
+
+      await this.anchorObv(computed);
+      for (const [symbol, { series }] of computed) latest.set(symbol, series[series.length - 1]);
+    }
+
+    return latest;
+  }
+
+  // Compute and store indicators; returns the number of symbols updated
+  async computeAndStore(symbols: string[], options: ComputeOptions = {}): Promise<number> {
+    let updated = 0;
+
+    for (let i = 0; i < symbols.length; i += SYMBOL_CHUNK_SIZE) {
+      const chunk = symbols.slice(i, i + SYMBOL_CHUNK_SIZE);
+      const windows: HistoryWindow[] = options.history
+        ? await this.historyWindows(chunk, options.asOf)
+        : [{ through: options.asOf }];
+      // Every window goes on the share basis of the newest session, which is
+      // the basis readers scale by (splitFactor) when they use stored rows
+      const basis = windows[windows.length - 1]?.through;
+      let latest: Array<IndicatorPoint & { symbol: string }> = [];
+
+      for (const { after, through } of windows) {
+        const history = await this.loadHistory(chunk, through, after, basis);
+        const computed = new Map<string, { series: IndicatorPoint[]; points: IndicatorPoint[]; before: string }>();
+
+        for (const [symbol, bars] of history) {
+          const series = this.computeSeries(bars);
+          if (series.length === 0) continue;
+
+          // Warm-up bars before the window only seed the indicators
+          const points = after ? series.filter(point => point.date > after) : series.slice(-1);
+          const last = series[series.length - 1].date;
+          computed.set(symbol, { series, points, before: points.length > 0 ? points[0].date : shiftDate(last, 1) });
+        }
+
+        await this.anchorObv(computed);
+        const rows = [...computed].flatMap(([symbol, { points }]) => points.map(point => ({ symbol, ...point })));
+        latest = [...computed].map(([symbol, { series }]) => ({ symbol, ...series[series.length - 1] }));
+
+        await this.writeDailyIndicators(rows);
+      }
+
+      await this.writeLatestSnapshot(latest);
+      updated += latest.length;
+    }
+
+    return updated;
+  }
+
+  /**
+   * Compare local values with the remote indicator endpoints for a few
+   * symbols and log any that differ. Diagnostic only: nothing is written.
+   */
+  async crossCheck(symbols: string[]): Promise<{ checked: number; mismatches: number }> {
+    const local = await this.getLatest(symbols);
+    let checked = 0;
+    let mismatches = 0;
+
+    for (const [symbol, point] of local) {
+      const [remoteRsi, remoteSma50, remoteEma12] = await Promise.all([
+        this.marketData.getRSI(symbol, 14).catch(() => null),
+        this.marketData.getSMA(symbol, 50).catch(() => null),
+        this.marketData.getEMA(symbol, 12).catch(() => null),
+      ]);
+
+      const comparisons: Array<[string, number | null, number | undefined]> = [
+        ['rsi14', point.rsi14, remoteRsi?.value],
+        ['sma50', point.sma50, remoteSma50?.value],
+        ['ema12', point.ema12, remoteEma12?.value],
+      ];
+
+      for (const [name, localValue, remoteValue] of comparisons) {
+        if (localValue === null || remoteValue === undefined) continue;
+        checked++;
+
+        const diff = Math.abs(localValue - remoteValue) / Math.max(Math.abs(remoteValue), 1e-9);
+        if (diff > CROSS_CHECK_TOLERANCE) {
+          mismatches++;
+          console.warn(`⚠️  ${symbol} ${name}: local ${localValue.toFixed(4)} vs remote ${remoteValue.toFixed(4)}`);
+        }
+      }
+    }
+
+    return { checked, mismatches };
+  }
+
+  /**
+   * Windows covering the symbols' full history up to asOf, oldest first, so
+   * a rebuild never holds more than HISTORY_WINDOW_DAYS (plus warm-up) of
+   * bars per symbol. The last window ends at the newest bar.
+   */
+  async historyWindows(symbols: string[], asOf?: string): Promise<Required<HistoryWindow>[]> {
+    if (symbols.length === 0) return [];
+
+    const [range] = await db
+      .select({
+        first: sql<string | null>`min(${dailyPrices.date})`,
+        last: sql<string | null>`max(${dailyPrices.date})`,
+      })
+      .from(dailyPrices)
+      .where(and(
+        inArray(dailyPrices.symbol, symbols),
+        asOf ? lte(dailyPrices.date, asOf) : undefined,
+      ));
+
+    if (!range?.first || !range.last) return [];
+
+    const windows: Required<HistoryWindow>[] = [];
+    for (let after = shiftDate(String(range.first), -1); after < String(range.last);) {
+      const end = shiftDate(after, HISTORY_WINDOW_DAYS);
+      const through = end < String(range.last) ? end : String(range.last);
+      windows.push({ after, through });
+      after = through;
+    }
+
+    return windows;
+  }
+
+  // Bars per symbol up to asOf, oldest first: the last HISTORY_DAYS, or with
+  // `after` every bar after that date plus HISTORY_DAYS of warm-up before it.
+  // Split-adjusted so long averages don't jump across splits, on the share
+  // basis of `basis` (default: each symbol's last bar)
+  async loadHistory(symbols: string[], asOf?: string, after?: string, basis?: string): Promise<Map<string, PriceBar[]>> {
+    const history = new Map<string, PriceBar[]>();
+    if (symbols.length === 0) return history;
+
+    const dateFilter = asOf ? sql`AND ${dailyPrices.date} <= ${asOf}` : sql``;
+    const windowBars = after
+      ? sql`count(*) FILTER (WHERE ${dailyPrices.date} > ${after}) OVER (PARTITION BY ${dailyPrices.symbol})`
+      : sql`0`;
+    const rows = await db.execute(sql`
+      SELECT symbol, date, open, high, low, close, volume FROM (
+        SELECT ${dailyPrices.symbol} AS symbol, ${dailyPrices.date} AS date,
+          ${dailyPrices.open} AS open, ${dailyPrices.high} AS high, ${dailyPrices.low} AS low,
+          ${dailyPrices.close} AS close, ${dailyPrices.volume} AS volume,
+          row_number() OVER (PARTITION BY ${dailyPrices.symbol} ORDER BY ${dailyPrices.date} DESC) AS rn,
+          ${windowBars} AS window_bars
+        FROM ${dailyPrices}
+        WHERE ${dailyPrices.symbol} IN ${symbols} ${dateFilter}
+      ) recent
+      WHERE rn <= window_bars + ${HISTORY_DAYS}
+      ORDER BY symbol, date
+    `);
+
+    for (const row of rows as unknown as Array<Record<string, unknown>>) {
+      const symbol = String(row.symbol);
+      const bars = history.get(symbol) ?? [];
+      bars.push({
+        date: String(row.date),
+        open: Number(row.open),
+        high: Number(row.high),
+        low: Number(row.low),
+        close: Number(row.close),
+        volume: Number(row.volume),
+      });
+      history.set(symbol, bars);
+    }
+
+    return priceAdjustmentService.adjustHistory(history, 'split', basis);
+  }
+
+  /**
+   * OBV is cumulative, so a series computed over a window of bars starts from
+   * an arbitrary zero. Shift each symbol's series to continue from the last
+   * OBV stored before its `before` date, when that day is inside the window;
+   * otherwise (nothing stored yet) it counts from the window's first bar.
+   */
+  private async anchorObv(computed: Map<string, { series: IndicatorPoint[]; before: string }>): Promise<void> {
+    if (computed.size === 0) return;
+
+    const values = [...computed].map(([symbol, { before }]) => sql`(${symbol}::text, ${before}::date)`);
+    const rows = await db.execute(sql`
+      SELECT v.symbol, stored.date, stored.obv
+      FROM (VALUES ${sql.join(values, sql`, `)}) AS v(symbol, before)
+      CROSS JOIN LATERAL (
+        SELECT ${dailyIndicators.date} AS date, ${dailyIndicators.obv} AS obv
+        FROM ${dailyIndicators}
+        WHERE ${dailyIndicators.symbol} = v.symbol
+          AND ${dailyIndicators.date} < v.before
+          AND ${dailyIndicators.obv} IS NOT NULL
+        ORDER BY ${dailyIndicators.date} DESC
+        LIMIT 1
+      ) stored
+    `);
+
+    for (const row of rows as unknown as Array<Record<string, unknown>>) {
+      const series = computed.get(String(row.symbol))?.series;
+      const anchor = series?.find(point => point.date === String(row.date));
+      if (!series || !anchor || anchor.obv === null) continue;
+
+      const offset = Number(row.obv) - anchor.obv;
+      for (const point of series) {
+        if (point.obv !== null) point.obv += offset;
+      }
+    }
+  }
+
+  private async writeDailyIndicators(rows: Array<IndicatorPoint & { symbol: string }>): Promise<void> {
+    for (let i = 0; i < rows.length; i += WRITE_CHUNK_SIZE) {
+      await db.insert(dailyIndicators)
+        .values(rows.slice(i, i + WRITE_CHUNK_SIZE))
+        .onConflictDoUpdate({
+          target: [dailyIndicators.symbol, dailyIndicators.date],
+          set: Object.fromEntries(INDICATOR_COLUMNS.map(column =>
+            [column, sql.raw(`excluded.${dailyIndicators[column].name}`)]
+          )),
+        });
+    }
+  }
+
+  // One UPDATE ... FROM (VALUES ...) per chunk instead of a statement per symbol
+  private async writeLatestSnapshot(rows: Array<IndicatorPoint & { symbol: string }>): Promise<void> {
+    const names = INDICATOR_COLUMNS.map(column => latestSnapshot[column].name);
+    const assignments = sql.raw(names.map(name => `${name} = v.${name}`).join(', '));
+    const valueColumns = sql.raw(['symbol', ...names].join(', '));
+
+    for (let i = 0; i < rows.length; i += WRITE_CHUNK_SIZE) {
+      const values: SQL[] = rows.slice(i, i + WRITE_CHUNK_SIZE).map(row => sql`(${sql.join([
+        sql`${row.symbol}`,
+        ...INDICATOR_COLUMNS.map(column => sql`${row[column]}::real`),
+      ], sql`, `)})`);
+
+      await db.execute(sql`
+        UPDATE ${latestSnapshot} SET ${assignments}, updated_at = now()
+        FROM (VALUES ${sql.join(values, sql`, `)}) AS v(${valueColumns})
+        WHERE ${latestSnapshot.symbol} = v.symbol
+      `);
+    }
+  }
+}
+
+export const indicatorEngine = new IndicatorEngine();
@@ -1,12 +1,14 @@
 import { redis, REDIS_KEYS, REDIS_TTL } from '../lib/redis';
-import { MassiveClient } from '../clients/massive';
-import type { StockIndicators } from '@screener/shared';
+import { marketData, type MarketDataProvider } from '../providers';
+import { isDbConnected } from '../db';
+import { indicatorEngine, type IndicatorPoint } from './indicator-engine';
+import type { StockIndicators, TickerSnapshot } from '@screener/shared';
 
 export class IndicatorService {
-  private massiveClient: MassiveClient;
+  private marketData: MarketDataProvider;
 
   constructor() {
-    this.massiveClient = new MassiveClient();
+    this.marketData = marketData;
   }
 
   // Get indicators for a single symbol
@@ -71,7 +73,7 @@ export class IndicatorService {
     
     try {
       // Get market snapshot
-      const snapshot = await this.massiveClient.getMarketSnapshot();
+      const snapshot = await this.marketData.getMarketSnapshot();
       
       if (!snapshot || snapshot.length === 0) {
         console.log('No snapshot data available');
@@ -84,11 +86,12 @@ export class IndicatorService {
       const batchSize = 50;
       for (let i = 0; i < snapshot.length; i += batchSize) {
         const batch = snapshot.slice(i, i + batchSize);
+        const local = await this.getLocalIndicators(batch.map(ticker => ticker.ticker));
         
         await Promise.all(
           batch.map(async (ticker) => {
             try {
-              const indicators = await this.buildIndicatorsFromSnapshot(ticker);
+              const indicators = await this.buildIndicatorsFromSnapshot(ticker, local.get(ticker.ticker));
               
               if (indicators) {
                 await redis.setex(
@@ -119,21 +122,36 @@ export class IndicatorService {
   private async fetchIndicatorsForSymbol(symbol: string): Promise<StockIndicators | null> {
     try {
       // Get snapshot for current price/volume
-      const snapshot = await this.massiveClient.getTickerSnapshot(symbol);
+      const snapshot = await this.marketData.getTickerSnapshot(symbol);
       
       if (!snapshot) {
         return null;
       }
 
-      return this.buildIndicatorsFromSnapshot(snapshot);
+      const local = await this.getLocalIndicators([symbol]);
+      return this.buildIndicatorsFromSnapshot(snapshot, local.get(symbol));
     } catch {
       return null;
     }
   }
 
-  // Build indicators from snapshot + technical indicator APIs
+  // Indicators computed from stored daily prices (empty without a database)
+  private async getLocalIndicators(symbols: string[]): Promise<Map<string, IndicatorPoint>> {
+    if (!isDbConnected()) return new Map();
+
+    try {
+      return await indicatorEngine.getLatest(symbols);
+    } catch (error) {
+      console.error('Local indicator computation failed:', error);
+      return new Map();
+    }
+  }
+
+  // Build indicators from snapshot + locally computed values, falling back
+  // to the technical indicator APIs when there is no stored history
   private async buildIndicatorsFromSnapshot(
-    snapshot: import('@screener/shared').TickerSnapshot
+    snapshot: TickerSnapshot,
+    local?: IndicatorPoint
   ): Promise<StockIndicators | null> {
     if (!snapshot.day || !snapshot.ticker) {
       return null;
@@ -143,15 +161,53 @@ export class IndicatorService {
     const price = snapshot.day.c || snapshot.lastTrade?.p || 0;
     const volume = snapshot.day.v || 0;
 
+    if (local) {
+      return {
+        symbol,
+        price,
+        volume,
+        changePercent: snapshot.todaysChangePerc || 0,
+        rsi14: local.rsi14 ?? undefined,
+        sma20: local.sma20 ?? undefined,
+        sma50: local.sma50 ?? undefined,
+        sma200: local.sma200 ?? undefined,
+        ema12: local.ema12 ?? undefined,
+        ema26: local.ema26 ?? undefined,
+        macd: local.macdValue !== null ? {
+          value: local.macdValue,
+          signal: local.macdSignal ?? 0,
+          histogram: local.macdHistogram ?? 0,
+        } : undefined,
+        macdHistogram: local.macdHistogram ?? undefined,
+        bbUpper: local.bbUpper ?? undefined,
+        bbMiddle: local.bbMiddle ?? undefined,
+        bbLower: local.bbLower ?? undefined,
+        bbPercentB: local.bbPercentB ?? undefined,
+        bbBandwidth: local.bbBandwidth ?? undefined,
+        atr14: local.atr14 ?? undefined,
+        atrPercent: local.atrPercent ?? undefined,
+        stochK: local.stochK ?? undefined,
+        stochD: local.stochD ?? undefined,
+        adx14: local.adx14 ?? undefined,
+        plusDi: local.plusDi ?? undefined,
+        minusDi: local.minusDi ?? undefined,
+        obv: local.obv ?? undefined,
+        mfi14: local.mfi14 ?? undefined,
+        cci20: local.cci20 ?? undefined,
+        williamsR: local.williamsR ?? undefined,
+        updatedAt: Date.now(),
+      };
+    }
+
     // Fetch technical indicators in parallel
     const [rsi, sma20, sma50, sma200, ema12, ema26, macd] = await Promise.all([
-      this.massiveClient.getRSI(symbol, 14).catch(() => null),
-      this.massiveClient.getSMA(symbol, 20).catch(() => null),
-      this.massiveClient.getSMA(symbol, 50).catch(() => null),
-      this.massiveClient.getSMA(symbol, 200).catch(() => null),
-      this.massiveClient.getEMA(symbol, 12).catch(() => null),
-      this.massiveClient.getEMA(symbol, 26).catch(() => null),
-      this.massiveClient.getMACD(symbol).catch(() => null),
+      this.marketData.getRSI(symbol, 14).catch(() => null),
+      this.marketData.getSMA(symbol, 20).catch(() => null),
+      this.marketData.getSMA(symbol, 50).catch(() => null),
+      this.marketData.getSMA(symbol, 200).catch(() => null),
+      this.marketData.getEMA(symbol, 12).catch(() => null),
+      this.marketData.getEMA(symbol, 26).catch(() => null),
+      this.marketData.getMACD(symbol).catch(() => null),
     ]);
 
     const indicators: StockIndicators = {
@@ -170,6 +226,7 @@ export class IndicatorService {
         signal: macd.signal,
         histogram: macd.histogram,
       } : undefined,
+      macdHistogram: macd?.histogram,
       updatedAt: Date.now(),
     };
 
@@ -0,0 +1,440 @@
+import { db } from '../db';
+import { jobs, syncLocks, syncCheckpoints } from '../db/schema';
+import { isOfflineProvider } from '../providers';
+import { dataSyncService } from './data-sync';
+import { yahooSyncService } from './yahoo-sync';
+import { and, desc, eq, inArray, like, lt, sql, type SQL } from 'drizzle-orm';
+import type { Job, JobType, JobStatus, SyncResult } from '@screener/shared';
+
+// ============================================
+// Queue Configuration
+// ============================================
+// Jobs claimed at once by this instance
+const WORKER_CONCURRENCY = parseInt(process.env.JOB_WORKER_CONCURRENCY || '2');
+// How often queued jobs and expired leases are checked
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '5000');
+// A running job whose lease is not renewed within this is requeued
+const LEASE_TTL_MS = 5 * 60 * 1000;
+const HEARTBEAT_MS = 60 * 1000;
+
+// Delay before the next attempt, by attempts made so far
+const JOB_RETRY_DELAYS = [
+  60 * 1000,          // 1 minute
+  5 * 60 * 1000,      // 5 minutes
+  30 * 60 * 1000,     // 30 minutes
+  2 * 60 * 60 * 1000, // 2 hours
+];
+
+// Most jobs returned by a listing
+const MAX_LISTED_JOBS = 200;
+
+export const JOB_TYPES = [
+  'snapshot', 'daily', 'financials', 'ratios', 'dividends', 'news', 'logos', 'yahoo-symbol',
+] as const satisfies readonly JobType[];
+
+export interface JobPayloads {
+  snapshot: Record<string, never>;
+  daily: Record<string, never>;
+  financials: { symbols?: string[] };
+  ratios: { symbols?: string[] };
+  dividends: { symbols?: string[] };
+  news: Record<string, never>;
+  logos: { limit?: number };
+  'yahoo-symbol': { symbol: string; force?: boolean };
+}
+
+export interface EnqueueOptions {
+  priority?: number; // Defaults to the job type's priority
+  runAt?: Date; // Not started before this
+  dedupeKey?: string; // Skip the enqueue while a job with this key is queued or running
+  maxAttempts?: number;
+}
+
+interface JobDefinition<P> {
+  priority: number; // Higher runs first
+  concurrency: number; // Running at once across all instances
+  maxAttempts: number;
+  run: (payload: P) => Promise<SyncResult>;
+}
+
+type JobRow = typeof jobs.$inferSelect;
+
+// ============================================
+// Job Types
+// ============================================
+const JOB_DEFINITIONS: { [T in JobType]: JobDefinition<JobPayloads[T]> } = {
+  snapshot: {
+    priority: 100,
+    concurrency: 1,
+    maxAttempts: 3,
+    run: () => dataSyncService.syncHourlySnapshot(),
+  },
+  daily: {
+    priority: 80,
+    concurrency: 1,
+    maxAttempts: 3,
+    run: () => dataSyncService.syncDailyData(),
+  },
+  'yahoo-symbol': {
+    priority: 60,
+    concurrency: 4,
+    maxAttempts: 3,
+    run: async ({ symbol, force }) => {
+      if (isOfflineProvider) return { status: 'skipped', reason: 'Yahoo sync disabled for offline providers' };
+
+      const result = await yahooSyncService.syncSymbol(symbol, { force });
+      if (!result.success) return { status: 'failed', reason: result.error };
+      return result.fromCache
+        ? { status: 'skipped', reason: 'Yahoo data is fresh' }
+        : { status: 'completed', processed: 1, failed: 0 };
+    },
+  },
+  news: {
+    priority: 40,
+    concurrency: 1,
+    maxAttempts: 5,
+    run: () => dataSyncService.syncNews(),
+  },
+  financials: {
+    priority: 20,
+    concurrency: 1,
+    maxAttempts: 5,
+    // A retried job picks up from the checkpoint the failed attempt left
+    run: ({ symbols }) => dataSyncService.syncFinancials({ symbols, resumeFromCheckpoint: true }),
+  },
+  ratios: {
+    priority: 20,
+    concurrency: 1,
+    maxAttempts: 5,
+    run: ({ symbols }) => dataSyncService.syncFinancialRatios(symbols),
+  },
+  dividends: {
+    priority: 20,
+    concurrency: 1,
+    maxAttempts: 5,
+    run: ({ symbols }) => dataSyncService.syncDividends(symbols),
+  },
+  logos: {
+    priority: 0,
+    concurrency: 1,
+    maxAttempts: 3,
+    run: async ({ limit }) => ({ status: 'completed', ...await dataSyncService.syncMissingLogos(limit) }),
+  },
+};
+
+const leaseName = (id: number) => `job:${id}`;
+
+/**
+ * Postgres-backed job queue. Jobs are claimed in priority order under an
+ * advisory lock, so per-type concurrency holds across instances. A claimed
+ * job holds a sync_locks lease that is renewed while it runs; when an
+ * instance dies the lease lapses and the job is requeued. Failed attempts
+ * are retried with backoff until maxAttempts, then left as 'dead'.
+ */
+export class JobQueueService {
+  private instanceId = crypto.randomUUID();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+  private active = new Set<Promise<void>>();
+
+  // ============================================
+  // Queue API
+  // ============================================
+
+  /**
+   * Add a job, or return null when one with the same dedupe key is already
+   * queued or running
+   */
+  async enqueue<T extends JobType>(type: T, payload: JobPayloads[T], options: EnqueueOptions = {}): Promise<Job | null> {
+    const definition = JOB_DEFINITIONS[type];
+
+    const [row] = await db.insert(jobs)
+      .values({
+        type,
+        payload,
+        priority: options.priority ?? definition.priority,
+        maxAttempts: options.maxAttempts ?? definition.maxAttempts,
+        dedupeKey: options.dedupeKey ?? null,
+        runAt: options.runAt ?? new Date(),
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (row && row.runAt.getTime() <= Date.now()) this.wake();
+    return row ? this.toJob(row) : null;
+  }
+
+  async listJobs(filter: { status?: JobStatus[]; type?: JobType; limit?: number } = {}): Promise<Job[]> {
+    const conditions: SQL[] = [];
+    if (filter.status?.length) conditions.push(inArray(jobs.status, filter.status));
+    if (filter.type) conditions.push(eq(jobs.type, filter.type));
+
+    const rows = await db
+      .select({ job: jobs, checkpoint: syncCheckpoints })
+      .from(jobs)
+      .leftJoin(syncCheckpoints, eq(syncCheckpoints.syncType, jobs.type))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(jobs.id))
+      .limit(Math.min(filter.limit ?? MAX_LISTED_JOBS, MAX_LISTED_JOBS));
+
+    return rows.map(({ job, checkpoint }) => this.toJob(job, checkpoint));
+  }
+
+  async getJob(id: number): Promise<Job | null> {
+    const [row] = await db
+      .select({ job: jobs, checkpoint: syncCheckpoints })
+      .from(jobs)
+      .leftJoin(syncCheckpoints, eq(syncCheckpoints.syncType, jobs.type))
+      .where(eq(jobs.id, id));
+
+    return row ? this.toJob(row.job, row.checkpoint) : null;
+  }
+
+  /**
+   * Requeue a dead or cancelled job with a fresh set of attempts. Returns
+   * null when the job is in another state or its dedupe key is taken.
+   */
+  async retryJob(id: number): Promise<Job | null> {
+    try {
+      const [row] = await db.update(jobs)
+        .set({
+          status: 'queued',
+          attempts: 0,
+          runAt: new Date(),
+          lastError: null,
+          result: null,
+          startedAt: null,
+          completedAt: null,
+        })
+        .where(and(eq(jobs.id, id), inArray(jobs.status, ['dead', 'cancelled'])))
+        .returning();
+
+      if (row) this.wake();
+      return row ? this.toJob(row) : null;
+    } catch (error: any) {
+      if (error.code === '23505') return null; // Dedupe key in use
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a queued or running job. A running job finishes its current
+   * attempt, but its outcome is discarded and it is not retried.
+   */
+  async cancelJob(id: number): Promise<Job | null> {
+    const [row] = await db.update(jobs)
+      .set({ status: 'cancelled', completedAt: new Date() })
+      .where(and(eq(jobs.id, id), inArray(jobs.status, ['queued', 'running'])))
+      .returning();
+
+    return row ? this.toJob(row) : null;
+  }
+
+  // ============================================
+  // Worker
+  // ============================================
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    console.log(`Job worker started (concurrency ${WORKER_CONCURRENCY})`);
+    this.wake();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    console.log('Job worker stopped');
+  }
+
+  // Poll now instead of waiting for the next interval
+  private wake(): void {
+    if (this.timer) void this.poll();
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      await this.requeueExpired();
+
+      while (this.timer && this.active.size < WORKER_CONCURRENCY) {
+        const job = await this.claim();
+        if (!job) break;
+
+        const run: Promise<void> = this.execute(job).finally(() => {
+          this.active.delete(run);
+          this.wake();
+        });
+        this.active.add(run);
+      }
+    } catch (error) {
+      console.error('Job queue poll failed:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Claim the next runnable job whose type is under its concurrency limit,
+   * taking its lease in the same transaction
+   */
+  private async claim(): Promise<JobRow | null> {
+    const now = new Date();
+    const limits = sql.join(
+      JOB_TYPES.map(type => sql`(${type}::text, ${JOB_DEFINITIONS[type].concurrency}::int)`),
+      sql`, `
+    );
+
+    return db.transaction(async (tx) => {
+      // Serialise claims so the running counts below cannot race
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('jobs:claim'))`);
+
+      const [claimed] = await tx.execute<{ id: number }>(sql`
+        WITH limits (type, concurrency) AS (VALUES ${limits}),
+        running AS (
+          SELECT type, count(*)::int AS count FROM jobs WHERE status = 'running' GROUP BY type
+        )
+        UPDATE jobs SET status = 'running', attempts = attempts + 1, started_at = ${now.toISOString()}::timestamp
+        WHERE id = (
+          SELECT j.id FROM jobs j
+          JOIN limits l ON l.type = j.type
+          LEFT JOIN running r ON r.type = j.type
+          WHERE j.status = 'queued'
+            AND j.run_at <= ${now.toISOString()}::timestamp
+            AND coalesce(r.count, 0) < l.concurrency
+          ORDER BY j.priority DESC, j.run_at, j.id
+          LIMIT 1
+          FOR UPDATE OF j SKIP LOCKED
+        )
+        RETURNING id
+      `);
+      if (!claimed) return null;
+
+      const lease = {
+        lockedBy: this.instanceId,
+        lockedAt: now,
+        expiresAt: new Date(now.getTime() + LEASE_TTL_MS),
+      };
+      await tx.insert(syncLocks)
+        .values({ lockName: leaseName(claimed.id), ...lease })
+        .onConflictDoUpdate({ target: syncLocks.lockName, set: lease });
+
+      const [row] = await tx.select().from(jobs).where(eq(jobs.id, claimed.id));
+      return row ?? null;
+    });
+  }
+
+  private async execute(job: JobRow): Promise<void> {
+    const heartbeat = setInterval(() => {
+      this.extendLease(job.id).catch(error => console.error(`Failed to extend lease for job ${job.id}:`, error));
+    }, HEARTBEAT_MS);
+
+    console.log(`Job ${job.id} (${job.type}) started, attempt ${job.attempts}/${job.maxAttempts}`);
+
+    try {
+      const definition = JOB_DEFINITIONS[job.type as JobType];
+      if (!definition) throw new Error(`Unknown job type ${job.type}`);
+
+      const result = await definition.run(job.payload as never);
+      if (result.status === 'failed') throw new Error(result.reason || 'Job failed');
+
+      await this.finish(job.id, { status: 'completed', result, lastError: null, completedAt: new Date() });
+      console.log(`Job ${job.id} (${job.type}) ${result.status}`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+
+      if (job.attempts >= job.maxAttempts) {
+        await this.finish(job.id, { status: 'dead', lastError: errorMsg, completedAt: new Date() });
+        console.error(`Job ${job.id} (${job.type}) dead after ${job.attempts} attempts:`, errorMsg);
+      } else {
+        const delay = JOB_RETRY_DELAYS[Math.min(job.attempts, JOB_RETRY_DELAYS.length) - 1];
+        await this.finish(job.id, { status: 'queued', lastError: errorMsg, runAt: new Date(Date.now() + delay) });
+        console.error(`Job ${job.id} (${job.type}) failed, retrying in ${Math.round(delay / 1000)}s:`, errorMsg);
+      }
+    } finally {
+      clearInterval(heartbeat);
+      await this.releaseLease(job.id).catch(error => console.error(`Failed to release lease for job ${job.id}:`, error));
+    }
+  }
+
+  // Record an attempt's outcome, unless the job was cancelled or requeued
+  // after its lease lapsed
+  private async finish(id: number, values: Partial<typeof jobs.$inferInsert>): Promise<void> {
+    await db.update(jobs)
+      .set(values)
+      .where(and(
+        eq(jobs.id, id),
+        eq(jobs.status, 'running'),
+        sql`EXISTS (SELECT 1 FROM sync_locks WHERE lock_name = ${leaseName(id)} AND locked_by = ${this.instanceId})`
+      ));
+  }
+
+  // ============================================
+  // Leases
+  // ============================================
+
+  private async extendLease(id: number): Promise<void> {
+    await db.update(syncLocks)
+      .set({ expiresAt: new Date(Date.now() + LEASE_TTL_MS) })
+      .where(and(eq(syncLocks.lockName, leaseName(id)), eq(syncLocks.lockedBy, this.instanceId)));
+  }
+
+  private async releaseLease(id: number): Promise<void> {
+    await db.delete(syncLocks)
+      .where(and(eq(syncLocks.lockName, leaseName(id)), eq(syncLocks.lockedBy, this.instanceId)));
+  }
+
+  // Requeue running jobs whose lease lapsed (their worker stopped), or
+  // dead-letter them when no attempts are left
+  private async requeueExpired(): Promise<void> {
+    const now = new Date();
+
+    const expired = await db.execute<{ id: number; status: string }>(sql`
+      UPDATE jobs SET
+        status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'queued' END,
+        last_error = 'Lease expired before the job finished',
+        run_at = ${now.toISOString()}::timestamp,
+        completed_at = CASE WHEN attempts >= max_attempts THEN ${now.toISOString()}::timestamp END
+      WHERE status = 'running' AND NOT EXISTS (
+        SELECT 1 FROM sync_locks
+        WHERE lock_name = 'job:' || jobs.id AND expires_at > ${now.toISOString()}::timestamp
+      )
+      RETURNING id, status
+    `);
+
+    for (const job of expired) {
+      console.warn(`Job ${job.id} lease expired, now ${job.status}`);
+    }
+
+    await db.delete(syncLocks)
+      .where(and(like(syncLocks.lockName, 'job:%'), lt(syncLocks.expiresAt, now)));
+  }
+
+  private toJob(row: JobRow, checkpoint?: typeof syncCheckpoints.$inferSelect | null): Job {
+    return {
+      id: row.id,
+      type: row.type as JobType,
+      payload: row.payload as Record<string, unknown>,
+      status: row.status as JobStatus,
+      priority: row.priority,
+      attempts: row.attempts,
+      maxAttempts: row.maxAttempts,
+      dedupeKey: row.dedupeKey || undefined,
+      runAt: row.runAt.toISOString(),
+      lastError: row.lastError || undefined,
+      result: (row.result as SyncResult | null) ?? undefined,
+      progress: row.status === 'running' && checkpoint
+        ? { processed: checkpoint.processedCount ?? 0, total: checkpoint.totalCount ?? undefined, lastSymbol: checkpoint.lastSymbol }
+        : undefined,
+      createdAt: (row.createdAt ?? new Date()).toISOString(),
+      startedAt: row.startedAt?.toISOString(),
+      completedAt: row.completedAt?.toISOString(),
+    };
+  }
+}
+
+export const jobQueue = new JobQueueService();
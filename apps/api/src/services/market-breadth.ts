@@ -0,0 +1,185 @@
+import { db } from '../db';
+import { dailyPrices, dailyIndicators, stockSplits, marketBreadth } from '../db/schema';
+import { asc, desc, sql, type SQL } from 'drizzle-orm';
+import { ema } from '../lib/indicators';
+import { priceAdjustmentService } from './price-adjustment';
+
+// Rows per bulk update statement
+const WRITE_CHUNK_SIZE = 500;
+// Sessions in the 52-week high / low window
+const YEAR_SESSIONS = 252;
+// Calendar days of prices scanned before the first computed session,
+// enough to cover the 52-week window
+const LOOKBACK_DAYS = 400;
+// McClellan oscillator EMA periods
+const MCCLELLAN_FAST = 19;
+const MCCLELLAN_SLOW = 39;
+
+export interface BreadthOptions {
+  from?: string; // First session to (re)compute; defaults to the latest stored one
+  rebuild?: boolean; // Drop the stored series and recompute from the first price
+}
+
+interface BreadthCounts {
+  date: string;
+  advances: number;
+  declines: number;
+  unchanged: number;
+  newHighs: number;
+  newLows: number;
+  percentAboveSma50: number | null;
+  percentAboveSma200: number | null;
+}
+
+/**
+ * Daily market breadth across every symbol in daily_prices: advancers vs
+ * decliners, 52-week highs vs lows and the share of stocks above their
+ * SMA50 / SMA200. The running A/D line and McClellan oscillator are derived
+ * from the stored counts. Extended after each daily sync.
+ */
+export class MarketBreadthService {
+  // Compute and store breadth from `from` onwards; returns the sessions written
+  async computeAndStore(options: BreadthOptions = {}): Promise<number> {
+    if (options.rebuild) await db.delete(marketBreadth);
+
+    const from = options.from ?? await this.defaultStart();
+    if (!from) return 0;
+
+    const counts = await this.computeCounts(from);
+    for (let i = 0; i < counts.length; i += WRITE_CHUNK_SIZE) {
+      const chunk = counts.slice(i, i + WRITE_CHUNK_SIZE).map(row => ({ ...row, computedAt: new Date() }));
+      await db.insert(marketBreadth).values(chunk).onConflictDoUpdate({
+        target: marketBreadth.date,
+        set: {
+          advances: sql`excluded.advances`,
+          declines: sql`excluded.declines`,
+          unchanged: sql`excluded.unchanged`,
+          newHighs: sql`excluded.new_highs`,
+          newLows: sql`excluded.new_lows`,
+          percentAboveSma50: sql`excluded.percent_above_sma50`,
+          percentAboveSma200: sql`excluded.percent_above_sma200`,
+          computedAt: sql`excluded.computed_at`,
+        },
+      });
+    }
+
+    await this.updateRunningSeries(from);
+    return counts.length;
+  }
+
+  // Latest stored session (recomputed in case its prices were partial),
+  // or the first stored price when the series is empty
+  private async defaultStart(): Promise<string | null> {
+    const [latest] = await db.select({ date: marketBreadth.date }).from(marketBreadth)
+      .orderBy(desc(marketBreadth.date)).limit(1);
+    if (latest) return latest.date;
+
+    const [first] = await db.select({ date: sql<string | null>`min(${dailyPrices.date})` }).from(dailyPrices);
+    return first?.date ?? null;
+  }
+
+  // Per-session counts. The prior close is put on the session's share basis
+  // when a split executes that day; symbols that split within the 52-week
+  // window are left out of highs / lows rather than compared across bases.
+  private async computeCounts(from: string): Promise<BreadthCounts[]> {
+    const splitFactor = priceAdjustmentService.splitFactor(sql`s.symbol`, sql`s.date`);
+    const window = sql.raw(String(YEAR_SESSIONS - 1));
+
+    const result = await db.execute(sql`
+      WITH bars AS (
+        SELECT
+          ${dailyPrices.symbol} AS symbol,
+          ${dailyPrices.date} AS date,
+          ${dailyPrices.close} AS close,
+          ${dailyPrices.high} AS high,
+          ${dailyPrices.low} AS low,
+          lag(${dailyPrices.close}) OVER w AS prev_close,
+          max(${dailyPrices.high}) OVER (w ROWS BETWEEN ${window} PRECEDING AND 1 PRECEDING) AS prior_high,
+          min(${dailyPrices.low}) OVER (w ROWS BETWEEN ${window} PRECEDING AND 1 PRECEDING) AS prior_low,
+          count(*) OVER (w ROWS BETWEEN ${window} PRECEDING AND 1 PRECEDING) AS prior_sessions
+        FROM ${dailyPrices}
+        WHERE ${dailyPrices.date} >= ${from}::date - ${sql.raw(String(LOOKBACK_DAYS))}
+        WINDOW w AS (PARTITION BY ${dailyPrices.symbol} ORDER BY ${dailyPrices.date})
+      ),
+      sessions AS (
+        SELECT
+          b.*,
+          b.prev_close * COALESCE(${stockSplits.splitFrom} / NULLIF(${stockSplits.splitTo}, 0), 1) AS basis_prev_close,
+          b.prior_sessions = ${window} AND NOT EXISTS (
+            SELECT 1 FROM ${stockSplits} recent
+            WHERE recent.symbol = b.symbol
+              AND recent.execution_date > b.date - 366
+              AND recent.execution_date <= b.date
+          ) AS has_year,
+          ${dailyIndicators.sma50} AS sma50,
+          ${dailyIndicators.sma200} AS sma200
+        FROM bars b
+        LEFT JOIN ${stockSplits} ON ${stockSplits.symbol} = b.symbol AND ${stockSplits.executionDate} = b.date
+        LEFT JOIN ${dailyIndicators} ON ${dailyIndicators.symbol} = b.symbol AND ${dailyIndicators.date} = b.date
+        WHERE b.date >= ${from}::date
+      )
+      SELECT
+        to_char(s.date, 'YYYY-MM-DD') AS date,
+        count(*) FILTER (WHERE s.close > s.basis_prev_close)::int AS advances,
+        count(*) FILTER (WHERE s.close < s.basis_prev_close)::int AS declines,
+        count(*) FILTER (WHERE s.close = s.basis_prev_close)::int AS unchanged,
+        count(*) FILTER (WHERE s.has_year AND s.high > s.prior_high)::int AS new_highs,
+        count(*) FILTER (WHERE s.has_year AND s.low < s.prior_low)::int AS new_lows,
+        100.0 * count(*) FILTER (WHERE s.sma50 IS NOT NULL AND s.close * ${splitFactor} > s.sma50)
+          / NULLIF(count(s.sma50), 0) AS percent_above_sma50,
+        100.0 * count(*) FILTER (WHERE s.sma200 IS NOT NULL AND s.close * ${splitFactor} > s.sma200)
+          / NULLIF(count(s.sma200), 0) AS percent_above_sma200
+      FROM sessions s
+      GROUP BY s.date
+      ORDER BY s.date
+    `);
+
+    return (result as unknown as Array<Record<string, unknown>>).map(row => ({
+      date: String(row.date),
+      advances: Number(row.advances),
+      declines: Number(row.declines),
+      unchanged: Number(row.unchanged),
+      newHighs: Number(row.new_highs),
+      newLows: Number(row.new_lows),
+      percentAboveSma50: row.percent_above_sma50 === null ? null : Number(row.percent_above_sma50),
+      percentAboveSma200: row.percent_above_sma200 === null ? null : Number(row.percent_above_sma200),
+    }));
+  }
+
+  // Rewrite the A/D line and McClellan oscillator from `from` onwards. Both
+  // run over the whole stored series, so earlier sessions are read back.
+  private async updateRunningSeries(from: string): Promise<void> {
+    const rows = await db.select({
+      date: marketBreadth.date,
+      advances: marketBreadth.advances,
+      declines: marketBreadth.declines,
+    }).from(marketBreadth).orderBy(asc(marketBreadth.date));
+
+    // Ratio-adjusted net advances: (A - D) / (A + D) * 1000
+    const ratios = rows.map(row => {
+      const total = row.advances + row.declines;
+      return total > 0 ? ((row.advances - row.declines) / total) * 1000 : 0;
+    });
+    const fast = ema(ratios, MCCLELLAN_FAST);
+    const slow = ema(ratios, MCCLELLAN_SLOW);
+
+    const values: SQL[] = [];
+    let adLine = 0;
+    rows.forEach((row, i) => {
+      adLine += row.advances - row.declines;
+      if (row.date < from) return;
+      const oscillator = fast[i] !== null && slow[i] !== null ? fast[i]! - slow[i]! : null;
+      values.push(sql`(${row.date}::date, ${adLine}::real, ${oscillator}::real)`);
+    });
+
+    for (let i = 0; i < values.length; i += WRITE_CHUNK_SIZE) {
+      await db.execute(sql`
+        UPDATE ${marketBreadth} SET advance_decline_line = v.advance_decline_line, mcclellan_oscillator = v.mcclellan_oscillator
+        FROM (VALUES ${sql.join(values.slice(i, i + WRITE_CHUNK_SIZE), sql`, `)}) AS v(date, advance_decline_line, mcclellan_oscillator)
+        WHERE ${marketBreadth.date} = v.date
+      `);
+    }
+  }
+}
+
+export const marketBreadthService = new MarketBreadthService();
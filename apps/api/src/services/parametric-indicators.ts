@@ -0,0 +1,180 @@
+import { db } from '../db';
+import { dailyPrices, indicatorCache, type NewIndicatorCacheEntry } from '../db/schema';
+import { and, eq, lt, sql, type AnyColumn, type SQL } from 'drizzle-orm';
+import { parseParametricField, type ParsedParametricField } from '@screener/shared';
+import { indicatorEngine, type PriceBar } from './indicator-engine';
+import { sma, ema, rsi, atr, last } from '../lib/indicators';
+
+// Symbols per history query
+const SYMBOL_CHUNK_SIZE = 200;
+// Rows per bulk insert
+const WRITE_CHUNK_SIZE = 1000;
+// Cached sessions older than this (calendar days) are pruned after each compute
+const CACHE_RETENTION_DAYS = 10;
+
+export class IndicatorFieldError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IndicatorFieldError';
+  }
+}
+
+/**
+ * Parameterised indicators such as sma(10) or rsi(7), computed on demand from
+ * daily_prices for the latest session and cached in indicator_cache, keyed by
+ * indicator and period. Screener queries read them through column().
+ */
+export class ParametricIndicatorService {
+  // In-flight computations by cache key and session ('sma:10@2024-06-14'),
+  // so concurrent screens in this process share one pass
+  private pending = new Map<string, Promise<void>>();
+
+  /**
+   * Make sure every field has cached values for the session (default: the
+   * latest session in daily_prices). Returns the session, or null when there
+   * is no price history.
+   */
+  async ensureComputed(fields: string[], asOf?: string): Promise<string | null> {
+    const specs = this.parseFields(fields);
+
+    const [row] = await db
+      .select({ session: sql<string | null>`max(${dailyPrices.date})` })
+      .from(dailyPrices)
+      .where(asOf ? sql`${dailyPrices.date} <= ${asOf}` : undefined);
+    const session = row?.session ? String(row.session) : null;
+    if (!session) return null;
+
+    const missing: ParsedParametricField[] = [];
+    const waiting: Promise<void>[] = [];
+    // The cache is shared with other processes (and invalidated by syncs), so
+    // it is checked on every call rather than remembered
+    let sessionSymbols: number | null = null;
+
+    for (const spec of specs) {
+      const marker = `${this.cacheKey(spec)}@${session}`;
+      const inFlight = this.pending.get(marker);
+      if (inFlight) {
+        waiting.push(inFlight);
+        continue;
+      }
+
+      sessionSymbols ??= await this.countSessionSymbols(session);
+      if (!(await this.isCached(spec, session, sessionSymbols))) {
+        missing.push(spec);
+      }
+    }
+
+    if (missing.length > 0) {
+      const markers = missing.map(spec => `${this.cacheKey(spec)}@${session}`);
+      const computation: Promise<void> = this.compute(missing, session)
+        .finally(() => markers.forEach(marker => {
+          if (this.pending.get(marker) === computation) this.pending.delete(marker);
+        }));
+      markers.forEach(marker => this.pending.set(marker, computation));
+      waiting.push(computation);
+    }
+
+    await Promise.all(waiting);
+    return session;
+  }
+
+  // Correlated subquery reading a cached value for the outer query's symbol
+  column(field: string, symbol: AnyColumn, session: string | null): SQL {
+    const spec = parseParametricField(field);
+    if (!spec || !session) return sql`NULL::real`;
+
+    return sql`(SELECT ${indicatorCache.value} FROM ${indicatorCache}
+      WHERE ${indicatorCache.key} = ${this.cacheKey(spec)}
+        AND ${indicatorCache.symbol} = ${symbol}
+        AND ${indicatorCache.date} = ${session})`;
+  }
+
+  // Drop cached values for a session whose prices changed (all sessions if omitted)
+  async invalidate(date?: string): Promise<void> {
+    await db.delete(indicatorCache).where(date ? eq(indicatorCache.date, date) : undefined);
+
+    // A pass still running read the old prices: later screens start a new one
+    for (const marker of this.pending.keys()) {
+      if (!date || marker.endsWith(`@${date}`)) this.pending.delete(marker);
+    }
+  }
+
+  // Value of a parameterised indicator on the last bar of a history
+  computeValue(spec: ParsedParametricField, bars: PriceBar[]): number | null {
+    const closes = bars.map(bar => bar.close);
+
+    switch (spec.indicator) {
+      case 'sma': return last(sma(closes, spec.period));
+      case 'ema': return last(ema(closes, spec.period));
+      case 'rsi': return last(rsi(closes, spec.period));
+      case 'atr': return last(atr(bars.map(bar => bar.high), bars.map(bar => bar.low), closes, spec.period));
+    }
+  }
+
+  private parseFields(fields: string[]): ParsedParametricField[] {
+    const specs = new Map<string, ParsedParametricField>();
+
+    for (const field of fields) {
+      const spec = parseParametricField(field);
+      if (!spec) {
+        throw new IndicatorFieldError(`'${field}' is not a supported indicator, e.g. sma(10), ema(9), rsi(7) or atr(10)`);
+      }
+      specs.set(this.cacheKey(spec), spec);
+    }
+
+    return [...specs.values()];
+  }
+
+  private cacheKey(spec: ParsedParametricField): string {
+    return `${spec.indicator}:${spec.period}`;
+  }
+
+  // Cached when there is a row for every symbol that traded in the session, so
+  // a pass that is partway through (e.g. in another process) doesn't count
+  private async isCached(spec: ParsedParametricField, session: string, sessionSymbols: number): Promise<boolean> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(indicatorCache)
+      .where(and(eq(indicatorCache.key, this.cacheKey(spec)), eq(indicatorCache.date, session)));
+    return Number(row?.count ?? 0) >= sessionSymbols;
+  }
+
+  private async countSessionSymbols(session: string): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(DISTINCT ${dailyPrices.symbol})` })
+      .from(dailyPrices)
+      .where(eq(dailyPrices.date, session));
+    return Number(row?.count ?? 0);
+  }
+
+  // Compute every spec for each symbol that traded in the session, one history load per chunk
+  private async compute(specs: ParsedParametricField[], session: string): Promise<void> {
+    const symbolRows = await db
+      .selectDistinct({ symbol: dailyPrices.symbol })
+      .from(dailyPrices)
+      .where(eq(dailyPrices.date, session));
+    const symbols = symbolRows.map(row => row.symbol);
+
+    console.log(`📐 Computing ${specs.map(spec => `${spec.indicator}(${spec.period})`).join(', ')} for ${symbols.length} symbols (${session})`);
+
+    for (let i = 0; i < symbols.length; i += SYMBOL_CHUNK_SIZE) {
+      const history = await indicatorEngine.loadHistory(symbols.slice(i, i + SYMBOL_CHUNK_SIZE), session);
+      const rows: NewIndicatorCacheEntry[] = [];
+
+      for (const [symbol, bars] of history) {
+        for (const spec of specs) {
+          rows.push({ key: this.cacheKey(spec), symbol, date: session, value: this.computeValue(spec, bars) });
+        }
+      }
+
+      for (let j = 0; j < rows.length; j += WRITE_CHUNK_SIZE) {
+        await db.insert(indicatorCache).values(rows.slice(j, j + WRITE_CHUNK_SIZE)).onConflictDoNothing();
+      }
+    }
+
+    await db.delete(indicatorCache)
+      .where(lt(indicatorCache.date, sql`${session}::date - ${CACHE_RETENTION_DAYS}::integer`));
+  }
+}
+
+export const parametricIndicatorService = new ParametricIndicatorService();
@@ -0,0 +1,80 @@
+import { db } from '../db';
+import { dividends, stockSplits } from '../db/schema';
+import { inArray, sql, type AnyColumn, type SQL } from 'drizzle-orm';
+import type { PriceAdjustment } from '@screener/shared';
+import { adjustBars, type AdjustableBar, type CorporateActions } from '../lib/adjustments';
+
+/**
+ * Applies the stored corporate actions (stock_splits, dividends) to raw
+ * daily_prices history. Indicators and pattern detection read split-adjusted
+ * bars; charts can ask for raw, split-adjusted or total-return series.
+ */
+export class PriceAdjustmentService {
+  // Splits (and dividends for total return) per symbol, oldest first
+  async loadActions(symbols: string[], mode: PriceAdjustment): Promise<Map<string, CorporateActions>> {
+    const actions = new Map<string, CorporateActions>();
+    if (mode === 'none' || symbols.length === 0) return actions;
+
+    const forSymbol = (symbol: string) => {
+      let entry = actions.get(symbol);
+      if (!entry) {
+        entry = { splits: [], dividends: [] };
+        actions.set(symbol, entry);
+      }
+      return entry;
+    };
+
+    const splitRows = await db.select().from(stockSplits)
+      .where(inArray(stockSplits.symbol, symbols))
+      .orderBy(stockSplits.executionDate);
+    for (const row of splitRows) {
+      forSymbol(row.symbol).splits.push({ date: row.executionDate, splitFrom: row.splitFrom, splitTo: row.splitTo });
+    }
+
+    if (mode === 'total') {
+      const dividendRows = await db.select().from(dividends)
+        .where(inArray(dividends.symbol, symbols))
+        .orderBy(dividends.exDividendDate);
+      for (const row of dividendRows) {
+        forSymbol(row.symbol).dividends.push({ date: row.exDividendDate, amount: row.amount });
+      }
+    }
+
+    return actions;
+  }
+
+  // Adjust a bar history per symbol in place of the raw one, on the share
+  // basis of `basis` (default: each symbol's last bar)
+  async adjustHistory<T extends AdjustableBar>(
+    history: Map<string, T[]>,
+    mode: PriceAdjustment,
+    basis?: string
+  ): Promise<Map<string, T[]>> {
+    const actions = await this.loadActions([...history.keys()], mode);
+
+    for (const [symbol, symbolActions] of actions) {
+      const bars = history.get(symbol);
+      if (bars) history.set(symbol, adjustBars(bars, symbolActions, mode, basis));
+    }
+
+    return history;
+  }
+
+  /**
+   * Factor that puts a raw daily_prices value for (symbol, date) on today's
+   * share basis: the product of splitFrom / splitTo over splits executed after
+   * the date. Multiply prices by it and divide volumes by it in SQL.
+   */
+  splitFactor(symbol: AnyColumn | SQL, date: AnyColumn | SQL): SQL<number> {
+    return sql<number>`COALESCE((
+      SELECT exp(sum(ln(${stockSplits.splitFrom}::double precision / ${stockSplits.splitTo})))
+      FROM ${stockSplits}
+      WHERE ${stockSplits.symbol} = ${symbol}
+        AND ${stockSplits.executionDate} > ${date}
+        AND ${stockSplits.executionDate} <= CURRENT_DATE
+        AND ${stockSplits.splitFrom} > 0 AND ${stockSplits.splitTo} > 0
+    ), 1)`;
+  }
+}
+
+export const priceAdjustmentService = new PriceAdjustmentService();
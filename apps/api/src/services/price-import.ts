@@ -0,0 +1,238 @@
+import { db } from '../db';
+import { tickers, dailyPrices } from '../db/schema';
+import { sql } from 'drizzle-orm';
+import { parseCsvLine, readLines } from '../lib/csv';
+import type { PriceImportReject } from '@screener/shared';
+
+// Rows per upsert statement
+const WRITE_CHUNK_SIZE = 500;
+// Rejected lines kept for the report (all are counted)
+const MAX_REPORTED_REJECTS = 100;
+// Oldest session accepted
+const MIN_DATE = '1900-01-01';
+
+// Accepted header names per column, compared lowercase without punctuation
+const COLUMN_ALIASES = {
+  symbol: ['symbol', 'ticker', 'sym'],
+  date: ['date', 'day', 'tradedate', 'timestamp', 'datetime'],
+  open: ['open', 'o'],
+  high: ['high', 'h'],
+  low: ['low', 'l'],
+  close: ['close', 'c'],
+  volume: ['volume', 'vol', 'v'],
+  vwap: ['vwap', 'vw'],
+} as const;
+
+type Column = keyof typeof COLUMN_ALIASES;
+
+const REQUIRED_COLUMNS: Column[] = ['date', 'open', 'high', 'low', 'close', 'volume'];
+const SYMBOL_PATTERN = /^[A-Z0-9][A-Z0-9.\-]{0,11}$/;
+
+export interface PriceImportSource {
+  name: string; // File name or label used in rejects
+  stream: ReadableStream<Uint8Array>;
+  symbol?: string; // For files without a symbol column
+}
+
+export interface PriceImportOptions {
+  onBatch?: (rowsWritten: number) => Promise<void>; // After each upsert (lock extension)
+}
+
+export interface PriceImportReport {
+  rows: number;
+  rejected: number;
+  symbols: Set<string>;
+  firstDate: string | null; // Earliest imported session
+  createdTickers: string[];
+  rejects: PriceImportReject[];
+}
+
+type PriceRow = typeof dailyPrices.$inferInsert;
+
+// Map normalised header names to column positions
+function resolveColumns(header: string[]): Partial<Record<Column, number>> {
+  const normalised = header.map(name => name.toLowerCase().replace(/[^a-z0-9]/g, ''));
+  const positions: Partial<Record<Column, number>> = {};
+
+  for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as Array<[Column, readonly string[]]>) {
+    const index = normalised.findIndex(name => aliases.includes(name));
+    if (index !== -1) positions[column] = index;
+  }
+
+  return positions;
+}
+
+// YYYY-MM-DD from YYYY-MM-DD[Thh:mm...], YYYYMMDD, YYYY/MM/DD or MM/DD/YYYY,
+// or null when it is not a real calendar date
+export function parseImportDate(value: string): string | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ].*)?$/)
+    ?? value.match(/^(\d{4})(\d{2})(\d{2})$/)
+    ?? value.match(/^(\d{4})\/(\d{1,2})\/(\d{1,2})$/);
+  const us = match ? null : value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+
+  const [year, month, day] = match
+    ? [Number(match[1]), Number(match[2]), Number(match[3])]
+    : us ? [Number(us[3]), Number(us[1]), Number(us[2])] : [NaN, NaN, NaN];
+  if (!Number.isFinite(year)) return null;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Streams vendor CSV dumps into daily_prices with batched upserts. Each line
+ * is validated on its own; bad lines are rejected and counted without
+ * stopping the import. Symbols missing from tickers are created as minimal
+ * rows so the foreign key holds. Indicator recomputation is left to the
+ * caller (DataSyncService.importPrices).
+ */
+export class PriceImportService {
+  async importCsv(sources: PriceImportSource[], options: PriceImportOptions = {}): Promise<PriceImportReport> {
+    const report: PriceImportReport = { rows: 0, rejected: 0, symbols: new Set(), firstDate: null, createdTickers: [], rejects: [] };
+    const knownTickers = new Set<string>();
+
+    for (const source of sources) {
+      await this.importSource(source, report, knownTickers, options);
+    }
+
+    return report;
+  }
+
+  private async importSource(
+    source: PriceImportSource,
+    report: PriceImportReport,
+    knownTickers: Set<string>,
+    options: PriceImportOptions
+  ): Promise<void> {
+    const reject = (line: number, reason: string) => {
+      report.rejected++;
+      if (report.rejects.length < MAX_REPORTED_REJECTS) report.rejects.push({ source: source.name, line, reason });
+    };
+
+    // Keyed by symbol and date so a batch never updates the same row twice
+    const batch = new Map<string, PriceRow>();
+    const flush = async () => {
+      if (batch.size === 0) return;
+      const rows = [...batch.values()];
+      batch.clear();
+
+      await this.ensureTickers(rows.map(row => row.symbol), knownTickers, report);
+      await this.upsertPrices(rows);
+      report.rows += rows.length;
+      for (const row of rows) {
+        report.symbols.add(row.symbol);
+        if (report.firstDate === null || row.date < report.firstDate) report.firstDate = row.date;
+      }
+      await options.onBatch?.(report.rows);
+    };
+
+    const fallbackSymbol = source.symbol?.trim().toUpperCase();
+    const today = new Date().toISOString().split('T')[0];
+    let columns: Partial<Record<Column, number>> | null = null;
+    let lineNumber = 0;
+
+    for await (const line of readLines(source.stream)) {
+      lineNumber++;
+      if (line.trim() === '') continue;
+      const fields = parseCsvLine(line);
+
+      if (!columns) {
+        columns = resolveColumns(fields);
+        const missing = REQUIRED_COLUMNS.filter(column => columns![column] === undefined);
+        if (columns.symbol === undefined && !fallbackSymbol) missing.unshift('symbol');
+        if (missing.length > 0) {
+          reject(lineNumber, `Missing columns: ${missing.join(', ')}`);
+          return;
+        }
+        continue;
+      }
+
+      const field = (column: Column) => {
+        const index = columns![column];
+        return index === undefined ? undefined : fields[index] || undefined;
+      };
+
+      const symbol = ((columns.symbol !== undefined ? field('symbol') : fallbackSymbol) ?? '').toUpperCase();
+      if (!SYMBOL_PATTERN.test(symbol)) {
+        reject(lineNumber, `Invalid symbol "${symbol}"`);
+        continue;
+      }
+
+      const rawDate = field('date');
+      const date = rawDate ? parseImportDate(rawDate) : null;
+      if (!date) {
+        reject(lineNumber, `Invalid date "${rawDate ?? ''}"`);
+        continue;
+      }
+      if (date < MIN_DATE || date > today) {
+        reject(lineNumber, `Date ${date} out of range`);
+        continue;
+      }
+
+      const [open, high, low, close, volume] = (['open', 'high', 'low', 'close', 'volume'] as const)
+        .map(column => Number(field(column) ?? NaN));
+      if (![open, high, low, close].every(price => Number.isFinite(price) && price > 0)) {
+        reject(lineNumber, 'Prices must be positive numbers');
+        continue;
+      }
+      if (high < Math.max(open, close, low) || low > Math.min(open, close)) {
+        reject(lineNumber, 'High/low do not bracket open and close');
+        continue;
+      }
+      if (!Number.isFinite(volume) || volume < 0) {
+        reject(lineNumber, 'Volume must be a non-negative number');
+        continue;
+      }
+
+      const vwap = Number(field('vwap') ?? NaN);
+      batch.set(`${symbol}|${date}`, {
+        symbol,
+        date,
+        open,
+        high,
+        low,
+        close,
+        volume,
+        vwap: Number.isFinite(vwap) && vwap > 0 ? vwap : null,
+      });
+
+      if (batch.size >= WRITE_CHUNK_SIZE) await flush();
+    }
+
+    if (!columns) reject(0, 'Empty file');
+    await flush();
+  }
+
+  // Insert minimal tickers rows for symbols not seen yet
+  private async ensureTickers(symbols: string[], knownTickers: Set<string>, report: PriceImportReport): Promise<void> {
+    const unseen = [...new Set(symbols)].filter(symbol => !knownTickers.has(symbol));
+    if (unseen.length === 0) return;
+
+    const created = await db.insert(tickers)
+      .values(unseen.map(symbol => ({ symbol, name: symbol, market: 'stocks', locale: 'us' })))
+      .onConflictDoNothing({ target: tickers.symbol })
+      .returning({ symbol: tickers.symbol });
+
+    report.createdTickers.push(...created.map(row => row.symbol));
+    for (const symbol of unseen) knownTickers.add(symbol);
+  }
+
+  private async upsertPrices(rows: PriceRow[]): Promise<void> {
+    await db.insert(dailyPrices)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: [dailyPrices.symbol, dailyPrices.date],
+        set: {
+          open: sql`excluded.open`,
+          high: sql`excluded.high`,
+          low: sql`excluded.low`,
+          close: sql`excluded.close`,
+          volume: sql`excluded.volume`,
+          vwap: sql`excluded.vwap`,
+        },
+      });
+  }
+}
+
+export const priceImportService = new PriceImportService();
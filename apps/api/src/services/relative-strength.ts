@@ -0,0 +1,106 @@
+import { db } from '../db';
+import { latestSnapshot, tickers } from '../db/schema';
+import { eq, sql, type SQL } from 'drizzle-orm';
+import { indicatorEngine, type ComputeOptions, type PriceBar } from './indicator-engine';
+import { RISK_BENCHMARK_SYMBOL } from './risk-stats';
+
+// Symbols per history query
+const SYMBOL_CHUNK_SIZE = 200;
+// Rows per bulk update statement
+const WRITE_CHUNK_SIZE = 500;
+
+// Weighted 3/6/9/12-month returns (in sessions), recent quarter counted double
+const RS_PERIODS: Array<{ sessions: number; weight: number }> = [
+  { sessions: 63, weight: 0.4 },
+  { sessions: 126, weight: 0.2 },
+  { sessions: 189, weight: 0.2 },
+  { sessions: 252, weight: 0.2 },
+];
+const YEAR_SESSIONS = 252;
+
+interface RelativeStrengthRow {
+  symbol: string;
+  rsRating: number | null;
+  rsVsBenchmark: number | null;
+}
+
+// Return over the last `sessions` bars (null without enough history)
+function periodReturn(bars: PriceBar[], sessions: number): number | null {
+  if (bars.length <= sessions) return null;
+  const start = bars[bars.length - 1 - sessions].close;
+  return start > 0 ? bars[bars.length - 1].close / start - 1 : null;
+}
+
+/**
+ * IBD-style relative strength: a 1-99 percentile rating of weighted
+ * 3/6/9/12-month returns across all active tickers, plus 12-month
+ * performance relative to RISK_BENCHMARK_SYMBOL. Ranked nightly from the
+ * split-adjusted daily_prices history and written to latest_snapshot.
+ */
+export class RelativeStrengthService {
+  // Weighted return score; null until a full year of history exists
+  computeScore(bars: PriceBar[]): number | null {
+    let score = 0;
+    for (const { sessions, weight } of RS_PERIODS) {
+      const change = periodReturn(bars, sessions);
+      if (change === null) return null;
+      score += change * weight;
+    }
+    return score;
+  }
+
+  // Rank every active ticker; returns the number of symbols rated
+  async computeAndStore(options: Pick<ComputeOptions, 'asOf'> = {}): Promise<number> {
+    const active = await db.select({ symbol: tickers.symbol }).from(tickers).where(eq(tickers.active, true));
+    const symbols = active.map(row => row.symbol);
+
+    const benchmarkBars = (await indicatorEngine.loadHistory([RISK_BENCHMARK_SYMBOL], options.asOf))
+      .get(RISK_BENCHMARK_SYMBOL) ?? [];
+    const benchmarkReturn = periodReturn(benchmarkBars, YEAR_SESSIONS);
+
+    const scores: Array<{ symbol: string; score: number | null; yearReturn: number | null }> = [];
+    for (let i = 0; i < symbols.length; i += SYMBOL_CHUNK_SIZE) {
+      const chunk = symbols.slice(i, i + SYMBOL_CHUNK_SIZE);
+      const history = await indicatorEngine.loadHistory(chunk, options.asOf);
+      // Symbols without history are still written, clearing stale ratings
+      for (const symbol of chunk) {
+        const bars = history.get(symbol) ?? [];
+        scores.push({ symbol, score: this.computeScore(bars), yearReturn: periodReturn(bars, YEAR_SESSIONS) });
+      }
+    }
+
+    // Percentile of each score within the rated universe, clamped to 1-99
+    const ranked = scores.filter(row => row.score !== null).sort((a, b) => a.score! - b.score!);
+    const ratings = new Map(ranked.map((row, index) => [
+      row.symbol,
+      ranked.length > 1 ? Math.min(99, Math.max(1, Math.round((index / (ranked.length - 1)) * 98) + 1)) : 99,
+    ]));
+
+    const rows: RelativeStrengthRow[] = scores.map(row => ({
+      symbol: row.symbol,
+      rsRating: ratings.get(row.symbol) ?? null,
+      rsVsBenchmark: row.yearReturn !== null && benchmarkReturn !== null && benchmarkReturn > -1
+        ? (1 + row.yearReturn) / (1 + benchmarkReturn)
+        : null,
+    }));
+
+    await this.writeLatestSnapshot(rows);
+    return ratings.size;
+  }
+
+  private async writeLatestSnapshot(rows: RelativeStrengthRow[]): Promise<void> {
+    for (let i = 0; i < rows.length; i += WRITE_CHUNK_SIZE) {
+      const values: SQL[] = rows.slice(i, i + WRITE_CHUNK_SIZE).map(row =>
+        sql`(${row.symbol}, ${row.rsRating}::integer, ${row.rsVsBenchmark}::real)`
+      );
+
+      await db.execute(sql`
+        UPDATE ${latestSnapshot} SET rs_rating = v.rs_rating, rs_vs_benchmark = v.rs_vs_benchmark, updated_at = now()
+        FROM (VALUES ${sql.join(values, sql`, `)}) AS v(symbol, rs_rating, rs_vs_benchmark)
+        WHERE ${latestSnapshot.symbol} = v.symbol
+      `);
+    }
+  }
+}
+
+export const relativeStrengthService = new RelativeStrengthService();
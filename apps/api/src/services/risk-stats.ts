@@ -0,0 +1,109 @@
+import { db } from '../db';
+import { latestSnapshot } from '../db/schema';
+import { sql, type SQL } from 'drizzle-orm';
+import { indicatorEngine, type ComputeOptions, type PriceBar } from './indicator-engine';
+import {
+  TRADING_DAYS, dailyReturns, volatility, maxDrawdown, downsideDeviation,
+  sharpeRatio, sortinoRatio, betaAndCorrelation,
+} from '../lib/risk';
+
+// Benchmark for beta / correlation; needs its own daily_prices history
+export const RISK_BENCHMARK_SYMBOL = (process.env.RISK_BENCHMARK_SYMBOL || 'SPY').toUpperCase();
+// Annual risk-free rate in percent, for Sharpe / Sortino / downside deviation
+export const RISK_FREE_RATE = Number(process.env.RISK_FREE_RATE) || 0;
+
+// Symbols per history query
+const SYMBOL_CHUNK_SIZE = 200;
+// Rows per bulk update statement
+const WRITE_CHUNK_SIZE = 500;
+
+// latest_snapshot columns written by the risk pass
+const RISK_COLUMNS = [
+  'volatility20', 'volatility60', 'volatility252', 'maxDrawdown', 'downsideDeviation',
+  'sharpeRatio', 'sortinoRatio', 'benchmarkBeta', 'benchmarkCorrelation',
+] as const;
+
+type RiskColumn = typeof RISK_COLUMNS[number];
+
+export type RiskStats = Record<RiskColumn, number | null>;
+
+/**
+ * Risk and return statistics from the split-adjusted daily_prices history:
+ * volatility, drawdown, Sharpe / Sortino and beta / correlation against
+ * RISK_BENCHMARK_SYMBOL. Written to latest_snapshot after each daily sync.
+ */
+export class RiskStatsService {
+  // Compute and store stats; returns the number of symbols updated
+  async computeAndStore(symbols: string[], options: Pick<ComputeOptions, 'asOf'> = {}): Promise<number> {
+    const benchmarkBars = (await indicatorEngine.loadHistory([RISK_BENCHMARK_SYMBOL], options.asOf))
+      .get(RISK_BENCHMARK_SYMBOL) ?? [];
+    if (benchmarkBars.length === 0) {
+      console.warn(`⚠️  No price history for benchmark ${RISK_BENCHMARK_SYMBOL}, beta and correlation left empty`);
+    }
+    const benchmarkCloses = new Map(benchmarkBars.map(bar => [bar.date, bar.close]));
+    let updated = 0;
+
+    for (let i = 0; i < symbols.length; i += SYMBOL_CHUNK_SIZE) {
+      const history = await indicatorEngine.loadHistory(symbols.slice(i, i + SYMBOL_CHUNK_SIZE), options.asOf);
+      const rows: Array<RiskStats & { symbol: string }> = [];
+
+      for (const [symbol, bars] of history) {
+        if (bars.length === 0) continue;
+        rows.push({ symbol, ...this.computeStats(bars, benchmarkCloses) });
+      }
+
+      await this.writeLatestSnapshot(rows);
+      updated += rows.length;
+    }
+
+    return updated;
+  }
+
+  // Stats for a bar history ordered oldest first; benchmark closes keyed by date
+  computeStats(bars: PriceBar[], benchmarkCloses: Map<string, number>): RiskStats {
+    const closes = bars.map(bar => bar.close);
+    const returns = dailyReturns(closes);
+    const riskFreeDaily = (1 + RISK_FREE_RATE / 100) ** (1 / TRADING_DAYS) - 1;
+
+    // Beta needs both series over the same sessions
+    const paired = bars.filter(bar => benchmarkCloses.has(bar.date));
+    const { beta, correlation } = betaAndCorrelation(
+      dailyReturns(paired.map(bar => bar.close)),
+      dailyReturns(paired.map(bar => benchmarkCloses.get(bar.date)!)),
+      TRADING_DAYS
+    );
+
+    return {
+      volatility20: volatility(returns, 20),
+      volatility60: volatility(returns, 60),
+      volatility252: volatility(returns, TRADING_DAYS),
+      maxDrawdown: maxDrawdown(closes, TRADING_DAYS),
+      downsideDeviation: downsideDeviation(returns, TRADING_DAYS, riskFreeDaily),
+      sharpeRatio: sharpeRatio(returns, TRADING_DAYS, riskFreeDaily),
+      sortinoRatio: sortinoRatio(returns, TRADING_DAYS, riskFreeDaily),
+      benchmarkBeta: beta,
+      benchmarkCorrelation: correlation,
+    };
+  }
+
+  private async writeLatestSnapshot(rows: Array<RiskStats & { symbol: string }>): Promise<void> {
+    const names = RISK_COLUMNS.map(column => latestSnapshot[column].name);
+    const assignments = sql.raw(names.map(name => `${name} = v.${name}`).join(', '));
+    const valueColumns = sql.raw(['symbol', ...names].join(', '));
+
+    for (let i = 0; i < rows.length; i += WRITE_CHUNK_SIZE) {
+      const values: SQL[] = rows.slice(i, i + WRITE_CHUNK_SIZE).map(row => sql`(${sql.join([
+        sql`${row.symbol}`,
+        ...RISK_COLUMNS.map(column => sql`${row[column]}::real`),
+      ], sql`, `)})`);
+
+      await db.execute(sql`
+        UPDATE ${latestSnapshot} SET ${assignments}, updated_at = now()
+        FROM (VALUES ${sql.join(values, sql`, `)}) AS v(${valueColumns})
+        WHERE ${latestSnapshot.symbol} = v.symbol
+      `);
+    }
+  }
+}
+
+export const riskStatsService = new RiskStatsService();
@@ -0,0 +1,138 @@
+import { db } from '../db';
+import { filterPresets } from '../db/schema';
+import { and, desc, eq, inArray, or } from 'drizzle-orm';
+import { createEditToken, hashEditToken, EditTokenError } from '../lib/edit-tokens';
+import type {
+  SavedScreen,
+  SavedScreenInput,
+  FilterNode,
+  ComputedColumn,
+  ScoreModel,
+  StockIndicators,
+} from '@screener/shared';
+
+type FilterPresetRow = typeof filterPresets.$inferSelect;
+
+const SCREEN_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Saved screen ids are UUIDs; anything else (e.g. a built-in preset id) is not looked up
+export function isSavedScreenId(id: string): boolean {
+  return SCREEN_ID_PATTERN.test(id);
+}
+
+// Most screens returned by a listing
+const MAX_LISTED_SCREENS = 200;
+
+export class SavedScreenService {
+  // Public screens, plus any unlisted screens the caller asks for by id
+  async listScreens(ids: string[] = []): Promise<SavedScreen[]> {
+    const screenIds = ids.filter(isSavedScreenId);
+    const visible = screenIds.length > 0
+      ? or(eq(filterPresets.isPublic, true), inArray(filterPresets.id, screenIds))
+      : eq(filterPresets.isPublic, true);
+
+    const rows = await db
+      .select()
+      .from(filterPresets)
+      .where(visible)
+      .orderBy(desc(filterPresets.updatedAt))
+      .limit(MAX_LISTED_SCREENS);
+
+    return rows.map(row => this.toSavedScreen(row));
+  }
+
+  async getScreen(id: string): Promise<SavedScreen | null> {
+    if (!isSavedScreenId(id)) return null;
+
+    const [row] = await db
+      .select()
+      .from(filterPresets)
+      .where(eq(filterPresets.id, id))
+      .limit(1);
+
+    return row ? this.toSavedScreen(row) : null;
+  }
+
+  // The edit token is only ever returned here
+  async createScreen(input: SavedScreenInput): Promise<SavedScreen> {
+    const editToken = createEditToken();
+    const [row] = await db
+      .insert(filterPresets)
+      .values({ ...this.toRow(input), editTokenHash: editToken.hash })
+      .returning();
+
+    return { ...this.toSavedScreen(row), editToken: editToken.token };
+  }
+
+  async updateScreen(id: string, editToken: string | undefined, input: SavedScreenInput): Promise<SavedScreen | null> {
+    if (!isSavedScreenId(id) || !(await this.authorize(id, editToken))) return null;
+
+    const [row] = await db
+      .update(filterPresets)
+      .set({ ...this.toRow(input), updatedAt: new Date() })
+      .where(and(eq(filterPresets.id, id), eq(filterPresets.editTokenHash, hashEditToken(editToken!))))
+      .returning();
+
+    return row ? this.toSavedScreen(row) : null;
+  }
+
+  async deleteScreen(id: string, editToken: string | undefined): Promise<boolean> {
+    if (!isSavedScreenId(id) || !(await this.authorize(id, editToken))) return false;
+
+    const deleted = await db
+      .delete(filterPresets)
+      .where(and(eq(filterPresets.id, id), eq(filterPresets.editTokenHash, hashEditToken(editToken!))))
+      .returning({ id: filterPresets.id });
+
+    return deleted.length > 0;
+  }
+
+  // False when the screen doesn't exist; throws EditTokenError when the token
+  // doesn't match (screens saved before edit tokens have none and are read-only)
+  private async authorize(id: string, editToken: string | undefined): Promise<boolean> {
+    const [row] = await db
+      .select({ editTokenHash: filterPresets.editTokenHash })
+      .from(filterPresets)
+      .where(eq(filterPresets.id, id))
+      .limit(1);
+
+    if (!row) return false;
+    if (!editToken || !row.editTokenHash || row.editTokenHash !== hashEditToken(editToken)) {
+      throw new EditTokenError();
+    }
+    return true;
+  }
+
+  private toRow(input: SavedScreenInput) {
+    return {
+      name: input.name,
+      description: input.description ?? null,
+      conditions: input.conditions,
+      sortBy: input.sortBy ?? null,
+      sortExpression: input.sortExpression ?? null,
+      sortOrder: input.sortOrder ?? null,
+      columns: input.columns && input.columns.length > 0 ? input.columns : null,
+      scoreModel: input.scoreModel ?? null,
+      minScore: input.minScore ?? null,
+      isPublic: input.isPublic,
+    };
+  }
+
+  private toSavedScreen(row: FilterPresetRow): SavedScreen {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      conditions: row.conditions as FilterNode[],
+      sortBy: (row.sortBy as keyof StockIndicators | null) || undefined,
+      sortExpression: row.sortExpression || undefined,
+      sortOrder: row.sortOrder === 'asc' || row.sortOrder === 'desc' ? row.sortOrder : undefined,
+      columns: (row.columns as ComputedColumn[] | null) || undefined,
+      scoreModel: (row.scoreModel as string | ScoreModel | null) ?? undefined,
+      minScore: row.minScore ?? undefined,
+      isPublic: row.isPublic ?? false,
+      createdAt: (row.createdAt ?? new Date()).toISOString(),
+      updatedAt: (row.updatedAt ?? new Date()).toISOString(),
+    };
+  }
+}
@@ -1,18 +1,28 @@
 import { dataSyncService } from './data-sync';
+import { jobQueue } from './job-queue';
+import { marketCalendar } from '../lib/market-calendar';
+
+// How often upcoming runs are enqueued
+const PLAN_INTERVAL_MS = 15 * 60 * 1000;
+// Daily sync starts this long after the close
+const DAILY_SYNC_DELAY_MS = 30 * 60 * 1000;
 
 /**
  * Scheduler for data synchronization
- * 
+ *
  * Schedule:
- * - Hourly sync: Every hour during market hours (9:30 AM - 4 PM ET, Mon-Fri)
- * - Daily sync: 4:30 PM ET on trading days
- * 
- * Note: Railway supports cron jobs natively, but this provides a fallback
- * for local development or if you prefer in-process scheduling.
+ * - Hourly sync: Every hour during market hours (9:30 AM - 4 PM ET, or
+ *   1 PM on early closes)
+ * - Daily sync: 30 minutes after the close on trading days
+ *
+ * Trading days, hours and early closes come from the NYSE market calendar.
+ *
+ * Each run is enqueued ahead of time as a job with its start time and a
+ * dedupe key for the slot, so the schedule survives restarts and several
+ * instances only enqueue it once. The job worker runs it when it is due.
  */
 export class Scheduler {
-  private hourlyInterval: ReturnType<typeof setInterval> | null = null;
-  private dailyTimeout: ReturnType<typeof setTimeout> | null = null;
+  private planInterval: ReturnType<typeof setInterval> | null = null;
   private isProduction: boolean;
 
   constructor() {
@@ -24,50 +34,42 @@ export class Scheduler {
    */
   start(): void {
     console.log('Starting data sync scheduler...');
-    
+
     // Initial sync on startup (only in production)
     if (this.isProduction) {
       this.runInitialSync();
     }
 
-    // Schedule hourly sync
-    this.scheduleHourlySync();
-    
-    // Schedule daily sync
-    this.scheduleDailySync();
-    
+    // Keep the next hourly and daily runs enqueued
+    this.planUpcomingSyncs();
+    this.planInterval = setInterval(() => this.planUpcomingSyncs(), PLAN_INTERVAL_MS);
+
     console.log('Scheduler started');
   }
 
   /**
-   * Stop the scheduler
+   * Stop the scheduler (jobs already enqueued stay queued)
    */
   stop(): void {
-    if (this.hourlyInterval) {
-      clearInterval(this.hourlyInterval);
-      this.hourlyInterval = null;
-    }
-    if (this.dailyTimeout) {
-      clearTimeout(this.dailyTimeout);
-      this.dailyTimeout = null;
+    if (this.planInterval) {
+      clearInterval(this.planInterval);
+      this.planInterval = null;
     }
     console.log('Scheduler stopped');
   }
 
   /**
-   * Run initial sync on startup
+   * Enqueue a snapshot sync on startup if data is stale
    */
   private async runInitialSync(): Promise<void> {
-    console.log('Running initial sync...');
-    
     try {
       // Check if we have recent data
       const lastSync = await dataSyncService.getLastSyncTime();
       const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-      
+
       if (!lastSync || lastSync < oneHourAgo) {
-        console.log('Data is stale or missing, running snapshot sync...');
-        await dataSyncService.syncHourlySnapshot();
+        console.log('Data is stale or missing, enqueueing snapshot sync...');
+        await jobQueue.enqueue('snapshot', {}, { dedupeKey: 'snapshot:initial' });
       } else {
         console.log('Recent data exists, skipping initial sync');
       }
@@ -77,154 +79,56 @@ export class Scheduler {
   }
 
   /**
-   * Schedule hourly snapshot sync
-   * Runs every hour on the hour
-   */
-  private scheduleHourlySync(): void {
-    // Calculate time until next hour
-    const now = new Date();
-    const nextHour = new Date(now);
-    nextHour.setHours(nextHour.getHours() + 1, 0, 0, 0);
-    const msUntilNextHour = nextHour.getTime() - now.getTime();
-
-    // Start at the next hour, then run every hour
-    setTimeout(() => {
-      this.runHourlySync();
-      
-      // Then run every hour
-      this.hourlyInterval = setInterval(() => {
-        this.runHourlySync();
-      }, 60 * 60 * 1000); // 1 hour
-      
-    }, msUntilNextHour);
-
-    console.log(`Hourly sync scheduled, first run in ${Math.round(msUntilNextHour / 1000 / 60)} minutes`);
-  }
-
-  /**
-   * Run hourly sync if during market hours
+   * Enqueue the next hourly snapshot and daily sync
    */
-  private async runHourlySync(): Promise<void> {
-    if (!this.isMarketHours()) {
-      console.log('Outside market hours, skipping hourly sync');
-      return;
-    }
-
-    console.log('Running scheduled hourly sync...');
-    
+  private async planUpcomingSyncs(): Promise<void> {
     try {
-      const result = await dataSyncService.syncHourlySnapshot();
-      console.log(`Hourly sync complete: ${result.processed} processed`);
-    } catch (error) {
-      console.error('Scheduled hourly sync failed:', error);
-    }
-  }
-
-  /**
-   * Schedule daily sync at 4:30 PM ET
-   */
-  private scheduleDailySync(): void {
-    const scheduleNext = () => {
-      const msUntilDailySync = this.getMsUntilDailySync();
-      
-      this.dailyTimeout = setTimeout(async () => {
-        await this.runDailySync();
-        scheduleNext(); // Schedule next day
-      }, msUntilDailySync);
-      
-      const hours = Math.round(msUntilDailySync / 1000 / 60 / 60);
-      console.log(`Daily sync scheduled in ${hours} hours`);
-    };
-
-    scheduleNext();
-  }
+      const now = new Date();
+      const hourly = this.getNextHourlySync(now);
+      const daily = this.getNextDailySync(now);
 
-  /**
-   * Run daily sync
-   */
-  private async runDailySync(): Promise<void> {
-    if (!this.isTradingDay()) {
-      console.log('Not a trading day, skipping daily sync');
-      return;
-    }
+      const [hourlyJob, dailyJob] = await Promise.all([
+        jobQueue.enqueue('snapshot', {}, { runAt: hourly, dedupeKey: `snapshot@${hourly.toISOString()}` }),
+        jobQueue.enqueue('daily', {}, { runAt: daily.runAt, dedupeKey: `daily@${daily.session}` }),
+      ]);
 
-    console.log('Running scheduled daily sync...');
-    
-    try {
-      const result = await dataSyncService.syncDailyData();
-      console.log(`Daily sync complete: ${result.processed} processed, ${result.failed} failed`);
+      if (hourlyJob) {
+        console.log(`Hourly sync scheduled, first run in ${Math.round((hourly.getTime() - now.getTime()) / 1000 / 60)} minutes`);
+      }
+      if (dailyJob) {
+        console.log(`Daily sync scheduled in ${Math.round((daily.runAt.getTime() - now.getTime()) / 1000 / 60 / 60)} hours`);
+      }
     } catch (error) {
-      console.error('Scheduled daily sync failed:', error);
+      console.error('Failed to schedule syncs:', error);
     }
   }
 
   /**
-   * Check if current time is during US market hours
-   * Market hours: 9:30 AM - 4:00 PM ET, Monday-Friday
+   * The next top of the hour that falls in a session
    */
-  private isMarketHours(): boolean {
-    const now = new Date();
-    const et = this.toEasternTime(now);
-    
-    const dayOfWeek = et.getDay();
-    const hours = et.getHours();
-    const minutes = et.getMinutes();
-    const timeInMinutes = hours * 60 + minutes;
-    
-    // Monday = 1, Friday = 5
-    const isWeekday = dayOfWeek >= 1 && dayOfWeek <= 5;
-    
-    // 9:30 AM = 570 minutes, 4:00 PM = 960 minutes
-    const isMarketOpen = timeInMinutes >= 570 && timeInMinutes <= 960;
-    
-    return isWeekday && isMarketOpen;
-  }
+  private getNextHourlySync(now: Date): Date {
+    const slot = new Date(now);
+    slot.setUTCMinutes(0, 0, 0);
+
+    // A week of hours always reaches a session
+    for (let i = 0; i < 7 * 24; i++) {
+      slot.setTime(slot.getTime() + 60 * 60 * 1000);
+      if (marketCalendar.isOpen(slot)) break;
+    }
 
-  /**
-   * Check if today is a trading day (weekday)
-   * Note: This doesn't account for holidays
-   */
-  private isTradingDay(): boolean {
-    const now = new Date();
-    const et = this.toEasternTime(now);
-    const dayOfWeek = et.getDay();
-    return dayOfWeek >= 1 && dayOfWeek <= 5;
+    return slot;
   }
 
   /**
-   * Calculate milliseconds until 4:30 PM ET
+   * The session due for the next daily sync, and when to run it
    */
-  private getMsUntilDailySync(): number {
-    const now = new Date();
-    const et = this.toEasternTime(now);
-    
-    // Target: 4:30 PM ET (16:30)
-    const targetHour = 16;
-    const targetMinute = 30;
-    
-    const target = new Date(et);
-    target.setHours(targetHour, targetMinute, 0, 0);
-    
-    // If we've passed today's target, schedule for tomorrow
-    if (et >= target) {
-      target.setDate(target.getDate() + 1);
-    }
-    
-    // Skip weekends
-    while (target.getDay() === 0 || target.getDay() === 6) {
-      target.setDate(target.getDate() + 1);
+  private getNextDailySync(now: Date): { runAt: Date; session: string } {
+    for (let date = marketCalendar.localDate(now); ; date = marketCalendar.nextTradingDay(date)) {
+      const session = marketCalendar.session(date);
+      if (session && session.close.getTime() + DAILY_SYNC_DELAY_MS > now.getTime()) {
+        return { runAt: new Date(session.close.getTime() + DAILY_SYNC_DELAY_MS), session: date };
+      }
     }
-    
-    return target.getTime() - now.getTime();
-  }
-
-  /**
-   * Convert a date to Eastern Time
-   */
-  private toEasternTime(date: Date): Date {
-    // Use Intl to get ET time parts
-    const etString = date.toLocaleString('en-US', { timeZone: 'America/New_York' });
-    return new Date(etString);
   }
 }
 
@@ -0,0 +1,143 @@
+import { db, checkDbConnection } from '../db';
+import { scoreModels } from '../db/schema';
+import { and, desc, eq, inArray, or } from 'drizzle-orm';
+import { SCORE_MODELS } from '@screener/shared';
+import type {
+  SavedScoreModel,
+  ScoreModel,
+  ScoreModelInput,
+  ScoreFactorGroup,
+} from '@screener/shared';
+import { isSavedScreenId } from './saved-screens';
+import { createEditToken, hashEditToken, EditTokenError } from '../lib/edit-tokens';
+
+type ScoreModelRow = typeof scoreModels.$inferSelect;
+
+// Most models returned by a listing
+const MAX_LISTED_MODELS = 200;
+
+export class ScoreModelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScoreModelError';
+  }
+}
+
+export class ScoreModelService {
+  // Public models, plus any unlisted models the caller asks for by id
+  async listModels(ids: string[] = []): Promise<SavedScoreModel[]> {
+    const modelIds = ids.filter(isSavedScreenId);
+    const visible = modelIds.length > 0
+      ? or(eq(scoreModels.isPublic, true), inArray(scoreModels.id, modelIds))
+      : eq(scoreModels.isPublic, true);
+
+    const rows = await db
+      .select()
+      .from(scoreModels)
+      .where(visible)
+      .orderBy(desc(scoreModels.updatedAt))
+      .limit(MAX_LISTED_MODELS);
+
+    return rows.map(row => this.toSavedModel(row));
+  }
+
+  // Saved models share the UUID id format of saved screens
+  async getModel(id: string): Promise<SavedScoreModel | null> {
+    if (!isSavedScreenId(id)) return null;
+
+    const [row] = await db
+      .select()
+      .from(scoreModels)
+      .where(eq(scoreModels.id, id))
+      .limit(1);
+
+    return row ? this.toSavedModel(row) : null;
+  }
+
+  // The edit token is only ever returned here
+  async createModel(input: ScoreModelInput): Promise<SavedScoreModel> {
+    const editToken = createEditToken();
+    const [row] = await db
+      .insert(scoreModels)
+      .values({ ...this.toRow(input), editTokenHash: editToken.hash })
+      .returning();
+
+    return { ...this.toSavedModel(row), editToken: editToken.token };
+  }
+
+  async updateModel(id: string, editToken: string | undefined, input: ScoreModelInput): Promise<SavedScoreModel | null> {
+    if (!isSavedScreenId(id) || !(await this.authorize(id, editToken))) return null;
+
+    const [row] = await db
+      .update(scoreModels)
+      .set({ ...this.toRow(input), updatedAt: new Date() })
+      .where(and(eq(scoreModels.id, id), eq(scoreModels.editTokenHash, hashEditToken(editToken!))))
+      .returning();
+
+    return row ? this.toSavedModel(row) : null;
+  }
+
+  async deleteModel(id: string, editToken: string | undefined): Promise<boolean> {
+    if (!isSavedScreenId(id) || !(await this.authorize(id, editToken))) return false;
+
+    const deleted = await db
+      .delete(scoreModels)
+      .where(and(eq(scoreModels.id, id), eq(scoreModels.editTokenHash, hashEditToken(editToken!))))
+      .returning({ id: scoreModels.id });
+
+    return deleted.length > 0;
+  }
+
+  // Resolve a filter's scoreModel reference: inline model, built-in id or saved id
+  async resolveModel(ref: string | ScoreModel): Promise<ScoreModel> {
+    if (typeof ref !== 'string') return ref;
+
+    const builtIn = SCORE_MODELS[ref];
+    if (builtIn) return { id: ref, ...builtIn };
+
+    const saved = isSavedScreenId(ref) && await checkDbConnection() ? await this.getModel(ref) : null;
+    if (!saved) {
+      throw new ScoreModelError(`Unknown score model: ${ref}`);
+    }
+    return saved;
+  }
+
+  // False when the model doesn't exist; throws EditTokenError when the token
+  // doesn't match (models saved before edit tokens have none and are read-only)
+  private async authorize(id: string, editToken: string | undefined): Promise<boolean> {
+    const [row] = await db
+      .select({ editTokenHash: scoreModels.editTokenHash })
+      .from(scoreModels)
+      .where(eq(scoreModels.id, id))
+      .limit(1);
+
+    if (!row) return false;
+    if (!editToken || !row.editTokenHash || row.editTokenHash !== hashEditToken(editToken)) {
+      throw new EditTokenError();
+    }
+    return true;
+  }
+
+  private toRow(input: ScoreModelInput) {
+    return {
+      name: input.name,
+      description: input.description ?? null,
+      rankWithin: input.rankWithin,
+      groups: input.groups,
+      isPublic: input.isPublic,
+    };
+  }
+
+  private toSavedModel(row: ScoreModelRow): SavedScoreModel {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      rankWithin: row.rankWithin === 'sector' ? 'sector' : 'universe',
+      groups: row.groups as ScoreFactorGroup[],
+      isPublic: row.isPublic ?? false,
+      createdAt: (row.createdAt ?? new Date()).toISOString(),
+      updatedAt: (row.updatedAt ?? new Date()).toISOString(),
+    };
+  }
+}
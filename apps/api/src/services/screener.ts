@@ -1,23 +1,73 @@
 import { redis, REDIS_KEYS, REDIS_TTL } from '../lib/redis';
-import { db } from '../db';
-import { latestSnapshot } from '../db/schema';
-import { MassiveClient } from '../clients/massive';
-import { desc, asc, gt, gte, lt, lte, eq, and, sql } from 'drizzle-orm';
+import { db, isConnectionError, isDataError } from '../db';
+import { latestSnapshot, tickers, companyDetails, dailyPrices, dailyIndicators } from '../db/schema';
+import type { PgSelect } from 'drizzle-orm/pg-core';
+import { marketData, type MarketDataProvider } from '../providers';
+import { ScoreModelService } from './score-models';
+import { priceAdjustmentService } from './price-adjustment';
+import { parametricIndicatorService, IndicatorFieldError } from './parametric-indicators';
+import { desc, asc, gt, gte, lt, lte, eq, ne, and, or, inArray, notInArray, sql, getTableColumns, type SQL } from 'drizzle-orm';
+import {
+  FIELD_REGISTRY,
+  INDICATOR_FIELDS,
+  SCREENER_FIELDS,
+  isFilterGroup,
+  isFieldReference,
+  isExpressionCondition,
+  isCategoricalCondition,
+  isWindowCondition,
+  isParametricField,
+  parseExpression,
+  evaluateExpression,
+  getExpressionFields,
+  ExpressionError,
+} from '@screener/shared';
 import type { 
   ScreenerFilter, 
   ScreenerResult, 
   StockIndicators,
   FilterCondition,
-  FilterOperator 
+  ExpressionCondition,
+  CategoricalCondition,
+  CategoricalField,
+  WindowCondition,
+  HistoryField,
+  CategoryValueCount,
+  ExpressionNode,
+  FilterNode,
+  FilterOperator,
+  FilterValue,
+  FieldReference,
+  ConditionField,
+  ScoreModel,
 } from '@screener/shared';
 
-// Fields that require indicator API calls
-const INDICATOR_FIELDS = ['rsi14', 'sma20', 'sma50', 'sma200', 'ema12', 'ema26', 'macd'] as const;
 // Fields available from snapshot
 const BASIC_FIELDS = ['price', 'volume', 'changePercent'] as const;
 
+// latest_snapshot column for each registered screener field
+const snapshotColumns: Record<string, any> = getTableColumns(latestSnapshot);
+const SNAPSHOT_FIELD_COLUMNS: Record<string, any> = Object.fromEntries(
+  SCREENER_FIELDS.map(field => [field, snapshotColumns[FIELD_REGISTRY[field].column]])
+);
+
+// Where condition columns come from: latest_snapshot for live screens, or
+// daily_prices / daily_indicators as of a past session for backtests
+interface ConditionSource {
+  symbol: typeof latestSnapshot.symbol | typeof dailyPrices.symbol;
+  getColumn: (field: string) => any;
+  asOf?: string; // Last session visible to time-window conditions (default: latest history)
+}
+
+export class WindowConditionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WindowConditionError';
+  }
+}
+
 export class ScreenerService {
-  private massiveClient: MassiveClient;
+  private marketData: MarketDataProvider;
   private snapshotCache: StockIndicators[] = [];
   private lastFetchTime: number = 0;
   private cacheTTL = 60000; // 1 minute in-memory cache
@@ -25,10 +75,16 @@ export class ScreenerService {
   private indicatorCacheTime: Map<string, number> = new Map();
   private indicatorCacheTTL = 300000; // 5 minute indicator cache
   private tickerDetailsCache: Map<string, { logo?: string; name?: string }> = new Map();
+  private expressionCache: Map<string, ExpressionNode> = new Map();
+  private scoreModelService = new ScoreModelService();
   private useDatabase: boolean;
+  private snapshotSource: ConditionSource = {
+    symbol: latestSnapshot.symbol,
+    getColumn: (field) => this.getDBColumn(field),
+  };
 
   constructor() {
-    this.massiveClient = new MassiveClient();
+    this.marketData = marketData;
     // Use database if DATABASE_URL is set
     this.useDatabase = !!process.env.DATABASE_URL;
     
@@ -54,42 +110,78 @@ export class ScreenerService {
   async runScreenerFromDB(
     filter: ScreenerFilter,
     page: number = 1,
-    pageSize: number = 50
+    pageSize: number = 50,
+    scoreModel?: ScoreModel
   ): Promise<ScreenerResult> {
     // Build WHERE conditions from filter
-    const conditions = this.buildDBConditions(filter.conditions);
-    
-    // Apply special preset logic
-    const presetConditions = this.getPresetDBConditions(filter.id);
-    const allConditions = [...conditions, ...presetConditions].filter(Boolean);
+    const source = await this.getScreenSource(filter);
+    const conditions = this.buildDBConditions(filter.conditions, source);
+
+    // Composite scores are ranked over the whole universe, then joined in
+    const scores = scoreModel ? this.buildScoreSubquery(scoreModel) : undefined;
+    if (scores && filter.minScore !== undefined) {
+      conditions.push(gte(scores.score, filter.minScore));
+    }
+    const withScores = <T extends PgSelect>(query: T) =>
+      scores ? query.leftJoin(scores, eq(scores.symbol, latestSnapshot.symbol)) : query;
     
     // Query with filters
-    const whereClause = allConditions.length > 0 ? and(...allConditions) : undefined;
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
     
     // Get total count
-    const [countResult] = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(latestSnapshot)
-      .where(whereClause);
+    const [countResult] = await withScores(this.withCategoryJoins(
+      db.select({ count: sql<number>`count(*)` }).from(latestSnapshot).$dynamic()
+    )).where(whereClause);
     
     const total = Number(countResult?.count || 0);
     
-    // Get paginated results with custom sorting for certain presets
-    const sortExpression = this.getPresetDBSortExpression(filter.id, filter.sortBy, filter.sortOrder);
+    // Get paginated results, sorted by field, score or computed expression
+    const sortExpression = filter.sortBy === 'score' && scores && !filter.sortExpression
+      ? (filter.sortOrder === 'asc'
+        ? sql`${scores.score} ASC NULLS LAST`
+        : sql`${scores.score} DESC NULLS LAST`)
+      : this.getDBSortExpression(filter);
+
+    // Computed columns are selected as a single JSON array, in column order
+    const columns = filter.columns || [];
+    const computedSelect = columns.length > 0
+      ? sql<Array<number | null>>`json_build_array(${sql.join(
+          columns.map(column => this.compileExpression(this.getExpression(column.expression))),
+          sql`, `
+        )})`
+      : sql<null>`NULL`;
     
-    const rows = await db
-      .select()
-      .from(latestSnapshot)
+    const rows = await withScores(this.withCategoryJoins(
+      db
+        .select({
+          snapshot: latestSnapshot,
+          computed: computedSelect,
+          score: scores ? sql<number | null>`${scores.score}` : sql<null>`NULL`,
+          sector: this.getDBCategoryColumn('sector'),
+          industry: this.getDBCategoryColumn('industry'),
+          sectorKey: this.getDBCategoryColumn('sectorKey'),
+          primaryExchange: this.getDBCategoryColumn('primaryExchange'),
+          type: this.getDBCategoryColumn('type'),
+        })
+        .from(latestSnapshot)
+        .$dynamic()
+    ))
       .where(whereClause)
       .orderBy(sortExpression)
       .limit(pageSize)
       .offset((page - 1) * pageSize);
     
     // Map to StockIndicators format
-    const stocks: StockIndicators[] = rows.map(row => ({
+    const stocks: StockIndicators[] = rows.map(({ snapshot: row, computed, score, ...categories }) => ({
       symbol: row.symbol,
       name: row.name || undefined,
       logo: row.logoUrl || undefined,
+      // Classification
+      sector: categories.sector || undefined,
+      industry: categories.industry || undefined,
+      sectorKey: categories.sectorKey || undefined,
+      primaryExchange: categories.primaryExchange || undefined,
+      type: categories.type || undefined,
       price: row.price,
       volume: row.volume,
       changePercent: row.changePercent || 0,
@@ -112,6 +204,46 @@ export class ScreenerService {
         signal: row.macdSignal || 0,
         histogram: row.macdHistogram || 0,
       } : undefined,
+      macdHistogram: row.macdHistogram ?? undefined,
+      bbUpper: row.bbUpper ?? undefined,
+      bbMiddle: row.bbMiddle ?? undefined,
+      bbLower: row.bbLower ?? undefined,
+      bbPercentB: row.bbPercentB ?? undefined,
+      bbBandwidth: row.bbBandwidth ?? undefined,
+      atr14: row.atr14 ?? undefined,
+      atrPercent: row.atrPercent ?? undefined,
+      stochK: row.stochK ?? undefined,
+      stochD: row.stochD ?? undefined,
+      adx14: row.adx14 ?? undefined,
+      plusDi: row.plusDi ?? undefined,
+      minusDi: row.minusDi ?? undefined,
+      obv: row.obv ?? undefined,
+      mfi14: row.mfi14 ?? undefined,
+      cci20: row.cci20 ?? undefined,
+      williamsR: row.williamsR ?? undefined,
+      // Candlestick patterns (sessions since last formed)
+      dojiAge: row.dojiAge ?? undefined,
+      hammerAge: row.hammerAge ?? undefined,
+      shootingStarAge: row.shootingStarAge ?? undefined,
+      bullishEngulfingAge: row.bullishEngulfingAge ?? undefined,
+      bearishEngulfingAge: row.bearishEngulfingAge ?? undefined,
+      morningStarAge: row.morningStarAge ?? undefined,
+      eveningStarAge: row.eveningStarAge ?? undefined,
+      threeWhiteSoldiersAge: row.threeWhiteSoldiersAge ?? undefined,
+      insideBarAge: row.insideBarAge ?? undefined,
+      // Risk & return
+      volatility20: row.volatility20 ?? undefined,
+      volatility60: row.volatility60 ?? undefined,
+      volatility252: row.volatility252 ?? undefined,
+      maxDrawdown: row.maxDrawdown ?? undefined,
+      downsideDeviation: row.downsideDeviation ?? undefined,
+      sharpeRatio: row.sharpeRatio ?? undefined,
+      sortinoRatio: row.sortinoRatio ?? undefined,
+      benchmarkBeta: row.benchmarkBeta ?? undefined,
+      benchmarkCorrelation: row.benchmarkCorrelation ?? undefined,
+      // Relative strength
+      rsRating: row.rsRating ?? undefined,
+      rsVsBenchmark: row.rsVsBenchmark ?? undefined,
       // Valuation
       marketCap: row.marketCap || undefined,
       peRatio: row.peRatio || undefined,
@@ -151,6 +283,16 @@ export class ScreenerService {
       // Ownership
       insidersPercentHeld: row.insidersPercentHeld || undefined,
       institutionsPercentHeld: row.institutionsPercentHeld || undefined,
+      // Fundamental scores (0 is a valid F-Score)
+      piotroskiScore: row.piotroskiScore ?? undefined,
+      altmanZScore: row.altmanZScore ?? undefined,
+      beneishMScore: row.beneishMScore ?? undefined,
+      grahamNumber: row.grahamNumber ?? undefined,
+      // Computed columns
+      computed: computed
+        ? Object.fromEntries(columns.map((column, i) => [column.key, computed[i] ?? null]))
+        : undefined,
+      score: score === null ? undefined : Number(score),
       // Metadata
       financialsLastSync: row.financialsLastSync?.toISOString(),
       ratiosLastSync: row.ratiosLastSync?.toISOString(),
@@ -167,202 +309,473 @@ export class ScreenerService {
     };
   }
 
-  private buildDBConditions(conditions: FilterCondition[]) {
-    return conditions.map(condition => {
-      const column = this.getDBColumn(condition.field);
-      if (!column) return null;
-      
+  private buildDBConditions(nodes: FilterNode[], source: ConditionSource = this.snapshotSource): SQL[] {
+    return nodes
+      .map(node => isFilterGroup(node)
+        ? this.buildDBGroup(node.conditions, node.combinator, node.negate, source)
+        : this.buildDBCondition(node, source))
+      .filter((condition): condition is SQL => !!condition);
+  }
+
+  // Filter conditions evaluated against daily history as of a past session.
+  // Callers select from daily_prices joined to daily_indicators on symbol/date
+  // (plus tickers / company_details for categorical fields).
+  buildAsOfConditions(nodes: FilterNode[], asOf: string): SQL[] {
+    return this.buildDBConditions(nodes, {
+      symbol: dailyPrices.symbol,
+      getColumn: (field) => this.getDBHistoryColumn(field),
+      asOf,
+    });
+  }
+
+  // Combine a condition group; empty groups are ignored (match everything)
+  private buildDBGroup(
+    nodes: FilterNode[],
+    combinator: 'and' | 'or',
+    negate: boolean | undefined,
+    source: ConditionSource
+  ): SQL | undefined {
+    const children = this.buildDBConditions(nodes, source);
+    if (children.length === 0) return undefined;
+
+    const combined = combinator === 'or' ? or(...children) : and(...children);
+    if (!combined || !negate) return combined;
+
+    // Treat NULL comparisons as false before negating, matching the in-memory evaluator
+    return sql`NOT COALESCE(${combined}, FALSE)`;
+  }
+
+  private buildDBCondition(
+    condition: FilterCondition | ExpressionCondition | CategoricalCondition | WindowCondition,
+    source: ConditionSource
+  ): SQL | undefined {
+    if (isCategoricalCondition(condition)) {
+      return this.buildDBCategoryCondition(condition);
+    }
+    if (isWindowCondition(condition)) {
+      return this.buildDBWindowCondition(condition, source);
+    }
+
+    const column = isExpressionCondition(condition)
+      ? this.compileExpression(this.getExpression(condition.expression), source)
+      : source.getColumn(condition.field);
+    if (!column) return undefined;
+    
+    const value = condition.value;
+
+    if (Array.isArray(value)) {
+      if (condition.operator !== 'between') return undefined;
+      const [min, max] = value;
+      return and(gte(column, min), lte(column, max));
+    }
+
+    // Field-to-field comparison: column <op> multiplier * other column
+    let target: number | SQL = value as number;
+    if (isFieldReference(value)) {
+      const refColumn = source.getColumn(value.field);
+      if (!refColumn) return undefined;
+      target = value.multiplier !== undefined && value.multiplier !== 1
+        ? sql`${refColumn} * ${value.multiplier}`
+        : sql`${refColumn}`;
+    }
+    
+    switch (condition.operator) {
+      case 'gt': return gt(column, target);
+      case 'gte': return gte(column, target);
+      case 'lt': return lt(column, target);
+      case 'lte': return lte(column, target);
+      case 'eq': return eq(column, target);
+      case 'neq': return ne(column, target);
+      default: return undefined;
+    }
+  }
+
+  private buildDBCategoryCondition(condition: CategoricalCondition): SQL | undefined {
+    const column = this.getDBCategoryColumn(condition.field);
+    const values = condition.value.filter(value => value.length > 0);
+    if (values.length === 0) return undefined;
+
+    switch (condition.operator) {
+      case 'in': return inArray(column, values);
+      case 'not_in': return notInArray(column, values);
+      case 'contains': {
+        // Escape LIKE wildcards so values match literally
+        const patterns = values.map(value => `%${value.replace(/[\\%_]/g, '\\$&')}%`);
+        return or(...patterns.map(pattern => sql`${column} ILIKE ${pattern}`));
+      }
+      default: return undefined;
+    }
+  }
+
+  // Time-window condition: rank each symbol's recent history (latest session = rn 1),
+  // then aggregate over the last `days` sessions. LAG gives the previous session's
+  // values, so the window needs one extra session of history.
+  private buildDBWindowCondition(condition: WindowCondition, source: ConditionSource): SQL | undefined {
+    const series = this.getDBHistoryColumn(condition.field);
+    if (!series) return undefined;
+
+    const days = Math.max(1, Math.floor(condition.days));
+    // Sessions -> calendar days, with slack for weekends and holidays
+    const calendarDays = Math.ceil((days + 1) * 7 / 5) + 10;
+
+    let target: SQL = sql`NULL`;
+    if (condition.operator === 'crossed_above' || condition.operator === 'crossed_below') {
       const value = condition.value;
-      
-      switch (condition.operator) {
-        case 'gt': return gt(column, value as number);
-        case 'gte': return gte(column, value as number);
-        case 'lt': return lt(column, value as number);
-        case 'lte': return lte(column, value as number);
-        case 'eq': return eq(column, value as number);
-        case 'between': {
-          const [min, max] = value as [number, number];
-          return and(gte(column, min), lte(column, max));
-        }
-        default: return null;
+      if (value === undefined) return undefined;
+      if (isFieldReference(value)) {
+        const refColumn = this.getDBHistoryColumn(value.field);
+        if (!refColumn) return undefined;
+        target = sql`${refColumn} * ${value.multiplier ?? 1}`;
+      } else {
+        target = sql`${value}`;
       }
-    }).filter(Boolean);
+    }
+
+    let having: SQL;
+    switch (condition.operator) {
+      case 'crossed_above':
+        having = sql`bool_or(h.value > h.target AND h.prev_value <= h.prev_target)`;
+        break;
+      case 'crossed_below':
+        having = sql`bool_or(h.value < h.target AND h.prev_value >= h.prev_target)`;
+        break;
+      case 'rising_for_n_days':
+        having = sql`count(*) FILTER (WHERE h.value > h.prev_value) = ${days}`;
+        break;
+      case 'falling_for_n_days':
+        having = sql`count(*) FILTER (WHERE h.value < h.prev_value) = ${days}`;
+        break;
+      case 'new_n_day_high':
+        having = sql`count(h.value) = ${days} AND max(h.value) FILTER (WHERE h.rn = 1) >= max(h.value)`;
+        break;
+      case 'new_n_day_low':
+        having = sql`count(h.value) = ${days} AND min(h.value) FILTER (WHERE h.rn = 1) <= min(h.value)`;
+        break;
+      default:
+        return undefined;
+    }
+
+    const lastSession = source.asOf
+      ? sql`${source.asOf}::date`
+      : sql`(SELECT MAX(${dailyPrices.date}) FROM ${dailyPrices})`;
+
+    return sql`${source.symbol} IN (
+      SELECT h.symbol FROM (
+        SELECT
+          ${dailyPrices.symbol} AS symbol,
+          (${series})::double precision AS value,
+          LAG((${series})::double precision) OVER w AS prev_value,
+          (${target})::double precision AS target,
+          LAG((${target})::double precision) OVER w AS prev_target,
+          ROW_NUMBER() OVER (PARTITION BY ${dailyPrices.symbol} ORDER BY ${dailyPrices.date} DESC) AS rn
+        FROM ${dailyPrices}
+        LEFT JOIN ${dailyIndicators}
+          ON ${dailyIndicators.symbol} = ${dailyPrices.symbol} AND ${dailyIndicators.date} = ${dailyPrices.date}
+        WHERE ${dailyPrices.date} <= ${lastSession}
+          AND ${dailyPrices.date} >= ${lastSession} - ${calendarDays}::int
+        WINDOW w AS (PARTITION BY ${dailyPrices.symbol} ORDER BY ${dailyPrices.date})
+      ) h
+      WHERE h.rn <= ${days}
+      GROUP BY h.symbol
+      HAVING ${having}
+    )`;
+  }
+
+  // History columns for time-window conditions - prices from daily_prices, indicators from daily_indicators.
+  // Prices and volumes are split-adjusted to match the indicators computed from them.
+  private getDBHistoryColumn(field: string) {
+    const splitFactor = priceAdjustmentService.splitFactor(dailyPrices.symbol, dailyPrices.date);
+    const columnMap: Record<HistoryField, any> = {
+      price: sql`(${dailyPrices.close} * ${splitFactor})`,
+      volume: sql`(${dailyPrices.volume} / ${splitFactor})`,
+      changePercent: dailyPrices.changePercent,
+      rsi14: dailyIndicators.rsi14,
+      sma20: dailyIndicators.sma20,
+      sma50: dailyIndicators.sma50,
+      sma200: dailyIndicators.sma200,
+      ema12: dailyIndicators.ema12,
+      ema26: dailyIndicators.ema26,
+      macdHistogram: dailyIndicators.macdHistogram,
+      bbUpper: dailyIndicators.bbUpper,
+      bbLower: dailyIndicators.bbLower,
+      bbPercentB: dailyIndicators.bbPercentB,
+      bbBandwidth: dailyIndicators.bbBandwidth,
+      atr14: dailyIndicators.atr14,
+      atrPercent: dailyIndicators.atrPercent,
+      stochK: dailyIndicators.stochK,
+      stochD: dailyIndicators.stochD,
+      adx14: dailyIndicators.adx14,
+      plusDi: dailyIndicators.plusDi,
+      minusDi: dailyIndicators.minusDi,
+      obv: dailyIndicators.obv,
+      mfi14: dailyIndicators.mfi14,
+      cci20: dailyIndicators.cci20,
+      williamsR: dailyIndicators.williamsR,
+    };
+    return columnMap[field as HistoryField];
+  }
+
+  // Categorical columns come from joined tables. tickers.sector/industry are
+  // not populated by the Polygon sync, so fall back to the Yahoo profile.
+  private getDBCategoryColumn(field: CategoricalField): SQL<string | null> {
+    switch (field) {
+      case 'sector': return sql<string | null>`COALESCE(${tickers.sector}, ${companyDetails.sector})`;
+      case 'industry': return sql<string | null>`COALESCE(${tickers.industry}, ${companyDetails.industry})`;
+      case 'sectorKey': return sql<string | null>`${companyDetails.sectorKey}`;
+      case 'primaryExchange': return sql<string | null>`${tickers.primaryExchange}`;
+      case 'type': return sql<string | null>`${tickers.type}`;
+    }
+  }
+
+  // Join the tables that categorical columns read from
+  private withCategoryJoins<T extends PgSelect>(query: T) {
+    return query
+      .leftJoin(tickers, eq(tickers.symbol, latestSnapshot.symbol))
+      .leftJoin(companyDetails, eq(companyDetails.symbol, latestSnapshot.symbol));
+  }
+
+  // List distinct values of a categorical field with stock counts (cached)
+  async getCategoryValues(field: CategoricalField): Promise<CategoryValueCount[]> {
+    const cacheKey = `${REDIS_KEYS.CATEGORY_VALUES}${field}`;
+
+    try {
+      const cached = await redis.get(cacheKey);
+      if (cached) {
+        return JSON.parse(cached);
+      }
+    } catch {
+      // Redis might not be connected, continue without cache
+    }
+
+    const column = this.getDBCategoryColumn(field);
+    const rows = await this.withCategoryJoins(
+      db
+        .select({ value: column, count: sql<number>`count(*)` })
+        .from(latestSnapshot)
+        .$dynamic()
+    )
+      .where(sql`${column} IS NOT NULL AND ${column} <> ''`)
+      .groupBy(column)
+      .orderBy(sql`count(*) DESC`);
+
+    const values: CategoryValueCount[] = rows.map(row => ({
+      value: row.value as string,
+      count: Number(row.count),
+    }));
+
+    try {
+      await redis.setex(cacheKey, REDIS_TTL.CATEGORY_VALUES, JSON.stringify(values));
+    } catch { /* ignore */ }
+
+    return values;
   }
 
   private getDBColumn(field: string) {
-    const columnMap: Record<string, any> = {
-      // Price & Volume
-      price: latestSnapshot.price,
-      volume: latestSnapshot.volume,
-      changePercent: latestSnapshot.changePercent,
-      averageVolume: latestSnapshot.averageVolume,
-      fiftyTwoWeekHigh: latestSnapshot.fiftyTwoWeekHigh,
-      fiftyTwoWeekLow: latestSnapshot.fiftyTwoWeekLow,
-      // Technical Indicators
-      rsi14: latestSnapshot.rsi14,
-      sma20: latestSnapshot.sma20,
-      sma50: latestSnapshot.sma50,
-      sma200: latestSnapshot.sma200,
-      ema12: latestSnapshot.ema12,
-      ema26: latestSnapshot.ema26,
-      fiftyDayAverage: latestSnapshot.fiftyDayAverage,
-      twoHundredDayAverage: latestSnapshot.twoHundredDayAverage,
-      beta: latestSnapshot.beta,
-      // Valuation
-      marketCap: latestSnapshot.marketCap,
-      peRatio: latestSnapshot.peRatio,
-      forwardPE: latestSnapshot.forwardPe,
-      pbRatio: latestSnapshot.pbRatio,
-      psRatio: latestSnapshot.psRatio,
-      pegRatio: latestSnapshot.pegRatio,
-      evToEbitda: latestSnapshot.evToEbitda,
-      evToRevenue: latestSnapshot.evToRevenue,
-      // Profitability
-      grossMargin: latestSnapshot.grossMargin,
-      operatingMargin: latestSnapshot.operatingMargin,
-      ebitdaMargin: latestSnapshot.ebitdaMargin,
-      netMargin: latestSnapshot.netMargin,
-      roe: latestSnapshot.roe,
-      roa: latestSnapshot.roa,
-      // Growth
-      revenueGrowthYoy: latestSnapshot.revenueGrowthYoy,
-      revenueGrowthQuarterly: latestSnapshot.revenueGrowthQuarterly,
-      epsGrowthYoy: latestSnapshot.epsGrowthYoy,
-      earningsGrowthQuarterly: latestSnapshot.earningsGrowthQuarterly,
-      // Financial health
-      debtToEquity: latestSnapshot.debtToEquity,
-      currentRatio: latestSnapshot.currentRatio,
-      quickRatio: latestSnapshot.quickRatio,
-      // Dividends
-      dividendYield: latestSnapshot.dividendYield,
-      // Short interest
-      shortRatio: latestSnapshot.shortRatio,
-      shortPercentOfFloat: latestSnapshot.shortPercentOfFloat,
-      // Analyst data
-      targetMeanPrice: latestSnapshot.targetMeanPrice,
-      targetHighPrice: latestSnapshot.targetHighPrice,
-      targetLowPrice: latestSnapshot.targetLowPrice,
-      numberOfAnalysts: latestSnapshot.numberOfAnalysts,
-      recommendationMean: latestSnapshot.recommendationMean,
-      // Ownership
-      insidersPercentHeld: latestSnapshot.insidersPercentHeld,
-      institutionsPercentHeld: latestSnapshot.institutionsPercentHeld,
+    return SNAPSHOT_FIELD_COLUMNS[field];
+  }
+
+  // Snapshot columns, plus parameterised indicators such as sma(10) when the
+  // filter uses any (computed for the latest session and cached first)
+  private async getScreenSource(filter: ScreenerFilter): Promise<ConditionSource> {
+    const parametricFields = this.getFilterFields(filter.conditions).filter(isParametricField);
+    if (parametricFields.length === 0) return this.snapshotSource;
+
+    const session = await parametricIndicatorService.ensureComputed(parametricFields);
+    return {
+      symbol: latestSnapshot.symbol,
+      getColumn: (field) => isParametricField(field)
+        ? parametricIndicatorService.column(field, latestSnapshot.symbol, session)
+        : this.getDBColumn(field),
     };
-    return columnMap[field];
   }
 
   private getDBSortColumn(field: string) {
     return this.getDBColumn(field) || latestSnapshot.volume;
   }
 
-  // Get custom sort expressions for presets that need computed metrics
-  private getPresetDBSortExpression(presetId: string, defaultSortBy?: string, defaultSortOrder?: 'asc' | 'desc') {
-    switch (presetId) {
-      case 'highUpside':
-      case 'undervalued':
-        // Sort by upside percentage: (target_mean_price / price - 1) DESC
-        return sql`CASE WHEN ${latestSnapshot.price} > 0 AND ${latestSnapshot.targetMeanPrice} IS NOT NULL 
-          THEN (${latestSnapshot.targetMeanPrice} / ${latestSnapshot.price}) ELSE 0 END DESC`;
-      
-      case 'near52WeekLow':
-        // Sort by proximity to 52-week low: (price / fifty_two_week_low - 1) ASC (closest to low first)
-        return sql`CASE WHEN ${latestSnapshot.fiftyTwoWeekLow} > 0 
-          THEN (${latestSnapshot.price} / ${latestSnapshot.fiftyTwoWeekLow}) ELSE 999 END ASC`;
-      
-      case 'near52WeekHigh':
-        // Sort by proximity to 52-week high: (1 - price / fifty_two_week_high) ASC (closest to high first)
-        return sql`CASE WHEN ${latestSnapshot.fiftyTwoWeekHigh} > 0 
-          THEN (1 - ${latestSnapshot.price} / ${latestSnapshot.fiftyTwoWeekHigh}) ELSE 999 END ASC`;
-      
-      default:
-        // Use standard sorting
-        const sortColumn = this.getDBSortColumn(defaultSortBy || 'volume');
-        return defaultSortOrder === 'asc' ? asc(sortColumn) : desc(sortColumn);
-    }
-  }
-
-  private getPresetDBConditions(presetId: string): any[] {
-    switch (presetId) {
-      case 'goldenCross':
-        // Price > SMA50 > SMA200
-        return [
-          sql`${latestSnapshot.sma50} IS NOT NULL`,
-          sql`${latestSnapshot.sma200} IS NOT NULL`,
-          sql`${latestSnapshot.price} > ${latestSnapshot.sma50}`,
-          sql`${latestSnapshot.sma50} > ${latestSnapshot.sma200}`,
-        ];
-      case 'deathCross':
-        return [
-          sql`${latestSnapshot.sma50} IS NOT NULL`,
-          sql`${latestSnapshot.sma200} IS NOT NULL`,
-          sql`${latestSnapshot.price} < ${latestSnapshot.sma50}`,
-          sql`${latestSnapshot.sma50} < ${latestSnapshot.sma200}`,
-        ];
-      case 'aboveSma200':
-        return [
-          sql`${latestSnapshot.sma200} IS NOT NULL`,
-          sql`${latestSnapshot.price} > ${latestSnapshot.sma200}`,
-        ];
-      case 'belowSma200':
-        return [
-          sql`${latestSnapshot.sma200} IS NOT NULL`,
-          sql`${latestSnapshot.price} < ${latestSnapshot.sma200}`,
-        ];
-      case 'emaCrossover':
-        return [
-          sql`${latestSnapshot.ema12} IS NOT NULL`,
-          sql`${latestSnapshot.ema26} IS NOT NULL`,
-          sql`${latestSnapshot.ema12} > ${latestSnapshot.ema26}`,
-        ];
-      case 'uptrend':
-        return [
-          sql`${latestSnapshot.sma50} IS NOT NULL`,
-          sql`${latestSnapshot.sma200} IS NOT NULL`,
-          sql`${latestSnapshot.price} > ${latestSnapshot.sma50}`,
-          sql`${latestSnapshot.price} > ${latestSnapshot.sma200}`,
-        ];
-      case 'downtrend':
-        return [
-          sql`${latestSnapshot.sma50} IS NOT NULL`,
-          sql`${latestSnapshot.sma200} IS NOT NULL`,
-          sql`${latestSnapshot.price} < ${latestSnapshot.sma50}`,
-          sql`${latestSnapshot.price} < ${latestSnapshot.sma200}`,
-        ];
-      case 'macdBullish':
-        // MACD histogram positive
-        return [
-          sql`${latestSnapshot.macdHistogram} IS NOT NULL`,
-          sql`${latestSnapshot.macdHistogram} > 0`,
-        ];
-      case 'near52WeekLow':
-        // Price within 10% of 52-week low
-        return [
-          sql`${latestSnapshot.fiftyTwoWeekLow} IS NOT NULL`,
-          sql`${latestSnapshot.fiftyTwoWeekLow} > 0`,
-          sql`${latestSnapshot.price} <= ${latestSnapshot.fiftyTwoWeekLow} * 1.10`,
-        ];
-      case 'near52WeekHigh':
-        // Price within 5% of 52-week high
-        return [
-          sql`${latestSnapshot.fiftyTwoWeekHigh} IS NOT NULL`,
-          sql`${latestSnapshot.fiftyTwoWeekHigh} > 0`,
-          sql`${latestSnapshot.price} >= ${latestSnapshot.fiftyTwoWeekHigh} * 0.95`,
-        ];
-      case 'highUpside':
-        // Target price at least 20% above current price
-        return [
-          sql`${latestSnapshot.targetMeanPrice} IS NOT NULL`,
-          sql`${latestSnapshot.targetMeanPrice} > ${latestSnapshot.price} * 1.20`,
-        ];
-      case 'undervalued':
-        // Price below target mean price
-        return [
-          sql`${latestSnapshot.targetMeanPrice} IS NOT NULL`,
-          sql`${latestSnapshot.price} < ${latestSnapshot.targetMeanPrice}`,
-        ];
-      default:
-        return [];
+  // Sort by the filter's computed expression (nulls last) or by a plain column
+  private getDBSortExpression(filter: ScreenerFilter) {
+    if (filter.sortExpression) {
+      const expression = this.compileExpression(this.getExpression(filter.sortExpression));
+      return filter.sortOrder === 'asc'
+        ? sql`${expression} ASC NULLS LAST`
+        : sql`${expression} DESC NULLS LAST`;
+    }
+
+    const sortColumn = this.getDBSortColumn(filter.sortBy || 'volume');
+    return filter.sortOrder === 'asc' ? asc(sortColumn) : desc(sortColumn);
+  }
+
+  // ============================================
+  // Computed expressions
+  // ============================================
+
+  // Parse (and memoize) an expression string
+  private getExpression(source: string): ExpressionNode {
+    let node = this.expressionCache.get(source);
+    if (!node) {
+      node = parseExpression(source);
+      this.expressionCache.set(source, node);
+    }
+    return node;
+  }
+
+  // Compile an expression AST to SQL. Division by zero and out-of-domain
+  // math produce NULL, matching evaluateExpression() in the API path.
+  private compileExpression(node: ExpressionNode, source: ConditionSource = this.snapshotSource): SQL {
+    switch (node.type) {
+      case 'number':
+        return sql`${node.value}::double precision`;
+
+      case 'field': {
+        const column = source.getColumn(node.field);
+        if (!column) {
+          throw new ExpressionError(`Field '${node.field}' is not available for screening`);
+        }
+        return sql`${column}::double precision`;
+      }
+
+      case 'negate':
+        return sql`(-${this.compileExpression(node.operand, source)})`;
+
+      case 'binary': {
+        const left = this.compileExpression(node.left, source);
+        const right = this.compileExpression(node.right, source);
+        if (node.operator === '/') {
+          return sql`(${left} / NULLIF(${right}, 0))`;
+        }
+        // Operator comes from the parser's fixed set, so raw interpolation is safe
+        return sql`(${left} ${sql.raw(node.operator)} ${right})`;
+      }
+
+      case 'call': {
+        const args = node.args.map(arg => this.compileExpression(arg, source));
+        const argList = sql.join(args, sql`, `);
+        switch (node.fn) {
+          case 'abs': return sql`ABS(${args[0]})`;
+          case 'sqrt': return sql`(CASE WHEN ${args[0]} >= 0 THEN SQRT(${args[0]}) END)`;
+          case 'ln': return sql`(CASE WHEN ${args[0]} > 0 THEN LN(${args[0]}) END)`;
+          // LEAST/GREATEST skip NULLs; require every argument like the JS evaluator
+          case 'min': return sql`(CASE WHEN num_nulls(${argList}) = 0 THEN LEAST(${argList}) END)`;
+          case 'max': return sql`(CASE WHEN num_nulls(${argList}) = 0 THEN GREATEST(${argList}) END)`;
+        }
+      }
+    }
+  }
+
+  // ============================================
+  // Composite scores
+  // ============================================
+
+  // (symbol, score) over the whole latest_snapshot universe, so a stock's score
+  // does not depend on the filter it is combined with. Each factor is a
+  // percent_rank (nulls ranked separately and then dropped), averaged within
+  // its group; groups are weighted over those with at least one value.
+  private buildScoreSubquery(model: ScoreModel) {
+    const factors = model.groups.flatMap((group, g) =>
+      group.factors.map((factor, f) => ({ ...factor, key: `g${g}f${f}` }))
+    );
+    const sector = this.getDBCategoryColumn('sector');
+
+    const ranks = this.withCategoryJoins(
+      db
+        .select({
+          symbol: latestSnapshot.symbol,
+          ...Object.fromEntries(factors.map(factor => {
+            const column = this.getDBColumn(factor.field);
+            const partition = model.rankWithin === 'sector'
+              ? sql`${sector}, ${column} IS NULL`
+              : sql`${column} IS NULL`;
+            const order = factor.higherIsBetter ? sql`ASC` : sql`DESC`;
+            return [
+              factor.key,
+              sql<number | null>`CASE WHEN ${column} IS NULL THEN NULL ELSE percent_rank() OVER (PARTITION BY ${partition} ORDER BY ${column} ${order}) END`.as(factor.key),
+            ];
+          })),
+        })
+        .from(latestSnapshot)
+        .$dynamic()
+    ).as('factor_ranks');
+
+    const rank = (key: string) => (ranks as unknown as Record<string, SQL.Aliased<number | null>>)[key];
+
+    const groupScores = model.groups.map((group, g) => {
+      const columns = group.factors.map((_, f) => rank(`g${g}f${f}`));
+      return {
+        weight: group.weight,
+        score: sql`((${sql.join(columns.map(column => sql`COALESCE(${column}, 0)`), sql` + `)})
+          / NULLIF(${sql.join(columns.map(column => sql`(${column} IS NOT NULL)::int`), sql` + `)}, 0))`,
+      };
+    });
+
+    // Weights may be fractional; cast so Postgres doesn't infer integer parameters
+    const weighted = sql.join(groupScores.map(group => sql`${group.weight}::float8 * COALESCE(${group.score}, 0)`), sql` + `);
+    const weights = sql.join(groupScores.map(group => sql`${group.weight}::float8 * (${group.score} IS NOT NULL)::int`), sql` + `);
+
+    return db
+      .select({
+        symbol: ranks.symbol,
+        score: sql<number | null>`100 * (${weighted}) / NULLIF(${weights}, 0)`.as('score'),
+      })
+      .from(ranks)
+      .as('scores');
+  }
+
+  // In-memory equivalent of buildScoreSubquery for the API fallback
+  private computeScores(universe: StockIndicators[], model: ScoreModel): Map<string, number> {
+    const groupRanks = model.groups.map(group => group.factors.map(factor => {
+      const partitions = new Map<string, Array<{ symbol: string; value: number }>>();
+      for (const stock of universe) {
+        const value = stock[factor.field];
+        if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+        const key = model.rankWithin === 'sector' ? stock.sector ?? '' : '';
+        if (!partitions.has(key)) partitions.set(key, []);
+        partitions.get(key)!.push({ symbol: stock.symbol, value });
+      }
+
+      // percent_rank: (rank - 1) / (rows - 1), ties share the lowest rank
+      const ranks = new Map<string, number>();
+      for (const entries of partitions.values()) {
+        entries.sort((a, b) => factor.higherIsBetter ? a.value - b.value : b.value - a.value);
+        let rank = 0;
+        entries.forEach((entry, i) => {
+          if (i > 0 && entry.value !== entries[i - 1].value) rank = i;
+          ranks.set(entry.symbol, entries.length > 1 ? rank / (entries.length - 1) : 0);
+        });
+      }
+      return ranks;
+    }));
+
+    const scores = new Map<string, number>();
+    for (const stock of universe) {
+      let weighted = 0;
+      let weights = 0;
+      model.groups.forEach((group, g) => {
+        const values = groupRanks[g]
+          .map(ranks => ranks.get(stock.symbol))
+          .filter((value): value is number => value !== undefined);
+        if (values.length === 0) return;
+        weighted += group.weight * values.reduce((sum, value) => sum + value, 0) / values.length;
+        weights += group.weight;
+      });
+      if (weights > 0) scores.set(stock.symbol, 100 * weighted / weights);
     }
+    return scores;
+  }
+
+  // Parse every expression in a filter up front so syntax errors surface
+  // as ExpressionError before any query runs
+  private validateExpressions(filter: ScreenerFilter) {
+    const visit = (node: FilterNode): void => {
+      if (isFilterGroup(node)) {
+        node.conditions.forEach(visit);
+      } else if (isExpressionCondition(node)) {
+        this.getExpression(node.expression);
+      }
+    };
+    filter.conditions.forEach(visit);
+    if (filter.sortExpression) this.getExpression(filter.sortExpression);
+    filter.columns?.forEach(column => this.getExpression(column.expression));
   }
 
   // Run screener with given filter
@@ -371,6 +784,11 @@ export class ScreenerService {
     page: number = 1,
     pageSize: number = 50
   ): Promise<ScreenerResult> {
+    this.validateExpressions(filter);
+    const scoreModel = filter.scoreModel
+      ? await this.scoreModelService.resolveModel(filter.scoreModel)
+      : undefined;
+
     // Try to get cached results first
     const cacheKey = `${REDIS_KEYS.SCREENER_RESULTS}${filter.id}:${page}:${pageSize}`;
     
@@ -386,13 +804,18 @@ export class ScreenerService {
     // Use database if available (much faster, pre-computed indicators)
     if (this.useDatabase) {
       try {
-        const result = await this.runScreenerFromDB(filter, page, pageSize);
+        const result = await this.runScreenerFromDB(filter, page, pageSize, scoreModel);
         
         // If database returned 0 results and this preset needs indicators,
         // fall back to API mode (indicators might not be synced yet)
-        if (result.total === 0 && this.presetNeedsIndicators(filter.id)) {
-          console.log(`Preset ${filter.id} returned 0 results from DB, falling back to API...`);
-          return this.runScreenerFromAPI(filter, page, pageSize, cacheKey);
+        if (
+          result.total === 0 &&
+          this.filterNeedsIndicators(filter) &&
+          !this.filterHasParametricFields(filter) &&
+          !this.filterHasWindowConditions(filter.conditions)
+        ) {
+          console.log(`Filter ${filter.id} returned 0 results from DB, falling back to API...`);
+          return this.runScreenerFromAPI(filter, page, pageSize, cacheKey, scoreModel);
         }
         
         // Cache results
@@ -402,7 +825,14 @@ export class ScreenerService {
         
         return result;
       } catch (dbError) {
-        console.error('Database query failed, falling back to API:', dbError);
+        // A failing query (e.g. an expression that overflows) is reported;
+        // only a lost connection falls back to the API
+        if (isDataError(dbError)) {
+          throw new ExpressionError(`Filter could not be evaluated: ${(dbError as Error).message}`);
+        }
+        if (!isConnectionError(dbError)) throw dbError;
+
+        console.error('Database connection failed, falling back to API:', dbError);
         // Disable database for future requests to avoid repeated failures
         this.disableDatabase();
         // Fall through to API-based screener
@@ -410,7 +840,7 @@ export class ScreenerService {
     }
 
     // Fallback: API-based screener (slower, on-demand)
-    return this.runScreenerFromAPI(filter, page, pageSize, cacheKey);
+    return this.runScreenerFromAPI(filter, page, pageSize, cacheKey, scoreModel);
   }
 
   // Original API-based screener (fallback when no database)
@@ -418,14 +848,26 @@ export class ScreenerService {
     filter: ScreenerFilter,
     page: number,
     pageSize: number,
-    cacheKey: string
+    cacheKey: string,
+    scoreModel?: ScoreModel
   ): Promise<ScreenerResult> {
-    // Separate conditions into basic (snapshot) and indicator-based
-    const basicConditions = filter.conditions.filter(c => 
-      (BASIC_FIELDS as readonly string[]).includes(c.field)
+    // Parameterised indicators are computed from daily history, which only the database has
+    if (this.filterHasParametricFields(filter)) {
+      throw new IndicatorFieldError('Parameterised indicators such as sma(10) require the database');
+    }
+    // So do time-window conditions, which matchesNode() cannot evaluate
+    if (this.filterHasWindowConditions(filter.conditions)) {
+      throw new WindowConditionError('Time-window conditions such as crossed_above require the database');
+    }
+
+    // Separate conditions into basic (snapshot) and indicator-based.
+    // Groups are basic only when every field they reference is basic.
+    const basicConditions = filter.conditions.filter(node => 
+      this.getNodeFields(node).every(field => (BASIC_FIELDS as readonly string[]).includes(field))
     );
-    const indicatorConditions = filter.conditions.filter(c => 
-      (INDICATOR_FIELDS as readonly string[]).includes(c.field)
+    const indicatorConditions = filter.conditions.filter(node => 
+      !basicConditions.includes(node) &&
+      this.getNodeFields(node).some(field => (INDICATOR_FIELDS as readonly string[]).includes(field))
     );
 
     // Get all stocks from snapshot
@@ -438,10 +880,7 @@ export class ScreenerService {
 
     console.log(`After basic filter: ${filtered.length} stocks (from ${allStocks.length})`);
 
-    // Check if this preset needs indicator data (either explicit conditions or special logic)
-    const needsIndicators = indicatorConditions.length > 0 || this.presetNeedsIndicators(filter.id);
-    
-    if (needsIndicators) {
+    if (indicatorConditions.length > 0) {
       // Sort by volume to prioritize liquid stocks, take top candidates
       // Use smaller limit to avoid API timeouts and rate limits
       const maxCandidates = 100; // Reduced from 500 to improve API response time
@@ -454,14 +893,9 @@ export class ScreenerService {
         filtered = await this.enrichStocksWithIndicators(filtered);
         
         // Second pass: filter by indicator conditions
-        if (indicatorConditions.length > 0) {
-          filtered = filtered.filter((stock) => 
-            this.matchesFilter(stock, indicatorConditions)
-          );
-        }
-        
-        // Apply special preset logic (price vs SMA comparisons, etc.)
-        filtered = this.applyPresetLogic(filter.id, filtered);
+        filtered = filtered.filter((stock) => 
+          this.matchesFilter(stock, indicatorConditions)
+        );
         
         console.log(`After indicator filter: ${filtered.length} stocks`);
       } catch (indicatorError) {
@@ -471,8 +905,17 @@ export class ScreenerService {
       }
     }
 
-    // Final sort - use custom sorting for certain presets
-    filtered = this.applyPresetSort(filter.id, filtered, filter.sortBy, filter.sortOrder);
+    // Composite scores, ranked over every snapshot stock
+    if (scoreModel) {
+      const scores = this.computeScores(allStocks, scoreModel);
+      filtered = filtered
+        .map(stock => ({ ...stock, score: scores.get(stock.symbol) }))
+        .filter(stock => filter.minScore === undefined ||
+          (stock.score !== undefined && stock.score >= filter.minScore));
+    }
+
+    // Final sort - by computed expression or field
+    filtered = this.applySort(filter, filtered);
 
     const total = filtered.length;
     const start = (page - 1) * pageSize;
@@ -481,6 +924,17 @@ export class ScreenerService {
     // Ensure all page stocks have indicators and details
     stocks = await this.enrichStocksWithIndicators(stocks);
 
+    // Attach computed columns
+    const columns = filter.columns || [];
+    if (columns.length > 0) {
+      stocks = stocks.map(stock => ({
+        ...stock,
+        computed: Object.fromEntries(
+          columns.map(column => [column.key, evaluateExpression(this.getExpression(column.expression), stock)])
+        ),
+      }));
+    }
+
     const result: ScreenerResult = {
       stocks,
       total,
@@ -526,7 +980,7 @@ export class ScreenerService {
               if (cachedDetails) {
                 return { ...stock, logo: cachedDetails.logo, name: cachedDetails.name || stock.symbol };
               }
-              const apiDetails = await this.massiveClient.getTickerDetails(stock.symbol).catch(() => null);
+              const apiDetails = await this.marketData.getTickerDetails(stock.symbol).catch(() => null);
               if (apiDetails) {
                 const logo = apiDetails.branding?.logo_url;
                 const name = apiDetails.name;
@@ -553,14 +1007,14 @@ export class ScreenerService {
           // Fetch fresh indicators and details in parallel
           try {
             const [rsi, sma20, sma50, sma200, ema12, ema26, details] = await Promise.all([
-              this.massiveClient.getRSI(stock.symbol, 14).catch(() => null),
-              this.massiveClient.getSMA(stock.symbol, 20).catch(() => null),
-              this.massiveClient.getSMA(stock.symbol, 50).catch(() => null),
-              this.massiveClient.getSMA(stock.symbol, 200).catch(() => null),
-              this.massiveClient.getEMA(stock.symbol, 12).catch(() => null),
-              this.massiveClient.getEMA(stock.symbol, 26).catch(() => null),
+              this.marketData.getRSI(stock.symbol, 14).catch(() => null),
+              this.marketData.getSMA(stock.symbol, 20).catch(() => null),
+              this.marketData.getSMA(stock.symbol, 50).catch(() => null),
+              this.marketData.getSMA(stock.symbol, 200).catch(() => null),
+              this.marketData.getEMA(stock.symbol, 12).catch(() => null),
+              this.marketData.getEMA(stock.symbol, 26).catch(() => null),
               cachedDetails ? Promise.resolve(cachedDetails) : 
-                this.massiveClient.getTickerDetails(stock.symbol).catch(() => null),
+                this.marketData.getTickerDetails(stock.symbol).catch(() => null),
             ]);
 
             const indicators: Partial<StockIndicators> = {
@@ -628,7 +1082,7 @@ export class ScreenerService {
     // Fetch fresh data from Massive API
     console.log('Fetching fresh market snapshot from Massive API...');
     try {
-      const snapshots = await this.massiveClient.getMarketSnapshot();
+      const snapshots = await this.marketData.getMarketSnapshot();
       
       if (!snapshots || snapshots.length === 0) {
         console.log('No snapshot data received');
@@ -673,23 +1127,118 @@ export class ScreenerService {
   }
 
   // Check if stock matches all filter conditions
-  private matchesFilter(stock: StockIndicators, conditions: FilterCondition[]): boolean {
-    return conditions.every((condition) => {
-      const value = stock[condition.field];
-      
-      if (value === undefined || value === null) {
+  private matchesFilter(stock: StockIndicators, conditions: FilterNode[]): boolean {
+    return conditions.every((node) => this.matchesNode(stock, node));
+  }
+
+  // Evaluate a single condition or a (possibly nested) condition group
+  private matchesNode(stock: StockIndicators, node: FilterNode): boolean {
+    if (isFilterGroup(node)) {
+      if (node.conditions.length === 0) return true;
+
+      const matches = node.combinator === 'or'
+        ? node.conditions.some((child) => this.matchesNode(stock, child))
+        : node.conditions.every((child) => this.matchesNode(stock, child));
+      return node.negate ? !matches : matches;
+    }
+
+    if (isCategoricalCondition(node)) {
+      return this.matchesCategory(stock[node.field], node);
+    }
+
+    // Time-window conditions need daily history, which only the database has;
+    // runScreenerFromAPI() rejects filters that use them
+    if (isWindowCondition(node)) {
+      return false;
+    }
+
+    const value = isExpressionCondition(node)
+      ? evaluateExpression(this.getExpression(node.expression), stock)
+      : this.getStockValue(stock, node.field);
+    
+    if (value === undefined || value === null) {
+      return false;
+    }
+
+    let target = node.value;
+    if (isFieldReference(target)) {
+      const refValue = this.getStockValue(stock, target.field);
+      if (typeof refValue !== 'number') {
         return false;
       }
+      target = refValue * (target.multiplier ?? 1);
+    }
 
-      return this.evaluateCondition(value as number, condition.operator, condition.value);
-    });
+    return this.evaluateCondition(value as number, node.operator, target);
+  }
+
+  // Parameterised indicators are never present on in-memory stocks
+  private getStockValue(stock: StockIndicators, field: ConditionField) {
+    return isParametricField(field) ? undefined : stock[field];
+  }
+
+  // Evaluate a categorical condition; unknown values never match
+  private matchesCategory(value: string | undefined, condition: CategoricalCondition): boolean {
+    if (!value) return false;
+
+    switch (condition.operator) {
+      case 'in':
+        return condition.value.includes(value);
+      case 'not_in':
+        return !condition.value.includes(value);
+      case 'contains': {
+        const haystack = value.toLowerCase();
+        return condition.value.some(needle => needle && haystack.includes(needle.toLowerCase()));
+      }
+      default:
+        return false;
+    }
+  }
+
+  // Every field a filter references, e.g. to check it can be evaluated historically
+  getFilterFields(nodes: FilterNode[]): string[] {
+    return [...new Set(nodes.flatMap((node) => this.getNodeFields(node)))];
+  }
+
+  // Collect every field referenced by a condition or group, including compared fields
+  private getNodeFields(node: FilterNode): string[] {
+    if (isFilterGroup(node)) {
+      return node.conditions.flatMap((child) => this.getNodeFields(child));
+    }
+    if (isCategoricalCondition(node)) {
+      return [node.field];
+    }
+    if (isWindowCondition(node)) {
+      return node.value !== undefined && isFieldReference(node.value) ? [node.field, node.value.field] : [node.field];
+    }
+    const fields: string[] = isExpressionCondition(node)
+      ? getExpressionFields(this.getExpression(node.expression))
+      : [node.field];
+    return isFieldReference(node.value) ? [...fields, node.value.field] : fields;
+  }
+
+  private filterHasParametricFields(filter: ScreenerFilter): boolean {
+    return this.getFilterFields(filter.conditions).some(isParametricField);
+  }
+
+  private filterHasWindowConditions(nodes: FilterNode[]): boolean {
+    return nodes.some((node) => isFilterGroup(node)
+      ? this.filterHasWindowConditions(node.conditions)
+      : isWindowCondition(node));
+  }
+
+  // Check if any condition in the filter depends on indicator data
+  private filterNeedsIndicators(filter: ScreenerFilter): boolean {
+    return filter.conditions.some((node) =>
+      this.getNodeFields(node).some((field) => (INDICATOR_FIELDS as readonly string[]).includes(field))
+    );
   }
 
   // Evaluate single condition
   private evaluateCondition(
     value: number,
     operator: FilterOperator,
-    target: number | [number, number]
+    target: Exclude<FilterValue, FieldReference>
   ): boolean {
     switch (operator) {
       case 'gt':
@@ -712,105 +1261,6 @@ export class ScreenerService {
     }
   }
 
-  // Check if preset needs indicator data beyond explicit conditions
-  private presetNeedsIndicators(presetId: string): boolean {
-    const presetsNeedingIndicators = [
-      'goldenCross', 'deathCross', 'aboveSma200', 'belowSma200', 
-      'emaCrossover', 'macdBullish', 'uptrend', 'downtrend',
-      'near52WeekLow', 'near52WeekHigh', 'highUpside', 'undervalued'
-    ];
-    return presetsNeedingIndicators.includes(presetId);
-  }
-
-  // Apply special logic for specific presets
-  private applyPresetLogic(presetId: string, stocks: StockIndicators[]): StockIndicators[] {
-    switch (presetId) {
-      case 'goldenCross':
-        // Price > SMA50 > SMA200 (bullish alignment)
-        return stocks.filter(s => 
-          s.sma50 !== undefined && s.sma200 !== undefined &&
-          s.price > s.sma50 && s.sma50 > s.sma200
-        );
-      
-      case 'deathCross':
-        // Price < SMA50 < SMA200 (bearish alignment)
-        return stocks.filter(s => 
-          s.sma50 !== undefined && s.sma200 !== undefined &&
-          s.price < s.sma50 && s.sma50 < s.sma200
-        );
-      
-      case 'aboveSma200':
-        // Price above 200-day moving average
-        return stocks.filter(s => 
-          s.sma200 !== undefined && s.price > s.sma200
-        );
-      
-      case 'belowSma200':
-        // Price below 200-day moving average
-        return stocks.filter(s => 
-          s.sma200 !== undefined && s.price < s.sma200
-        );
-      
-      case 'emaCrossover':
-        // EMA12 > EMA26 (short-term momentum bullish)
-        return stocks.filter(s => 
-          s.ema12 !== undefined && s.ema26 !== undefined &&
-          s.ema12 > s.ema26
-        );
-      
-      case 'macdBullish':
-        // MACD histogram positive - strict filtering
-        return stocks.filter(s => 
-          s.macd?.histogram !== undefined && s.macd.histogram > 0
-        );
-      
-      case 'uptrend':
-        // Price above SMA50 and SMA200
-        return stocks.filter(s => 
-          s.sma50 !== undefined && s.sma200 !== undefined &&
-          s.price > s.sma50 && s.price > s.sma200
-        );
-      
-      case 'downtrend':
-        // Price below SMA50 and SMA200
-        return stocks.filter(s => 
-          s.sma50 !== undefined && s.sma200 !== undefined &&
-          s.price < s.sma50 && s.price < s.sma200
-        );
-      
-      case 'near52WeekLow':
-        // Price within 10% of 52-week low
-        return stocks.filter(s => 
-          s.fiftyTwoWeekLow !== undefined && s.fiftyTwoWeekLow > 0 &&
-          s.price <= s.fiftyTwoWeekLow * 1.10
-        );
-      
-      case 'near52WeekHigh':
-        // Price within 5% of 52-week high
-        return stocks.filter(s => 
-          s.fiftyTwoWeekHigh !== undefined && s.fiftyTwoWeekHigh > 0 &&
-          s.price >= s.fiftyTwoWeekHigh * 0.95
-        );
-      
-      case 'highUpside':
-        // Target price at least 20% above current price
-        return stocks.filter(s => 
-          s.targetMeanPrice !== undefined && s.price > 0 &&
-          s.targetMeanPrice > s.price * 1.20
-        );
-      
-      case 'undervalued':
-        // Price below analyst target mean price
-        return stocks.filter(s => 
-          s.targetMeanPrice !== undefined && s.price > 0 &&
-          s.price < s.targetMeanPrice
-        );
-      
-      default:
-        return stocks;
-    }
-  }
-
   // Sort stocks by field
   private sortStocks(
     stocks: StockIndicators[],
@@ -832,68 +1282,23 @@ export class ScreenerService {
     });
   }
 
-  // Apply custom sorting for specific presets (computed metrics)
-  private applyPresetSort(
-    presetId: string,
-    stocks: StockIndicators[],
-    defaultSortBy?: string,
-    defaultSortOrder?: 'asc' | 'desc'
-  ): StockIndicators[] {
-    switch (presetId) {
-      case 'highUpside':
-        // Sort by upside percentage (target / price - 1)
-        return [...stocks].sort((a, b) => {
-          const aUpside = (a.targetMeanPrice && a.price > 0) 
-            ? (a.targetMeanPrice / a.price - 1) * 100 
-            : -Infinity;
-          const bUpside = (b.targetMeanPrice && b.price > 0) 
-            ? (b.targetMeanPrice / b.price - 1) * 100 
-            : -Infinity;
-          return bUpside - aUpside; // desc - highest upside first
-        });
-
-      case 'undervalued':
-        // Sort by upside percentage
-        return [...stocks].sort((a, b) => {
-          const aUpside = (a.targetMeanPrice && a.price > 0) 
-            ? (a.targetMeanPrice / a.price - 1) * 100 
-            : -Infinity;
-          const bUpside = (b.targetMeanPrice && b.price > 0) 
-            ? (b.targetMeanPrice / b.price - 1) * 100 
-            : -Infinity;
-          return bUpside - aUpside; // desc - highest upside first
-        });
-
-      case 'near52WeekLow':
-        // Sort by proximity to 52-week low (closest first)
-        return [...stocks].sort((a, b) => {
-          const aProximity = (a.fiftyTwoWeekLow && a.price > 0) 
-            ? (a.price / a.fiftyTwoWeekLow - 1) * 100 
-            : Infinity;
-          const bProximity = (b.fiftyTwoWeekLow && b.price > 0) 
-            ? (b.price / b.fiftyTwoWeekLow - 1) * 100 
-            : Infinity;
-          return aProximity - bProximity; // asc - closest to low first
-        });
-
-      case 'near52WeekHigh':
-        // Sort by proximity to 52-week high (closest first)
-        return [...stocks].sort((a, b) => {
-          const aProximity = (a.fiftyTwoWeekHigh && a.price > 0) 
-            ? (1 - a.price / a.fiftyTwoWeekHigh) * 100 
-            : Infinity;
-          const bProximity = (b.fiftyTwoWeekHigh && b.price > 0) 
-            ? (1 - b.price / b.fiftyTwoWeekHigh) * 100 
-            : Infinity;
-          return aProximity - bProximity; // asc - closest to high first
-        });
+  // Apply the filter's sort - computed expressions sort with nulls last
+  private applySort(filter: ScreenerFilter, stocks: StockIndicators[]): StockIndicators[] {
+    const sortOrder = filter.sortOrder || 'desc';
 
-      default:
-        // Use default sorting
-        const sortField = (defaultSortBy || 'volume') as keyof StockIndicators;
-        const sortOrder = defaultSortOrder || 'desc';
-        return this.sortStocks(stocks, sortField, sortOrder);
+    if (filter.sortExpression) {
+      const expression = this.getExpression(filter.sortExpression);
+      return stocks
+        .map(stock => ({ stock, key: evaluateExpression(expression, stock) }))
+        .sort((a, b) => {
+          if (a.key === null) return b.key === null ? 0 : 1;
+          if (b.key === null) return -1;
+          return sortOrder === 'asc' ? a.key - b.key : b.key - a.key;
+        })
+        .map(({ stock }) => stock);
     }
+
+    return this.sortStocks(stocks, filter.sortBy || 'volume', sortOrder);
   }
 
   // Get all indicators from Redis cache
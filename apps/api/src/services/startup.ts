@@ -2,7 +2,7 @@ import { db, checkDbConnection } from '../db';
 import { latestSnapshot } from '../db/schema';
 import { sql } from 'drizzle-orm';
 import { migrate } from 'drizzle-orm/postgres-js/migrator';
-import { dataSyncService } from './data-sync';
+import { jobQueue } from './job-queue';
 import path from 'path';
 import fs from 'fs';
 
@@ -229,6 +229,46 @@ export class StartupService {
       ['recommendation_mean', 'real'],
       ['insiders_percent_held', 'real'],
       ['institutions_percent_held', 'real'],
+      ['bb_upper', 'real'],
+      ['bb_middle', 'real'],
+      ['bb_lower', 'real'],
+      ['bb_percent_b', 'real'],
+      ['bb_bandwidth', 'real'],
+      ['atr14', 'real'],
+      ['atr_percent', 'real'],
+      ['stoch_k', 'real'],
+      ['stoch_d', 'real'],
+      ['adx14', 'real'],
+      ['plus_di', 'real'],
+      ['minus_di', 'real'],
+      ['obv', 'real'],
+      ['mfi14', 'real'],
+      ['cci20', 'real'],
+      ['williams_r', 'real'],
+      ['piotroski_score', 'integer'],
+      ['altman_z_score', 'real'],
+      ['beneish_m_score', 'real'],
+      ['graham_number', 'real'],
+      ['doji_age', 'integer'],
+      ['hammer_age', 'integer'],
+      ['shooting_star_age', 'integer'],
+      ['bullish_engulfing_age', 'integer'],
+      ['bearish_engulfing_age', 'integer'],
+      ['morning_star_age', 'integer'],
+      ['evening_star_age', 'integer'],
+      ['three_white_soldiers_age', 'integer'],
+      ['inside_bar_age', 'integer'],
+      ['volatility_20', 'real'],
+      ['volatility_60', 'real'],
+      ['volatility_252', 'real'],
+      ['max_drawdown', 'real'],
+      ['downside_deviation', 'real'],
+      ['sharpe_ratio', 'real'],
+      ['sortino_ratio', 'real'],
+      ['benchmark_beta', 'real'],
+      ['benchmark_correlation', 'real'],
+      ['rs_rating', 'integer'],
+      ['rs_vs_benchmark', 'real'],
       ['financials_last_sync', 'timestamp'],
       ['ratios_last_sync', 'timestamp'],
       ['yahoo_synced_at', 'timestamp'],
@@ -332,57 +372,29 @@ export class StartupService {
   }
 
   /**
-   * Run initial data sync
+   * Enqueue the initial data sync
    */
   private async runInitialSync(): Promise<void> {
-    console.log('🔄 Starting initial data sync (this may take a few minutes)...');
+    console.log('🔄 Enqueueing initial data sync...');
     
     try {
-      // First, do a quick snapshot sync to get basic data fast
-      const result = await dataSyncService.syncHourlySnapshot();
-      console.log(`✅ Initial sync complete: ${result.processed} stocks loaded`);
+      // A quick snapshot sync first to get basic data fast
+      await jobQueue.enqueue('snapshot', {}, { dedupeKey: 'snapshot:initial' });
       
       // Check if we need indicator data
       const hasIndicators = await this.hasIndicatorData();
       if (!hasIndicators) {
-        console.log('📊 No indicator data found - triggering indicator sync in background...');
-        // Run daily sync in background (don't await - it takes a while)
-        this.syncIndicatorsInBackground();
+        console.log('📊 No indicator data found - enqueueing indicator and logo syncs...');
+        await jobQueue.enqueue('daily', {}, { dedupeKey: 'daily:initial' });
+        await jobQueue.enqueue('logos', { limit: 1000 }, { dedupeKey: 'logos:initial' });
       }
+      
+      console.log('✅ Initial sync enqueued');
     } catch (error) {
       console.error('❌ Initial sync failed:', error);
       throw error;
     }
   }
-
-  /**
-   * Sync indicators in background (non-blocking)
-   */
-  private async syncIndicatorsInBackground(): Promise<void> {
-    try {
-      console.log('🔄 Background indicator sync starting...');
-      const result = await dataSyncService.syncDailyData();
-      console.log(`✅ Background indicator sync complete: ${result.processed} stocks with indicators`);
-      
-      // Also sync logos after indicators
-      await this.syncLogosInBackground();
-    } catch (error) {
-      console.error('❌ Background indicator sync failed:', error);
-    }
-  }
-
-  /**
-   * Sync logos in background (non-blocking)
-   */
-  private async syncLogosInBackground(): Promise<void> {
-    try {
-      console.log('🖼️ Background logo sync starting...');
-      const result = await dataSyncService.syncMissingLogos(1000);
-      console.log(`✅ Background logo sync complete: ${result.processed} logos fetched`);
-    } catch (error) {
-      console.error('❌ Background logo sync failed:', error);
-    }
-  }
 }
 
 // Singleton instance
@@ -12,6 +12,7 @@ import {
   latestSnapshot,
 } from '../db/schema';
 import { yahooClient } from '../clients/yahoo';
+import { isOfflineProvider } from '../providers';
 import { eq } from 'drizzle-orm';
 
 // Stale thresholds in milliseconds
@@ -65,6 +66,9 @@ export class YahooSyncService {
     if (!isDbConnected()) {
       return { success: false, error: 'Database not available' };
     }
+    if (isOfflineProvider) {
+      return { success: false, error: 'Yahoo sync disabled for offline providers' };
+    }
 
     try {
       // Check if we need to sync
@@ -1,11 +1,9 @@
 import { db, schema } from '../db';
-import { MassiveClient } from '../clients/massive';
+import { marketData } from '../providers';
 import { eq } from 'drizzle-orm';
 import type { NewTicker } from '../db/schema';
 
-const massiveClient = new MassiveClient();
-
-// Sync all tickers from Massive API to database
+// Sync all tickers from the market data provider to database
 export async function syncTickers(): Promise<{ synced: number; errors: number }> {
   console.log('Starting ticker sync...');
   
@@ -13,7 +11,7 @@ export async function syncTickers(): Promise<{ synced: number; errors: number }>
   let errors = 0;
 
   try {
-    const tickers = await massiveClient.getAllTickers();
+    const tickers = await marketData.getAllTickers();
     console.log(`Fetched ${tickers.length} tickers from API`);
 
     // Process in batches
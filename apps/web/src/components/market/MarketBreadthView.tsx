@@ -0,0 +1,184 @@
+import { useMemo, useState } from 'react';
+import {
+  ComposedChart,
+  LineChart,
+  Line,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+  CartesianGrid,
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useMarketBreadth } from '@/hooks/useMarketData';
+import { cn, formatNumber } from '@/lib/utils';
+import { Loader2, Waves } from 'lucide-react';
+import { BREADTH_RANGES, type BreadthRange } from '@screener/shared';
+
+const POSITIVE = 'hsl(var(--signal-success))';
+const NEGATIVE = 'hsl(var(--signal-error))';
+const ACCENT = 'hsl(var(--color-accent-main))';
+const MUTED = 'hsl(var(--ink-tertiary))';
+
+function formatShare(value: number | null): string {
+  return value === null ? '—' : `${value.toFixed(1)}%`;
+}
+
+function signColor(value: number | null): string {
+  if (value === null) return 'text-ink-tertiary';
+  return value >= 0 ? 'text-positive' : 'text-negative';
+}
+
+export function MarketBreadthView() {
+  const [range, setRange] = useState<BreadthRange>('1Y');
+  const { data, isLoading, error } = useMarketBreadth(range);
+
+  const latest = data?.data.latest ?? null;
+
+  // Decliners and new lows plotted below zero
+  const rows = useMemo(() => (data?.data.points ?? []).map((point) => ({
+    ...point,
+    negDeclines: -point.declines,
+    negNewLows: -point.newLows,
+  })), [data]);
+
+  return (
+    <div className="space-y-0">
+      <Card className="border-b-0">
+        <CardHeader className="flex-col sm:flex-row sm:items-center sm:justify-between gap-3 space-y-0 px-4 sm:px-6">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+              <Waves className="h-4 w-4 text-accent-main" strokeWidth={1.5} />
+              Market Breadth
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm mt-1">
+              Participation across every stored symbol, updated after the daily sync
+            </CardDescription>
+          </div>
+          <div className="flex gap-1">
+            {BREADTH_RANGES.map((value) => (
+              <Button
+                key={value}
+                variant={range === value ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setRange(value)}
+                className="h-7 px-2 font-mono text-[10px] sm:text-xs"
+              >
+                {value}
+              </Button>
+            ))}
+          </div>
+        </CardHeader>
+        {latest && (
+          <CardContent className="px-4 sm:px-6">
+            <div className="grid grid-cols-2 lg:grid-cols-6 gap-4">
+              <Stat label="AS OF" value={latest.date} />
+              <Stat label="ADV / DEC" value={`${latest.advances} / ${latest.declines}`} />
+              <Stat label="NEW HIGHS / LOWS" value={`${latest.newHighs} / ${latest.newLows}`} />
+              <Stat label="ABOVE SMA50" value={formatShare(latest.percentAboveSma50)} />
+              <Stat label="ABOVE SMA200" value={formatShare(latest.percentAboveSma200)} />
+              <Stat
+                label="MCCLELLAN"
+                value={latest.mcclellanOscillator === null ? '—' : formatNumber(latest.mcclellanOscillator, 1)}
+                className={signColor(latest.mcclellanOscillator)}
+              />
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      {isLoading ? (
+        <Card>
+          <CardContent className="flex items-center justify-center h-64">
+            <Loader2 className="h-5 w-5 animate-spin text-ink-tertiary" strokeWidth={1.5} />
+          </CardContent>
+        </Card>
+      ) : error || rows.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12 text-ink-tertiary text-sm">
+            {error ? error.message : 'No breadth history yet. It is computed after the daily sync.'}
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <BreadthPanel title="Advance / Decline">
+            <ComposedChart data={rows} syncId="breadth" stackOffset="sign">
+              <CartesianGrid stroke="hsl(var(--border-element))" vertical={false} />
+              <XAxis dataKey="date" tick={{ fontSize: 10 }} minTickGap={32} />
+              <YAxis yAxisId="count" tick={{ fontSize: 10 }} width={48} tickFormatter={(value: number) => Math.abs(value).toFixed(0)} />
+              <YAxis yAxisId="line" orientation="right" tick={{ fontSize: 10 }} width={56} domain={['auto', 'auto']} />
+              <Tooltip formatter={(value: number) => formatNumber(Math.abs(value), 0)} />
+              <Bar yAxisId="count" dataKey="advances" name="Advances" fill={POSITIVE} stackId="ad" isAnimationActive={false} />
+              <Bar yAxisId="count" dataKey="negDeclines" name="Declines" fill={NEGATIVE} stackId="ad" isAnimationActive={false} />
+              <Line yAxisId="line" type="monotone" dataKey="advanceDeclineLine" name="A/D Line" stroke={ACCENT} dot={false} strokeWidth={1.5} isAnimationActive={false} connectNulls />
+            </ComposedChart>
+          </BreadthPanel>
+
+          <BreadthPanel title="52-Week Highs vs Lows">
+            <ComposedChart data={rows} syncId="breadth" stackOffset="sign">
+              <CartesianGrid stroke="hsl(var(--border-element))" vertical={false} />
+              <XAxis dataKey="date" tick={{ fontSize: 10 }} minTickGap={32} />
+              <YAxis tick={{ fontSize: 10 }} width={48} tickFormatter={(value: number) => Math.abs(value).toFixed(0)} />
+              <Tooltip formatter={(value: number) => formatNumber(Math.abs(value), 0)} />
+              <ReferenceLine y={0} stroke="hsl(var(--border-grid))" />
+              <Bar dataKey="newHighs" name="New Highs" fill={POSITIVE} stackId="hl" isAnimationActive={false} />
+              <Bar dataKey="negNewLows" name="New Lows" fill={NEGATIVE} stackId="hl" isAnimationActive={false} />
+            </ComposedChart>
+          </BreadthPanel>
+
+          <BreadthPanel title="% Above Moving Averages">
+            <LineChart data={rows} syncId="breadth">
+              <CartesianGrid stroke="hsl(var(--border-element))" vertical={false} />
+              <XAxis dataKey="date" tick={{ fontSize: 10 }} minTickGap={32} />
+              <YAxis tick={{ fontSize: 10 }} width={48} domain={[0, 100]} tickFormatter={(value: number) => `${value}%`} />
+              <Tooltip formatter={(value: number) => formatShare(value)} />
+              <ReferenceLine y={50} stroke="hsl(var(--border-grid))" strokeDasharray="3 3" />
+              <Line type="monotone" dataKey="percentAboveSma50" name="Above SMA50" stroke={ACCENT} dot={false} strokeWidth={1.5} isAnimationActive={false} connectNulls />
+              <Line type="monotone" dataKey="percentAboveSma200" name="Above SMA200" stroke={MUTED} dot={false} strokeWidth={1.5} isAnimationActive={false} connectNulls />
+            </LineChart>
+          </BreadthPanel>
+
+          <BreadthPanel title="McClellan Oscillator" last>
+            <ComposedChart data={rows} syncId="breadth">
+              <CartesianGrid stroke="hsl(var(--border-element))" vertical={false} />
+              <XAxis dataKey="date" tick={{ fontSize: 10 }} minTickGap={32} />
+              <YAxis tick={{ fontSize: 10 }} width={48} domain={['auto', 'auto']} tickFormatter={(value: number) => formatNumber(value, 0)} />
+              <Tooltip formatter={(value: number) => formatNumber(value, 1)} />
+              <ReferenceLine y={0} stroke="hsl(var(--border-grid))" />
+              <Bar dataKey="mcclellanOscillator" name="McClellan" fill={MUTED} isAnimationActive={false} />
+            </ComposedChart>
+          </BreadthPanel>
+        </>
+      )}
+    </div>
+  );
+}
+
+function BreadthPanel({ title, last, children }: { title: string; last?: boolean; children: React.ReactElement }) {
+  return (
+    <Card className={cn(!last && 'border-b-0')}>
+      <CardHeader className="px-4 sm:px-6 pb-2">
+        <CardTitle className="text-sm sm:text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="px-2 sm:px-6">
+        <div className="h-56 sm:h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            {children}
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function Stat({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div>
+      <div className="text-[10px] sm:text-label text-ink-tertiary">{label}</div>
+      <div className={cn('font-mono text-sm sm:text-base tabular-nums mt-1 text-ink-primary', className)}>{value}</div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { useBacktest } from '@/hooks/useScreener';
+import { useScreenerStore } from '@/stores/screenerStore';
+import { cn, formatPercent } from '@/lib/utils';
+import { History, Play } from 'lucide-react';
+import { PRESET_FILTERS, type FilterNode, type RebalanceFrequency } from '@screener/shared';
+
+// Sentinel for backtesting the filter currently in the custom builder
+const CUSTOM_FILTER = '__custom';
+
+const REBALANCE_OPTIONS: Array<{ value: RebalanceFrequency; label: string }> = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+function toDateInput(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Backtest returns are fractions; formatPercent expects percentage points
+function formatReturn(value: number | null): string {
+  return value === null ? '—' : formatPercent(value * 100);
+}
+
+function returnColor(value: number | null): string {
+  if (value === null) return 'text-ink-tertiary';
+  return value >= 0 ? 'text-positive' : 'text-negative';
+}
+
+export function BacktestView() {
+  const [searchParams] = useSearchParams();
+  const { customFilter } = useScreenerStore();
+  const backtest = useBacktest();
+
+  const [filterId, setFilterId] = useState(searchParams.get('preset') || 'oversold');
+  const [startDate, setStartDate] = useState(() => {
+    const date = new Date();
+    date.setFullYear(date.getFullYear() - 1);
+    return toDateInput(date);
+  });
+  const [endDate, setEndDate] = useState(() => toDateInput(new Date()));
+  const [rebalance, setRebalance] = useState<RebalanceFrequency>('weekly');
+
+  const conditions: FilterNode[] = filterId === CUSTOM_FILTER
+    ? (customFilter.conditions.length > 0 ? [customFilter] : [])
+    : PRESET_FILTERS[filterId]?.conditions ?? [];
+
+  const handleRun = () => {
+    if (conditions.length === 0) return;
+    backtest.mutate({ conditions, startDate, endDate, rebalance });
+  };
+
+  const result = backtest.data;
+  const chartData = result?.periods.map((period) => ({
+    date: period.endDate,
+    screen: (period.equity - 1) * 100,
+    universe: (period.benchmarkEquity - 1) * 100,
+  }));
+
+  return (
+    <div className="space-y-0">
+      <Card className="border-b-0">
+        <CardHeader className="px-4 sm:px-6">
+          <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+            <History className="h-4 w-4 text-accent-main" strokeWidth={1.5} />
+            Backtest
+          </CardTitle>
+          <CardDescription className="text-xs sm:text-sm">
+            Run a screen as of past dates and compare the matched basket with the whole universe
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="px-4 sm:px-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 sm:gap-4 items-end">
+            <div className="space-y-1.5 sm:space-y-2">
+              <Label className="text-xs sm:text-sm">Screen</Label>
+              <Select value={filterId} onValueChange={setFilterId}>
+                <SelectTrigger className="h-9 sm:h-10">
+                  <SelectValue placeholder="Select screen" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CUSTOM_FILTER}>Custom filter</SelectItem>
+                  {Object.entries(PRESET_FILTERS).map(([id, preset]) => (
+                    <SelectItem key={id} value={id}>
+                      {preset.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1.5 sm:space-y-2">
+              <Label className="text-xs sm:text-sm">From</Label>
+              <Input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="font-mono h-9 sm:h-10"
+              />
+            </div>
+
+            <div className="space-y-1.5 sm:space-y-2">
+              <Label className="text-xs sm:text-sm">To</Label>
+              <Input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="font-mono h-9 sm:h-10"
+              />
+            </div>
+
+            <div className="space-y-1.5 sm:space-y-2">
+              <Label className="text-xs sm:text-sm">Rebalance</Label>
+              <Select value={rebalance} onValueChange={(value) => setRebalance(value as RebalanceFrequency)}>
+                <SelectTrigger className="h-9 sm:h-10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REBALANCE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button
+              onClick={handleRun}
+              disabled={conditions.length === 0 || backtest.isPending}
+              className="w-full sm:w-auto h-9 sm:h-10"
+            >
+              <Play className="mr-2 h-4 w-4" strokeWidth={1.5} />
+              {backtest.isPending ? 'Running...' : 'Run Backtest'}
+            </Button>
+          </div>
+
+          {filterId === CUSTOM_FILTER && conditions.length === 0 && (
+            <p className="mt-3 text-[11px] sm:text-xs text-ink-tertiary">
+              Add conditions in the custom filter builder first
+            </p>
+          )}
+          {backtest.error && (
+            <p className="mt-3 text-[11px] sm:text-xs text-signal-error">{backtest.error.message}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          {/* Summary */}
+          <Card className="border-b-0">
+            <CardContent className="py-4 px-4 sm:px-6">
+              <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+                <Stat label="SCREEN RETURN" value={formatReturn(result.totalReturn)} className={returnColor(result.totalReturn)} />
+                <Stat label="UNIVERSE RETURN" value={formatReturn(result.benchmarkReturn)} className={returnColor(result.benchmarkReturn)} />
+                <Stat
+                  label="HIT RATE"
+                  value={result.hitRate === null ? '—' : `${(result.hitRate * 100).toFixed(1)}%`}
+                />
+                <Stat label="MAX DRAWDOWN" value={formatReturn(result.maxDrawdown)} className="text-negative" />
+                <Stat label="REBALANCES" value={String(result.periods.length)} />
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Equity curve */}
+          <Card className="border-b-0">
+            <CardHeader className="px-4 sm:px-6">
+              <CardTitle className="text-sm sm:text-base">Cumulative Return</CardTitle>
+            </CardHeader>
+            <CardContent className="px-2 sm:px-6">
+              {chartData && chartData.length > 0 ? (
+                <div className="h-64 sm:h-80">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData}>
+                      <CartesianGrid stroke="hsl(var(--border-element))" vertical={false} />
+                      <XAxis dataKey="date" tick={{ fontSize: 10 }} minTickGap={32} />
+                      <YAxis tick={{ fontSize: 10 }} tickFormatter={(value: number) => `${value.toFixed(0)}%`} width={48} />
+                      <Tooltip formatter={(value: number) => formatPercent(value)} />
+                      <Line type="monotone" dataKey="screen" name="Screen" stroke="hsl(var(--color-accent-main))" dot={false} strokeWidth={1.5} />
+                      <Line type="monotone" dataKey="universe" name="Universe" stroke="hsl(var(--ink-tertiary))" dot={false} strokeWidth={1.5} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              ) : (
+                <div className="text-center py-8 text-ink-tertiary text-sm">Not enough sessions for a holding period</div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Forward returns */}
+          <Card>
+            <CardHeader className="flex-row items-center justify-between space-y-0 px-4 sm:px-6">
+              <CardTitle className="text-sm sm:text-base">Forward Returns</CardTitle>
+              <Badge variant="outline" className="text-[10px] sm:text-xs">
+                {result.startDate} → {result.endDate}
+              </Badge>
+            </CardHeader>
+            <CardContent className="p-0">
+              <div className="overflow-x-auto">
+                <table className="w-full min-w-[480px]">
+                  <thead>
+                    <tr className="border-y border-border-grid bg-surface-subtle">
+                      <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-[10px] sm:text-label">HORIZON</th>
+                      <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-[10px] sm:text-label">SCREEN</th>
+                      <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-[10px] sm:text-label">UNIVERSE</th>
+                      <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-[10px] sm:text-label">EXCESS</th>
+                      <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-[10px] sm:text-label">HIT RATE</th>
+                      <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-[10px] sm:text-label hidden sm:table-cell">SAMPLES</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.forwardReturns.map((stats) => (
+                      <tr key={stats.horizon} className="border-b border-border-element">
+                        <td className="px-2 sm:px-4 py-2 sm:py-3 font-mono text-[11px] sm:text-data text-ink-primary">
+                          {stats.horizon}D
+                        </td>
+                        <td className={cn('px-2 sm:px-4 py-2 sm:py-3 font-mono text-[11px] sm:text-data tabular-nums', returnColor(stats.basketReturn))}>
+                          {formatReturn(stats.basketReturn)}
+                        </td>
+                        <td className={cn('px-2 sm:px-4 py-2 sm:py-3 font-mono text-[11px] sm:text-data tabular-nums', returnColor(stats.universeReturn))}>
+                          {formatReturn(stats.universeReturn)}
+                        </td>
+                        <td className={cn('px-2 sm:px-4 py-2 sm:py-3 font-mono text-[11px] sm:text-data tabular-nums', returnColor(stats.excessReturn))}>
+                          {formatReturn(stats.excessReturn)}
+                        </td>
+                        <td className="px-2 sm:px-4 py-2 sm:py-3 font-mono text-[11px] sm:text-data tabular-nums text-ink-secondary">
+                          {stats.hitRate === null ? '—' : `${(stats.hitRate * 100).toFixed(1)}%`}
+                        </td>
+                        <td className="px-2 sm:px-4 py-2 sm:py-3 font-mono text-[11px] sm:text-data tabular-nums text-ink-tertiary hidden sm:table-cell">
+                          {stats.observations}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
+
+function Stat({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div>
+      <div className="text-[10px] sm:text-label text-ink-tertiary">{label}</div>
+      <div className={cn('font-mono text-sm sm:text-base tabular-nums mt-1 text-ink-primary', className)}>{value}</div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,73 +7,75 @@ import { Label } from '@/components/ui/label';
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { useScreenerStore } from '@/stores/screenerStore';
-import { Plus, X, Play, Trash2, ChevronRight, Settings2 } from 'lucide-react';
-import type { FilterCondition, FilterOperator, StockIndicators } from '@screener/shared';
-
-const FIELDS: Array<{ value: keyof StockIndicators; label: string; category: string }> = [
-  // Price & Volume
-  { value: 'price', label: 'Price', category: 'Price & Volume' },
-  { value: 'volume', label: 'Volume', category: 'Price & Volume' },
-  { value: 'changePercent', label: 'Change %', category: 'Price & Volume' },
-  { value: 'averageVolume', label: 'Avg Volume', category: 'Price & Volume' },
-  { value: 'fiftyTwoWeekHigh', label: '52W High', category: 'Price & Volume' },
-  { value: 'fiftyTwoWeekLow', label: '52W Low', category: 'Price & Volume' },
-  // Technical Indicators
-  { value: 'rsi14', label: 'RSI (14)', category: 'Technical' },
-  { value: 'sma20', label: 'SMA 20', category: 'Technical' },
-  { value: 'sma50', label: 'SMA 50', category: 'Technical' },
-  { value: 'sma200', label: 'SMA 200', category: 'Technical' },
-  { value: 'ema12', label: 'EMA 12', category: 'Technical' },
-  { value: 'ema26', label: 'EMA 26', category: 'Technical' },
-  { value: 'fiftyDayAverage', label: '50-Day Avg', category: 'Technical' },
-  { value: 'twoHundredDayAverage', label: '200-Day Avg', category: 'Technical' },
-  { value: 'beta', label: 'Beta', category: 'Technical' },
-  // Valuation
-  { value: 'marketCap', label: 'Market Cap', category: 'Valuation' },
-  { value: 'peRatio', label: 'P/E (TTM)', category: 'Valuation' },
-  { value: 'forwardPE', label: 'P/E (Forward)', category: 'Valuation' },
-  { value: 'pbRatio', label: 'P/B Ratio', category: 'Valuation' },
-  { value: 'psRatio', label: 'P/S Ratio', category: 'Valuation' },
-  { value: 'pegRatio', label: 'PEG Ratio', category: 'Valuation' },
-  { value: 'evToEbitda', label: 'EV/EBITDA', category: 'Valuation' },
-  { value: 'evToRevenue', label: 'EV/Revenue', category: 'Valuation' },
-  // Profitability
-  { value: 'grossMargin', label: 'Gross Margin %', category: 'Profitability' },
-  { value: 'operatingMargin', label: 'Operating Margin %', category: 'Profitability' },
-  { value: 'ebitdaMargin', label: 'EBITDA Margin %', category: 'Profitability' },
-  { value: 'netMargin', label: 'Net Margin %', category: 'Profitability' },
-  { value: 'roe', label: 'ROE %', category: 'Profitability' },
-  { value: 'roa', label: 'ROA %', category: 'Profitability' },
-  // Growth
-  { value: 'revenueGrowthYoy', label: 'Revenue Growth YoY %', category: 'Growth' },
-  { value: 'revenueGrowthQuarterly', label: 'Revenue Growth QoQ %', category: 'Growth' },
-  { value: 'epsGrowthYoy', label: 'EPS Growth YoY %', category: 'Growth' },
-  { value: 'earningsGrowthQuarterly', label: 'Earnings Growth QoQ %', category: 'Growth' },
-  // Financial Health
-  { value: 'debtToEquity', label: 'Debt/Equity', category: 'Financial Health' },
-  { value: 'currentRatio', label: 'Current Ratio', category: 'Financial Health' },
-  { value: 'quickRatio', label: 'Quick Ratio', category: 'Financial Health' },
-  // Dividends
-  { value: 'dividendYield', label: 'Dividend Yield %', category: 'Dividends' },
-  // Short Interest
-  { value: 'shortRatio', label: 'Short Ratio', category: 'Short Interest' },
-  { value: 'shortPercentOfFloat', label: 'Short % of Float', category: 'Short Interest' },
-  // Analyst Ratings
-  { value: 'recommendationMean', label: 'Analyst Rating (1-5)', category: 'Analysts' },
-  { value: 'numberOfAnalysts', label: '# of Analysts', category: 'Analysts' },
-  { value: 'targetMeanPrice', label: 'Target Price (Mean)', category: 'Analysts' },
-  { value: 'targetHighPrice', label: 'Target Price (High)', category: 'Analysts' },
-  { value: 'targetLowPrice', label: 'Target Price (Low)', category: 'Analysts' },
-  // Ownership
-  { value: 'institutionsPercentHeld', label: 'Institutional %', category: 'Ownership' },
-  { value: 'insidersPercentHeld', label: 'Insider %', category: 'Ownership' },
-];
+import { useScreenerStore, type FilterPath } from '@/stores/screenerStore';
+import { useSavedScreensStore } from '@/stores/savedScreensStore';
+import { useCategoryValues, useSaveScreen, useScoreModels } from '@/hooks/useScreener';
+import { cn, formatFieldValue } from '@/lib/utils';
+import { Plus, X, Play, Trash2, ChevronRight, Settings2, ListTree, Sigma, Save, Globe, Lock, Gauge } from 'lucide-react';
+import {
+  FIELD_CATEGORIES,
+  FIELD_REGISTRY,
+  SCREENER_FIELDS,
+  HISTORY_FIELDS,
+  SCORE_MODELS,
+  PARAMETRIC_INDICATORS,
+  PARAMETRIC_PERIOD_MIN,
+  PARAMETRIC_PERIOD_MAX,
+  parseParametricField,
+  getFieldLabel,
+  isFilterGroup,
+  isFieldReference,
+  isExpressionCondition,
+  isCategoricalCondition,
+  isWindowCondition,
+  parseExpression,
+} from '@screener/shared';
+import type {
+  CategoricalField,
+  CategoricalOperator,
+  ComputedColumn,
+  ConditionField,
+  FieldReference,
+  FilterCondition,
+  FilterGroup,
+  FilterOperator,
+  FieldCategory,
+  FilterValue,
+  HistoryField,
+  ParametricField,
+  ParametricIndicator,
+  ScreenerField,
+  WindowOperator,
+} from '@screener/shared';
+
+// Numeric fields, generated from the shared registry
+const FIELDS: Array<{ value: ScreenerField; label: string; category: FieldCategory }> = SCREENER_FIELDS.map((field) => ({
+  value: field,
+  label: FIELD_REGISTRY[field].label,
+  category: FIELD_REGISTRY[field].category,
+}));
+
+// Indicators with a custom window, e.g. sma(10); the period is edited next to the select
+const PARAMETRIC_OPTIONS = (Object.keys(PARAMETRIC_INDICATORS) as ParametricIndicator[]).map((indicator) => ({
+  indicator,
+  label: `${PARAMETRIC_INDICATORS[indicator].label} (N)`,
+}));
+const DEFAULT_PARAMETRIC_PERIOD = 10;
+
+function toParametricField(indicator: ParametricIndicator, period: number): ParametricField {
+  return `${indicator}(${period})`;
+}
+
+function clampPeriod(input: string): number {
+  return Math.min(Math.max(parseInt(input) || PARAMETRIC_PERIOD_MIN, PARAMETRIC_PERIOD_MIN), PARAMETRIC_PERIOD_MAX);
+}
 
 const OPERATORS: Array<{ value: FilterOperator; label: string; symbol: string }> = [
   { value: 'gt', label: 'Greater than', symbol: '>' },
@@ -84,13 +87,89 @@ const OPERATORS: Array<{ value: FilterOperator; label: string; symbol: string }>
   { value: 'between', label: 'Between', symbol: '↔' },
 ];
 
+// Time-window operators, evaluated over daily history (only for HISTORY_FIELDS)
+const WINDOW_OPERATORS: Array<{ value: WindowOperator; label: string; symbol: string }> = [
+  { value: 'crossed_above', label: 'Crossed above', symbol: '⤴' },
+  { value: 'crossed_below', label: 'Crossed below', symbol: '⤵' },
+  { value: 'rising_for_n_days', label: 'Rising for N days', symbol: '↑' },
+  { value: 'falling_for_n_days', label: 'Falling for N days', symbol: '↓' },
+  { value: 'new_n_day_high', label: 'New N-day high', symbol: '▲' },
+  { value: 'new_n_day_low', label: 'New N-day low', symbol: '▼' },
+];
+
+function isHistoryField(field: string | undefined): field is HistoryField {
+  return !!field && (HISTORY_FIELDS as readonly string[]).includes(field);
+}
+
+const CATEGORICAL_FIELDS: Array<{ value: CategoricalField; label: string }> = [
+  { value: 'sector', label: 'Sector' },
+  { value: 'industry', label: 'Industry' },
+  { value: 'primaryExchange', label: 'Exchange' },
+  { value: 'type', label: 'Security Type' },
+];
+
+const CATEGORICAL_OPERATORS: Array<{ value: CategoricalOperator; label: string; symbol: string }> = [
+  { value: 'in', label: 'Is any of', symbol: 'in' },
+  { value: 'not_in', label: 'Is none of', symbol: 'not in' },
+  { value: 'contains', label: 'Contains', symbol: '~' },
+];
+
+// Sentinel for running without a composite score model
+const NO_SCORE_MODEL = '__none';
+
+// Sentinel for comparing against a fixed number rather than another field
+const COMPARE_NUMBER = '__number';
+// Sentinel for filtering on a computed formula rather than a stored field
+const FORMULA_FIELD = '__formula';
+
+// Returns the parser's error message, or null when the formula is valid (or empty)
+function getFormulaError(formula: string): string | null {
+  if (!formula.trim()) return null;
+  try {
+    parseExpression(formula);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid formula';
+  }
+}
+
+function formatConditionValue(value: FilterValue): string {
+  if (Array.isArray(value)) return `${value[0]} – ${value[1]}`;
+  if (isFieldReference(value)) {
+    const label = getFieldLabel(value.field);
+    return value.multiplier !== undefined && value.multiplier !== 1
+      ? `${value.multiplier} × ${label}`
+      : label;
+  }
+  return String(value);
+}
+
 export function FilterBuilder() {
   const {
-    customConditions,
+    customFilter,
+    customColumns,
+    sortExpression,
+    sortOrder,
+    scoreModel,
+    minScore,
+    activeScreen,
     addCondition,
-    removeCondition,
     clearConditions,
+    addColumn,
+    removeColumn,
+    setSortExpression,
+    setSort,
+    setScoreModel,
+    setMinScore,
+    setActiveScreen,
   } = useScreenerStore();
+  const navigate = useNavigate();
+  const { addScreenId, modelIds, editTokens } = useSavedScreensStore();
+  const { data: savedModels } = useScoreModels(modelIds);
+  const saveScreen = useSaveScreen();
+
+  // Group that new conditions are added to (root by default)
+  const [targetPath, setTargetPath] = useState<FilterPath>([]);
 
   const [newCondition, setNewCondition] = useState<Partial<FilterCondition>>({
     field: 'rsi14',
@@ -98,16 +177,118 @@ export function FilterBuilder() {
     value: 30,
   });
 
+  const compareRef = newCondition.value !== undefined && isFieldReference(newCondition.value)
+    ? newCondition.value
+    : null;
+  const compareParametric = compareRef ? parseParametricField(compareRef.field) : null;
+
+  // Time-window operator (used instead of newCondition.operator when set)
+  const [windowOperator, setWindowOperator] = useState<WindowOperator | null>(null);
+  const [windowDays, setWindowDays] = useState(3);
+  const isCrossOperator = windowOperator === 'crossed_above' || windowOperator === 'crossed_below';
+  const compareFields = isCrossOperator ? FIELDS.filter((f) => isHistoryField(f.value)) : FIELDS;
+
+  // Formula condition (used instead of newCondition.field when enabled)
+  const [useFormula, setUseFormula] = useState(false);
+  const [formula, setFormula] = useState('');
+  const formulaError = getFormulaError(formula);
+
+  // Categorical condition (used instead of newCondition when a categorical field is picked)
+  const [categoryField, setCategoryField] = useState<CategoricalField | null>(null);
+  const [categoryOperator, setCategoryOperator] = useState<CategoricalOperator>('in');
+  const [categoryValues, setCategoryValues] = useState<string[]>([]);
+  const [categorySearch, setCategorySearch] = useState('');
+  const fieldParametric = !categoryField && !useFormula && newCondition.field
+    ? parseParametricField(newCondition.field)
+    : null;
+  const { data: categoryOptions, isLoading: isLoadingCategories } = useCategoryValues(categoryField);
+
+  const visibleCategoryOptions = (categoryOptions ?? [])
+    .filter((option) => option.value.toLowerCase().includes(categorySearch.trim().toLowerCase()))
+    .slice(0, 100);
+
+  const toggleCategoryValue = (value: string) => {
+    setCategoryValues((values) =>
+      values.includes(value) ? values.filter((v) => v !== value) : [...values, value]
+    );
+  };
+
+  const addCategoryText = () => {
+    const text = categorySearch.trim();
+    if (text && !categoryValues.includes(text)) {
+      setCategoryValues([...categoryValues, text]);
+    }
+    setCategorySearch('');
+  };
+
+  // New computed column
+  const [columnLabel, setColumnLabel] = useState('');
+  const [columnFormula, setColumnFormula] = useState('');
+  const columnFormulaError = getFormulaError(columnFormula);
+  const sortFormulaError = getFormulaError(sortExpression);
+
+  // Save form, prefilled when editing a saved screen
+  const [screenName, setScreenName] = useState(activeScreen?.name ?? '');
+  const [screenDescription, setScreenDescription] = useState(activeScreen?.description ?? '');
+  const [screenIsPublic, setScreenIsPublic] = useState(activeScreen?.isPublic ?? false);
+
   const [isRunning, setIsRunning] = useState(false);
   const [results, setResults] = useState<any>(null);
+  const [resultColumns, setResultColumns] = useState<ComputedColumn[]>([]);
+  const [resultScored, setResultScored] = useState(false);
+
+  // Score settings shared by running and saving; the score is the default sort
+  const validSortExpression = sortExpression.trim() && !sortFormulaError ? sortExpression.trim() : undefined;
+  const scoreSettings = scoreModel
+    ? {
+        scoreModel,
+        minScore: minScore ?? undefined,
+        sortBy: validSortExpression ? undefined : ('score' as const),
+      }
+    : {};
 
   const handleAddCondition = () => {
+    if (categoryField) {
+      const pendingText = categoryOperator === 'contains' ? categorySearch.trim() : '';
+      const values = pendingText && !categoryValues.includes(pendingText)
+        ? [...categoryValues, pendingText]
+        : categoryValues;
+      if (values.length === 0) return;
+      addCondition(targetPath, { field: categoryField, operator: categoryOperator, value: values });
+      setCategoryValues([]);
+      setCategorySearch('');
+      return;
+    }
+
+    if (windowOperator && isHistoryField(newCondition.field)) {
+      const value = newCondition.value;
+      if (isCrossOperator && (value === undefined || Array.isArray(value))) return;
+      addCondition(targetPath, {
+        field: newCondition.field,
+        operator: windowOperator,
+        days: windowDays,
+        ...(isCrossOperator ? { value: value as number | FieldReference } : {}),
+      });
+      return;
+    }
+
+    if (useFormula) {
+      if (!formula.trim() || formulaError || !newCondition.operator || newCondition.value === undefined) return;
+      addCondition(targetPath, {
+        expression: formula.trim(),
+        operator: newCondition.operator,
+        value: newCondition.value,
+      });
+      setFormula('');
+      return;
+    }
+
     if (
       newCondition.field &&
       newCondition.operator &&
       newCondition.value !== undefined
     ) {
-      addCondition(newCondition as FilterCondition);
+      addCondition(targetPath, newCondition as FilterCondition);
       setNewCondition({
         field: 'rsi14',
         operator: 'lt',
@@ -116,8 +297,58 @@ export function FilterBuilder() {
     }
   };
 
+  const handleAddColumn = () => {
+    if (!columnFormula.trim() || columnFormulaError) return;
+    const label = columnLabel.trim() || columnFormula.trim();
+    addColumn({
+      key: `col${Date.now().toString(36)}`,
+      label,
+      expression: columnFormula.trim(),
+    });
+    setColumnLabel('');
+    setColumnFormula('');
+  };
+
+  const handleClearConditions = () => {
+    clearConditions();
+    setTargetPath([]);
+    setActiveScreen(null);
+  };
+
+  // Only screens created from this browser (with their edit token) can be updated
+  const activeScreenToken = activeScreen ? editTokens[activeScreen.id] : undefined;
+
+  // Updates the loaded screen, or creates a new one (asNew forks a loaded screen)
+  const handleSaveScreen = (asNew: boolean) => {
+    if (customFilter.conditions.length === 0 || !screenName.trim()) return;
+    const update = !asNew && activeScreenToken !== undefined;
+
+    saveScreen.mutate(
+      {
+        id: update ? activeScreen?.id : undefined,
+        editToken: update ? activeScreenToken : undefined,
+        screen: {
+          name: screenName.trim(),
+          description: screenDescription.trim() || undefined,
+          conditions: [customFilter],
+          sortExpression: validSortExpression,
+          sortOrder,
+          columns: customColumns.length > 0 ? customColumns : undefined,
+          ...scoreSettings,
+          isPublic: screenIsPublic,
+        },
+      },
+      {
+        onSuccess: ({ editToken, ...screen }) => {
+          addScreenId(screen.id, editToken);
+          setActiveScreen(screen);
+        },
+      }
+    );
+  };
+
   const handleRunScreener = async () => {
-    if (customConditions.length === 0) return;
+    if (customFilter.conditions.length === 0) return;
 
     setIsRunning(true);
     try {
@@ -127,7 +358,11 @@ export function FilterBuilder() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          conditions: customConditions,
+          conditions: [customFilter],
+          sortExpression: validSortExpression,
+          sortOrder,
+          columns: customColumns.length > 0 ? customColumns : undefined,
+          ...scoreSettings,
           page: 1,
           pageSize: 50,
         }),
@@ -136,6 +371,8 @@ export function FilterBuilder() {
       const data = await response.json();
       if (data.success) {
         setResults(data.data);
+        setResultColumns(customColumns);
+        setResultScored(!!scoreModel);
       }
     } catch (error) {
       console.error('Failed to run screener:', error);
@@ -159,124 +396,587 @@ export function FilterBuilder() {
         </CardHeader>
         <CardContent className="space-y-4 sm:space-y-6 px-4 sm:px-6">
           {/* Add New Condition */}
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 items-end">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 sm:gap-4 items-end">
             <div className="space-y-1.5 sm:space-y-2">
               <Label className="text-xs sm:text-sm">Field</Label>
               <Select
-                value={newCondition.field as string}
-                onValueChange={(value) =>
-                  setNewCondition({ ...newCondition, field: value as keyof StockIndicators })
-                }
+                value={categoryField ?? (useFormula ? FORMULA_FIELD : newCondition.field as string)}
+                onValueChange={(value) => {
+                  const categorical = CATEGORICAL_FIELDS.find((f) => f.value === value);
+                  if (categorical?.value !== categoryField) {
+                    setCategoryValues([]);
+                    setCategorySearch('');
+                  }
+                  setCategoryField(categorical?.value ?? null);
+                  setUseFormula(value === FORMULA_FIELD);
+                  if (!isHistoryField(value)) {
+                    setWindowOperator(null);
+                  }
+                  if (!categorical && value !== FORMULA_FIELD) {
+                    setNewCondition({ ...newCondition, field: value as ConditionField });
+                  }
+                }}
               >
-                <SelectTrigger className="h-9 sm:h-10">
-                  <SelectValue placeholder="Select field" />
-                </SelectTrigger>
+                <div className="flex gap-2">
+                  <SelectTrigger className="h-9 sm:h-10">
+                    <SelectValue placeholder="Select field" />
+                  </SelectTrigger>
+                  {fieldParametric && (
+                    <Input
+                      type="number"
+                      min={PARAMETRIC_PERIOD_MIN}
+                      max={PARAMETRIC_PERIOD_MAX}
+                      value={fieldParametric.period}
+                      onChange={(e) =>
+                        setNewCondition({
+                          ...newCondition,
+                          field: toParametricField(fieldParametric.indicator, clampPeriod(e.target.value)),
+                        })
+                      }
+                      aria-label="Period"
+                      className="font-mono h-9 sm:h-10 w-20 shrink-0"
+                    />
+                  )}
+                </div>
                 <SelectContent>
-                  {FIELDS.map((field) => (
-                    <SelectItem key={field.value} value={field.value}>
-                      {field.label}
-                    </SelectItem>
+                  <SelectItem value={FORMULA_FIELD}>Formula…</SelectItem>
+                  <SelectGroup>
+                    <SelectLabel>Classification</SelectLabel>
+                    {CATEGORICAL_FIELDS.map((field) => (
+                      <SelectItem key={field.value} value={field.value}>
+                        {field.label}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                  {FIELD_CATEGORIES.map((category) => (
+                    <SelectGroup key={category.id}>
+                      <SelectLabel>{category.name}</SelectLabel>
+                      {FIELDS.filter((field) => field.category === category.id).map((field) => (
+                        <SelectItem key={field.value} value={field.value}>
+                          {field.label}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
                   ))}
+                  <SelectGroup>
+                    <SelectLabel>Custom Window</SelectLabel>
+                    {PARAMETRIC_OPTIONS.map((option) => (
+                      <SelectItem
+                        key={option.indicator}
+                        value={toParametricField(option.indicator, fieldParametric?.period ?? DEFAULT_PARAMETRIC_PERIOD)}
+                      >
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
                 </SelectContent>
               </Select>
             </div>
 
             <div className="space-y-1.5 sm:space-y-2">
               <Label className="text-xs sm:text-sm">Operator</Label>
-              <Select
-                value={newCondition.operator}
-                onValueChange={(value) =>
-                  setNewCondition({ ...newCondition, operator: value as FilterOperator })
-                }
-              >
-                <SelectTrigger className="h-9 sm:h-10">
-                  <SelectValue placeholder="Select operator" />
-                </SelectTrigger>
-                <SelectContent>
-                  {OPERATORS.map((op) => (
-                    <SelectItem key={op.value} value={op.value}>
-                      <span className="flex items-center gap-2">
-                        <span className="font-mono text-accent-main">{op.symbol}</span>
-                        <span className="truncate">{op.label}</span>
-                      </span>
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              {categoryField ? (
+                <Select
+                  value={categoryOperator}
+                  onValueChange={(value) => setCategoryOperator(value as CategoricalOperator)}
+                >
+                  <SelectTrigger className="h-9 sm:h-10">
+                    <SelectValue placeholder="Select operator" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CATEGORICAL_OPERATORS.map((op) => (
+                      <SelectItem key={op.value} value={op.value}>
+                        <span className="flex items-center gap-2">
+                          <span className="font-mono text-accent-main">{op.symbol}</span>
+                          <span className="truncate">{op.label}</span>
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Select
+                  value={windowOperator ?? newCondition.operator}
+                  onValueChange={(value) => {
+                    const windowOp = WINDOW_OPERATORS.find((op) => op.value === value);
+                    if (!windowOp) {
+                      setWindowOperator(null);
+                      setNewCondition({ ...newCondition, operator: value as FilterOperator });
+                      return;
+                    }
+                    setWindowOperator(windowOp.value);
+                    // Crosses can only compare against another history series
+                    if (compareRef && !isHistoryField(compareRef.field)) {
+                      setNewCondition({ ...newCondition, value: 0 });
+                    }
+                  }}
+                >
+                  <SelectTrigger className="h-9 sm:h-10">
+                    <SelectValue placeholder="Select operator" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OPERATORS.map((op) => (
+                      <SelectItem key={op.value} value={op.value}>
+                        <span className="flex items-center gap-2">
+                          <span className="font-mono text-accent-main">{op.symbol}</span>
+                          <span className="truncate">{op.label}</span>
+                        </span>
+                      </SelectItem>
+                    ))}
+                    {!useFormula && isHistoryField(newCondition.field) && WINDOW_OPERATORS.map((op) => (
+                      <SelectItem key={op.value} value={op.value}>
+                        <span className="flex items-center gap-2">
+                          <span className="font-mono text-accent-main">{op.symbol}</span>
+                          <span className="truncate">{op.label}</span>
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
             </div>
 
-            <div className="space-y-1.5 sm:space-y-2">
-              <Label className="text-xs sm:text-sm">Value</Label>
-              <Input
-                type="number"
-                value={newCondition.value as number}
-                onChange={(e) =>
-                  setNewCondition({
-                    ...newCondition,
-                    value: parseFloat(e.target.value) || 0,
-                  })
-                }
-                placeholder="Enter value"
-                className="font-mono h-9 sm:h-10"
-              />
-            </div>
+            {categoryField ? (
+              <div className="space-y-1.5 sm:space-y-2 sm:col-span-2">
+                <Label className="text-xs sm:text-sm">
+                  {categoryOperator === 'contains' ? 'Text' : 'Search'}
+                </Label>
+                <Input
+                  value={categorySearch}
+                  onChange={(e) => setCategorySearch(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && categoryOperator === 'contains') addCategoryText();
+                  }}
+                  placeholder={categoryOperator === 'contains' ? 'e.g. semiconductor (Enter to add)' : 'Filter values'}
+                  className="h-9 sm:h-10"
+                />
+              </div>
+            ) : windowOperator && !isCrossOperator ? (
+              <div className="space-y-1.5 sm:space-y-2 sm:col-span-2">
+                <Label className="text-xs sm:text-sm">Days</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={252}
+                  value={windowDays}
+                  onChange={(e) => setWindowDays(Math.min(Math.max(parseInt(e.target.value) || 1, 1), 252))}
+                  className="font-mono h-9 sm:h-10"
+                />
+              </div>
+            ) : (
+              <>
+                <div className="space-y-1.5 sm:space-y-2">
+                  <Label className="text-xs sm:text-sm">Compare To</Label>
+                  <Select
+                    value={compareRef ? compareRef.field : COMPARE_NUMBER}
+                    onValueChange={(value) =>
+                      setNewCondition({
+                        ...newCondition,
+                        value: value === COMPARE_NUMBER
+                          ? 0
+                          : { field: value as ConditionField, multiplier: compareRef?.multiplier ?? 1 },
+                      })
+                    }
+                  >
+                    <div className="flex gap-2">
+                      <SelectTrigger className="h-9 sm:h-10">
+                        <SelectValue placeholder="Select comparison" />
+                      </SelectTrigger>
+                      {compareRef && compareParametric && (
+                        <Input
+                          type="number"
+                          min={PARAMETRIC_PERIOD_MIN}
+                          max={PARAMETRIC_PERIOD_MAX}
+                          value={compareParametric.period}
+                          onChange={(e) =>
+                            setNewCondition({
+                              ...newCondition,
+                              value: {
+                                ...compareRef,
+                                field: toParametricField(compareParametric.indicator, clampPeriod(e.target.value)),
+                              },
+                            })
+                          }
+                          aria-label="Period"
+                          className="font-mono h-9 sm:h-10 w-20 shrink-0"
+                        />
+                      )}
+                    </div>
+                    <SelectContent>
+                      <SelectItem value={COMPARE_NUMBER}>Number</SelectItem>
+                      {compareFields.map((field) => (
+                        <SelectItem key={field.value} value={field.value}>
+                          {field.label}
+                        </SelectItem>
+                      ))}
+                      {!isCrossOperator && (
+                        <SelectGroup>
+                          <SelectLabel>Custom Window</SelectLabel>
+                          {PARAMETRIC_OPTIONS.map((option) => (
+                            <SelectItem
+                              key={option.indicator}
+                              value={toParametricField(option.indicator, compareParametric?.period ?? DEFAULT_PARAMETRIC_PERIOD)}
+                            >
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-1.5 sm:space-y-2">
+                  <Label className="text-xs sm:text-sm">{compareRef ? 'Multiplier' : 'Value'}</Label>
+                  <Input
+                    type="number"
+                    value={compareRef ? compareRef.multiplier ?? 1 : newCondition.value as number}
+                    onChange={(e) =>
+                      setNewCondition({
+                        ...newCondition,
+                        value: compareRef
+                          ? { ...compareRef, multiplier: parseFloat(e.target.value) || 0 }
+                          : parseFloat(e.target.value) || 0,
+                      })
+                    }
+                    placeholder={compareRef ? 'e.g. 1.05' : 'Enter value'}
+                    step={compareRef ? 0.01 : undefined}
+                    className="font-mono h-9 sm:h-10"
+                  />
+                </div>
+              </>
+            )}
 
             <Button onClick={handleAddCondition} className="w-full sm:w-auto h-9 sm:h-10">
               <Plus className="mr-2 h-4 w-4" strokeWidth={1.5} />
               Add Condition
             </Button>
+
+            {isCrossOperator && (
+              <div className="space-y-1.5 sm:space-y-2">
+                <Label className="text-xs sm:text-sm">Within (days)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={252}
+                  value={windowDays}
+                  onChange={(e) => setWindowDays(Math.min(Math.max(parseInt(e.target.value) || 1, 1), 252))}
+                  className="font-mono h-9 sm:h-10"
+                />
+              </div>
+            )}
+
+            {categoryField && (
+              <div className="space-y-2 sm:col-span-2 lg:col-span-5">
+                {categoryValues.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5">
+                    {categoryValues.map((value) => (
+                      <Badge key={value} variant="default" className="px-2 py-1 text-[11px] sm:text-xs font-normal">
+                        {value}
+                        <button
+                          onClick={() => toggleCategoryValue(value)}
+                          className="ml-1.5 opacity-70 hover:opacity-100 transition-opacity p-0.5"
+                        >
+                          <X className="h-3 w-3" strokeWidth={1.5} />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {categoryOperator !== 'contains' && (
+                  <div className="max-h-40 overflow-y-auto border border-border-element p-2 flex flex-wrap gap-1.5">
+                    {isLoadingCategories ? (
+                      <span className="text-[11px] sm:text-xs text-ink-tertiary">Loading values...</span>
+                    ) : visibleCategoryOptions.length === 0 ? (
+                      <span className="text-[11px] sm:text-xs text-ink-tertiary">No values found</span>
+                    ) : (
+                      visibleCategoryOptions.map((option) => (
+                        <button
+                          key={option.value}
+                          onClick={() => toggleCategoryValue(option.value)}
+                          className={cn(
+                            'inline-flex items-center gap-1.5 px-2 py-1 border text-[11px] sm:text-xs transition-colors',
+                            categoryValues.includes(option.value)
+                              ? 'border-accent-main bg-accent-subtle text-ink-primary'
+                              : 'border-border-element text-ink-secondary hover:border-accent-main'
+                          )}
+                        >
+                          {option.value}
+                          <span className="font-mono text-ink-tertiary">{option.count}</span>
+                        </button>
+                      ))
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {useFormula && (
+              <div className="space-y-1.5 sm:space-y-2 sm:col-span-2 lg:col-span-5">
+                <Label className="text-xs sm:text-sm">Formula</Label>
+                <Input
+                  value={formula}
+                  onChange={(e) => setFormula(e.target.value)}
+                  placeholder="e.g. volume / averageVolume"
+                  className="font-mono h-9 sm:h-10"
+                />
+                {formulaError && (
+                  <p className="text-[11px] sm:text-xs text-signal-error">{formulaError}</p>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Active Conditions */}
-          {customConditions.length > 0 && (
+          {customFilter.conditions.length > 0 && (
             <div className="space-y-2 sm:space-y-3">
               <div className="flex items-center justify-between gap-2">
                 <Label className="text-ink-primary text-xs sm:text-sm">Active Conditions</Label>
                 <Button 
                   variant="ghost" 
                   size="sm" 
-                  onClick={clearConditions} 
+                  onClick={handleClearConditions} 
                   className="text-signal-error hover:text-signal-error h-8 px-2 sm:px-3"
                 >
                   <Trash2 className="h-3.5 w-3.5 sm:mr-2" strokeWidth={1.5} />
                   <span className="hidden sm:inline">Clear All</span>
                 </Button>
               </div>
+              <ConditionGroup
+                group={customFilter}
+                path={[]}
+                targetPath={targetPath}
+                onSelectTarget={setTargetPath}
+              />
+            </div>
+          )}
+
+          {/* Composite Score */}
+          <div className="space-y-3 sm:space-y-4 pt-3 sm:pt-4 border-t border-border-element">
+            <div className="grid grid-cols-1 sm:grid-cols-[2fr_1fr_auto] gap-3 sm:gap-4 items-end">
+              <div className="space-y-1.5 sm:space-y-2">
+                <Label className="text-xs sm:text-sm">Score Model</Label>
+                <Select
+                  value={scoreModel ?? NO_SCORE_MODEL}
+                  onValueChange={(value) => setScoreModel(value === NO_SCORE_MODEL ? null : value)}
+                >
+                  <SelectTrigger className="h-9 sm:h-10">
+                    <SelectValue placeholder="Select model" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SCORE_MODEL}>None</SelectItem>
+                    <SelectGroup>
+                      <SelectLabel>Built-in</SelectLabel>
+                      {Object.entries(SCORE_MODELS).map(([id, model]) => (
+                        <SelectItem key={id} value={id}>
+                          {model.name}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                    {savedModels && savedModels.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Saved</SelectLabel>
+                        {savedModels.map((model) => (
+                          <SelectItem key={model.id} value={model.id}>
+                            {model.name}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5 sm:space-y-2">
+                <Label className="text-xs sm:text-sm">Min Score</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={minScore ?? ''}
+                  onChange={(e) => setMinScore(e.target.value === '' ? null : Math.min(100, Math.max(0, Number(e.target.value))))}
+                  placeholder="0 – 100"
+                  disabled={!scoreModel}
+                  className="font-mono h-9 sm:h-10"
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => navigate('/models')}
+                className="w-full sm:w-auto h-9 sm:h-10"
+              >
+                <Gauge className="mr-2 h-4 w-4" strokeWidth={1.5} />
+                Models
+              </Button>
+            </div>
+            {scoreModel && !validSortExpression && (
+              <p className="text-[11px] sm:text-xs text-ink-tertiary">
+                Results are sorted by score unless a sort formula is set
+              </p>
+            )}
+          </div>
+
+          {/* Sorting & Computed Columns */}
+          <div className="space-y-3 sm:space-y-4 pt-3 sm:pt-4 border-t border-border-element">
+            <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-3 sm:gap-4 items-end">
+              <div className="space-y-1.5 sm:space-y-2">
+                <Label className="text-xs sm:text-sm">Sort Formula</Label>
+                <Input
+                  value={sortExpression}
+                  onChange={(e) => setSortExpression(e.target.value)}
+                  placeholder="e.g. targetMeanPrice / price - 1 (defaults to volume)"
+                  className="font-mono h-9 sm:h-10"
+                />
+                {sortFormulaError && (
+                  <p className="text-[11px] sm:text-xs text-signal-error">{sortFormulaError}</p>
+                )}
+              </div>
+              <div className="flex gap-1.5">
+                {(['desc', 'asc'] as const).map((order) => (
+                  <Button
+                    key={order}
+                    variant={sortOrder === order ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setSort(null, order)}
+                    className="h-9 sm:h-10 px-3 font-mono text-[10px] sm:text-xs"
+                  >
+                    {order.toUpperCase()}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-[1fr_2fr_auto] gap-3 sm:gap-4 items-end">
+              <div className="space-y-1.5 sm:space-y-2">
+                <Label className="text-xs sm:text-sm">Column Label</Label>
+                <Input
+                  value={columnLabel}
+                  onChange={(e) => setColumnLabel(e.target.value)}
+                  placeholder="e.g. Rel Volume"
+                  className="h-9 sm:h-10"
+                />
+              </div>
+              <div className="space-y-1.5 sm:space-y-2">
+                <Label className="text-xs sm:text-sm">Column Formula</Label>
+                <Input
+                  value={columnFormula}
+                  onChange={(e) => setColumnFormula(e.target.value)}
+                  placeholder="e.g. volume / averageVolume"
+                  className="font-mono h-9 sm:h-10"
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={handleAddColumn}
+                disabled={!columnFormula.trim() || !!columnFormulaError}
+                className="w-full sm:w-auto h-9 sm:h-10"
+              >
+                <Sigma className="mr-2 h-4 w-4" strokeWidth={1.5} />
+                Add Column
+              </Button>
+            </div>
+            {columnFormulaError && (
+              <p className="text-[11px] sm:text-xs text-signal-error">{columnFormulaError}</p>
+            )}
+
+            {customColumns.length > 0 && (
               <div className="flex flex-wrap gap-1.5 sm:gap-2">
-                {customConditions.map((condition, index) => {
-                  const field = FIELDS.find((f) => f.value === condition.field);
-                  const operator = OPERATORS.find((o) => o.value === condition.operator);
-                  return (
-                    <Badge
-                      key={index}
-                      variant="secondary"
-                      className="px-2 sm:px-3 py-1 sm:py-1.5 text-[11px] sm:text-body font-normal"
+                {customColumns.map((column) => (
+                  <Badge
+                    key={column.key}
+                    variant="secondary"
+                    className="px-2 sm:px-3 py-1 sm:py-1.5 text-[11px] sm:text-body font-normal"
+                  >
+                    <span className="text-ink-primary">{column.label}</span>
+                    <span className="mx-1 sm:mx-1.5 font-mono text-accent-main">=</span>
+                    <span className="font-mono text-ink-secondary">{column.expression}</span>
+                    <button
+                      onClick={() => removeColumn(column.key)}
+                      className="ml-1.5 sm:ml-2 text-ink-tertiary hover:text-signal-error transition-colors p-0.5"
                     >
-                      <span className="text-ink-primary">{field?.label}</span>
-                      <span className="mx-1 sm:mx-1.5 font-mono text-accent-main">{operator?.symbol}</span>
-                      <span className="font-mono text-ink-primary">
-                        {Array.isArray(condition.value)
-                          ? `${condition.value[0]} – ${condition.value[1]}`
-                          : condition.value}
-                      </span>
-                      <button
-                        onClick={() => removeCondition(index)}
-                        className="ml-1.5 sm:ml-2 text-ink-tertiary hover:text-signal-error transition-colors p-0.5"
-                      >
-                        <X className="h-3 w-3" strokeWidth={1.5} />
-                      </button>
-                    </Badge>
-                  );
-                })}
+                      <X className="h-3 w-3" strokeWidth={1.5} />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Save Screen */}
+          <div className="space-y-3 sm:space-y-4 pt-3 sm:pt-4 border-t border-border-element">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs sm:text-sm">{activeScreen ? 'Saved Screen' : 'Save Screen'}</Label>
+              {activeScreen && (
+                <span className="font-mono text-[10px] sm:text-xs text-ink-tertiary">
+                  /screener/{activeScreen.id}
+                </span>
+              )}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-[1fr_2fr_auto] gap-3 sm:gap-4 items-end">
+              <div className="space-y-1.5 sm:space-y-2">
+                <Label className="text-xs sm:text-sm">Name</Label>
+                <Input
+                  value={screenName}
+                  onChange={(e) => setScreenName(e.target.value)}
+                  placeholder="e.g. Cheap Quality"
+                  maxLength={100}
+                  className="h-9 sm:h-10"
+                />
               </div>
+              <div className="space-y-1.5 sm:space-y-2">
+                <Label className="text-xs sm:text-sm">Description</Label>
+                <Input
+                  value={screenDescription}
+                  onChange={(e) => setScreenDescription(e.target.value)}
+                  placeholder="Optional"
+                  maxLength={500}
+                  className="h-9 sm:h-10"
+                />
+              </div>
+              <Button
+                variant={screenIsPublic ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setScreenIsPublic(!screenIsPublic)}
+                className="h-9 sm:h-10 px-3 font-mono text-[10px] sm:text-xs"
+              >
+                {screenIsPublic ? (
+                  <Globe className="mr-1.5 h-3.5 w-3.5" strokeWidth={1.5} />
+                ) : (
+                  <Lock className="mr-1.5 h-3.5 w-3.5" strokeWidth={1.5} />
+                )}
+                {screenIsPublic ? 'PUBLIC' : 'UNLISTED'}
+              </Button>
             </div>
-          )}
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3">
+              <Button
+                variant="outline"
+                onClick={() => handleSaveScreen(false)}
+                disabled={customFilter.conditions.length === 0 || !screenName.trim() || saveScreen.isPending}
+                className="w-full sm:w-auto h-9 sm:h-10"
+              >
+                <Save className="mr-2 h-4 w-4" strokeWidth={1.5} />
+                {saveScreen.isPending ? 'Saving...' : activeScreenToken ? 'Update Screen' : 'Save Screen'}
+              </Button>
+              {activeScreenToken && (
+                <Button
+                  variant="ghost"
+                  onClick={() => handleSaveScreen(true)}
+                  disabled={customFilter.conditions.length === 0 || !screenName.trim() || saveScreen.isPending}
+                  className="w-full sm:w-auto h-9 sm:h-10"
+                >
+                  Save as New
+                </Button>
+              )}
+              {saveScreen.error && (
+                <p className="text-[11px] sm:text-xs text-signal-error">{saveScreen.error.message}</p>
+              )}
+            </div>
+          </div>
 
           {/* Run Button */}
           <div className="flex justify-end pt-3 sm:pt-4 border-t border-border-element">
             <Button
               onClick={handleRunScreener}
-              disabled={customConditions.length === 0 || isRunning}
+              disabled={customFilter.conditions.length === 0 || isRunning}
               className="w-full sm:w-auto"
             >
               <Play className="mr-2 h-4 w-4" strokeWidth={1.5} />
@@ -313,6 +1013,14 @@ export function FilterBuilder() {
                       <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-[10px] sm:text-label">CHANGE</th>
                       <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-[10px] sm:text-label hidden sm:table-cell">VOLUME</th>
                       <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-[10px] sm:text-label">RSI</th>
+                      {resultScored && (
+                        <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-[10px] sm:text-label">SCORE</th>
+                      )}
+                      {resultColumns.map((column) => (
+                        <th key={column.key} className="px-2 sm:px-4 py-2 sm:py-3 text-left text-[10px] sm:text-label">
+                          {(column.label || column.key).toUpperCase()}
+                        </th>
+                      ))}
                     </tr>
                   </thead>
                   <tbody>
@@ -325,7 +1033,7 @@ export function FilterBuilder() {
                           {stock.symbol}
                         </td>
                         <td className="px-2 sm:px-4 py-2 sm:py-3 font-mono text-[11px] sm:text-data tabular-nums">
-                          ${stock.price?.toFixed(2) || '—'}
+                          {formatFieldValue('price', stock.price)}
                         </td>
                         <td
                           className={`px-2 sm:px-4 py-2 sm:py-3 font-mono text-[11px] sm:text-data tabular-nums ${
@@ -334,11 +1042,10 @@ export function FilterBuilder() {
                               : 'text-negative'
                           }`}
                         >
-                          {stock.changePercent >= 0 ? '+' : ''}
-                          {stock.changePercent?.toFixed(2) || '—'}%
+                          {formatFieldValue('changePercent', stock.changePercent)}
                         </td>
                         <td className="px-2 sm:px-4 py-2 sm:py-3 font-mono text-[11px] sm:text-data tabular-nums text-ink-secondary hidden sm:table-cell">
-                          {stock.volume?.toLocaleString() || '—'}
+                          {formatFieldValue('volume', stock.volume)}
                         </td>
                         <td className="px-2 sm:px-4 py-2 sm:py-3">
                           {stock.rsi14 ? (
@@ -356,6 +1063,22 @@ export function FilterBuilder() {
                             <span className="text-ink-tertiary">—</span>
                           )}
                         </td>
+                        {resultScored && (
+                          <td className="px-2 sm:px-4 py-2 sm:py-3 font-mono text-[11px] sm:text-data tabular-nums text-ink-primary">
+                            {typeof stock.score === 'number' ? stock.score.toFixed(0) : '—'}
+                          </td>
+                        )}
+                        {resultColumns.map((column) => {
+                          const value = stock.computed?.[column.key];
+                          return (
+                            <td
+                              key={column.key}
+                              className="px-2 sm:px-4 py-2 sm:py-3 font-mono text-[11px] sm:text-data tabular-nums text-ink-secondary"
+                            >
+                              {typeof value === 'number' ? value.toFixed(2) : '—'}
+                            </td>
+                          );
+                        })}
                       </tr>
                     ))}
                   </tbody>
@@ -368,3 +1091,156 @@ export function FilterBuilder() {
     </div>
   );
 }
+
+interface ConditionGroupProps {
+  group: FilterGroup;
+  path: FilterPath;
+  targetPath: FilterPath;
+  onSelectTarget: (path: FilterPath) => void;
+}
+
+// Recursive editor for a condition group and its nested groups
+function ConditionGroup({ group, path, targetPath, onSelectTarget }: ConditionGroupProps) {
+  const {
+    addCondition,
+    removeCondition,
+    setGroupCombinator,
+    toggleGroupNegate,
+  } = useScreenerStore();
+
+  const isRoot = path.length === 0;
+  const isTarget = path.join('.') === targetPath.join('.');
+
+  const handleAddGroup = () => {
+    addCondition(path, { combinator: 'and', conditions: [] });
+    onSelectTarget([...path, group.conditions.length]);
+  };
+
+  const handleRemove = (childPath: FilterPath) => {
+    // Reset the target if it lives inside the removed node or after it (indices shift)
+    const parentPath = childPath.slice(0, -1);
+    const removedIndex = childPath[childPath.length - 1];
+    if (
+      parentPath.every((index, i) => targetPath[i] === index) &&
+      targetPath.length > parentPath.length &&
+      targetPath[parentPath.length] >= removedIndex
+    ) {
+      onSelectTarget(parentPath);
+    }
+    removeCondition(childPath);
+  };
+
+  return (
+    <div
+      className={cn(
+        'border p-2 sm:p-3 space-y-2',
+        isTarget ? 'border-accent-main' : 'border-border-element',
+        !isRoot && 'bg-surface-subtle'
+      )}
+    >
+      <div className="flex flex-wrap items-center gap-1.5 sm:gap-2">
+        <Button
+          variant={group.negate ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => toggleGroupNegate(path)}
+          className="h-7 px-2 font-mono text-[10px] sm:text-xs"
+        >
+          NOT
+        </Button>
+        {(['and', 'or'] as const).map((combinator) => (
+          <Button
+            key={combinator}
+            variant={group.combinator === combinator ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setGroupCombinator(path, combinator)}
+            className="h-7 px-2 font-mono text-[10px] sm:text-xs"
+          >
+            {combinator.toUpperCase()}
+          </Button>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onSelectTarget(path)}
+          className={cn('h-7 px-2 text-[10px] sm:text-xs', isTarget && 'text-accent-main')}
+        >
+          {isTarget ? 'Adding here' : 'Add here'}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleAddGroup}
+          className="h-7 px-2 text-[10px] sm:text-xs"
+        >
+          <ListTree className="h-3.5 w-3.5 sm:mr-1.5" strokeWidth={1.5} />
+          <span className="hidden sm:inline">Add Group</span>
+        </Button>
+        {!isRoot && (
+          <button
+            onClick={() => handleRemove(path)}
+            className="ml-auto text-ink-tertiary hover:text-signal-error transition-colors p-0.5"
+          >
+            <X className="h-3.5 w-3.5" strokeWidth={1.5} />
+          </button>
+        )}
+      </div>
+
+      {group.conditions.length === 0 ? (
+        <div className="text-[11px] sm:text-xs text-ink-tertiary">Empty group</div>
+      ) : (
+        <div className="flex flex-wrap gap-1.5 sm:gap-2">
+          {group.conditions.map((node, index) => {
+            const childPath = [...path, index];
+
+            if (isFilterGroup(node)) {
+              return (
+                <div key={index} className="w-full">
+                  <ConditionGroup
+                    group={node}
+                    path={childPath}
+                    targetPath={targetPath}
+                    onSelectTarget={onSelectTarget}
+                  />
+                </div>
+              );
+            }
+
+            const field = isExpressionCondition(node)
+              ? { label: `ƒ(${node.expression})` }
+              : isCategoricalCondition(node)
+                ? CATEGORICAL_FIELDS.find((f) => f.value === node.field)
+                : { label: getFieldLabel(node.field) };
+            const operator = isCategoricalCondition(node)
+              ? CATEGORICAL_OPERATORS.find((o) => o.value === node.operator)
+              : isWindowCondition(node)
+                ? WINDOW_OPERATORS.find((o) => o.value === node.operator)
+                : OPERATORS.find((o) => o.value === node.operator);
+            return (
+              <Badge
+                key={index}
+                variant="secondary"
+                className="px-2 sm:px-3 py-1 sm:py-1.5 text-[11px] sm:text-body font-normal"
+              >
+                <span className="text-ink-primary">{field?.label}</span>
+                <span className="mx-1 sm:mx-1.5 font-mono text-accent-main">{operator?.symbol}</span>
+                <span className="font-mono text-ink-primary">
+                  {isCategoricalCondition(node)
+                    ? node.value.join(', ')
+                    : isWindowCondition(node)
+                      ? `${node.value !== undefined ? `${formatConditionValue(node.value)} · ` : ''}${node.days}d`
+                      : formatConditionValue(node.value)}
+                </span>
+                <button
+                  onClick={() => handleRemove(childPath)}
+                  className="ml-1.5 sm:ml-2 text-ink-tertiary hover:text-signal-error transition-colors p-0.5"
+                >
+                  <X className="h-3 w-3" strokeWidth={1.5} />
+                </button>
+              </Badge>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ChevronRight, Plus, TrendingUp, Activity, BarChart3, Zap, DollarSign, LineChart, Award } from 'lucide-react';
-import { PRESET_CATEGORIES, getPresetsByCategory, type PresetCategory } from '@screener/shared';
+import { Badge } from '@/components/ui/badge';
+import { useSavedScreens, useDeleteScreen } from '@/hooks/useScreener';
+import { useSavedScreensStore } from '@/stores/savedScreensStore';
+import { ChevronRight, Plus, TrendingUp, Activity, BarChart3, Zap, DollarSign, LineChart, Award, Bookmark, X, Gauge, Trophy, Waves } from 'lucide-react';
+import { PRESET_CATEGORIES, getPresetsByCategory, isFilterGroup, isExpressionCondition, isFieldReference, isWindowCondition, type FilterValue, type PresetCategory } from '@screener/shared';
 
 const categoryIcons: Record<PresetCategory, React.ReactNode> = {
   technical: <Activity className="h-4 w-4" strokeWidth={1.5} />,
@@ -12,10 +15,20 @@ const categoryIcons: Record<PresetCategory, React.ReactNode> = {
   fundamentals: <DollarSign className="h-4 w-4" strokeWidth={1.5} />,
   analysts: <LineChart className="h-4 w-4" strokeWidth={1.5} />,
   quality: <Award className="h-4 w-4" strokeWidth={1.5} />,
+  rs_leaders: <Trophy className="h-4 w-4" strokeWidth={1.5} />,
 };
 
 export function PresetExplorer() {
   const navigate = useNavigate();
+  const { screenIds, editTokens, removeScreenId } = useSavedScreensStore();
+  const { data: savedScreens } = useSavedScreens(screenIds);
+  const deleteScreen = useDeleteScreen();
+
+  const handleDeleteScreen = (screenId: string, editToken: string) => {
+    deleteScreen.mutate({ id: screenId, editToken }, {
+      onSuccess: () => removeScreenId(screenId),
+    });
+  };
 
   const handlePresetSelect = (presetId: string) => {
     navigate(`/screener/${presetId}`);
@@ -37,14 +50,86 @@ export function PresetExplorer() {
                 Select a preset screen or create your own custom filter
               </p>
             </div>
-            <Button onClick={handleCreateCustom} className="gap-2 w-full sm:w-auto">
-              <Plus className="h-4 w-4" strokeWidth={1.5} />
-              Create Custom Screen
-            </Button>
+            <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+              <Button variant="outline" onClick={() => navigate('/market')} className="gap-2 w-full sm:w-auto">
+                <Waves className="h-4 w-4" strokeWidth={1.5} />
+                Market Breadth
+              </Button>
+              <Button variant="outline" onClick={() => navigate('/models')} className="gap-2 w-full sm:w-auto">
+                <Gauge className="h-4 w-4" strokeWidth={1.5} />
+                Score Models
+              </Button>
+              <Button onClick={handleCreateCustom} className="gap-2 w-full sm:w-auto">
+                <Plus className="h-4 w-4" strokeWidth={1.5} />
+                Create Custom Screen
+              </Button>
+            </div>
           </div>
         </CardContent>
       </Card>
 
+      {/* Saved Screens - this browser's screens plus public ones */}
+      {savedScreens && savedScreens.length > 0 && (
+        <Card className="border-b-0">
+          <CardHeader className="pb-2 sm:pb-3 px-4 sm:px-6">
+            <CardTitle className="flex items-center gap-2 sm:gap-3 text-sm sm:text-base">
+              <span className="text-accent-main"><Bookmark className="h-4 w-4" strokeWidth={1.5} /></span>
+              Saved Screens
+            </CardTitle>
+            <p className="text-[10px] sm:text-label text-ink-tertiary mt-0.5 sm:mt-1">
+              YOUR SCREENS AND SCREENS SHARED BY OTHERS
+            </p>
+          </CardHeader>
+          <CardContent className="pt-0 px-4 sm:px-6 pb-4 sm:pb-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2 sm:gap-3">
+              {savedScreens.map((screen) => {
+                const isMine = screenIds.includes(screen.id);
+                const editToken = editTokens[screen.id];
+
+                return (
+                  <div key={screen.id} className="relative">
+                    <button
+                      onClick={() => handlePresetSelect(screen.id)}
+                      className="group w-full h-full text-left p-3 sm:p-4 bg-surface-subtle border border-border-element hover:border-accent-main hover:bg-accent-subtle/30 transition-all active:scale-[0.98]"
+                    >
+                      <div className="flex items-center gap-1.5 sm:gap-2 pr-5">
+                        <span className="text-xs sm:text-body font-medium text-ink-primary group-hover:text-accent-main transition-colors truncate">
+                          {screen.name}
+                        </span>
+                        <ChevronRight className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-ink-tertiary group-hover:text-accent-main flex-shrink-0" strokeWidth={1.5} />
+                      </div>
+                      {screen.description && (
+                        <p className="text-[11px] sm:text-[12px] text-ink-tertiary mt-0.5 sm:mt-1 line-clamp-2">
+                          {screen.description}
+                        </p>
+                      )}
+                      <div className="mt-2 flex gap-1">
+                        {isMine && (
+                          <Badge variant="secondary" className="text-[9px] sm:text-[10px] px-1.5 py-0">MINE</Badge>
+                        )}
+                        {screen.isPublic && (
+                          <Badge variant="outline" className="text-[9px] sm:text-[10px] px-1.5 py-0">PUBLIC</Badge>
+                        )}
+                      </div>
+                    </button>
+                    {editToken && (
+                      <button
+                        onClick={() => handleDeleteScreen(screen.id, editToken)}
+                        disabled={deleteScreen.isPending}
+                        title="Delete screen"
+                        className="absolute top-2 right-2 text-ink-tertiary hover:text-signal-error transition-colors p-0.5"
+                      >
+                        <X className="h-3 w-3" strokeWidth={1.5} />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Categories Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-0">
         {PRESET_CATEGORIES.map((category, idx) => {
@@ -98,9 +183,23 @@ export function PresetExplorer() {
                             key={i}
                             className="inline-flex items-center px-1.5 sm:px-2 py-0.5 bg-surface-card border border-border-element text-[9px] sm:text-[10px] font-mono text-ink-secondary"
                           >
-                            <span className="hidden sm:inline">{condition.field.toUpperCase()}</span>
-                            <span className="sm:hidden">{condition.field.slice(0, 3).toUpperCase()}</span>
-                            {' '}{condition.operator} {Array.isArray(condition.value) ? condition.value.join('-') : formatValue(condition.value)}
+                            {isFilterGroup(condition) ? (
+                              <>
+                                {condition.negate ? 'NOT ' : ''}{condition.combinator.toUpperCase()} ({condition.conditions.length})
+                              </>
+                            ) : isExpressionCondition(condition) ? (
+                              <>
+                                ƒ({condition.expression}) {condition.operator} {formatConditionValue(condition.value)}
+                              </>
+                            ) : (
+                              <>
+                                <span className="hidden sm:inline">{condition.field.toUpperCase()}</span>
+                                <span className="sm:hidden">{condition.field.slice(0, 3).toUpperCase()}</span>
+                                {' '}{condition.operator}
+                                {condition.value !== undefined && <> {formatConditionValue(condition.value)}</>}
+                                {isWindowCondition(condition) && <> {condition.days}d</>}
+                              </>
+                            )}
                           </span>
                         ))}
                         {preset.conditions.length > 2 && (
@@ -164,6 +263,15 @@ export function PresetExplorer() {
   );
 }
 
+function formatConditionValue(value: FilterValue | string[]): string {
+  if (Array.isArray(value)) return value.join(typeof value[0] === 'string' ? ', ' : '-');
+  if (isFieldReference(value)) {
+    const field = value.field.toUpperCase();
+    return value.multiplier !== undefined && value.multiplier !== 1 ? `${value.multiplier}×${field}` : field;
+  }
+  return formatValue(value);
+}
+
 function formatValue(value: number): string {
   if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
   if (value >= 1000) return `${(value / 1000).toFixed(0)}K`;
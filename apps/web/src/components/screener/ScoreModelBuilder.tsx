@@ -0,0 +1,434 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { useScoreModels, useSaveScoreModel, useDeleteScoreModel } from '@/hooks/useScreener';
+import { useSavedScreensStore } from '@/stores/savedScreensStore';
+import { useScreenerStore } from '@/stores/screenerStore';
+import { useNavigate } from 'react-router-dom';
+import { cn } from '@/lib/utils';
+import { Gauge, Plus, X, Save, Globe, Lock, Play } from 'lucide-react';
+import {
+  FIELD_CATEGORIES,
+  FIELD_REGISTRY,
+  SCORE_MODELS,
+  SCREENER_FIELDS,
+  type ScoreFactorGroup,
+  type ScoreModel,
+  type ScoreRankScope,
+  type ScreenerField,
+} from '@screener/shared';
+
+type ScoreModelDraft = Omit<ScoreModel, 'id'>;
+
+const emptyGroup = (): ScoreFactorGroup => ({
+  name: 'Factor',
+  weight: 50,
+  factors: [{ field: 'roe', higherIsBetter: true }],
+});
+
+const emptyModel = (): ScoreModelDraft => ({
+  name: '',
+  description: '',
+  rankWithin: 'universe',
+  groups: [emptyGroup()],
+});
+
+const RANK_SCOPES: Array<{ value: ScoreRankScope; label: string }> = [
+  { value: 'universe', label: 'UNIVERSE' },
+  { value: 'sector', label: 'SECTOR' },
+];
+
+export function ScoreModelBuilder() {
+  const navigate = useNavigate();
+  const { modelIds, editTokens, addModelId, removeModelId } = useSavedScreensStore();
+  const { setScoreModel } = useScreenerStore();
+  const { data: savedModels } = useScoreModels(modelIds);
+  const saveModel = useSaveScoreModel();
+  const deleteModel = useDeleteScoreModel();
+
+  // Saved model being edited (null for a new model or a built-in copy)
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ScoreModelDraft>(emptyModel);
+  const [isPublic, setIsPublic] = useState(false);
+
+  const totalWeight = draft.groups.reduce((sum, group) => sum + (group.weight > 0 ? group.weight : 0), 0);
+  const isValid = draft.name.trim().length > 0 &&
+    draft.groups.length > 0 &&
+    draft.groups.every((group) => group.name.trim() && group.weight > 0 && group.factors.length > 0);
+
+  const updateGroup = (index: number, update: (group: ScoreFactorGroup) => ScoreFactorGroup) => {
+    setDraft((model) => ({
+      ...model,
+      groups: model.groups.map((group, i) => (i === index ? update(group) : group)),
+    }));
+  };
+
+  const handleEdit = (id: string | null, model: ScoreModelDraft, modelIsPublic: boolean) => {
+    setEditingId(id);
+    setDraft({
+      ...model,
+      description: model.description ?? '',
+      groups: model.groups.map((group) => ({ ...group, factors: [...group.factors] })),
+    });
+    setIsPublic(modelIsPublic);
+  };
+
+  const handleNew = () => handleEdit(null, emptyModel(), false);
+
+  const handleSave = (asNew: boolean) => {
+    if (!isValid) return;
+
+    saveModel.mutate(
+      {
+        id: asNew ? undefined : editingId ?? undefined,
+        editToken: asNew || !editingId ? undefined : editTokens[editingId],
+        model: {
+          name: draft.name.trim(),
+          description: draft.description?.trim() || undefined,
+          rankWithin: draft.rankWithin,
+          groups: draft.groups.map((group) => ({ ...group, name: group.name.trim() })),
+          isPublic,
+        },
+      },
+      {
+        onSuccess: (model) => {
+          addModelId(model.id, model.editToken);
+          setEditingId(model.id);
+        },
+      }
+    );
+  };
+
+  const handleDelete = (id: string, editToken: string) => {
+    deleteModel.mutate({ id, editToken }, {
+      onSuccess: () => {
+        removeModelId(id);
+        if (editingId === id) handleNew();
+      },
+    });
+  };
+
+  // Rank the custom builder by a model
+  const handleUse = (id: string) => {
+    setScoreModel(id);
+    navigate('/custom');
+  };
+
+  return (
+    <div className="space-y-0">
+      <Card className="border-b-0">
+        <CardHeader className="px-4 sm:px-6">
+          <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+            <Gauge className="h-4 w-4 text-accent-main" strokeWidth={1.5} />
+            Score Models
+          </CardTitle>
+          <CardDescription className="text-xs sm:text-sm">
+            Weighted factor models that percentile-rank stocks into a 0–100 composite score
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="px-4 sm:px-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2 sm:gap-3">
+            {Object.entries(SCORE_MODELS).map(([id, model]) => (
+              <ModelCard
+                key={id}
+                name={model.name}
+                description={model.description}
+                badges={['BUILT-IN', model.rankWithin.toUpperCase()]}
+                onEdit={() => handleEdit(null, { ...model, name: `${model.name} (copy)` }, false)}
+                onUse={() => handleUse(id)}
+              />
+            ))}
+            {savedModels?.map((model) => {
+              const isMine = modelIds.includes(model.id);
+              // Editing in place needs the model's edit token; otherwise it is saved as a copy
+              const editToken = editTokens[model.id];
+              return (
+                <ModelCard
+                  key={model.id}
+                  name={model.name}
+                  description={model.description}
+                  badges={[...(isMine ? ['MINE'] : []), ...(model.isPublic ? ['PUBLIC'] : []), model.rankWithin.toUpperCase()]}
+                  active={editingId === model.id}
+                  onEdit={() => handleEdit(editToken ? model.id : null, model, model.isPublic)}
+                  onUse={() => handleUse(model.id)}
+                  onDelete={editToken ? () => handleDelete(model.id, editToken) : undefined}
+                />
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Editor */}
+      <Card>
+        <CardHeader className="flex-row items-center justify-between space-y-0 px-4 sm:px-6">
+          <CardTitle className="text-sm sm:text-base">{editingId ? 'Edit Model' : 'New Model'}</CardTitle>
+          <Button variant="ghost" size="sm" onClick={handleNew} className="h-8 px-2 sm:px-3">
+            <Plus className="h-3.5 w-3.5 sm:mr-2" strokeWidth={1.5} />
+            <span className="hidden sm:inline">New</span>
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4 sm:space-y-6 px-4 sm:px-6">
+          <div className="grid grid-cols-1 sm:grid-cols-[1fr_2fr_auto] gap-3 sm:gap-4 items-end">
+            <div className="space-y-1.5 sm:space-y-2">
+              <Label className="text-xs sm:text-sm">Name</Label>
+              <Input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. Value + Quality"
+                maxLength={100}
+                className="h-9 sm:h-10"
+              />
+            </div>
+            <div className="space-y-1.5 sm:space-y-2">
+              <Label className="text-xs sm:text-sm">Description</Label>
+              <Input
+                value={draft.description ?? ''}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                placeholder="Optional"
+                maxLength={500}
+                className="h-9 sm:h-10"
+              />
+            </div>
+            <div className="space-y-1.5 sm:space-y-2">
+              <Label className="text-xs sm:text-sm">Rank Within</Label>
+              <div className="flex gap-1.5">
+                {RANK_SCOPES.map((scope) => (
+                  <Button
+                    key={scope.value}
+                    variant={draft.rankWithin === scope.value ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setDraft({ ...draft, rankWithin: scope.value })}
+                    className="h-9 sm:h-10 px-3 font-mono text-[10px] sm:text-xs"
+                  >
+                    {scope.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Factor groups */}
+          <div className="space-y-3">
+            {draft.groups.map((group, g) => (
+              <div key={g} className="border border-border-element bg-surface-subtle p-3 sm:p-4 space-y-3">
+                <div className="grid grid-cols-[1fr_90px_auto] gap-2 sm:gap-3 items-end">
+                  <div className="space-y-1.5">
+                    <Label className="text-xs">Group</Label>
+                    <Input
+                      value={group.name}
+                      onChange={(e) => updateGroup(g, (current) => ({ ...current, name: e.target.value }))}
+                      maxLength={50}
+                      className="h-9"
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label className="text-xs">Weight</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={group.weight}
+                      onChange={(e) => updateGroup(g, (current) => ({ ...current, weight: Number(e.target.value) }))}
+                      className="font-mono h-9"
+                    />
+                  </div>
+                  <div className="flex items-center gap-2 h-9">
+                    <span className="font-mono text-[10px] sm:text-xs text-ink-tertiary w-10 text-right">
+                      {totalWeight > 0 && group.weight > 0 ? `${Math.round((group.weight / totalWeight) * 100)}%` : '—'}
+                    </span>
+                    <button
+                      onClick={() => setDraft({ ...draft, groups: draft.groups.filter((_, i) => i !== g) })}
+                      disabled={draft.groups.length === 1}
+                      className="text-ink-tertiary hover:text-signal-error disabled:opacity-40 transition-colors p-0.5"
+                    >
+                      <X className="h-3.5 w-3.5" strokeWidth={1.5} />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  {group.factors.map((factor, f) => (
+                    <div key={f} className="grid grid-cols-[1fr_auto_auto] gap-2 items-center">
+                      <Select
+                        value={factor.field}
+                        onValueChange={(value) => updateGroup(g, (current) => ({
+                          ...current,
+                          factors: current.factors.map((item, i) =>
+                            i === f ? { ...item, field: value as ScreenerField } : item
+                          ),
+                        }))}
+                      >
+                        <SelectTrigger className="h-8 sm:h-9">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FIELD_CATEGORIES.map((category) => (
+                            <SelectGroup key={category.id}>
+                              <SelectLabel>{category.name}</SelectLabel>
+                              {SCREENER_FIELDS.filter((field) => FIELD_REGISTRY[field].category === category.id).map((field) => (
+                                <SelectItem key={field} value={field}>
+                                  {FIELD_REGISTRY[field].label}
+                                </SelectItem>
+                              ))}
+                            </SelectGroup>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => updateGroup(g, (current) => ({
+                          ...current,
+                          factors: current.factors.map((item, i) =>
+                            i === f ? { ...item, higherIsBetter: !item.higherIsBetter } : item
+                          ),
+                        }))}
+                        className="h-8 sm:h-9 px-2 sm:px-3 font-mono text-[10px] sm:text-xs w-[92px]"
+                      >
+                        {factor.higherIsBetter ? 'HIGH BEST' : 'LOW BEST'}
+                      </Button>
+                      <button
+                        onClick={() => updateGroup(g, (current) => ({
+                          ...current,
+                          factors: current.factors.filter((_, i) => i !== f),
+                        }))}
+                        disabled={group.factors.length === 1}
+                        className="text-ink-tertiary hover:text-signal-error disabled:opacity-40 transition-colors p-0.5"
+                      >
+                        <X className="h-3 w-3" strokeWidth={1.5} />
+                      </button>
+                    </div>
+                  ))}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateGroup(g, (current) => ({
+                      ...current,
+                      factors: [...current.factors, { field: 'peRatio', higherIsBetter: false }],
+                    }))}
+                    disabled={group.factors.length >= 10}
+                    className="h-7 px-2 text-[11px] sm:text-xs"
+                  >
+                    <Plus className="mr-1 h-3 w-3" strokeWidth={1.5} />
+                    Add Factor
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft({ ...draft, groups: [...draft.groups, emptyGroup()] })}
+              disabled={draft.groups.length >= 10}
+              className="h-8"
+            >
+              <Plus className="mr-2 h-3.5 w-3.5" strokeWidth={1.5} />
+              Add Group
+            </Button>
+          </div>
+
+          {/* Save */}
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3 pt-3 sm:pt-4 border-t border-border-element">
+            <Button
+              variant={isPublic ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setIsPublic(!isPublic)}
+              className="h-9 sm:h-10 px-3 font-mono text-[10px] sm:text-xs"
+            >
+              {isPublic ? (
+                <Globe className="mr-1.5 h-3.5 w-3.5" strokeWidth={1.5} />
+              ) : (
+                <Lock className="mr-1.5 h-3.5 w-3.5" strokeWidth={1.5} />
+              )}
+              {isPublic ? 'PUBLIC' : 'UNLISTED'}
+            </Button>
+            <Button
+              onClick={() => handleSave(false)}
+              disabled={!isValid || saveModel.isPending}
+              className="w-full sm:w-auto h-9 sm:h-10"
+            >
+              <Save className="mr-2 h-4 w-4" strokeWidth={1.5} />
+              {saveModel.isPending ? 'Saving...' : editingId ? 'Update Model' : 'Save Model'}
+            </Button>
+            {editingId && (
+              <Button
+                variant="ghost"
+                onClick={() => handleSave(true)}
+                disabled={!isValid || saveModel.isPending}
+                className="w-full sm:w-auto h-9 sm:h-10"
+              >
+                Save as New
+              </Button>
+            )}
+            {saveModel.error && (
+              <p className="text-[11px] sm:text-xs text-signal-error">{saveModel.error.message}</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+interface ModelCardProps {
+  name: string;
+  description?: string;
+  badges: string[];
+  active?: boolean;
+  onEdit: () => void;
+  onUse: () => void;
+  onDelete?: () => void;
+}
+
+function ModelCard({ name, description, badges, active, onEdit, onUse, onDelete }: ModelCardProps) {
+  return (
+    <div
+      className={cn(
+        'relative p-3 sm:p-4 bg-surface-subtle border transition-all',
+        active ? 'border-accent-main' : 'border-border-element'
+      )}
+    >
+      <div className="text-xs sm:text-body font-medium text-ink-primary pr-5 truncate">{name}</div>
+      {description && (
+        <p className="text-[11px] sm:text-[12px] text-ink-tertiary mt-0.5 sm:mt-1 line-clamp-2">{description}</p>
+      )}
+      <div className="mt-2 flex flex-wrap gap-1">
+        {badges.map((badge) => (
+          <Badge key={badge} variant="outline" className="text-[9px] sm:text-[10px] px-1.5 py-0">
+            {badge}
+          </Badge>
+        ))}
+      </div>
+      <div className="mt-2 flex gap-1.5">
+        <Button variant="outline" size="sm" onClick={onUse} className="h-7 px-2 text-[11px]">
+          <Play className="mr-1 h-3 w-3" strokeWidth={1.5} />
+          Use
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onEdit} className="h-7 px-2 text-[11px]">
+          Edit
+        </Button>
+      </div>
+      {onDelete && (
+        <button
+          onClick={onDelete}
+          title="Delete model"
+          className="absolute top-2 right-2 text-ink-tertiary hover:text-signal-error transition-colors p-0.5"
+        >
+          <X className="h-3 w-3" strokeWidth={1.5} />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -18,11 +18,12 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { usePresetScreener, usePresets } from '@/hooks/useScreener';
-import { formatNumber, formatPrice, formatPercent } from '@/lib/utils';
-import { ArrowUpDown, ArrowUp, ArrowDown, RefreshCw, ChevronRight } from 'lucide-react';
+import { usePresetScreener, usePresets, useSavedScreen } from '@/hooks/useScreener';
+import { useScreenerStore } from '@/stores/screenerStore';
+import { formatNumber, formatPrice, formatPercent, formatFieldValue } from '@/lib/utils';
+import { ArrowUpDown, ArrowUp, ArrowDown, RefreshCw, ChevronRight, History, Pencil } from 'lucide-react';
 import { prefetchTickerData } from '@/main';
-import type { StockIndicators } from '@screener/shared';
+import { PRESET_FILTERS, FIELD_REGISTRY, type StockIndicators } from '@screener/shared';
 
 export function ScreenerView() {
   const { presetId } = useParams<{ presetId: string }>();
@@ -33,6 +34,13 @@ export function ScreenerView() {
   const pageSize = 50;
 
   const activePreset = presetId || 'highVolume';
+  const builtInPreset = PRESET_FILTERS[activePreset];
+
+  // Anything that isn't a built-in preset is a saved screen id
+  const { data: savedScreen } = useSavedScreen(builtInPreset ? null : activePreset);
+  const { loadScreen } = useScreenerStore();
+  const presetColumns = builtInPreset ? builtInPreset.columns : savedScreen?.columns;
+  const hasScore = !!(builtInPreset ? builtInPreset.scoreModel : savedScreen?.scoreModel);
 
   const { data: presets } = usePresets();
   const { data: results, isLoading, error, refetch } = usePresetScreener(
@@ -46,6 +54,22 @@ export function ScreenerView() {
     setPage(1);
   };
 
+  // Saved screens are edited and backtested through the custom builder
+  const handleEditScreen = () => {
+    if (!savedScreen) return;
+    loadScreen(savedScreen);
+    navigate('/custom');
+  };
+
+  const handleBacktest = () => {
+    if (savedScreen) {
+      loadScreen(savedScreen);
+      navigate('/backtest?preset=__custom');
+      return;
+    }
+    navigate(`/backtest?preset=${activePreset}`);
+  };
+
   const handleRowClick = (symbol: string) => {
     navigate(`/ticker/${symbol}`);
   };
@@ -210,44 +234,65 @@ export function ScreenerView() {
           );
         },
       },
-      {
-        accessorKey: 'sma20',
-        header: () => <span className="text-label">SMA20</span>,
-        cell: ({ row }) => {
-          const value = row.getValue('sma20') as number | undefined;
-          return (
-            <span className="font-mono text-data tabular-nums text-ink-secondary">
-              {value ? formatPrice(value) : '—'}
-            </span>
-          );
-        },
-      },
-      {
-        accessorKey: 'sma50',
-        header: () => <span className="text-label">SMA50</span>,
+      // Moving averages, labelled and formatted from the field registry
+      ...(['sma20', 'sma50', 'sma200'] as const).map<ColumnDef<StockIndicators>>((field) => ({
+        accessorKey: field,
+        header: () => <span className="text-label">{FIELD_REGISTRY[field].shortLabel.toUpperCase()}</span>,
+        cell: ({ row }) => (
+          <span className="font-mono text-data tabular-nums text-ink-secondary">
+            {formatFieldValue(field, row.getValue(field) as number | undefined)}
+          </span>
+        ),
+      })),
+      // Composite score when the preset ranks by a score model
+      ...(hasScore ? [{
+        accessorKey: 'score',
+        header: ({ column }) => (
+          <button
+            onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
+            className="flex items-center gap-1 text-label hover:text-accent-main transition-colors"
+          >
+            SCORE
+            {column.getIsSorted() === 'asc' ? (
+              <ArrowUp className="h-3 w-3" />
+            ) : column.getIsSorted() === 'desc' ? (
+              <ArrowDown className="h-3 w-3" />
+            ) : (
+              <ArrowUpDown className="h-3 w-3 text-ink-tertiary" />
+            )}
+          </button>
+        ),
         cell: ({ row }) => {
-          const value = row.getValue('sma50') as number | undefined;
+          const value = row.original.score;
+          if (value === undefined) return <span className="text-ink-tertiary">—</span>;
+
+          let variant: 'secondary' | 'success' | 'destructive' = 'secondary';
+          if (value >= 70) variant = 'success';
+          else if (value < 30) variant = 'destructive';
+
           return (
-            <span className="font-mono text-data tabular-nums text-ink-secondary">
-              {value ? formatPrice(value) : '—'}
-            </span>
+            <Badge variant={variant} className="font-mono">
+              {value.toFixed(0)}
+            </Badge>
           );
         },
-      },
-      {
-        accessorKey: 'sma200',
-        header: () => <span className="text-label">SMA200</span>,
-        cell: ({ row }) => {
-          const value = row.getValue('sma200') as number | undefined;
+      } satisfies ColumnDef<StockIndicators>] : []),
+      // Computed columns defined by the preset
+      ...(presetColumns || []).map<ColumnDef<StockIndicators>>((computed) => ({
+        id: `computed.${computed.key}`,
+        accessorFn: (stock) => stock.computed?.[computed.key] ?? undefined,
+        header: () => <span className="text-label">{(computed.label || computed.key).toUpperCase()}</span>,
+        cell: ({ getValue }) => {
+          const value = getValue() as number | undefined;
           return (
             <span className="font-mono text-data tabular-nums text-ink-secondary">
-              {value ? formatPrice(value) : '—'}
+              {value !== undefined ? formatNumber(value, 2) : '—'}
             </span>
           );
         },
-      },
+      })),
     ],
-    []
+    [presetColumns, hasScore]
   );
 
   const table = useReactTable({
@@ -278,6 +323,9 @@ export function ScreenerView() {
                     <SelectValue placeholder="Select preset" />
                   </SelectTrigger>
                   <SelectContent>
+                    {savedScreen && (
+                      <SelectItem value={savedScreen.id}>{savedScreen.name}</SelectItem>
+                    )}
                     {presets?.map((preset) => (
                       <SelectItem key={preset.id} value={preset.id}>
                         {preset.name}
@@ -293,17 +341,39 @@ export function ScreenerView() {
               )}
             </div>
             
-            {/* Right: Refresh button */}
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => refetch()}
-              disabled={isLoading}
-              className="w-full sm:w-auto"
-            >
-              <RefreshCw className={`mr-2 h-3.5 w-3.5 ${isLoading ? 'animate-spin' : ''}`} strokeWidth={1.5} />
-              Refresh
-            </Button>
+            {/* Right: Edit + Backtest + Refresh buttons */}
+            <div className="flex gap-2 w-full sm:w-auto">
+              {savedScreen && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleEditScreen}
+                  className="flex-1 sm:flex-none"
+                >
+                  <Pencil className="mr-2 h-3.5 w-3.5" strokeWidth={1.5} />
+                  Edit
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleBacktest}
+                className="flex-1 sm:flex-none"
+              >
+                <History className="mr-2 h-3.5 w-3.5" strokeWidth={1.5} />
+                Backtest
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => refetch()}
+                disabled={isLoading}
+                className="flex-1 sm:flex-none"
+              >
+                <RefreshCw className={`mr-2 h-3.5 w-3.5 ${isLoading ? 'animate-spin' : ''}`} strokeWidth={1.5} />
+                Refresh
+              </Button>
+            </div>
           </div>
         </CardContent>
       </Card>
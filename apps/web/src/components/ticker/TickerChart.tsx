@@ -1,76 +1,394 @@
-import { useEffect, useRef, memo } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  createChart,
+  CrosshairMode,
+  type ISeriesApi,
+  type MouseEventParams,
+  type SeriesMarker,
+  type SeriesType,
+  type Time,
+  type UTCTimestamp,
+} from 'lightweight-charts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { LineChart } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useTickerChart, useTickerDividends, useTickerIndicators, useTickerPatterns, useTickerSplits } from '@/hooks/useTickerData';
+import { formatNumber, formatPrice } from '@/lib/utils';
+import { LineChart, Loader2 } from 'lucide-react';
+import { CANDLE_PATTERNS, CHART_INDICATOR_PANES } from '@screener/shared';
+import type { ChartBar, ChartIndicatorField, ChartIndicatorPoint, ChartRange, PriceAdjustment } from '@screener/shared';
 
 interface TickerChartProps {
   symbol: string;
 }
 
-function TradingViewWidget({ symbol }: { symbol: string }) {
+type ChartType = 'candlestick' | 'line' | 'area';
+
+const RANGES: ChartRange[] = ['1D', '1W', '1M', '3M', '1Y', '5Y', 'MAX'];
+const INTRADAY_RANGES: ChartRange[] = ['1D', '1W'];
+
+const CHART_TYPES: Array<{ value: ChartType; label: string }> = [
+  { value: 'candlestick', label: 'CANDLES' },
+  { value: 'line', label: 'LINE' },
+  { value: 'area', label: 'AREA' },
+];
+
+// Indicators are computed from split-adjusted prices, so that is the default
+const ADJUSTMENTS: Array<{ value: PriceAdjustment; label: string }> = [
+  { value: 'none', label: 'RAW' },
+  { value: 'split', label: 'SPLIT ADJ' },
+  { value: 'total', label: 'TOTAL RETURN' },
+];
+
+const OVERLAY_PANES = CHART_INDICATOR_PANES.filter((pane) => pane.overlay);
+
+// Canvas colours can't read CSS variables, so the theme tokens are resolved here
+const COLORS = {
+  surface: 'rgba(255, 255, 255, 1)', // surface-card
+  grid: 'rgba(224, 226, 230, 1)', // border-element
+  text: 'rgba(87, 92, 102, 1)', // ink-secondary
+  accent: 'rgba(57, 47, 111, 1)', // color-accent-main
+  up: 'rgba(0, 112, 75, 1)', // signal-success
+  down: 'rgba(185, 37, 24, 1)', // signal-error
+  upVolume: 'rgba(0, 112, 75, 0.3)',
+  downVolume: 'rgba(185, 37, 24, 0.3)',
+  dividend: 'rgba(0, 112, 75, 1)',
+  split: 'rgba(230, 168, 0, 1)', // signal-warning
+  neutralPattern: 'rgba(155, 161, 166, 1)', // ink-tertiary
+};
+
+// Overlay line colours, assigned in order across the active overlays
+const OVERLAY_COLORS = [
+  'rgba(57, 47, 111, 1)', // color-accent-main
+  'rgba(230, 168, 0, 1)', // signal-warning
+  'rgba(0, 112, 75, 1)', // signal-success
+  'rgba(185, 37, 24, 1)', // signal-error
+  'rgba(155, 161, 166, 1)', // ink-tertiary
+];
+
+const toTime = (t: number) => Math.floor(t / 1000) as UTCTimestamp;
+
+// Index of the last bar starting at or before a timestamp (-1 when before the first bar)
+function findBarIndex(bars: ChartBar[], t: number): number {
+  let low = 0;
+  let high = bars.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (bars[mid].t <= t) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+// Daily indicator points sampled onto the bars: each bar takes the latest
+// point before the next bar starts (weekly / monthly bars get period-end values)
+function alignToBars(bars: ChartBar[], points: ChartIndicatorPoint[], field: ChartIndicatorField) {
+  const values: Array<{ time: UTCTimestamp; value: number }> = [];
+  let p = 0;
+  let latest: number | null | undefined = null;
+
+  bars.forEach((bar, i) => {
+    const end = i + 1 < bars.length ? bars[i + 1].t : Infinity;
+    while (p < points.length && points[p].t < end) {
+      latest = points[p][field];
+      p++;
+    }
+    if (latest !== null && latest !== undefined) values.push({ time: toTime(bar.t), value: latest });
+  });
+
+  return values;
+}
+
+interface HoverState {
+  bar: ChartBar;
+  overlays: Array<{ label: string; color: string; value: number }>;
+}
+
+export function TickerChart({ symbol }: TickerChartProps) {
+  const [range, setRange] = useState<ChartRange>('1Y');
+  const [chartType, setChartType] = useState<ChartType>('candlestick');
+  const [adjusted, setAdjusted] = useState<PriceAdjustment>('split');
+  const [activeOverlays, setActiveOverlays] = useState<string[]>(['ma']);
+  const [showPatterns, setShowPatterns] = useState(false);
+  const [hover, setHover] = useState<HoverState | null>(null);
+
+  const isIntraday = INTRADAY_RANGES.includes(range);
+  // Stored indicators are on the split-adjusted basis, so they only line up with those bars
+  const overlaysAvailable = !isIntraday && adjusted === 'split';
+  const { data: chart, isLoading } = useTickerChart(symbol, range, true, adjusted);
+  const { data: indicators } = useTickerIndicators(symbol, range, overlaysAvailable && activeOverlays.length > 0);
+  const { data: dividends } = useTickerDividends(symbol, !isIntraday);
+  const { data: splits } = useTickerSplits(symbol, !isIntraday);
+  const { data: patterns } = useTickerPatterns(symbol, range, !isIntraday && showPatterns);
+
   const containerRef = useRef<HTMLDivElement>(null);
 
+  const bars = useMemo(() => chart?.data.bars ?? [], [chart]);
+
+  // Overlay lines for the active overlay panes
+  const overlays = useMemo(() => {
+    const points = indicators?.data.points ?? [];
+    if (!overlaysAvailable || points.length === 0) return [];
+    return OVERLAY_PANES.filter((pane) => activeOverlays.includes(pane.id))
+      .flatMap((pane) => pane.series)
+      .map((series, i) => ({
+        label: series.label,
+        color: OVERLAY_COLORS[i % OVERLAY_COLORS.length],
+        data: alignToBars(bars, points, series.field),
+      }));
+  }, [bars, indicators, activeOverlays, overlaysAvailable]);
+
+  // Dividend, split and candlestick pattern markers, placed on the bar containing each event
+  const markers = useMemo(() => {
+    if (isIntraday || bars.length === 0) return [];
+    const events: SeriesMarker<Time>[] = [];
+
+    for (const dividend of dividends?.data.dividends ?? []) {
+      const index = findBarIndex(bars, new Date(dividend.exDividendDate).getTime());
+      if (index < 0 || new Date(dividend.exDividendDate).getTime() > Date.now()) continue;
+      events.push({
+        time: toTime(bars[index].t),
+        position: 'belowBar',
+        color: COLORS.dividend,
+        shape: 'circle',
+        text: `D ${formatPrice(dividend.amount)}`,
+      });
+    }
+    for (const split of splits?.data.splits ?? []) {
+      const index = findBarIndex(bars, new Date(split.executionDate).getTime());
+      if (index < 0) continue;
+      events.push({
+        time: toTime(bars[index].t),
+        position: 'aboveBar',
+        color: COLORS.split,
+        shape: 'arrowDown',
+        text: `${split.splitTo}:${split.splitFrom}`,
+      });
+    }
+    for (const marker of showPatterns ? patterns?.data ?? [] : []) {
+      const index = findBarIndex(bars, new Date(marker.date).getTime());
+      if (index < 0) continue;
+      const { label, bias } = CANDLE_PATTERNS[marker.pattern];
+      events.push({
+        time: toTime(bars[index].t),
+        position: bias === 'bullish' ? 'belowBar' : 'aboveBar',
+        color: bias === 'bullish' ? COLORS.up : bias === 'bearish' ? COLORS.down : COLORS.neutralPattern,
+        shape: bias === 'bullish' ? 'arrowUp' : bias === 'bearish' ? 'arrowDown' : 'square',
+        text: label,
+      });
+    }
+
+    return events.sort((a, b) => (a.time as number) - (b.time as number));
+  }, [bars, dividends, splits, patterns, showPatterns, isIntraday]);
+
   useEffect(() => {
-    if (!containerRef.current) return;
-
-    // Clear previous widget
-    containerRef.current.innerHTML = '';
-
-    const script = document.createElement('script');
-    script.src = 'https://s3.tradingview.com/external-embedding/embed-widget-advanced-chart.js';
-    script.type = 'text/javascript';
-    script.async = true;
-    script.innerHTML = JSON.stringify({
-      autosize: true,
-      symbol: symbol,
-      interval: '240', // 4H timeframe
-      timezone: 'Etc/UTC',
-      theme: 'light',
-      style: '1', // Candlestick
-      locale: 'en',
-      allow_symbol_change: false,
-      calendar: false,
-      hide_top_toolbar: false,
-      hide_legend: false,
-      save_image: false,
-      backgroundColor: 'rgba(255, 255, 255, 1)', // surface-card
-      gridColor: 'rgba(224, 226, 230, 1)', // border-element
-      support_host: 'https://www.tradingview.com',
+    if (!containerRef.current || bars.length === 0) return;
+
+    const chartApi = createChart(containerRef.current, {
+      autoSize: true,
+      layout: { background: { color: COLORS.surface }, textColor: COLORS.text, fontSize: 11 },
+      grid: { vertLines: { visible: false }, horzLines: { color: COLORS.grid } },
+      rightPriceScale: { borderColor: COLORS.grid },
+      timeScale: { borderColor: COLORS.grid, timeVisible: isIntraday, secondsVisible: false },
+      crosshair: { mode: CrosshairMode.Normal },
     });
 
-    containerRef.current.appendChild(script);
+    let priceSeries: ISeriesApi<SeriesType>;
+    if (chartType === 'candlestick') {
+      priceSeries = chartApi.addCandlestickSeries({
+        upColor: COLORS.up,
+        downColor: COLORS.down,
+        borderVisible: false,
+        wickUpColor: COLORS.up,
+        wickDownColor: COLORS.down,
+      });
+      priceSeries.setData(bars.map((bar) => ({ time: toTime(bar.t), open: bar.o, high: bar.h, low: bar.l, close: bar.c })));
+    } else {
+      priceSeries = chartType === 'area'
+        ? chartApi.addAreaSeries({
+            lineColor: COLORS.accent,
+            topColor: 'rgba(57, 47, 111, 0.25)',
+            bottomColor: 'rgba(57, 47, 111, 0.02)',
+            lineWidth: 2,
+          })
+        : chartApi.addLineSeries({ color: COLORS.accent, lineWidth: 2 });
+      priceSeries.setData(bars.map((bar) => ({ time: toTime(bar.t), value: bar.c })));
+    }
+    priceSeries.setMarkers(markers);
 
-    return () => {
-      if (containerRef.current) {
-        containerRef.current.innerHTML = '';
+    // Volume on its own scale along the bottom fifth of the pane
+    const volumeSeries = chartApi.addHistogramSeries({ priceScaleId: 'volume', priceFormat: { type: 'volume' } });
+    chartApi.priceScale('volume').applyOptions({ scaleMargins: { top: 0.8, bottom: 0 } });
+    volumeSeries.setData(bars.map((bar) => ({
+      time: toTime(bar.t),
+      value: bar.v,
+      color: bar.c >= bar.o ? COLORS.upVolume : COLORS.downVolume,
+    })));
+
+    const overlaySeries = overlays.map((overlay) => {
+      const series = chartApi.addLineSeries({
+        color: overlay.color,
+        lineWidth: 1,
+        priceLineVisible: false,
+        lastValueVisible: false,
+        crosshairMarkerVisible: false,
+      });
+      series.setData(overlay.data);
+      return { ...overlay, series };
+    });
+
+    // Crosshair tooltip: OHLCV for the hovered bar plus overlay values
+    const barsByTime = new Map(bars.map((bar) => [toTime(bar.t) as number, bar]));
+    const handleCrosshairMove = (param: MouseEventParams<Time>) => {
+      const bar = param.time !== undefined ? barsByTime.get(param.time as number) : undefined;
+      if (!bar || !param.point) {
+        setHover(null);
+        return;
       }
+      setHover({
+        bar,
+        overlays: overlaySeries.flatMap((overlay) => {
+          const point = param.seriesData.get(overlay.series) as { value?: number } | undefined;
+          return point?.value !== undefined ? [{ label: overlay.label, color: overlay.color, value: point.value }] : [];
+        }),
+      });
     };
-  }, [symbol]);
+    chartApi.subscribeCrosshairMove(handleCrosshairMove);
+    chartApi.timeScale().fitContent();
 
-  return (
-    <div className="tradingview-widget-container" style={{ height: '100%', width: '100%' }}>
-      <div
-        ref={containerRef}
-        className="tradingview-widget-container__widget"
-        style={{ height: 'calc(100% - 32px)', width: '100%' }}
-      />
-    </div>
-  );
-}
+    return () => {
+      chartApi.unsubscribeCrosshairMove(handleCrosshairMove);
+      chartApi.remove();
+    };
+  }, [bars, chartType, overlays, markers, isIntraday]);
 
-const MemoizedTradingViewWidget = memo(TradingViewWidget);
+  const toggleOverlay = (id: string) => {
+    setActiveOverlays((ids) => ids.includes(id) ? ids.filter((value) => value !== id) : [...ids, id]);
+  };
+
+  const last = bars[bars.length - 1];
+  const shown = hover?.bar ?? last;
+  const change = shown ? shown.c - shown.o : 0;
 
-export function TickerChart({ symbol }: TickerChartProps) {
   return (
     <Card>
-      <CardHeader className="flex-row items-center justify-between space-y-0 pb-2">
+      <CardHeader className="flex-col sm:flex-row sm:items-center justify-between gap-2 space-y-0 pb-2">
         <CardTitle className="flex items-center gap-2 text-sm">
-          <LineChart className="h-4 w-4 text-accent-main" />
+          <LineChart className="h-4 w-4 text-accent-main" strokeWidth={1.5} />
           Price Chart
+          {chart?.data.source && (
+            <span className="text-[10px] font-mono text-ink-tertiary uppercase">{chart.data.source}</span>
+          )}
         </CardTitle>
+        <div className="flex flex-wrap gap-1">
+          {RANGES.map((value) => (
+            <Button
+              key={value}
+              variant={range === value ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setRange(value)}
+              className="h-7 px-2 font-mono text-[10px] sm:text-xs"
+            >
+              {value}
+            </Button>
+          ))}
+        </div>
       </CardHeader>
-      <CardContent>
-        <div className="h-[500px] w-full">
-          <MemoizedTradingViewWidget symbol={symbol} />
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-center gap-1.5">
+          {CHART_TYPES.map((type) => (
+            <Button
+              key={type.value}
+              variant={chartType === type.value ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setChartType(type.value)}
+              className="h-7 px-2.5 font-mono text-[10px] sm:text-xs"
+            >
+              {type.label}
+            </Button>
+          ))}
+          {!isIntraday && (
+            <>
+              <span className="mx-1 h-4 w-px bg-border-element" />
+              {ADJUSTMENTS.map((option) => (
+                <Button
+                  key={option.value}
+                  variant={adjusted === option.value ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setAdjusted(option.value)}
+                  className="h-7 px-2.5 font-mono text-[10px] sm:text-xs"
+                >
+                  {option.label}
+                </Button>
+              ))}
+              <span className="mx-1 h-4 w-px bg-border-element" />
+              {OVERLAY_PANES.map((pane) => (
+                <Button
+                  key={pane.id}
+                  variant={activeOverlays.includes(pane.id) ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => toggleOverlay(pane.id)}
+                  disabled={!overlaysAvailable}
+                  title={overlaysAvailable ? undefined : 'Indicators are split-adjusted; switch to SPLIT ADJ to show them'}
+                  className="h-7 px-2.5 text-[10px] sm:text-xs"
+                >
+                  {pane.name}
+                </Button>
+              ))}
+              <Button
+                variant={showPatterns ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setShowPatterns((value) => !value)}
+                className="h-7 px-2.5 text-[10px] sm:text-xs"
+              >
+                Patterns
+              </Button>
+              {!overlaysAvailable && (
+                <span className="text-[10px] text-ink-tertiary">Indicator overlays need SPLIT ADJ prices</span>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="relative h-[460px] w-full">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-full">
+              <Loader2 className="h-5 w-5 animate-spin text-ink-tertiary" strokeWidth={1.5} />
+            </div>
+          ) : bars.length === 0 ? (
+            <div className="flex items-center justify-center h-full text-ink-tertiary text-sm">
+              No price history for {symbol}
+            </div>
+          ) : (
+            <>
+              <div ref={containerRef} className="h-full w-full" />
+              {shown && (
+                <div className="pointer-events-none absolute left-2 top-2 z-10 space-y-0.5 bg-surface-card/90 px-2 py-1 font-mono text-[10px] sm:text-xs">
+                  <div className="flex flex-wrap gap-x-3 text-ink-secondary">
+                    <span>{new Date(shown.t).toLocaleDateString(undefined, isIntraday ? { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' } : undefined)}</span>
+                    <span>O {shown.o.toFixed(2)}</span>
+                    <span>H {shown.h.toFixed(2)}</span>
+                    <span>L {shown.l.toFixed(2)}</span>
+                    <span className={change >= 0 ? 'text-signal-success' : 'text-signal-error'}>C {shown.c.toFixed(2)}</span>
+                    <span>V {formatNumber(shown.v)}</span>
+                  </div>
+                  {hover && hover.overlays.length > 0 && (
+                    <div className="flex flex-wrap gap-x-3">
+                      {hover.overlays.map((overlay) => (
+                        <span key={overlay.label} style={{ color: overlay.color }}>
+                          {overlay.label} {overlay.value.toFixed(2)}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,158 @@
+import { useMemo, useState } from 'react';
+import {
+  ComposedChart,
+  Line,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+  CartesianGrid,
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useTickerIndicators } from '@/hooks/useTickerData';
+import { formatNumber } from '@/lib/utils';
+import { Activity, Loader2 } from 'lucide-react';
+import { CHART_INDICATOR_PANES } from '@screener/shared';
+import type { ChartIndicatorPane, ChartRange } from '@screener/shared';
+
+// Daily ranges only: indicators are stored per session
+const RANGES: ChartRange[] = ['1M', '3M', '1Y'];
+
+// Series colours, assigned in order within a pane
+const SERIES_COLORS = [
+  'hsl(var(--color-accent-main))',
+  'hsl(var(--signal-warning))',
+  'hsl(var(--signal-success))',
+  'hsl(var(--signal-error))',
+  'hsl(var(--ink-tertiary))',
+];
+
+// Overlays (moving averages, bands) are drawn on the price chart itself
+const SUB_PANES = CHART_INDICATOR_PANES.filter((pane) => !pane.overlay);
+
+type ChartRow = { date: string } & Record<string, number | string | null | undefined>;
+
+const toDate = (t: number) => new Date(t).toISOString().split('T')[0];
+
+interface TickerIndicatorChartProps {
+  symbol: string;
+}
+
+export function TickerIndicatorChart({ symbol }: TickerIndicatorChartProps) {
+  const [range, setRange] = useState<ChartRange>('3M');
+  const [activePanes, setActivePanes] = useState<string[]>(['rsi', 'macd']);
+
+  const { data: indicators, isLoading, error } = useTickerIndicators(symbol, range);
+
+  const rows = useMemo<ChartRow[]>(() =>
+    (indicators?.data.points ?? []).map(({ t, ...values }) => ({ ...values, date: toDate(t) })),
+  [indicators]);
+
+  const togglePane = (id: string) => {
+    setActivePanes((panes) => panes.includes(id) ? panes.filter((pane) => pane !== id) : [...panes, id]);
+  };
+
+  const subPanes = SUB_PANES.filter((pane) => activePanes.includes(pane.id));
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <Activity className="h-4 w-4 text-accent-main" strokeWidth={1.5} />
+          Indicators
+        </CardTitle>
+        <div className="flex gap-1">
+          {RANGES.map((value) => (
+            <Button
+              key={value}
+              variant={range === value ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setRange(value)}
+              className="h-7 px-2 font-mono text-[10px] sm:text-xs"
+            >
+              {value}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap gap-1.5">
+          {SUB_PANES.map((pane) => (
+            <Button
+              key={pane.id}
+              variant={activePanes.includes(pane.id) ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => togglePane(pane.id)}
+              className="h-7 px-2.5 text-[10px] sm:text-xs"
+            >
+              {pane.name}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-[120px]">
+            <Loader2 className="h-5 w-5 animate-spin text-ink-tertiary" strokeWidth={1.5} />
+          </div>
+        ) : error || rows.length === 0 ? (
+          <div className="text-center py-12 text-ink-tertiary text-sm">
+            No indicator history for {symbol}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {/* Oscillators, one pane each */}
+            {subPanes.map((pane, index) => (
+              <div key={pane.id}>
+                <div className="text-label text-ink-tertiary px-1">{pane.name.toUpperCase()}</div>
+                <div className="h-[120px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={rows} syncId={`indicators-${symbol}`}>
+                      <CartesianGrid stroke="hsl(var(--border-element))" vertical={false} />
+                      <XAxis dataKey="date" tick={{ fontSize: 10 }} minTickGap={32} hide={index < subPanes.length - 1} />
+                      <YAxis tick={{ fontSize: 10 }} domain={['auto', 'auto']} width={56} tickFormatter={(value: number) => formatNumber(value, 1)} />
+                      <Tooltip formatter={(value: number) => formatNumber(value)} />
+                      {pane.guides?.map((guide) => (
+                        <ReferenceLine key={guide} y={guide} stroke="hsl(var(--border-grid))" strokeDasharray="3 3" />
+                      ))}
+                      {renderSeries(pane)}
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Recharts series for a pane: lines, or bars for histogram series
+function renderSeries(pane: ChartIndicatorPane) {
+  return pane.series.map((series, i) =>
+    series.style === 'histogram' ? (
+      <Bar
+        key={series.field}
+        dataKey={series.field}
+        name={series.label}
+        fill="hsl(var(--ink-tertiary))"
+        isAnimationActive={false}
+      />
+    ) : (
+      <Line
+        key={series.field}
+        type="monotone"
+        dataKey={series.field}
+        name={series.label}
+        stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+        dot={false}
+        strokeWidth={1}
+        isAnimationActive={false}
+        connectNulls
+      />
+    )
+  );
+}
@@ -2,6 +2,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { formatNumber, formatPercent, formatPrice } from '@/lib/utils';
 import { TickerChart } from './TickerChart';
+import { TickerIndicatorChart } from './TickerIndicatorChart';
 import { 
   ChevronRight, 
   TrendingUp, 
@@ -15,6 +16,8 @@ import {
   ArrowDownRight,
   Minus,
   PieChart,
+  Gauge,
+  ShieldAlert,
 } from 'lucide-react';
 import type { 
   LatestSnapshotData, 
@@ -64,6 +67,9 @@ export function TickerOverview({
       {/* Price Chart */}
       <TickerChart symbol={symbol} />
 
+      {/* Oscillator panes from daily_indicators (overlays are on the price chart) */}
+      <TickerIndicatorChart symbol={symbol} />
+
       {/* Trading Information */}
       <Card>
         <CardHeader className="pb-2">
@@ -416,6 +422,97 @@ export function TickerOverview({
         </CardContent>
       </Card>
 
+      {/* Fundamental Scores */}
+      {(snapshot?.piotroskiScore !== undefined || snapshot?.altmanZScore !== undefined ||
+        snapshot?.beneishMScore !== undefined || snapshot?.grahamNumber !== undefined) && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-sm">
+              <Gauge className="h-4 w-4 text-accent-main" />
+              Fundamental Scores
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              <MetricCard 
+                label="Piotroski F-Score" 
+                value={snapshot?.piotroskiScore !== undefined ? `${snapshot.piotroskiScore} / 9` : undefined}
+                badge={getPiotroskiBadge(snapshot?.piotroskiScore)}
+              />
+              <MetricCard 
+                label="Altman Z-Score" 
+                value={snapshot?.altmanZScore?.toFixed(2)}
+                badge={getAltmanBadge(snapshot?.altmanZScore)}
+              />
+              <MetricCard 
+                label="Beneish M-Score" 
+                value={snapshot?.beneishMScore?.toFixed(2)}
+                badge={getBeneishBadge(snapshot?.beneishMScore)}
+              />
+              <MetricCard 
+                label="Graham Number" 
+                value={snapshot?.grahamNumber ? formatPrice(snapshot.grahamNumber) : undefined}
+                badge={snapshot?.grahamNumber && snapshot.price
+                  ? snapshot.price <= snapshot.grahamNumber
+                    ? { text: 'Below', variant: 'success' }
+                    : { text: 'Above', variant: 'secondary' }
+                  : undefined
+                }
+              />
+            </div>
+            <p className="text-[10px] text-ink-tertiary mt-3">
+              Computed from the last eight quarterly statements. Z-Score below 1.8 signals distress; M-Score above -1.78 flags possible earnings manipulation.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Risk & Return */}
+      {(snapshot?.volatility252 !== undefined || snapshot?.volatility20 !== undefined ||
+        snapshot?.benchmarkBeta !== undefined) && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-sm">
+              <ShieldAlert className="h-4 w-4 text-accent-main" />
+              Risk & Return
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              <MetricCard label="Volatility 20D" value={formatRiskPercent(snapshot?.volatility20)} />
+              <MetricCard label="Volatility 60D" value={formatRiskPercent(snapshot?.volatility60)} />
+              <MetricCard label="Volatility 1Y" value={formatRiskPercent(snapshot?.volatility252)} />
+              <MetricCard 
+                label="Max Drawdown 1Y" 
+                value={formatRiskPercent(snapshot?.maxDrawdown)}
+                positive={snapshot?.maxDrawdown !== undefined ? false : undefined}
+              />
+              <MetricCard 
+                label="Sharpe Ratio" 
+                value={snapshot?.sharpeRatio?.toFixed(2)}
+                positive={snapshot?.sharpeRatio !== undefined ? snapshot.sharpeRatio > 0 : undefined}
+              />
+              <MetricCard 
+                label="Sortino Ratio" 
+                value={snapshot?.sortinoRatio?.toFixed(2)}
+                positive={snapshot?.sortinoRatio !== undefined ? snapshot.sortinoRatio > 0 : undefined}
+              />
+              <MetricCard label="Downside Deviation" value={formatRiskPercent(snapshot?.downsideDeviation)} />
+              <MetricCard 
+                label={`Beta / Corr vs ${snapshot?.riskBenchmark ?? 'Benchmark'}`} 
+                value={snapshot?.benchmarkBeta !== undefined
+                  ? `${snapshot.benchmarkBeta.toFixed(2)} / ${snapshot.benchmarkCorrelation?.toFixed(2) ?? '—'}`
+                  : undefined
+                } 
+              />
+            </div>
+            <p className="text-[10px] text-ink-tertiary mt-3">
+              Annualised from split-adjusted daily closes; ratios, drawdown and beta cover the last 252 sessions.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Share Statistics */}
       <Card>
         <CardHeader className="pb-2">
@@ -642,6 +739,10 @@ function MetricCard({ label, value, badge, positive }: MetricCardProps) {
   );
 }
 
+function formatRiskPercent(value?: number): string | undefined {
+  return value !== undefined ? `${value.toFixed(2)}%` : undefined;
+}
+
 function RatingBar({ label, count, total, color }: { label: string; count: number; total: number; color: string }) {
   const pct = total > 0 ? (count / total) * 100 : 0;
   return (
@@ -672,6 +773,29 @@ function RiskScore({ label, score }: { label: string; score?: number }) {
   );
 }
 
+type ScoreBadge = MetricCardProps['badge'];
+
+function getPiotroskiBadge(score?: number): ScoreBadge {
+  if (score === undefined) return undefined;
+  if (score >= 7) return { text: 'Strong', variant: 'success' };
+  if (score <= 3) return { text: 'Weak', variant: 'destructive' };
+  return undefined;
+}
+
+function getAltmanBadge(score?: number): ScoreBadge {
+  if (score === undefined) return undefined;
+  if (score > 3) return { text: 'Safe', variant: 'success' };
+  if (score < 1.8) return { text: 'Distress', variant: 'destructive' };
+  return { text: 'Grey', variant: 'secondary' };
+}
+
+function getBeneishBadge(score?: number): ScoreBadge {
+  if (score === undefined) return undefined;
+  return score > -1.78
+    ? { text: 'Flag', variant: 'destructive' }
+    : { text: 'OK', variant: 'success' };
+}
+
 function getRecommendationVariant(key: string): 'success' | 'destructive' | 'secondary' {
   const lowerKey = key.toLowerCase();
   if (lowerKey.includes('buy') || lowerKey === 'outperform' || lowerKey === 'overweight') {
@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import type { BreadthRange, MarketBreadthData } from '@screener/shared';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+// Daily market breadth series (only changes after the daily sync)
+export function useMarketBreadth(range: BreadthRange = '1Y') {
+  return useQuery({
+    queryKey: ['market', 'breadth', range],
+    queryFn: async (): Promise<{ success: boolean; data: MarketBreadthData }> => {
+      const response = await fetch(`${API_URL}/api/market/breadth?range=${range}`);
+      if (!response.ok) throw new Error('Failed to fetch market breadth');
+      return response.json();
+    },
+    staleTime: 30 * 60 * 1000, // 30 min
+    gcTime: 60 * 60 * 1000, // 1 hour cache
+    refetchInterval: false,
+  });
+}
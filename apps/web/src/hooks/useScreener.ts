@@ -1,5 +1,16 @@
-import { useQuery } from '@tanstack/react-query';
-import type { ApiResponse, ScreenerResult } from '@screener/shared';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type {
+  ApiResponse,
+  ScreenerResult,
+  CategoricalField,
+  CategoryValueCount,
+  BacktestRequest,
+  BacktestResult,
+  SavedScreen,
+  SavedScreenInput,
+  SavedScoreModel,
+  ScoreModelInput,
+} from '@screener/shared';
 
 // API base - works in both dev (proxied) and production (same origin)
 const API_BASE = '/api';
@@ -38,6 +49,151 @@ async function fetchPresets(): Promise<Array<{ id: string; name: string }>> {
   return data.data;
 }
 
+async function fetchCategoryValues(field: CategoricalField): Promise<CategoryValueCount[]> {
+  const response = await fetch(`${API_BASE}/screener/categories/${field}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch category values');
+  }
+
+  const data: ApiResponse<CategoryValueCount[]> = await response.json();
+
+  if (!data.success || !data.data) {
+    throw new Error(data.error || 'Unknown error');
+  }
+
+  return data.data;
+}
+
+async function runBacktest(request: BacktestRequest): Promise<BacktestResult> {
+  const response = await fetch(`${API_BASE}/screener/backtest`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+
+  const data: ApiResponse<BacktestResult> = await response.json();
+
+  if (!response.ok || !data.success || !data.data) {
+    // Validation failures return a zod error object rather than a message
+    throw new Error(typeof data.error === 'string' ? data.error : 'Invalid backtest request');
+  }
+
+  return data.data;
+}
+
+async function fetchSavedScreens(ids: string[]): Promise<SavedScreen[]> {
+  const query = ids.length > 0 ? `?ids=${ids.join(',')}` : '';
+  const response = await fetch(`${API_BASE}/screener/screens${query}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch saved screens');
+  }
+
+  const data: ApiResponse<SavedScreen[]> = await response.json();
+
+  if (!data.success || !data.data) {
+    throw new Error(data.error || 'Unknown error');
+  }
+
+  return data.data;
+}
+
+async function fetchSavedScreen(id: string): Promise<SavedScreen> {
+  const response = await fetch(`${API_BASE}/screener/screens/${id}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch saved screen');
+  }
+
+  const data: ApiResponse<SavedScreen> = await response.json();
+
+  if (!data.success || !data.data) {
+    throw new Error(data.error || 'Unknown error');
+  }
+
+  return data.data;
+}
+
+// Creates the screen, or updates it when an id (and its edit token) is given
+async function saveScreen({ id, editToken, screen }: { id?: string; editToken?: string; screen: SavedScreenInput }): Promise<SavedScreen> {
+  const response = await fetch(`${API_BASE}/screener/screens${id ? `/${id}` : ''}`, {
+    method: id ? 'PUT' : 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(editToken ? { 'X-Edit-Token': editToken } : {}),
+    },
+    body: JSON.stringify(screen),
+  });
+
+  const data: ApiResponse<SavedScreen> = await response.json();
+
+  if (!response.ok || !data.success || !data.data) {
+    throw new Error(typeof data.error === 'string' ? data.error : 'Invalid screen');
+  }
+
+  return data.data;
+}
+
+async function deleteScreen({ id, editToken }: { id: string; editToken: string }): Promise<void> {
+  const response = await fetch(`${API_BASE}/screener/screens/${id}`, {
+    method: 'DELETE',
+    headers: { 'X-Edit-Token': editToken },
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to delete saved screen');
+  }
+}
+
+async function fetchScoreModels(ids: string[]): Promise<SavedScoreModel[]> {
+  const query = ids.length > 0 ? `?ids=${ids.join(',')}` : '';
+  const response = await fetch(`${API_BASE}/screener/models${query}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch score models');
+  }
+
+  const data: ApiResponse<SavedScoreModel[]> = await response.json();
+
+  if (!data.success || !data.data) {
+    throw new Error(data.error || 'Unknown error');
+  }
+
+  return data.data;
+}
+
+// Creates the model, or updates it when an id (and its edit token) is given
+async function saveScoreModel({ id, editToken, model }: { id?: string; editToken?: string; model: ScoreModelInput }): Promise<SavedScoreModel> {
+  const response = await fetch(`${API_BASE}/screener/models${id ? `/${id}` : ''}`, {
+    method: id ? 'PUT' : 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(editToken ? { 'X-Edit-Token': editToken } : {}),
+    },
+    body: JSON.stringify(model),
+  });
+
+  const data: ApiResponse<SavedScoreModel> = await response.json();
+
+  if (!response.ok || !data.success || !data.data) {
+    throw new Error(typeof data.error === 'string' ? data.error : 'Invalid score model');
+  }
+
+  return data.data;
+}
+
+async function deleteScoreModel({ id, editToken }: { id: string; editToken: string }): Promise<void> {
+  const response = await fetch(`${API_BASE}/screener/models/${id}`, {
+    method: 'DELETE',
+    headers: { 'X-Edit-Token': editToken },
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to delete score model');
+  }
+}
+
 export function usePresetScreener(presetId: string, page: number = 1, pageSize: number = 50) {
   return useQuery({
     queryKey: ['screener', presetId, page, pageSize],
@@ -54,3 +210,90 @@ export function usePresets() {
     staleTime: 300000, // 5 minutes
   });
 }
+
+export function useCategoryValues(field: CategoricalField | null) {
+  return useQuery({
+    queryKey: ['categories', field],
+    queryFn: () => fetchCategoryValues(field!),
+    enabled: field !== null,
+    staleTime: 3600000, // 1 hour
+  });
+}
+
+export function useBacktest() {
+  return useMutation({
+    mutationFn: runBacktest,
+  });
+}
+
+export function useSavedScreens(ids: string[]) {
+  return useQuery({
+    queryKey: ['savedScreens', ids],
+    queryFn: () => fetchSavedScreens(ids),
+    staleTime: 300000, // 5 minutes
+  });
+}
+
+export function useSavedScreen(id: string | null) {
+  return useQuery({
+    queryKey: ['savedScreens', 'screen', id],
+    queryFn: () => fetchSavedScreen(id!),
+    enabled: id !== null,
+    staleTime: 300000, // 5 minutes
+  });
+}
+
+export function useSaveScreen() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveScreen,
+    onSuccess: (screen) => {
+      queryClient.invalidateQueries({ queryKey: ['savedScreens'] });
+      queryClient.invalidateQueries({ queryKey: ['screener', screen.id] });
+    },
+  });
+}
+
+export function useDeleteScreen() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteScreen,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['savedScreens'] });
+    },
+  });
+}
+
+export function useScoreModels(ids: string[]) {
+  return useQuery({
+    queryKey: ['scoreModels', ids],
+    queryFn: () => fetchScoreModels(ids),
+    staleTime: 300000, // 5 minutes
+  });
+}
+
+export function useSaveScoreModel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveScoreModel,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scoreModels'] });
+      // Screens ranked by the model now score differently
+      queryClient.invalidateQueries({ queryKey: ['screener'] });
+    },
+  });
+}
+
+export function useDeleteScoreModel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteScoreModel,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scoreModels'] });
+    },
+  });
+}
@@ -5,6 +5,9 @@ import type {
   DividendWithYield,
   ChartData,
   ChartRange,
+  PriceAdjustment,
+  ChartIndicatorData,
+  CandlePatternMarker,
   NewsArticle,
   StockSplit,
 } from '@screener/shared';
@@ -92,11 +95,16 @@ export function useTickerNews(symbol: string, enabled: boolean = true) {
 }
 
 // Chart data
-export function useTickerChart(symbol: string, range: ChartRange = '1M', enabled: boolean = true) {
+export function useTickerChart(
+  symbol: string,
+  range: ChartRange = '1M',
+  enabled: boolean = true,
+  adjusted: PriceAdjustment = 'split'
+) {
   return useQuery({
-    queryKey: ['ticker', symbol, 'chart', range],
+    queryKey: ['ticker', symbol, 'chart', range, adjusted],
     queryFn: async (): Promise<{ success: boolean; data: ChartData }> => {
-      const response = await fetch(`${API_URL}/api/ticker/${symbol}/chart?range=${range}`);
+      const response = await fetch(`${API_URL}/api/ticker/${symbol}/chart?range=${range}&adjusted=${adjusted}`);
       if (!response.ok) throw new Error('Failed to fetch chart data');
       return response.json();
     },
@@ -105,3 +113,33 @@ export function useTickerChart(symbol: string, range: ChartRange = '1M', enabled
     gcTime: range === '1D' ? 5 * 60 * 1000 : 24 * 60 * 60 * 1000,
   });
 }
+
+// Daily indicator series (all chart indicators; panes pick what they draw)
+export function useTickerIndicators(symbol: string, range: ChartRange = '1Y', enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['ticker', symbol, 'indicators', range],
+    queryFn: async (): Promise<{ success: boolean; data: ChartIndicatorData }> => {
+      const response = await fetch(`${API_URL}/api/ticker/${symbol}/indicators?range=${range}`);
+      if (!response.ok) throw new Error('Failed to fetch indicator series');
+      return response.json();
+    },
+    enabled,
+    staleTime: 60 * 60 * 1000,
+    gcTime: 24 * 60 * 60 * 1000,
+  });
+}
+
+// Candlestick patterns detected over the range, for chart markers
+export function useTickerPatterns(symbol: string, range: ChartRange = '1Y', enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['ticker', symbol, 'patterns', range],
+    queryFn: async (): Promise<{ success: boolean; data: CandlePatternMarker[] }> => {
+      const response = await fetch(`${API_URL}/api/ticker/${symbol}/patterns?range=${range}`);
+      if (!response.ok) throw new Error('Failed to fetch candle patterns');
+      return response.json();
+    },
+    enabled,
+    staleTime: 60 * 60 * 1000,
+    gcTime: 24 * 60 * 60 * 1000,
+  });
+}
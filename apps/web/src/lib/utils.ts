@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { getFieldDefinition } from '@screener/shared';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -31,3 +32,25 @@ export function formatPercent(value: number): string {
   const sign = value >= 0 ? '+' : '';
   return `${sign}${value.toFixed(2)}%`;
 }
+
+// Format a screener field value according to its registry format
+export function formatFieldValue(field: string, value: number | null | undefined): string {
+  if (value === null || value === undefined || Number.isNaN(value)) return '—';
+
+  const definition = getFieldDefinition(field);
+
+  switch (definition?.format) {
+    case 'currency':
+      return formatPrice(value);
+    case 'percent':
+      return `${value.toFixed(2)}%`;
+    case 'changePercent':
+      return formatPercent(value);
+    case 'compact':
+      return `${definition.unit === '$' ? '$' : ''}${formatNumber(value, value >= 1_000 ? 2 : 0)}`;
+    case 'integer':
+      return value.toFixed(0);
+    default:
+      return value.toFixed(2);
+  }
+}
@@ -6,6 +6,9 @@ import AppLayout from './components/layout/AppLayout';
 import { PresetExplorer } from './components/screener/PresetExplorer';
 import { ScreenerView } from './components/screener/ScreenerView';
 import { FilterBuilder } from './components/screener/FilterBuilder';
+import { BacktestView } from './components/screener/BacktestView';
+import { ScoreModelBuilder } from './components/screener/ScoreModelBuilder';
+import { MarketBreadthView } from './components/market/MarketBreadthView';
 import { TickerPageSkeleton } from './pages/TickerPageSkeleton';
 import './index.css';
 
@@ -55,6 +58,18 @@ const router = createBrowserRouter([
         path: 'custom',
         element: <FilterBuilder />,
       },
+      {
+        path: 'backtest',
+        element: <BacktestView />,
+      },
+      {
+        path: 'models',
+        element: <ScoreModelBuilder />,
+      },
+      {
+        path: 'market',
+        element: <MarketBreadthView />,
+      },
       {
         path: 'ticker/:symbol',
         element: (
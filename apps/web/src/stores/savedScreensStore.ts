@@ -0,0 +1,56 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+// Ids of screens and score models saved from this browser. Unlisted ones are
+// only reachable by id, so this is what brings them back after a reload.
+// The edit token returned on create is kept too: without it a screen or
+// model can't be updated or deleted.
+interface SavedScreensState {
+  screenIds: string[];
+  modelIds: string[];
+  editTokens: Record<string, string>;
+
+  addScreenId: (id: string, editToken?: string) => void;
+  removeScreenId: (id: string) => void;
+  addModelId: (id: string, editToken?: string) => void;
+  removeModelId: (id: string) => void;
+}
+
+export const useSavedScreensStore = create<SavedScreensState>()(
+  persist(
+    (set) => ({
+      screenIds: [],
+      modelIds: [],
+      editTokens: {},
+
+      addScreenId: (id, editToken) =>
+        set((state) => ({
+          screenIds: [id, ...state.screenIds.filter((screenId) => screenId !== id)],
+          editTokens: editToken ? { ...state.editTokens, [id]: editToken } : state.editTokens,
+        })),
+
+      removeScreenId: (id) =>
+        set((state) => ({
+          screenIds: state.screenIds.filter((screenId) => screenId !== id),
+          editTokens: Object.fromEntries(
+            Object.entries(state.editTokens).filter(([tokenId]) => tokenId !== id)
+          ),
+        })),
+
+      addModelId: (id, editToken) =>
+        set((state) => ({
+          modelIds: [id, ...state.modelIds.filter((modelId) => modelId !== id)],
+          editTokens: editToken ? { ...state.editTokens, [id]: editToken } : state.editTokens,
+        })),
+
+      removeModelId: (id) =>
+        set((state) => ({
+          modelIds: state.modelIds.filter((modelId) => modelId !== id),
+          editTokens: Object.fromEntries(
+            Object.entries(state.editTokens).filter(([tokenId]) => tokenId !== id)
+          ),
+        })),
+    }),
+    { name: 'saved-screens' }
+  )
+);
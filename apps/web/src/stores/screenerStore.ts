@@ -1,5 +1,28 @@
 import { create } from 'zustand';
-import type { ScreenerResult, StockIndicators, FilterCondition } from '@screener/shared';
+import { isFilterGroup } from '@screener/shared';
+import type { ScreenerResult, StockIndicators, ComputedColumn, FilterCombinator, FilterGroup, FilterNode, SavedScreen } from '@screener/shared';
+
+// Index path from the root group to a nested node, e.g. [2, 0]
+export type FilterPath = number[];
+
+const emptyFilter = (): FilterGroup => ({ combinator: 'and', conditions: [] });
+
+// Immutably apply an update to the group at the given path
+function updateGroupAt(
+  group: FilterGroup,
+  path: FilterPath,
+  update: (group: FilterGroup) => FilterGroup
+): FilterGroup {
+  if (path.length === 0) return update(group);
+
+  const [index, ...rest] = path;
+  return {
+    ...group,
+    conditions: group.conditions.map((node, i) =>
+      i === index && isFilterGroup(node) ? updateGroupAt(node, rest, update) : node
+    ),
+  };
+}
 
 interface ScreenerState {
   // Results
@@ -7,21 +30,38 @@ interface ScreenerState {
   isLoading: boolean;
   error: string | null;
 
-  // Custom filter
-  customConditions: FilterCondition[];
+  // Custom filter (root group, may contain nested groups)
+  customFilter: FilterGroup;
+  customColumns: ComputedColumn[];
   sortBy: keyof StockIndicators | null;
+  sortExpression: string;
   sortOrder: 'asc' | 'desc';
+  // Composite score model id (built-in or saved) and optional minimum score
+  scoreModel: string | null;
+  minScore: number | null;
+
+  // Saved screen currently loaded in the builder (saving updates it)
+  activeScreen: SavedScreen | null;
 
   // Actions
   setResults: (results: ScreenerResult) => void;
   updateStock: (stock: StockIndicators) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
-  addCondition: (condition: FilterCondition) => void;
-  removeCondition: (index: number) => void;
-  updateCondition: (index: number, condition: FilterCondition) => void;
+  addCondition: (groupPath: FilterPath, node: FilterNode) => void;
+  removeCondition: (path: FilterPath) => void;
+  updateCondition: (path: FilterPath, node: FilterNode) => void;
+  setGroupCombinator: (groupPath: FilterPath, combinator: FilterCombinator) => void;
+  toggleGroupNegate: (groupPath: FilterPath) => void;
   clearConditions: () => void;
+  addColumn: (column: ComputedColumn) => void;
+  removeColumn: (key: string) => void;
   setSort: (field: keyof StockIndicators | null, order: 'asc' | 'desc') => void;
+  setSortExpression: (expression: string) => void;
+  setScoreModel: (scoreModel: string | null) => void;
+  setMinScore: (minScore: number | null) => void;
+  loadScreen: (screen: SavedScreen) => void;
+  setActiveScreen: (screen: SavedScreen | null) => void;
 }
 
 export const useScreenerStore = create<ScreenerState>((set) => ({
@@ -29,9 +69,14 @@ export const useScreenerStore = create<ScreenerState>((set) => ({
   results: null,
   isLoading: false,
   error: null,
-  customConditions: [],
+  customFilter: emptyFilter(),
+  customColumns: [],
   sortBy: null,
+  sortExpression: '',
   sortOrder: 'desc',
+  scoreModel: null,
+  minScore: null,
+  activeScreen: null,
 
   // Actions
   setResults: (results) => set({ results, isLoading: false, error: null }),
@@ -57,24 +102,81 @@ export const useScreenerStore = create<ScreenerState>((set) => ({
 
   setError: (error) => set({ error, isLoading: false }),
 
-  addCondition: (condition) =>
+  addCondition: (groupPath, node) =>
+    set((state) => ({
+      customFilter: updateGroupAt(state.customFilter, groupPath, (group) => ({
+        ...group,
+        conditions: [...group.conditions, node],
+      })),
+    })),
+
+  removeCondition: (path) =>
+    set((state) => ({
+      customFilter: updateGroupAt(state.customFilter, path.slice(0, -1), (group) => ({
+        ...group,
+        conditions: group.conditions.filter((_, i) => i !== path[path.length - 1]),
+      })),
+    })),
+
+  updateCondition: (path, node) =>
     set((state) => ({
-      customConditions: [...state.customConditions, condition],
+      customFilter: updateGroupAt(state.customFilter, path.slice(0, -1), (group) => ({
+        ...group,
+        conditions: group.conditions.map((c, i) =>
+          i === path[path.length - 1] ? node : c
+        ),
+      })),
     })),
 
-  removeCondition: (index) =>
+  setGroupCombinator: (groupPath, combinator) =>
     set((state) => ({
-      customConditions: state.customConditions.filter((_, i) => i !== index),
+      customFilter: updateGroupAt(state.customFilter, groupPath, (group) => ({ ...group, combinator })),
     })),
 
-  updateCondition: (index, condition) =>
+  toggleGroupNegate: (groupPath) =>
     set((state) => ({
-      customConditions: state.customConditions.map((c, i) =>
-        i === index ? condition : c
-      ),
+      customFilter: updateGroupAt(state.customFilter, groupPath, (group) => ({
+        ...group,
+        negate: !group.negate,
+      })),
     })),
 
-  clearConditions: () => set({ customConditions: [] }),
+  clearConditions: () => set({ customFilter: emptyFilter() }),
+
+  addColumn: (column) =>
+    set((state) => ({
+      customColumns: [...state.customColumns.filter((c) => c.key !== column.key), column],
+    })),
+
+  removeColumn: (key) =>
+    set((state) => ({
+      customColumns: state.customColumns.filter((c) => c.key !== key),
+    })),
 
   setSort: (sortBy, sortOrder) => set({ sortBy, sortOrder }),
+
+  setSortExpression: (sortExpression) => set({ sortExpression }),
+
+  setScoreModel: (scoreModel) => set({ scoreModel }),
+
+  setMinScore: (minScore) => set({ minScore }),
+
+  // The builder saves [customFilter], so a single root group is restored as-is
+  loadScreen: (screen) =>
+    set({
+      customFilter:
+        screen.conditions.length === 1 && isFilterGroup(screen.conditions[0])
+          ? screen.conditions[0]
+          : { combinator: 'and', conditions: screen.conditions },
+      customColumns: screen.columns ?? [],
+      sortBy: screen.sortBy ?? null,
+      sortExpression: screen.sortExpression ?? '',
+      sortOrder: screen.sortOrder ?? 'desc',
+      // The builder only references models by id
+      scoreModel: typeof screen.scoreModel === 'string' ? screen.scoreModel : null,
+      minScore: screen.minScore ?? null,
+      activeScreen: screen,
+    }),
+
+  setActiveScreen: (activeScreen) => set({ activeScreen }),
 }));
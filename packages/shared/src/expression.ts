@@ -0,0 +1,280 @@
+import type { StockIndicators } from './types';
+import { SCREENER_FIELDS, type ScreenerField } from './fields';
+
+// ============================================
+// Computed Expressions
+// ============================================
+// A small arithmetic language over numeric StockIndicators fields, e.g.
+//   targetMeanPrice / price - 1
+//   volume / averageVolume
+//   max(abs(changePercent), 5)
+// Only whitelisted fields, numeric literals, + - * / and the functions
+// below are accepted, so an expression can be safely compiled to SQL
+// on the server or evaluated in JS.
+
+// Every registered screener field can be used in an expression
+export const EXPRESSION_FIELDS = SCREENER_FIELDS;
+
+export type ExpressionField = ScreenerField;
+
+// Function name -> [min args, max args]
+export const EXPRESSION_FUNCTIONS = {
+  abs: [1, 1],
+  sqrt: [1, 1],
+  ln: [1, 1],
+  min: [2, 8],
+  max: [2, 8],
+} as const;
+
+export type ExpressionFunction = keyof typeof EXPRESSION_FUNCTIONS;
+
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'field'; field: ExpressionField }
+  | { type: 'negate'; operand: ExpressionNode }
+  | { type: 'binary'; operator: '+' | '-' | '*' | '/'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; fn: ExpressionFunction; args: ExpressionNode[] };
+
+const MAX_EXPRESSION_LENGTH = 500;
+const MAX_EXPRESSION_DEPTH = 100; // parser recursion levels
+
+export class ExpressionError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position !== undefined ? `${message} at position ${position + 1}` : message);
+    this.name = 'ExpressionError';
+  }
+}
+
+interface Token {
+  kind: 'number' | 'ident' | 'op' | 'lparen' | 'rparen' | 'comma';
+  text: string;
+  position: number;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /(\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|\.\d+)|([A-Za-z_][A-Za-z0-9_]*)|([+\-*/])|(\()|(\))|(,)/y;
+  let position = 0;
+
+  while (position < source.length) {
+    if (/\s/.test(source[position])) {
+      position++;
+      continue;
+    }
+
+    pattern.lastIndex = position;
+    const match = pattern.exec(source);
+    if (!match) {
+      throw new ExpressionError(`Unexpected character '${source[position]}'`, position);
+    }
+
+    const kind: Token['kind'] = match[1] !== undefined ? 'number'
+      : match[2] !== undefined ? 'ident'
+      : match[3] !== undefined ? 'op'
+      : match[4] !== undefined ? 'lparen'
+      : match[5] !== undefined ? 'rparen'
+      : 'comma';
+
+    tokens.push({ kind, text: match[0], position });
+    position = pattern.lastIndex;
+  }
+
+  return tokens;
+}
+
+// Recursive-descent parser: expr := term (+|- term)*, term := unary (*|/ unary)*
+class ExpressionParser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private sourceLength: number) {}
+
+  parse(): ExpressionNode {
+    if (this.tokens.length === 0) {
+      throw new ExpressionError('Expression is empty');
+    }
+    const node = this.parseExpression(0);
+    const extra = this.peek();
+    if (extra) {
+      throw new ExpressionError(`Unexpected '${extra.text}'`, extra.position);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index++];
+    if (!token) {
+      throw new ExpressionError('Unexpected end of expression', this.sourceLength);
+    }
+    return token;
+  }
+
+  private expect(kind: Token['kind'], description: string): Token {
+    const token = this.next();
+    if (token.kind !== kind) {
+      throw new ExpressionError(`Expected ${description} but found '${token.text}'`, token.position);
+    }
+    return token;
+  }
+
+  private parseExpression(depth: number): ExpressionNode {
+    this.checkDepth(depth);
+    let left = this.parseTerm(depth + 1);
+    let token = this.peek();
+    while (token?.kind === 'op' && (token.text === '+' || token.text === '-')) {
+      this.next();
+      left = { type: 'binary', operator: token.text, left, right: this.parseTerm(depth + 1) };
+      token = this.peek();
+    }
+    return left;
+  }
+
+  private parseTerm(depth: number): ExpressionNode {
+    this.checkDepth(depth);
+    let left = this.parseUnary(depth + 1);
+    let token = this.peek();
+    while (token?.kind === 'op' && (token.text === '*' || token.text === '/')) {
+      this.next();
+      left = { type: 'binary', operator: token.text, left, right: this.parseUnary(depth + 1) };
+      token = this.peek();
+    }
+    return left;
+  }
+
+  private parseUnary(depth: number): ExpressionNode {
+    this.checkDepth(depth);
+    const token = this.peek();
+    if (token?.kind === 'op' && (token.text === '-' || token.text === '+')) {
+      this.next();
+      const operand = this.parseUnary(depth + 1);
+      return token.text === '-' ? { type: 'negate', operand } : operand;
+    }
+    return this.parsePrimary(depth + 1);
+  }
+
+  private parsePrimary(depth: number): ExpressionNode {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'number':
+        return { type: 'number', value: Number(token.text) };
+
+      case 'lparen': {
+        const node = this.parseExpression(depth + 1);
+        this.expect('rparen', "')'");
+        return node;
+      }
+
+      case 'ident': {
+        if (this.peek()?.kind === 'lparen') {
+          return this.parseCall(token, depth);
+        }
+        if (!(EXPRESSION_FIELDS as readonly string[]).includes(token.text)) {
+          throw new ExpressionError(`Unknown field '${token.text}'`, token.position);
+        }
+        return { type: 'field', field: token.text as ExpressionField };
+      }
+
+      default:
+        throw new ExpressionError(`Unexpected '${token.text}'`, token.position);
+    }
+  }
+
+  private parseCall(name: Token, depth: number): ExpressionNode {
+    const fn = name.text.toLowerCase();
+    if (!Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, fn)) {
+      throw new ExpressionError(`Unknown function '${name.text}'`, name.position);
+    }
+
+    this.expect('lparen', "'('");
+    const args: ExpressionNode[] = [];
+    if (this.peek()?.kind !== 'rparen') {
+      args.push(this.parseExpression(depth + 1));
+      while (this.peek()?.kind === 'comma') {
+        this.next();
+        args.push(this.parseExpression(depth + 1));
+      }
+    }
+    this.expect('rparen', "')'");
+
+    const [minArgs, maxArgs] = EXPRESSION_FUNCTIONS[fn as ExpressionFunction];
+    if (args.length < minArgs || args.length > maxArgs) {
+      const expected = minArgs === maxArgs ? `${minArgs}` : `${minArgs}-${maxArgs}`;
+      throw new ExpressionError(`${fn}() expects ${expected} argument(s)`, name.position);
+    }
+
+    return { type: 'call', fn: fn as ExpressionFunction, args };
+  }
+
+  private checkDepth(depth: number) {
+    if (depth > MAX_EXPRESSION_DEPTH) {
+      throw new ExpressionError('Expression is nested too deeply');
+    }
+  }
+}
+
+// Parse an expression string into an AST, throwing ExpressionError on invalid input
+export function parseExpression(source: string): ExpressionNode {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expression exceeds ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  return new ExpressionParser(tokenize(source), source.length).parse();
+}
+
+// List the fields an expression depends on
+export function getExpressionFields(node: ExpressionNode): ExpressionField[] {
+  switch (node.type) {
+    case 'number': return [];
+    case 'field': return [node.field];
+    case 'negate': return getExpressionFields(node.operand);
+    case 'binary': return [...getExpressionFields(node.left), ...getExpressionFields(node.right)];
+    case 'call': return node.args.flatMap(getExpressionFields);
+  }
+}
+
+// Evaluate an expression against a stock. Missing fields, division by zero
+// and out-of-domain math yield null, mirroring SQL NULL semantics.
+export function evaluateExpression(node: ExpressionNode, stock: Partial<StockIndicators>): number | null {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+
+    case 'field': {
+      const value = stock[node.field];
+      return typeof value === 'number' && Number.isFinite(value) ? value : null;
+    }
+
+    case 'negate': {
+      const value = evaluateExpression(node.operand, stock);
+      return value === null ? null : -value;
+    }
+
+    case 'binary': {
+      const left = evaluateExpression(node.left, stock);
+      const right = evaluateExpression(node.right, stock);
+      if (left === null || right === null) return null;
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return right === 0 ? null : left / right;
+      }
+    }
+
+    case 'call': {
+      const args = node.args.map((arg) => evaluateExpression(arg, stock));
+      if (args.some((arg) => arg === null)) return null;
+      const values = args as number[];
+      switch (node.fn) {
+        case 'abs': return Math.abs(values[0]);
+        case 'sqrt': return values[0] >= 0 ? Math.sqrt(values[0]) : null;
+        case 'ln': return values[0] > 0 ? Math.log(values[0]) : null;
+        case 'min': return Math.min(...values);
+        case 'max': return Math.max(...values);
+      }
+    }
+  }
+}
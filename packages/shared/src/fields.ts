@@ -0,0 +1,229 @@
+import type { StockIndicators } from './types';
+
+// ============================================
+// Screenable Field Registry
+// ============================================
+// Every numeric StockIndicators field that can be filtered, sorted on or used
+// in an expression. The API validator, the latest_snapshot column lookup, the
+// filter builder and table formatting are all generated from this list, so a
+// new field only needs to be added here (and to the DB schema).
+
+export type FieldCategory =
+  | 'price_volume'
+  | 'technical'
+  | 'valuation'
+  | 'profitability'
+  | 'growth'
+  | 'financial_health'
+  | 'dividends'
+  | 'short_interest'
+  | 'analysts'
+  | 'ownership'
+  | 'fundamental_scores'
+  | 'patterns'
+  | 'risk';
+
+// How a value is displayed:
+//   currency      $12.34
+//   percent       12.34%  (values are stored in percentage points)
+//   changePercent +1.23%
+//   compact       1.23M
+//   integer       12
+//   decimal       1.23
+export type FieldFormat = 'currency' | 'percent' | 'changePercent' | 'compact' | 'integer' | 'decimal';
+
+export interface FieldDefinition {
+  label: string;
+  shortLabel?: string; // Table header, defaults to label
+  category: FieldCategory;
+  unit?: '$' | '%' | 'x';
+  format: FieldFormat;
+  column: string; // latest_snapshot column (drizzle property name)
+  indicator?: boolean; // Computed by the indicator pipeline rather than synced
+  dbOnly?: boolean; // Computed from stored history only; the API fallback can't fill it in
+}
+
+export const FIELD_CATEGORIES: Array<{ id: FieldCategory; name: string }> = [
+  { id: 'price_volume', name: 'Price & Volume' },
+  { id: 'technical', name: 'Technical' },
+  { id: 'valuation', name: 'Valuation' },
+  { id: 'profitability', name: 'Profitability' },
+  { id: 'growth', name: 'Growth' },
+  { id: 'financial_health', name: 'Financial Health' },
+  { id: 'dividends', name: 'Dividends' },
+  { id: 'short_interest', name: 'Short Interest' },
+  { id: 'analysts', name: 'Analysts' },
+  { id: 'ownership', name: 'Ownership' },
+  { id: 'fundamental_scores', name: 'Fundamental Scores' },
+  { id: 'patterns', name: 'Candlestick Patterns' },
+  { id: 'risk', name: 'Risk & Return' },
+];
+
+export const FIELD_REGISTRY = {
+  // Price & Volume
+  price: { label: 'Price', category: 'price_volume', unit: '$', format: 'currency', column: 'price' },
+  volume: { label: 'Volume', category: 'price_volume', format: 'compact', column: 'volume' },
+  changePercent: { label: 'Change %', shortLabel: 'Change', category: 'price_volume', unit: '%', format: 'changePercent', column: 'changePercent' },
+  averageVolume: { label: 'Avg Volume', category: 'price_volume', format: 'compact', column: 'averageVolume' },
+  fiftyTwoWeekHigh: { label: '52W High', category: 'price_volume', unit: '$', format: 'currency', column: 'fiftyTwoWeekHigh' },
+  fiftyTwoWeekLow: { label: '52W Low', category: 'price_volume', unit: '$', format: 'currency', column: 'fiftyTwoWeekLow' },
+  // Technical Indicators
+  rsi14: { label: 'RSI (14)', shortLabel: 'RSI(14)', category: 'technical', format: 'decimal', column: 'rsi14', indicator: true },
+  sma20: { label: 'SMA 20', shortLabel: 'SMA20', category: 'technical', unit: '$', format: 'currency', column: 'sma20', indicator: true },
+  sma50: { label: 'SMA 50', shortLabel: 'SMA50', category: 'technical', unit: '$', format: 'currency', column: 'sma50', indicator: true },
+  sma200: { label: 'SMA 200', shortLabel: 'SMA200', category: 'technical', unit: '$', format: 'currency', column: 'sma200', indicator: true },
+  ema12: { label: 'EMA 12', shortLabel: 'EMA12', category: 'technical', unit: '$', format: 'currency', column: 'ema12', indicator: true },
+  ema26: { label: 'EMA 26', shortLabel: 'EMA26', category: 'technical', unit: '$', format: 'currency', column: 'ema26', indicator: true },
+  macdHistogram: { label: 'MACD Histogram', shortLabel: 'MACD Hist', category: 'technical', format: 'decimal', column: 'macdHistogram', indicator: true },
+  bbUpper: { label: 'Bollinger Upper', shortLabel: 'BB Upper', category: 'technical', unit: '$', format: 'currency', column: 'bbUpper', indicator: true },
+  bbMiddle: { label: 'Bollinger Middle', shortLabel: 'BB Mid', category: 'technical', unit: '$', format: 'currency', column: 'bbMiddle', indicator: true },
+  bbLower: { label: 'Bollinger Lower', shortLabel: 'BB Lower', category: 'technical', unit: '$', format: 'currency', column: 'bbLower', indicator: true },
+  bbPercentB: { label: 'Bollinger %B', shortLabel: '%B', category: 'technical', format: 'decimal', column: 'bbPercentB', indicator: true },
+  bbBandwidth: { label: 'Bollinger Bandwidth %', shortLabel: 'BB Width', category: 'technical', unit: '%', format: 'percent', column: 'bbBandwidth', indicator: true },
+  atr14: { label: 'ATR (14)', shortLabel: 'ATR', category: 'technical', unit: '$', format: 'currency', column: 'atr14', indicator: true },
+  atrPercent: { label: 'ATR % of Price', shortLabel: 'ATR %', category: 'technical', unit: '%', format: 'percent', column: 'atrPercent', indicator: true },
+  stochK: { label: 'Stochastic %K', shortLabel: '%K', category: 'technical', format: 'decimal', column: 'stochK', indicator: true },
+  stochD: { label: 'Stochastic %D', shortLabel: '%D', category: 'technical', format: 'decimal', column: 'stochD', indicator: true },
+  adx14: { label: 'ADX (14)', shortLabel: 'ADX', category: 'technical', format: 'decimal', column: 'adx14', indicator: true },
+  plusDi: { label: '+DI (14)', shortLabel: '+DI', category: 'technical', format: 'decimal', column: 'plusDi', indicator: true },
+  minusDi: { label: '-DI (14)', shortLabel: '-DI', category: 'technical', format: 'decimal', column: 'minusDi', indicator: true },
+  obv: { label: 'On-Balance Volume', shortLabel: 'OBV', category: 'technical', format: 'compact', column: 'obv', indicator: true },
+  mfi14: { label: 'Money Flow Index (14)', shortLabel: 'MFI', category: 'technical', format: 'decimal', column: 'mfi14', indicator: true },
+  cci20: { label: 'CCI (20)', shortLabel: 'CCI', category: 'technical', format: 'decimal', column: 'cci20', indicator: true },
+  williamsR: { label: 'Williams %R', shortLabel: '%R', category: 'technical', format: 'decimal', column: 'williamsR', indicator: true },
+  fiftyDayAverage: { label: '50-Day Avg', category: 'technical', unit: '$', format: 'currency', column: 'fiftyDayAverage' },
+  twoHundredDayAverage: { label: '200-Day Avg', category: 'technical', unit: '$', format: 'currency', column: 'twoHundredDayAverage' },
+  beta: { label: 'Beta', category: 'technical', format: 'decimal', column: 'beta' },
+  rsRating: { label: 'RS Rating (1-99)', shortLabel: 'RS', category: 'technical', format: 'integer', column: 'rsRating', indicator: true, dbOnly: true },
+  rsVsBenchmark: { label: 'Relative Performance vs Benchmark 1Y', shortLabel: 'RS vs Bench', category: 'technical', unit: 'x', format: 'decimal', column: 'rsVsBenchmark', indicator: true, dbOnly: true },
+  // Valuation
+  marketCap: { label: 'Market Cap', shortLabel: 'Mkt Cap', category: 'valuation', unit: '$', format: 'compact', column: 'marketCap' },
+  peRatio: { label: 'P/E (TTM)', shortLabel: 'P/E', category: 'valuation', unit: 'x', format: 'decimal', column: 'peRatio' },
+  forwardPE: { label: 'P/E (Forward)', shortLabel: 'Fwd P/E', category: 'valuation', unit: 'x', format: 'decimal', column: 'forwardPe' },
+  pbRatio: { label: 'P/B Ratio', shortLabel: 'P/B', category: 'valuation', unit: 'x', format: 'decimal', column: 'pbRatio' },
+  psRatio: { label: 'P/S Ratio', shortLabel: 'P/S', category: 'valuation', unit: 'x', format: 'decimal', column: 'psRatio' },
+  pegRatio: { label: 'PEG Ratio', shortLabel: 'PEG', category: 'valuation', unit: 'x', format: 'decimal', column: 'pegRatio' },
+  evToEbitda: { label: 'EV/EBITDA', category: 'valuation', unit: 'x', format: 'decimal', column: 'evToEbitda' },
+  evToRevenue: { label: 'EV/Revenue', category: 'valuation', unit: 'x', format: 'decimal', column: 'evToRevenue' },
+  // Profitability
+  grossMargin: { label: 'Gross Margin %', shortLabel: 'Gross Margin', category: 'profitability', unit: '%', format: 'percent', column: 'grossMargin' },
+  operatingMargin: { label: 'Operating Margin %', shortLabel: 'Op Margin', category: 'profitability', unit: '%', format: 'percent', column: 'operatingMargin' },
+  ebitdaMargin: { label: 'EBITDA Margin %', shortLabel: 'EBITDA Margin', category: 'profitability', unit: '%', format: 'percent', column: 'ebitdaMargin' },
+  netMargin: { label: 'Net Margin %', shortLabel: 'Net Margin', category: 'profitability', unit: '%', format: 'percent', column: 'netMargin' },
+  roe: { label: 'ROE %', shortLabel: 'ROE', category: 'profitability', unit: '%', format: 'percent', column: 'roe' },
+  roa: { label: 'ROA %', shortLabel: 'ROA', category: 'profitability', unit: '%', format: 'percent', column: 'roa' },
+  // Growth
+  revenueGrowthYoy: { label: 'Revenue Growth YoY %', shortLabel: 'Rev YoY', category: 'growth', unit: '%', format: 'changePercent', column: 'revenueGrowthYoy' },
+  revenueGrowthQuarterly: { label: 'Revenue Growth QoQ %', shortLabel: 'Rev QoQ', category: 'growth', unit: '%', format: 'changePercent', column: 'revenueGrowthQuarterly' },
+  epsGrowthYoy: { label: 'EPS Growth YoY %', shortLabel: 'EPS YoY', category: 'growth', unit: '%', format: 'changePercent', column: 'epsGrowthYoy' },
+  earningsGrowthQuarterly: { label: 'Earnings Growth QoQ %', shortLabel: 'Earnings QoQ', category: 'growth', unit: '%', format: 'changePercent', column: 'earningsGrowthQuarterly' },
+  // Financial Health
+  debtToEquity: { label: 'Debt/Equity', shortLabel: 'D/E', category: 'financial_health', unit: 'x', format: 'decimal', column: 'debtToEquity' },
+  currentRatio: { label: 'Current Ratio', category: 'financial_health', unit: 'x', format: 'decimal', column: 'currentRatio' },
+  quickRatio: { label: 'Quick Ratio', category: 'financial_health', unit: 'x', format: 'decimal', column: 'quickRatio' },
+  // Dividends
+  dividendYield: { label: 'Dividend Yield %', shortLabel: 'Div Yield', category: 'dividends', unit: '%', format: 'percent', column: 'dividendYield' },
+  // Short Interest
+  shortRatio: { label: 'Short Ratio', category: 'short_interest', format: 'decimal', column: 'shortRatio' },
+  shortPercentOfFloat: { label: 'Short % of Float', shortLabel: 'Short Float', category: 'short_interest', unit: '%', format: 'percent', column: 'shortPercentOfFloat' },
+  // Analyst Ratings
+  recommendationMean: { label: 'Analyst Rating (1-5)', shortLabel: 'Rating', category: 'analysts', format: 'decimal', column: 'recommendationMean' },
+  numberOfAnalysts: { label: '# of Analysts', shortLabel: 'Analysts', category: 'analysts', format: 'integer', column: 'numberOfAnalysts' },
+  targetMeanPrice: { label: 'Target Price (Mean)', shortLabel: 'Target', category: 'analysts', unit: '$', format: 'currency', column: 'targetMeanPrice' },
+  targetHighPrice: { label: 'Target Price (High)', shortLabel: 'Target High', category: 'analysts', unit: '$', format: 'currency', column: 'targetHighPrice' },
+  targetLowPrice: { label: 'Target Price (Low)', shortLabel: 'Target Low', category: 'analysts', unit: '$', format: 'currency', column: 'targetLowPrice' },
+  // Ownership
+  institutionsPercentHeld: { label: 'Institutional %', shortLabel: 'Inst %', category: 'ownership', unit: '%', format: 'percent', column: 'institutionsPercentHeld' },
+  insidersPercentHeld: { label: 'Insider %', shortLabel: 'Insider %', category: 'ownership', unit: '%', format: 'percent', column: 'insidersPercentHeld' },
+  // Fundamental Scores
+  piotroskiScore: { label: 'Piotroski F-Score (0-9)', shortLabel: 'F-Score', category: 'fundamental_scores', format: 'integer', column: 'piotroskiScore' },
+  altmanZScore: { label: 'Altman Z-Score', shortLabel: 'Z-Score', category: 'fundamental_scores', format: 'decimal', column: 'altmanZScore' },
+  beneishMScore: { label: 'Beneish M-Score', shortLabel: 'M-Score', category: 'fundamental_scores', format: 'decimal', column: 'beneishMScore' },
+  grahamNumber: { label: 'Graham Number', shortLabel: 'Graham #', category: 'fundamental_scores', unit: '$', format: 'currency', column: 'grahamNumber' },
+  // Candlestick Patterns (sessions since last seen, 0 = latest session)
+  dojiAge: { label: 'Doji (Sessions Ago)', shortLabel: 'Doji', category: 'patterns', format: 'integer', column: 'dojiAge', indicator: true, dbOnly: true },
+  hammerAge: { label: 'Hammer (Sessions Ago)', shortLabel: 'Hammer', category: 'patterns', format: 'integer', column: 'hammerAge', indicator: true, dbOnly: true },
+  shootingStarAge: { label: 'Shooting Star (Sessions Ago)', shortLabel: 'Shoot Star', category: 'patterns', format: 'integer', column: 'shootingStarAge', indicator: true, dbOnly: true },
+  bullishEngulfingAge: { label: 'Bullish Engulfing (Sessions Ago)', shortLabel: 'Bull Engulf', category: 'patterns', format: 'integer', column: 'bullishEngulfingAge', indicator: true, dbOnly: true },
+  bearishEngulfingAge: { label: 'Bearish Engulfing (Sessions Ago)', shortLabel: 'Bear Engulf', category: 'patterns', format: 'integer', column: 'bearishEngulfingAge', indicator: true, dbOnly: true },
+  morningStarAge: { label: 'Morning Star (Sessions Ago)', shortLabel: 'Morn Star', category: 'patterns', format: 'integer', column: 'morningStarAge', indicator: true, dbOnly: true },
+  eveningStarAge: { label: 'Evening Star (Sessions Ago)', shortLabel: 'Eve Star', category: 'patterns', format: 'integer', column: 'eveningStarAge', indicator: true, dbOnly: true },
+  threeWhiteSoldiersAge: { label: 'Three White Soldiers (Sessions Ago)', shortLabel: '3 Soldiers', category: 'patterns', format: 'integer', column: 'threeWhiteSoldiersAge', indicator: true, dbOnly: true },
+  insideBarAge: { label: 'Inside Bar (Sessions Ago)', shortLabel: 'Inside Bar', category: 'patterns', format: 'integer', column: 'insideBarAge', indicator: true, dbOnly: true },
+  // Risk & Return (annualised from daily closes)
+  volatility20: { label: 'Volatility 20D', shortLabel: 'Vol 20D', category: 'risk', unit: '%', format: 'percent', column: 'volatility20', indicator: true, dbOnly: true },
+  volatility60: { label: 'Volatility 60D', shortLabel: 'Vol 60D', category: 'risk', unit: '%', format: 'percent', column: 'volatility60', indicator: true, dbOnly: true },
+  volatility252: { label: 'Volatility 1Y', shortLabel: 'Vol 1Y', category: 'risk', unit: '%', format: 'percent', column: 'volatility252', indicator: true, dbOnly: true },
+  maxDrawdown: { label: 'Max Drawdown 1Y', shortLabel: 'Max DD', category: 'risk', unit: '%', format: 'percent', column: 'maxDrawdown', indicator: true, dbOnly: true },
+  downsideDeviation: { label: 'Downside Deviation 1Y', shortLabel: 'Down Dev', category: 'risk', unit: '%', format: 'percent', column: 'downsideDeviation', indicator: true, dbOnly: true },
+  sharpeRatio: { label: 'Sharpe Ratio 1Y', shortLabel: 'Sharpe', category: 'risk', format: 'decimal', column: 'sharpeRatio', indicator: true, dbOnly: true },
+  sortinoRatio: { label: 'Sortino Ratio 1Y', shortLabel: 'Sortino', category: 'risk', format: 'decimal', column: 'sortinoRatio', indicator: true, dbOnly: true },
+  benchmarkBeta: { label: 'Beta vs Benchmark 1Y', shortLabel: 'Beta 1Y', category: 'risk', format: 'decimal', column: 'benchmarkBeta', indicator: true, dbOnly: true },
+  benchmarkCorrelation: { label: 'Correlation vs Benchmark 1Y', shortLabel: 'Corr 1Y', category: 'risk', format: 'decimal', column: 'benchmarkCorrelation', indicator: true, dbOnly: true },
+} as const satisfies Partial<Record<keyof StockIndicators, FieldDefinition>>;
+
+export type ScreenerField = keyof typeof FIELD_REGISTRY;
+
+// Registry keys in declaration order (non-empty, so usable as a zod enum)
+export const SCREENER_FIELDS = Object.keys(FIELD_REGISTRY) as [ScreenerField, ...ScreenerField[]];
+
+// Fields that are only populated once indicators have been computed, and that
+// the API fallback fetches when the database has none yet
+export const INDICATOR_FIELDS = SCREENER_FIELDS.filter((field) => {
+  const definition: FieldDefinition = FIELD_REGISTRY[field];
+  return definition.indicator && !definition.dbOnly;
+});
+
+// ============================================
+// Parameterised Indicators
+// ============================================
+// Indicators with a custom window, written as `name(period)` - e.g. sma(10),
+// ema(9), rsi(7). They are computed on demand from daily price history and
+// accepted wherever a condition field or compared field is.
+
+export const PARAMETRIC_INDICATORS = {
+  sma: { label: 'SMA', format: 'currency' },
+  ema: { label: 'EMA', format: 'currency' },
+  rsi: { label: 'RSI', format: 'decimal' },
+  atr: { label: 'ATR', format: 'currency' },
+} as const satisfies Record<string, { label: string; format: FieldFormat }>;
+
+export type ParametricIndicator = keyof typeof PARAMETRIC_INDICATORS;
+export type ParametricField = `${ParametricIndicator}(${number})`;
+
+export const PARAMETRIC_PERIOD_MIN = 2;
+export const PARAMETRIC_PERIOD_MAX = 250;
+
+export interface ParsedParametricField {
+  indicator: ParametricIndicator;
+  period: number;
+}
+
+// Parse `sma(10)`; null for anything else, including out-of-range periods
+export function parseParametricField(field: string): ParsedParametricField | null {
+  const match = /^([a-z]+)\((\d{1,3})\)$/.exec(field);
+  if (!match || !Object.prototype.hasOwnProperty.call(PARAMETRIC_INDICATORS, match[1])) return null;
+
+  const period = Number(match[2]);
+  if (period < PARAMETRIC_PERIOD_MIN || period > PARAMETRIC_PERIOD_MAX) return null;
+
+  return { indicator: match[1] as ParametricIndicator, period };
+}
+
+export function isParametricField(field: string): field is ParametricField {
+  return parseParametricField(field) !== null;
+}
+
+export function isScreenerField(field: string): field is ScreenerField {
+  return Object.prototype.hasOwnProperty.call(FIELD_REGISTRY, field);
+}
+
+export function getFieldDefinition(field: string): FieldDefinition | undefined {
+  return isScreenerField(field) ? FIELD_REGISTRY[field] : undefined;
+}
+
+export function getFieldLabel(field: string): string {
+  const parametric = parseParametricField(field);
+  if (parametric) return `${PARAMETRIC_INDICATORS[parametric.indicator].label} (${parametric.period})`;
+  return getFieldDefinition(field)?.label ?? field;
+}
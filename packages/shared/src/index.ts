@@ -1 +1,3 @@
 export * from './types';
+export * from './expression';
+export * from './fields';
@@ -1,3 +1,5 @@
+import type { ParametricField, ScreenerField } from '../fields';
+
 // Stock ticker types
 export interface Ticker {
   symbol: string;
@@ -137,6 +139,17 @@ export interface PolygonCashFlowStatement {
   [key: string]: unknown;
 }
 
+// ============================================
+// Fundamental Scores
+// ============================================
+// Multi-period models computed from stored quarterly statements
+export interface FundamentalScores {
+  piotroskiScore?: number; // 0-9, higher is stronger
+  altmanZScore?: number; // < 1.8 distress, > 3 safe
+  beneishMScore?: number; // > -1.78 suggests earnings manipulation
+  grahamNumber?: number; // Fair value ceiling per share
+}
+
 // ============================================
 // Financial Ratios
 // ============================================
@@ -254,9 +267,148 @@ export interface ChartBar {
 
 export type ChartRange = '1D' | '1W' | '1M' | '3M' | '1Y' | '5Y' | 'MAX';
 
+// Price history adjustment: raw prices, split-adjusted, or split- and
+// dividend-adjusted (total return)
+export type PriceAdjustment = 'none' | 'split' | 'total';
+
+export const PRICE_ADJUSTMENTS: PriceAdjustment[] = ['none', 'split', 'total'];
+
 export interface ChartData {
   bars: ChartBar[];
   source: 'db' | 'api';
+  adjusted: PriceAdjustment; // Adjustment actually applied (API bars are at most split-adjusted)
+}
+
+// Indicator series stored per session in daily_indicators
+export const CHART_INDICATOR_FIELDS = [
+  'sma20', 'sma50', 'sma200', 'ema12', 'ema26',
+  'bbUpper', 'bbMiddle', 'bbLower', 'bbPercentB', 'bbBandwidth',
+  'rsi14', 'macdValue', 'macdSignal', 'macdHistogram',
+  'atr14', 'atrPercent', 'stochK', 'stochD', 'adx14', 'plusDi', 'minusDi',
+  'obv', 'mfi14', 'cci20', 'williamsR',
+] as const;
+
+export type ChartIndicatorField = typeof CHART_INDICATOR_FIELDS[number];
+
+export interface ChartIndicatorSeries {
+  field: ChartIndicatorField;
+  label: string;
+  style?: 'line' | 'histogram'; // Default: line
+}
+
+// A group of series drawn together: over the price chart (overlay) or in
+// a sub-pane of its own, with optional horizontal guides (e.g. RSI 30 / 70)
+export interface ChartIndicatorPane {
+  id: string;
+  name: string;
+  overlay: boolean;
+  series: ChartIndicatorSeries[];
+  guides?: number[];
+}
+
+export const CHART_INDICATOR_PANES: ChartIndicatorPane[] = [
+  {
+    id: 'ma',
+    name: 'Moving Averages',
+    overlay: true,
+    series: [
+      { field: 'sma20', label: 'SMA 20' },
+      { field: 'sma50', label: 'SMA 50' },
+      { field: 'sma200', label: 'SMA 200' },
+      { field: 'ema12', label: 'EMA 12' },
+      { field: 'ema26', label: 'EMA 26' },
+    ],
+  },
+  {
+    id: 'bollinger',
+    name: 'Bollinger Bands',
+    overlay: true,
+    series: [
+      { field: 'bbUpper', label: 'BB Upper' },
+      { field: 'bbMiddle', label: 'BB Middle' },
+      { field: 'bbLower', label: 'BB Lower' },
+    ],
+  },
+  { id: 'rsi', name: 'RSI (14)', overlay: false, series: [{ field: 'rsi14', label: 'RSI' }], guides: [30, 70] },
+  {
+    id: 'macd',
+    name: 'MACD (12, 26, 9)',
+    overlay: false,
+    series: [
+      { field: 'macdValue', label: 'MACD' },
+      { field: 'macdSignal', label: 'Signal' },
+      { field: 'macdHistogram', label: 'Histogram', style: 'histogram' },
+    ],
+    guides: [0],
+  },
+  {
+    id: 'stochastic',
+    name: 'Stochastic (14, 3)',
+    overlay: false,
+    series: [
+      { field: 'stochK', label: '%K' },
+      { field: 'stochD', label: '%D' },
+    ],
+    guides: [20, 80],
+  },
+  {
+    id: 'adx',
+    name: 'ADX / DI (14)',
+    overlay: false,
+    series: [
+      { field: 'adx14', label: 'ADX' },
+      { field: 'plusDi', label: '+DI' },
+      { field: 'minusDi', label: '-DI' },
+    ],
+    guides: [25],
+  },
+  { id: 'atr', name: 'ATR (14)', overlay: false, series: [{ field: 'atr14', label: 'ATR' }] },
+  { id: 'atrPercent', name: 'ATR % of Price', overlay: false, series: [{ field: 'atrPercent', label: 'ATR %' }] },
+  { id: 'bbPercentB', name: 'Bollinger %B', overlay: false, series: [{ field: 'bbPercentB', label: '%B' }], guides: [0, 1] },
+  { id: 'bbBandwidth', name: 'Bollinger Bandwidth %', overlay: false, series: [{ field: 'bbBandwidth', label: 'Width' }] },
+  { id: 'obv', name: 'On-Balance Volume', overlay: false, series: [{ field: 'obv', label: 'OBV' }] },
+  { id: 'mfi', name: 'Money Flow Index (14)', overlay: false, series: [{ field: 'mfi14', label: 'MFI' }], guides: [20, 80] },
+  { id: 'cci', name: 'CCI (20)', overlay: false, series: [{ field: 'cci20', label: 'CCI' }], guides: [-100, 100] },
+  { id: 'williamsR', name: 'Williams %R (14)', overlay: false, series: [{ field: 'williamsR', label: '%R' }], guides: [-80, -20] },
+];
+
+// One session of indicator values; every point carries the requested fields
+export type ChartIndicatorPoint = { t: number } & Partial<Record<ChartIndicatorField, number | null>>;
+
+export interface ChartIndicatorData {
+  fields: ChartIndicatorField[];
+  points: ChartIndicatorPoint[];
+  source: 'db';
+}
+
+// ============================================
+// Candlestick Patterns
+// ============================================
+export type PatternBias = 'bullish' | 'bearish' | 'neutral';
+
+export const CANDLE_PATTERNS = {
+  doji: { label: 'Doji', bias: 'neutral' },
+  hammer: { label: 'Hammer', bias: 'bullish' },
+  shootingStar: { label: 'Shooting Star', bias: 'bearish' },
+  bullishEngulfing: { label: 'Bullish Engulfing', bias: 'bullish' },
+  bearishEngulfing: { label: 'Bearish Engulfing', bias: 'bearish' },
+  morningStar: { label: 'Morning Star', bias: 'bullish' },
+  eveningStar: { label: 'Evening Star', bias: 'bearish' },
+  threeWhiteSoldiers: { label: 'Three White Soldiers', bias: 'bullish' },
+  insideBar: { label: 'Inside Bar', bias: 'neutral' },
+} as const satisfies Record<string, { label: string; bias: PatternBias }>;
+
+export type CandlePattern = keyof typeof CANDLE_PATTERNS;
+
+export const CANDLE_PATTERN_IDS = Object.keys(CANDLE_PATTERNS) as CandlePattern[];
+
+// Sessions searched for each pattern's recency field; older patterns leave it empty
+export const PATTERN_LOOKBACK = 20;
+
+// A pattern completed on a session (the date of its last bar)
+export interface CandlePatternMarker {
+  date: string;
+  pattern: CandlePattern;
 }
 
 // ============================================
@@ -342,6 +494,22 @@ export interface LatestSnapshotData {
   revenueGrowthYoy?: number;
   epsGrowthYoy?: number;
   debtToEquity?: number;
+  // Fundamental scores (from financial statements)
+  piotroskiScore?: number;
+  altmanZScore?: number;
+  beneishMScore?: number;
+  grahamNumber?: number;
+  // Risk & return (from daily prices, see StockIndicators)
+  volatility20?: number;
+  volatility60?: number;
+  volatility252?: number;
+  maxDrawdown?: number;
+  downsideDeviation?: number;
+  sharpeRatio?: number;
+  sortinoRatio?: number;
+  benchmarkBeta?: number;
+  benchmarkCorrelation?: number;
+  riskBenchmark?: string; // Benchmark symbol for beta / correlation
   // Freshness tracking
   dataDate?: string;
   financialsLastSync?: string;
@@ -500,6 +668,47 @@ export interface SyncResult {
   failed?: number;
 }
 
+// Bulk CSV price import: processed counts stored rows, failed rejected lines
+export interface PriceImportReject {
+  source: string;
+  line: number;
+  reason: string;
+}
+
+export interface PriceImportResult extends SyncResult {
+  symbols?: string[]; // Symbols with imported rows
+  createdTickers?: string[]; // Symbols added to the tickers table
+  rejects?: PriceImportReject[]; // The first rejected lines
+}
+
+// Background job queue
+export type JobType = 'snapshot' | 'daily' | 'financials' | 'ratios' | 'dividends' | 'news' | 'logos' | 'yahoo-symbol';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'dead' | 'cancelled';
+
+export interface JobProgress {
+  processed: number;
+  total?: number;
+  lastSymbol: string;
+}
+
+export interface Job {
+  id: number;
+  type: JobType;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  priority: number;
+  attempts: number;
+  maxAttempts: number;
+  dedupeKey?: string;
+  runAt: string; // Next attempt for queued jobs
+  lastError?: string;
+  result?: SyncResult;
+  progress?: JobProgress; // Checkpoint of a running job
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
 // Snapshot data from Massive API
 export interface TickerSnapshot {
   ticker: string;
@@ -582,6 +791,48 @@ export interface StockIndicators {
     signal: number;
     histogram: number;
   };
+  macdHistogram?: number; // Flattened from macd for filtering
+  // Volatility, trend and oscillators
+  bbUpper?: number;
+  bbMiddle?: number;
+  bbLower?: number;
+  bbPercentB?: number; // 0 = lower band, 1 = upper band
+  bbBandwidth?: number; // (upper - lower) / middle, in percent
+  atr14?: number;
+  atrPercent?: number; // ATR as a percent of price
+  stochK?: number;
+  stochD?: number;
+  adx14?: number;
+  plusDi?: number;
+  minusDi?: number;
+  obv?: number;
+  mfi14?: number;
+  cci20?: number;
+  williamsR?: number; // -100 to 0
+  // Candlestick patterns: sessions since each last formed (0 = latest session),
+  // empty when not seen within PATTERN_LOOKBACK sessions
+  dojiAge?: number;
+  hammerAge?: number;
+  shootingStarAge?: number;
+  bullishEngulfingAge?: number;
+  bearishEngulfingAge?: number;
+  morningStarAge?: number;
+  eveningStarAge?: number;
+  threeWhiteSoldiersAge?: number;
+  insideBarAge?: number;
+  // Risk and return, from split-adjusted daily closes (percent values annualised)
+  volatility20?: number;
+  volatility60?: number;
+  volatility252?: number;
+  maxDrawdown?: number; // Worst peak-to-trough decline over 252 sessions, negative percent
+  downsideDeviation?: number;
+  sharpeRatio?: number;
+  sortinoRatio?: number;
+  benchmarkBeta?: number; // Versus RISK_BENCHMARK_SYMBOL over 252 sessions
+  benchmarkCorrelation?: number;
+  // Relative strength, ranked across the universe each night
+  rsRating?: number; // 1-99 percentile of weighted 3/6/9/12-month returns
+  rsVsBenchmark?: number; // 12-month growth of $1 relative to the benchmark (1.2 = 20% ahead)
   // Trading data (from Yahoo)
   fiftyTwoWeekHigh?: number;
   fiftyTwoWeekLow?: number;
@@ -635,6 +886,21 @@ export interface StockIndicators {
   // Ownership
   insidersPercentHeld?: number;
   institutionsPercentHeld?: number;
+  // Fundamental scores
+  piotroskiScore?: number;
+  altmanZScore?: number;
+  beneishMScore?: number;
+  grahamNumber?: number;
+  // Classification (joined from tickers / company_details)
+  sector?: string;
+  industry?: string;
+  sectorKey?: string;
+  primaryExchange?: string;
+  type?: string; // Security type, e.g. CS, ETF, ADRC
+  // Values of ScreenerFilter.columns, keyed by column key
+  computed?: Record<string, number | null>;
+  // Composite score (0-100) when the filter has a score model
+  score?: number;
   // Data freshness (for UI indicators)
   financialsLastSync?: string;
   ratiosLastSync?: string;
@@ -644,20 +910,185 @@ export interface StockIndicators {
 // Screener filter types
 export type FilterOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq' | 'between';
 
+// A stored indicator field, or a parameterised one such as 'sma(10)'
+export type ConditionField = keyof StockIndicators | ParametricField;
+
+// Compare against another field of the same stock, optionally scaled:
+// { field: 'sma50', multiplier: 1.05 } means 1.05 * sma50
+export interface FieldReference {
+  field: ConditionField;
+  multiplier?: number;
+}
+
+export type FilterValue = number | [number, number] | FieldReference;
+
 export interface FilterCondition {
-  field: keyof StockIndicators;
+  field: ConditionField;
+  operator: FilterOperator;
+  value: FilterValue;
+}
+
+export function isFieldReference(value: FilterValue): value is FieldReference {
+  return typeof value === 'object' && !Array.isArray(value);
+}
+
+// Condition on a computed expression instead of a stored field,
+// e.g. { expression: 'volume / averageVolume', operator: 'gt', value: 2 }
+export interface ExpressionCondition {
+  expression: string;
   operator: FilterOperator;
-  value: number | [number, number];
+  value: FilterValue;
+}
+
+export function isExpressionCondition(node: FilterNode): node is ExpressionCondition {
+  return 'expression' in node;
+}
+
+// Categorical (string) conditions, e.g. { field: 'sector', operator: 'in', value: ['Technology'] }.
+// 'contains' matches when any value is a case-insensitive substring.
+export const CATEGORICAL_FIELDS = ['sector', 'industry', 'sectorKey', 'primaryExchange', 'type'] as const;
+
+export type CategoricalField = typeof CATEGORICAL_FIELDS[number];
+export type CategoricalOperator = 'in' | 'not_in' | 'contains';
+
+export interface CategoricalCondition {
+  field: CategoricalField;
+  operator: CategoricalOperator;
+  value: string[];
+}
+
+export function isCategoricalCondition(node: FilterNode): node is CategoricalCondition {
+  return 'operator' in node && (node.operator === 'in' || node.operator === 'not_in' || node.operator === 'contains');
+}
+
+// Time-window conditions evaluated against daily_prices / daily_indicators history,
+// so a signal catches the event rather than a standing state. `days` is the window:
+//   crossed_above / crossed_below - the cross happened within the last `days` sessions
+//   rising_for_n_days / falling_for_n_days - rose (fell) on each of the last `days` sessions
+//   new_n_day_high / new_n_day_low - the latest value is the highest (lowest) of the last `days` sessions
+export const HISTORY_FIELDS = [
+  'price', 'volume', 'changePercent',
+  'rsi14', 'sma20', 'sma50', 'sma200', 'ema12', 'ema26', 'macdHistogram',
+  'bbUpper', 'bbLower', 'bbPercentB', 'bbBandwidth', 'atr14', 'atrPercent',
+  'stochK', 'stochD', 'adx14', 'plusDi', 'minusDi', 'obv', 'mfi14', 'cci20', 'williamsR',
+] as const;
+
+export type HistoryField = typeof HISTORY_FIELDS[number];
+
+export const WINDOW_OPERATORS = [
+  'crossed_above', 'crossed_below',
+  'rising_for_n_days', 'falling_for_n_days',
+  'new_n_day_high', 'new_n_day_low',
+] as const;
+
+export type WindowOperator = typeof WINDOW_OPERATORS[number];
+
+export interface WindowCondition {
+  field: HistoryField;
+  operator: WindowOperator;
+  days: number;
+  value?: number | FieldReference; // Level or series being crossed (crossed_* only)
+}
+
+export function isWindowCondition(node: FilterNode): node is WindowCondition {
+  return 'days' in node;
+}
+
+// Distinct value of a categorical field with the number of matching stocks
+export interface CategoryValueCount {
+  value: string;
+  count: number;
+}
+
+// Extra result column computed from an expression
+export interface ComputedColumn {
+  key: string;
+  label?: string;
+  expression: string;
+}
+
+// Composite scoring: each factor is percentile-ranked (0-1) across the whole
+// universe or within the stock's sector, factors are averaged within their
+// group and groups are combined by weight into a 0-100 score. Missing values
+// are skipped rather than counted as zero.
+export type ScoreRankScope = 'universe' | 'sector';
+
+export interface ScoreFactor {
+  field: ScreenerField;
+  higherIsBetter: boolean;
+}
+
+export interface ScoreFactorGroup {
+  name: string;
+  weight: number; // Relative, e.g. 40 / 30 / 30
+  factors: ScoreFactor[];
+}
+
+export interface ScoreModel {
+  id: string;
+  name: string;
+  description?: string;
+  rankWithin: ScoreRankScope;
+  groups: ScoreFactorGroup[];
+}
+
+// Score model saved by a user (score_models table), shared like saved screens
+export interface SavedScoreModel extends ScoreModel {
+  isPublic: boolean;
+  editToken?: string; // Only in the response that creates the model; needed to update or delete it
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ScoreModelInput = Omit<SavedScoreModel, 'id' | 'editToken' | 'createdAt' | 'updatedAt'>;
+
+// Condition groups combine conditions (or nested groups) with AND/OR,
+// optionally negated. A filter's top-level conditions are always ANDed.
+export type FilterCombinator = 'and' | 'or';
+
+export interface FilterGroup {
+  combinator: FilterCombinator;
+  negate?: boolean;
+  conditions: FilterNode[];
+}
+
+export type FilterNode =
+  | FilterCondition
+  | ExpressionCondition
+  | CategoricalCondition
+  | WindowCondition
+  | FilterGroup;
+
+export function isFilterGroup(node: FilterNode): node is FilterGroup {
+  return 'combinator' in node;
 }
 
 export interface ScreenerFilter {
   id: string;
   name: string;
-  conditions: FilterCondition[];
+  conditions: FilterNode[];
   sortBy?: keyof StockIndicators;
+  sortExpression?: string; // Takes precedence over sortBy
   sortOrder?: 'asc' | 'desc';
+  columns?: ComputedColumn[];
+  // Composite score: a SCORE_MODELS id, a saved model id or an inline model.
+  // Adds StockIndicators.score and allows sortBy: 'score'.
+  scoreModel?: string | ScoreModel;
+  minScore?: number;
+}
+
+// Custom screen saved from the filter builder (filter_presets table). Screens
+// are unlisted unless public; anyone holding the id can open or edit them.
+export interface SavedScreen extends ScreenerFilter {
+  description?: string;
+  isPublic: boolean;
+  editToken?: string; // Only in the response that creates the screen; needed to update or delete it
+  createdAt: string;
+  updatedAt: string;
 }
 
+export type SavedScreenInput = Omit<SavedScreen, 'id' | 'editToken' | 'createdAt' | 'updatedAt'>;
+
 export interface ScreenerResult {
   stocks: StockIndicators[];
   total: number;
@@ -667,6 +1098,110 @@ export interface ScreenerResult {
   timestamp: number;
 }
 
+// ============================================
+// Backtesting
+// ============================================
+// A filter is evaluated "as of" each rebalance session against daily_prices /
+// daily_indicators, and the matched basket is held equal-weighted until the
+// next rebalance. Returns are fractions (0.05 = +5%).
+
+export type RebalanceFrequency = 'daily' | 'weekly' | 'monthly';
+
+// Forward-return horizons, in trading sessions
+export const BACKTEST_HORIZONS = [1, 5, 20, 60] as const;
+
+export interface BacktestRequest {
+  conditions: FilterNode[];
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  rebalance: RebalanceFrequency;
+}
+
+export interface BacktestPeriod {
+  date: string; // Rebalance session
+  endDate: string; // Session the holding period ends
+  matched: number;
+  universe: number;
+  basketReturn: number | null; // null when nothing matched (held in cash)
+  universeReturn: number | null;
+  equity: number; // Growth of 1 at the end of the period
+  benchmarkEquity: number;
+}
+
+export interface ForwardReturnStats {
+  horizon: number;
+  basketReturn: number | null; // Mean across rebalance sessions
+  universeReturn: number | null;
+  excessReturn: number | null;
+  hitRate: number | null; // Share of picks with a positive return
+  observations: number; // Rebalance sessions with data at this horizon
+}
+
+export interface BacktestResult {
+  startDate: string;
+  endDate: string;
+  rebalance: RebalanceFrequency;
+  periods: BacktestPeriod[];
+  forwardReturns: ForwardReturnStats[];
+  totalReturn: number;
+  benchmarkReturn: number;
+  hitRate: number | null; // Share of picks that rose over their holding period
+  maxDrawdown: number; // Worst peak-to-trough decline of the equity curve (<= 0)
+  timestamp: number;
+}
+
+// ============================================
+// Market Breadth
+// ============================================
+
+// Ranges served by /api/market/breadth
+export type BreadthRange = '1M' | '3M' | '6M' | '1Y' | '5Y';
+
+export const BREADTH_RANGES: BreadthRange[] = ['1M', '3M', '6M', '1Y', '5Y'];
+
+// One session of breadth across every stored symbol (market_breadth table)
+export interface MarketBreadthPoint {
+  date: string;
+  advances: number;
+  declines: number;
+  unchanged: number;
+  advanceDeclineLine: number | null; // Cumulative advances - declines
+  newHighs: number; // 52-week (252-session) highs
+  newLows: number;
+  percentAboveSma50: number | null;
+  percentAboveSma200: number | null;
+  mcclellanOscillator: number | null; // EMA19 - EMA39 of ratio-adjusted net advances
+}
+
+export interface MarketBreadthData {
+  range: BreadthRange;
+  points: MarketBreadthPoint[]; // Oldest first
+  latest: MarketBreadthPoint | null;
+}
+
+// ============================================
+// Market Calendar
+// ============================================
+
+// A holiday or early close; close is the local closing time (HH:MM) of a half day
+export interface MarketCalendarDay {
+  date: string;
+  name: string;
+  close?: string;
+}
+
+// Served by /api/market/calendar
+export interface MarketCalendarYear {
+  exchange: string; // MIC, e.g. XNYS
+  name: string;
+  timeZone: string;
+  year: number;
+  open: string; // Regular hours, local HH:MM
+  close: string;
+  holidays: MarketCalendarDay[];
+  earlyCloses: MarketCalendarDay[];
+}
+
 // WebSocket message types
 export type WSMessageType = 
   | 'subscribe'
@@ -715,7 +1250,8 @@ export type PresetCategory =
   | 'momentum'
   | 'fundamentals'
   | 'analysts'
-  | 'quality';
+  | 'quality'
+  | 'rs_leaders';
 
 export interface PresetCategoryInfo {
   id: PresetCategory;
@@ -759,6 +1295,11 @@ export const PRESET_CATEGORIES: PresetCategoryInfo[] = [
     name: 'Analyst Insights',
     description: 'Screens based on analyst ratings, price targets, and coverage',
   },
+  {
+    id: 'rs_leaders',
+    name: 'RS Leaders',
+    description: 'Top relative strength versus the market and the benchmark',
+  },
 ];
 
 // Preset filters
@@ -803,11 +1344,108 @@ export const PRESET_FILTERS: Record<string, PresetFilterMeta> = {
     description: 'Positive MACD histogram indicating bullish momentum',
     category: 'technical',
     conditions: [
+      { field: 'macdHistogram', operator: 'gt', value: 0 },
       { field: 'volume', operator: 'gt', value: 500000 },
     ],
     sortBy: 'changePercent',
     sortOrder: 'desc',
   },
+  bollingerSqueeze: {
+    name: 'Bollinger Squeeze',
+    description: 'Bands narrowed to under 6% of price, often ahead of a breakout',
+    category: 'technical',
+    conditions: [
+      { field: 'bbBandwidth', operator: 'lt', value: 6 },
+      { field: 'price', operator: 'gt', value: 5 },
+      { field: 'volume', operator: 'gt', value: 500000 },
+    ],
+    sortBy: 'bbBandwidth',
+    sortOrder: 'asc',
+  },
+  adxStrongTrend: {
+    name: 'ADX Strong Uptrend',
+    description: 'ADX above 25 with +DI leading -DI',
+    category: 'technical',
+    conditions: [
+      { field: 'adx14', operator: 'gt', value: 25 },
+      { field: 'plusDi', operator: 'gt', value: { field: 'minusDi' } },
+      { field: 'volume', operator: 'gt', value: 300000 },
+    ],
+    sortBy: 'adx14',
+    sortOrder: 'desc',
+  },
+  stochasticOversold: {
+    name: 'Stochastic Oversold',
+    description: '%K below 20 and crossing above %D',
+    category: 'technical',
+    conditions: [
+      { field: 'stochK', operator: 'lt', value: 20 },
+      { field: 'stochK', operator: 'crossed_above', value: { field: 'stochD' }, days: 3 },
+      { field: 'volume', operator: 'gt', value: 200000 },
+    ],
+    sortBy: 'stochK',
+    sortOrder: 'asc',
+  },
+  moneyFlowOverbought: {
+    name: 'Money Flow Overbought',
+    description: 'MFI above 80 with Williams %R near the period high',
+    category: 'technical',
+    conditions: [
+      { field: 'mfi14', operator: 'gt', value: 80 },
+      { field: 'williamsR', operator: 'gt', value: -20 },
+      { field: 'volume', operator: 'gt', value: 300000 },
+    ],
+    sortBy: 'mfi14',
+    sortOrder: 'desc',
+  },
+  highVolatility: {
+    name: 'High Volatility',
+    description: 'Average true range above 5% of price',
+    category: 'price_volume',
+    conditions: [
+      { field: 'atrPercent', operator: 'gt', value: 5 },
+      { field: 'price', operator: 'gt', value: 5 },
+      { field: 'volume', operator: 'gt', value: 500000 },
+    ],
+    sortBy: 'atrPercent',
+    sortOrder: 'desc',
+  },
+  bullishReversalPattern: {
+    name: 'Bullish Reversal Pattern',
+    description: 'Bullish engulfing, hammer or morning star in the last 3 sessions',
+    category: 'technical',
+    conditions: [
+      {
+        combinator: 'or',
+        conditions: [
+          { field: 'bullishEngulfingAge', operator: 'lte', value: 2 },
+          { field: 'hammerAge', operator: 'lte', value: 2 },
+          { field: 'morningStarAge', operator: 'lte', value: 2 },
+        ],
+      },
+      { field: 'volume', operator: 'gt', value: 300000 },
+    ],
+    sortBy: 'volume',
+    sortOrder: 'desc',
+  },
+  bearishReversalPattern: {
+    name: 'Bearish Reversal Pattern',
+    description: 'Bearish engulfing, shooting star or evening star in the last 3 sessions',
+    category: 'technical',
+    conditions: [
+      {
+        combinator: 'or',
+        conditions: [
+          { field: 'bearishEngulfingAge', operator: 'lte', value: 2 },
+          { field: 'shootingStarAge', operator: 'lte', value: 2 },
+          { field: 'eveningStarAge', operator: 'lte', value: 2 },
+        ],
+      },
+      { field: 'volume', operator: 'gt', value: 300000 },
+    ],
+    sortBy: 'volume',
+    sortOrder: 'desc',
+  },
 
   // Moving Averages
   goldenCross: {
@@ -815,6 +1453,8 @@ export const PRESET_FILTERS: Record<string, PresetFilterMeta> = {
     description: 'Price above SMA50 which is above SMA200',
     category: 'moving_averages',
     conditions: [
+      { field: 'price', operator: 'gt', value: { field: 'sma50' } },
+      { field: 'sma50', operator: 'gt', value: { field: 'sma200' } },
       { field: 'volume', operator: 'gt', value: 200000 },
     ],
     sortBy: 'changePercent',
@@ -825,6 +1465,8 @@ export const PRESET_FILTERS: Record<string, PresetFilterMeta> = {
     description: 'Price below SMA50 which is below SMA200',
     category: 'moving_averages',
     conditions: [
+      { field: 'price', operator: 'lt', value: { field: 'sma50' } },
+      { field: 'sma50', operator: 'lt', value: { field: 'sma200' } },
       { field: 'volume', operator: 'gt', value: 200000 },
     ],
     sortBy: 'changePercent',
@@ -835,6 +1477,7 @@ export const PRESET_FILTERS: Record<string, PresetFilterMeta> = {
     description: 'Stocks trading above their 200-day moving average',
     category: 'moving_averages',
     conditions: [
+      { field: 'price', operator: 'gt', value: { field: 'sma200' } },
       { field: 'volume', operator: 'gt', value: 100000 },
     ],
     sortBy: 'changePercent',
@@ -845,6 +1488,7 @@ export const PRESET_FILTERS: Record<string, PresetFilterMeta> = {
     description: 'Stocks trading below their 200-day moving average',
     category: 'moving_averages',
     conditions: [
+      { field: 'price', operator: 'lt', value: { field: 'sma200' } },
       { field: 'volume', operator: 'gt', value: 100000 },
     ],
     sortBy: 'changePercent',
@@ -852,9 +1496,10 @@ export const PRESET_FILTERS: Record<string, PresetFilterMeta> = {
   },
   emaCrossover: {
     name: 'EMA 12/26 Bullish',
-    description: 'EMA12 crossing above EMA26',
+    description: 'EMA12 crossed above EMA26 in the last 3 sessions',
     category: 'moving_averages',
     conditions: [
+      { field: 'ema12', operator: 'crossed_above', value: { field: 'ema26' }, days: 3 },
       { field: 'volume', operator: 'gt', value: 300000 },
     ],
     sortBy: 'changePercent',
@@ -947,6 +1592,8 @@ export const PRESET_FILTERS: Record<string, PresetFilterMeta> = {
     description: 'Stocks in a confirmed uptrend above key averages',
     category: 'momentum',
     conditions: [
+      { field: 'price', operator: 'gt', value: { field: 'sma50' } },
+      { field: 'price', operator: 'gt', value: { field: 'sma200' } },
       { field: 'changePercent', operator: 'gt', value: 0 },
       { field: 'volume', operator: 'gt', value: 100000 },
     ],
@@ -958,6 +1605,8 @@ export const PRESET_FILTERS: Record<string, PresetFilterMeta> = {
     description: 'Stocks in a confirmed downtrend below key averages',
     category: 'momentum',
     conditions: [
+      { field: 'price', operator: 'lt', value: { field: 'sma50' } },
+      { field: 'price', operator: 'lt', value: { field: 'sma200' } },
       { field: 'changePercent', operator: 'lt', value: 0 },
       { field: 'volume', operator: 'gt', value: 100000 },
     ],
@@ -965,6 +1614,43 @@ export const PRESET_FILTERS: Record<string, PresetFilterMeta> = {
     sortOrder: 'asc',
   },
 
+  // Relative Strength
+  rsLeaders: {
+    name: 'RS Leaders',
+    description: 'RS rating 90+, outperforming 90% of the universe',
+    category: 'rs_leaders',
+    conditions: [
+      { field: 'rsRating', operator: 'gte', value: 90 },
+      { field: 'volume', operator: 'gt', value: 300000 },
+    ],
+    sortBy: 'rsRating',
+    sortOrder: 'desc',
+  },
+  rsLeadersInUptrend: {
+    name: 'RS Leaders in Uptrend',
+    description: 'RS rating 80+ trading above the 50 and 200-day SMAs',
+    category: 'rs_leaders',
+    conditions: [
+      { field: 'rsRating', operator: 'gte', value: 80 },
+      { field: 'price', operator: 'gt', value: { field: 'sma50' } },
+      { field: 'sma50', operator: 'gt', value: { field: 'sma200' } },
+      { field: 'volume', operator: 'gt', value: 300000 },
+    ],
+    sortBy: 'rsRating',
+    sortOrder: 'desc',
+  },
+  beatingBenchmark: {
+    name: 'Beating the Benchmark',
+    description: '12-month performance at least 20% ahead of the benchmark',
+    category: 'rs_leaders',
+    conditions: [
+      { field: 'rsVsBenchmark', operator: 'gte', value: 1.2 },
+      { field: 'volume', operator: 'gt', value: 300000 },
+    ],
+    sortBy: 'rsVsBenchmark',
+    sortOrder: 'desc',
+  },
+
   // Fundamentals
   valueStocks: {
     name: 'Value Stocks',
@@ -1070,11 +1756,13 @@ export const PRESET_FILTERS: Record<string, PresetFilterMeta> = {
     description: 'Target price significantly above current price',
     category: 'analysts',
     conditions: [
+      { field: 'targetMeanPrice', operator: 'gt', value: { field: 'price', multiplier: 1.2 } },
       { field: 'numberOfAnalysts', operator: 'gte', value: 3 },
       { field: 'marketCap', operator: 'gt', value: 500000000 },
     ],
-    sortBy: 'targetMeanPrice',
+    sortExpression: 'targetMeanPrice / price - 1',
     sortOrder: 'desc',
+    columns: [{ key: 'upside', label: 'Upside', expression: '(targetMeanPrice / price - 1) * 100' }],
   },
   wellCovered: {
     name: 'High Analyst Coverage',
@@ -1092,11 +1780,13 @@ export const PRESET_FILTERS: Record<string, PresetFilterMeta> = {
     description: 'Trading below analyst mean target with buy rating',
     category: 'analysts',
     conditions: [
+      { field: 'price', operator: 'lt', value: { field: 'targetMeanPrice' } },
       { field: 'recommendationMean', operator: 'lte', value: 2.5 },
       { field: 'numberOfAnalysts', operator: 'gte', value: 3 },
     ],
-    sortBy: 'recommendationMean',
-    sortOrder: 'asc',
+    sortExpression: 'targetMeanPrice / price - 1',
+    sortOrder: 'desc',
+    columns: [{ key: 'upside', label: 'Upside', expression: '(targetMeanPrice / price - 1) * 100' }],
   },
 
   // Quality & Income
@@ -1162,11 +1852,11 @@ export const PRESET_FILTERS: Record<string, PresetFilterMeta> = {
     description: 'Beta <0.8, less volatile than market',
     category: 'quality',
     conditions: [
-      { field: 'beta', operator: 'lt', value: 0.8 },
-      { field: 'beta', operator: 'gt', value: 0 },
+      { field: 'benchmarkBeta', operator: 'lt', value: 0.8 },
+      { field: 'benchmarkBeta', operator: 'gt', value: 0 },
       { field: 'marketCap', operator: 'gt', value: 1000000000 },
     ],
-    sortBy: 'beta',
+    sortBy: 'benchmarkBeta',
     sortOrder: 'asc',
   },
   highBeta: {
@@ -1174,10 +1864,10 @@ export const PRESET_FILTERS: Record<string, PresetFilterMeta> = {
     description: 'Beta >1.5, more volatile for active traders',
     category: 'momentum',
     conditions: [
-      { field: 'beta', operator: 'gt', value: 1.5 },
+      { field: 'benchmarkBeta', operator: 'gt', value: 1.5 },
       { field: 'volume', operator: 'gt', value: 500000 },
     ],
-    sortBy: 'beta',
+    sortBy: 'benchmarkBeta',
     sortOrder: 'desc',
   },
   shortSqueeze: {
@@ -1197,21 +1887,77 @@ export const PRESET_FILTERS: Record<string, PresetFilterMeta> = {
     description: 'Trading near 52-week low, potential bounce',
     category: 'price_volume',
     conditions: [
+      { field: 'fiftyTwoWeekLow', operator: 'gt', value: 0 },
+      { field: 'price', operator: 'lte', value: { field: 'fiftyTwoWeekLow', multiplier: 1.1 } },
       { field: 'volume', operator: 'gt', value: 500000 },
       { field: 'marketCap', operator: 'gt', value: 500000000 },
     ],
-    sortBy: 'changePercent',
+    sortExpression: 'price / fiftyTwoWeekLow - 1',
     sortOrder: 'asc',
+    columns: [{ key: 'fromLow', label: 'From 52W Low', expression: '(price / fiftyTwoWeekLow - 1) * 100' }],
   },
   near52WeekHigh: {
     name: 'Near 52W High',
     description: 'Trading near 52-week high, showing strength',
     category: 'price_volume',
     conditions: [
+      { field: 'fiftyTwoWeekHigh', operator: 'gt', value: 0 },
+      { field: 'price', operator: 'gte', value: { field: 'fiftyTwoWeekHigh', multiplier: 0.95 } },
       { field: 'volume', operator: 'gt', value: 500000 },
       { field: 'changePercent', operator: 'gt', value: 0 },
     ],
-    sortBy: 'changePercent',
+    sortExpression: '1 - price / fiftyTwoWeekHigh',
+    sortOrder: 'asc',
+    columns: [{ key: 'fromHigh', label: 'From 52W High', expression: '(price / fiftyTwoWeekHigh - 1) * 100' }],
+  },
+  // Composite Scores
+  qvmLeaders: {
+    name: 'QVM Leaders',
+    description: 'Top quality / value / momentum composite scores',
+    category: 'quality',
+    conditions: [
+      { field: 'marketCap', operator: 'gt', value: 2000000000 },
+    ],
+    scoreModel: 'qualityValueMomentum',
+    minScore: 70,
+    sortBy: 'score',
+    sortOrder: 'desc',
+  },
+  sectorValueLeaders: {
+    name: 'Sector Value Leaders',
+    description: 'Cheapest stocks relative to their sector peers',
+    category: 'fundamentals',
+    conditions: [
+      { field: 'marketCap', operator: 'gt', value: 1000000000 },
+      { field: 'peRatio', operator: 'gt', value: 0 },
+    ],
+    scoreModel: 'sectorValue',
+    minScore: 80,
+    sortBy: 'score',
+    sortOrder: 'desc',
+  },
+  piotroskiStrong: {
+    name: 'Piotroski Strong',
+    description: 'F-Score of 8+ with a healthy Altman Z-Score',
+    category: 'quality',
+    conditions: [
+      { field: 'piotroskiScore', operator: 'gte', value: 8 },
+      { field: 'altmanZScore', operator: 'gt', value: 3 },
+    ],
+    sortBy: 'piotroskiScore',
+    sortOrder: 'desc',
+  },
+  belowGrahamNumber: {
+    name: 'Below Graham Number',
+    description: 'Trading below the Graham Number fair value ceiling',
+    category: 'fundamentals',
+    conditions: [
+      { field: 'grahamNumber', operator: 'gt', value: 0 },
+      { field: 'price', operator: 'lt', value: { field: 'grahamNumber' } },
+      { field: 'beneishMScore', operator: 'lt', value: -1.78 },
+    ],
+    columns: [{ key: 'discount', label: 'Discount', expression: '(1 - price / grahamNumber) * 100' }],
+    sortBy: 'grahamNumber',
     sortOrder: 'desc',
   },
 };
@@ -1222,3 +1968,78 @@ export function getPresetsByCategory(category: PresetCategory): Array<{ id: stri
     .filter(([_, preset]) => preset.category === category)
     .map(([id, preset]) => ({ id, ...preset }));
 }
+
+// Built-in score models, referenced by id from ScreenerFilter.scoreModel
+export const SCORE_MODELS: Record<string, Omit<ScoreModel, 'id'>> = {
+  qualityValueMomentum: {
+    name: 'Quality / Value / Momentum',
+    description: '40% value, 30% quality, 30% momentum',
+    rankWithin: 'universe',
+    groups: [
+      {
+        name: 'Value',
+        weight: 40,
+        factors: [
+          { field: 'peRatio', higherIsBetter: false },
+          { field: 'evToEbitda', higherIsBetter: false },
+        ],
+      },
+      {
+        name: 'Quality',
+        weight: 30,
+        factors: [
+          { field: 'roe', higherIsBetter: true },
+          { field: 'grossMargin', higherIsBetter: true },
+        ],
+      },
+      {
+        name: 'Momentum',
+        weight: 30,
+        factors: [
+          { field: 'changePercent', higherIsBetter: true },
+          { field: 'rsi14', higherIsBetter: true },
+        ],
+      },
+    ],
+  },
+  sectorValue: {
+    name: 'Sector-Relative Value',
+    description: 'Cheapest stocks compared with their own sector',
+    rankWithin: 'sector',
+    groups: [
+      {
+        name: 'Value',
+        weight: 100,
+        factors: [
+          { field: 'peRatio', higherIsBetter: false },
+          { field: 'pbRatio', higherIsBetter: false },
+          { field: 'psRatio', higherIsBetter: false },
+          { field: 'evToEbitda', higherIsBetter: false },
+        ],
+      },
+    ],
+  },
+  growthQuality: {
+    name: 'Growth at Quality',
+    description: '60% growth, 40% profitability',
+    rankWithin: 'universe',
+    groups: [
+      {
+        name: 'Growth',
+        weight: 60,
+        factors: [
+          { field: 'revenueGrowthYoy', higherIsBetter: true },
+          { field: 'epsGrowthYoy', higherIsBetter: true },
+        ],
+      },
+      {
+        name: 'Profitability',
+        weight: 40,
+        factors: [
+          { field: 'operatingMargin', higherIsBetter: true },
+          { field: 'roa', higherIsBetter: true },
+        ],
+      },
+    ],
+  },
+};